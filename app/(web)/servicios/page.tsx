@@ -2,53 +2,36 @@
  * ============================================================
  * PÁGINA - SERVICIOS (Pública)
  * ============================================================
- * 
- * Lista de servicios que ofrece la barbería.
- * Accesible sin login.
- * 
- * TODO: Cargar servicios desde la API (cuando tengas el servicio creado)
+ *
+ * Catálogo de servicios activos (servicioService.getAllActive vía
+ * useServicios), agrupado por categoría (la que trae cada servicio;
+ * los sin categoría al final), y los paquetes (combos a precio
+ * propio) al inicio. Cada tarjeta lleva a /reservar con ese
+ * servicio o paquete ya elegido. Accesible sin login.
  */
 
-import Link from 'next/link';
-import { Clock, DollarSign } from 'lucide-react';
+'use client';
 
-// Servicios de ejemplo (después los cargarás del API)
-const serviciosEjemplo = [
-  {
-    id: 1,
-    nombre: 'Corte Clásico',
-    descripcion: 'Corte tradicional con máquina y tijeras',
-    duracion: 30,
-    precio: 15.00,
-    categoria: 'Corte de Cabello',
-  },
-  {
-    id: 2,
-    nombre: 'Corte Moderno',
-    descripcion: 'Corte actual con diseño personalizado',
-    duracion: 45,
-    precio: 25.00,
-    categoria: 'Corte de Cabello',
-  },
-  {
-    id: 3,
-    nombre: 'Barba',
-    descripcion: 'Perfilado y arreglo de barba profesional',
-    duracion: 20,
-    precio: 10.00,
-    categoria: 'Barba',
-  },
-  {
-    id: 4,
-    nombre: 'Corte + Barba',
-    descripcion: 'Combo completo de corte de cabello y arreglo de barba',
-    duracion: 50,
-    precio: 30.00,
-    categoria: 'Combos',
-  },
-];
+import Link from 'next/link';
+import { ArrowRight, Clock, Package, Scissors } from 'lucide-react';
+import { usePaquetes, useServicios } from '@/lib/hooks';
+import {
+  agruparPorCategoria,
+  getAhorroPaquete,
+  getDuracionPaquete,
+  getNombreServicios,
+  getUrlReservarPaquete,
+  getUrlReservarServicio,
+  NOMBRE_SIN_CATEGORIA,
+} from '@/lib/utils';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import { UploadedImage } from '@/components/ui';
 
 export default function ServiciosPublicPage() {
+  const { servicios, loading, error, refetch } = useServicios();
+  const { paquetes } = usePaquetes();
+  const grupos = agruparPorCategoria(servicios);
+
   return (
     <div className="bg-gray-50 min-h-screen">
       {/* Header */}
@@ -61,40 +44,142 @@ export default function ServiciosPublicPage() {
         </div>
       </section>
 
-      {/* Lista de servicios */}
+      {/* Lista de servicios por categoría */}
       <section className="py-16">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {serviciosEjemplo.map((servicio) => (
-              <div
-                key={servicio.id}
-                className="bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow p-6"
-              >
-                <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded">
-                  {servicio.categoria}
-                </span>
-                <h3 className="text-xl font-semibold text-gray-900 mt-3">
-                  {servicio.nombre}
-                </h3>
-                <p className="text-gray-600 text-sm mt-2">
-                  {servicio.descripcion}
-                </p>
-                <div className="flex items-center justify-between mt-4 pt-4 border-t">
-                  <div className="flex items-center text-gray-500 text-sm">
-                    <Clock className="w-4 h-4 mr-1" />
-                    <span>{servicio.duracion} min</span>
-                  </div>
-                  <div className="flex items-center text-lg font-bold text-gray-900">
-                    <DollarSign className="w-4 h-4" />
-                    <span>{servicio.precio.toFixed(2)}</span>
-                  </div>
-                </div>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-12">
+          {loading && (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-center py-8">
+              <p className="text-gray-600">No pudimos cargar los servicios.</p>
+              <button onClick={refetch} className="mt-2 text-blue-600 hover:underline">
+                Reintentar
+              </button>
+            </div>
+          )}
+
+          {/* Paquetes: solo si hay alguno activo */}
+          {!loading && paquetes.length > 0 && (
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">Paquetes</h2>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {paquetes.map((paquete) => {
+                  const ahorro = getAhorroPaquete(paquete);
+                  return (
+                    <Link
+                      key={paquete.id}
+                      href={getUrlReservarPaquete(paquete.id)}
+                      className="group bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow overflow-hidden flex flex-col"
+                    >
+                      {paquete.imagen ? (
+                        <UploadedImage
+                          src={paquete.imagen}
+                          alt={paquete.nombre}
+                          className="h-44 w-full"
+                        />
+                      ) : (
+                        <div className="h-44 bg-blue-50 flex items-center justify-center">
+                          <Package className="w-12 h-12 text-blue-200" />
+                        </div>
+                      )}
+                      <div className="p-6 flex-1 flex flex-col">
+                        <h3 className="text-xl font-semibold text-gray-900">
+                          {paquete.nombre}
+                        </h3>
+                        <p className="text-sm text-blue-600 mt-1">
+                          Incluye: {getNombreServicios(paquete.servicios)}
+                        </p>
+                        {paquete.descripcion && (
+                          <p className="text-gray-600 text-sm mt-2 mb-4">
+                            {paquete.descripcion}
+                          </p>
+                        )}
+                        <div className="flex items-center justify-between mt-auto pt-4 border-t">
+                          <div className="flex items-center text-gray-500 text-sm">
+                            <Clock className="w-4 h-4 mr-1" />
+                            <span>{formatDuracion(getDuracionPaquete(paquete))}</span>
+                          </div>
+                          <div className="text-right">
+                            {ahorro > 0 && (
+                              <p className="text-xs font-medium text-green-600">
+                                Ahorras {formatPrecio(ahorro)}
+                              </p>
+                            )}
+                            <span className="text-lg font-bold text-gray-900">
+                              {formatPrecio(paquete.precio)}
+                            </span>
+                          </div>
+                        </div>
+                        <span className="mt-4 inline-flex items-center text-sm font-medium text-blue-600 group-hover:underline">
+                          Reservar este paquete
+                          <ArrowRight className="w-4 h-4 ml-1" />
+                        </span>
+                      </div>
+                    </Link>
+                  );
+                })}
               </div>
-            ))}
-          </div>
+            </div>
+          )}
+
+          {grupos.map((grupo) => (
+            <div key={grupo.categoria?.id ?? 'sin-categoria'}>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">
+                {grupo.categoria?.nombre ?? NOMBRE_SIN_CATEGORIA}
+              </h2>
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {grupo.servicios.map((servicio) => (
+                  <Link
+                    key={servicio.id}
+                    href={getUrlReservarServicio(servicio.id)}
+                    className="group bg-white rounded-xl shadow-sm hover:shadow-md transition-shadow overflow-hidden flex flex-col"
+                  >
+                    {servicio.imagen ? (
+                      <UploadedImage
+                        src={servicio.imagen}
+                        alt={servicio.nombre}
+                        className="h-44 w-full"
+                      />
+                    ) : (
+                      <div className="h-44 bg-blue-50 flex items-center justify-center">
+                        <Scissors className="w-12 h-12 text-blue-200" />
+                      </div>
+                    )}
+                    <div className="p-6 flex-1 flex flex-col">
+                      <h3 className="text-xl font-semibold text-gray-900">
+                        {servicio.nombre}
+                      </h3>
+                      {servicio.descripcion && (
+                        <p className="text-gray-600 text-sm mt-2 mb-4">
+                          {servicio.descripcion}
+                        </p>
+                      )}
+                      <div className="flex items-center justify-between mt-auto pt-4 border-t">
+                        <div className="flex items-center text-gray-500 text-sm">
+                          <Clock className="w-4 h-4 mr-1" />
+                          <span>{formatDuracion(servicio.duracionMinutos)}</span>
+                        </div>
+                        <span className="text-lg font-bold text-gray-900">
+                          {formatPrecio(servicio.precio)}
+                        </span>
+                      </div>
+                      <span className="mt-4 inline-flex items-center text-sm font-medium text-blue-600 group-hover:underline">
+                        Reservar este servicio
+                        <ArrowRight className="w-4 h-4 ml-1" />
+                      </span>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))}
 
           {/* CTA */}
-          <div className="text-center mt-12">
+          <div className="text-center">
             <Link
               href="/reservar"
               className="inline-flex items-center bg-blue-600 text-white px-8 py-3 rounded-lg font-medium hover:bg-blue-700 transition-colors"
@@ -0,0 +1,123 @@
+/**
+ * ============================================================
+ * API PÚBLICA - FEED DE CALENDARIO POR PROFESIONAL (.ics)
+ * ============================================================
+ * Calendario suscribible con las próximas reservas de un profesional.
+ * Se agrega en Google Calendar / Apple Calendar como "Suscribirse por URL":
+ *
+ *   GET /api/public/calendario/5?token=<token del calendario>
+ *
+ * El token NO es la sesión del dashboard: es un token restringido (solo
+ * lectura, de un profesional) que emite el backend y se puede regenerar
+ * para revocar el anterior (profesionalService.getTokenCalendario). Se
+ * reenvía al backend (Authorization: Bearer), así que el feed solo
+ * muestra lo que ese token puede leer. La ubicación de los
+ * eventos es la dirección del negocio (GET /negocio) y su duración la
+ * del profesional (GET /profesionales/{id}/servicios).
+ *
+ * NOTA: Importa directo de los archivos de utils (no del barrel)
+ * porque el barrel incluye módulos que solo funcionan en el navegador.
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { envConfig } from '@/lib/config/env.config';
+import { negocioConfig } from '@/lib/config/negocio.config';
+import { generarCalendarioIcs, getNegocioIcs } from '@/lib/utils/ics';
+import { ocupaHorario } from '@/lib/utils/disponibilidad';
+import { dayjs, toLocalDateTimeEnZona } from '@/lib/utils/dates';
+import type {
+  ApiPaginatedResponse,
+  ApiResponse,
+  Negocio,
+  Reserva,
+  ServicioProfesional,
+} from '@/lib/types';
+
+// Días hacia adelante incluidos en el feed
+const DIAS_FEED = 60;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ profesionalId: string }> }
+) {
+  const { profesionalId } = await params;
+  const id = Number(profesionalId);
+  const token = request.nextUrl.searchParams.get('token');
+
+  if (!Number.isInteger(id) || id <= 0) {
+    return new NextResponse('Profesional inválido', { status: 400 });
+  }
+
+  if (!token) {
+    return new NextResponse('Falta el token del calendario', { status: 401 });
+  }
+
+  // Próximas reservas del profesional (desde hoy en el local, no en el servidor)
+  const hoy = dayjs(toLocalDateTimeEnZona(new Date(), negocioConfig.zonaHoraria));
+  const url = new URL(`${envConfig.apiUrl}/reservas`);
+  url.searchParams.set('profesionalId', String(id));
+  url.searchParams.set('fechaInicio', hoy.format('YYYY-MM-DD'));
+  url.searchParams.set('fechaFin', hoy.add(DIAS_FEED, 'day').format('YYYY-MM-DD'));
+  url.searchParams.set('size', '500');
+  url.searchParams.set('sort', 'fechaHora,asc');
+
+  let reservas: Reserva[];
+  let negocio: Negocio | null;
+  let serviciosProfesional: ServicioProfesional[] | undefined;
+
+  try {
+    const [response, respuestaNegocio, respuestaServicios] = await Promise.all([
+      fetch(url, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: 'no-store',
+      }),
+      // Sin datos del negocio el feed sale igual (con los de negocioConfig)
+      fetch(`${envConfig.apiUrl}/negocio`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: 'no-store',
+      }).catch(() => null),
+      // Sin overrides se usa la duración base de cada servicio
+      fetch(`${envConfig.apiUrl}/profesionales/${id}/servicios`, {
+        headers: { Authorization: `Bearer ${token}` },
+        cache: 'no-store',
+      }).catch(() => null),
+    ]);
+
+    if (response.status === 401 || response.status === 403) {
+      return new NextResponse('Token inválido o revocado', { status: 401 });
+    }
+    if (!response.ok) {
+      return new NextResponse('No se pudo obtener la agenda', { status: 502 });
+    }
+
+    const data = (await response.json()) as ApiPaginatedResponse<Reserva>;
+    reservas = data.content.filter(ocupaHorario);
+    negocio = respuestaNegocio?.ok
+      ? ((await respuestaNegocio.json().catch(() => null)) as Negocio | null)
+      : null;
+    serviciosProfesional = respuestaServicios?.ok
+      ? ((await respuestaServicios.json().catch(() => null)) as ApiResponse<ServicioProfesional[]> | null)?.data
+      : undefined;
+  } catch {
+    return new NextResponse('No se pudo conectar con el servidor', { status: 502 });
+  }
+
+  const datosNegocio = getNegocioIcs(negocio);
+  const nombreProfesional = reservas[0]?.profesional.nombreCompleto;
+  const ics = generarCalendarioIcs(reservas, {
+    nombre: nombreProfesional
+      ? `${datosNegocio.nombre} - ${nombreProfesional}`
+      : datosNegocio.nombre,
+    negocio: datosNegocio,
+    serviciosPorProfesional: serviciosProfesional ? { [id]: serviciosProfesional } : {},
+  });
+
+  return new NextResponse(ics, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="agenda-${id}.ics"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================
+ * API PÚBLICA - PANTALLA DE SALA DE ESPERA (TV)
+ * ============================================================
+ * Datos de la TV del local: quién se atiende con cada profesional,
+ * quién sigue y la cola de clientes sin reserva.
+ *
+ *   GET /api/public/pantalla?key=<clave de la pantalla>
+ *
+ * La clave es un token restringido (solo lectura, de un negocio) que
+ * emite el backend. Se reenvía al backend (Authorization: Bearer), así
+ * que la TV no necesita sesión del dashboard. La respuesta pasa por
+ * armarPantalla: solo nombres abreviados, sin teléfonos ni emails.
+ *
+ * "Hoy" y "ahora" son los del local (negocioConfig.zonaHoraria), no
+ * los del reloj del servidor.
+ *
+ * NOTA: Importa directo de los archivos de utils (no del barrel)
+ * porque el barrel incluye módulos que solo funcionan en el navegador.
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { envConfig } from '@/lib/config/env.config';
+import { negocioConfig } from '@/lib/config/negocio.config';
+import { armarPantalla } from '@/lib/utils/pantalla';
+import { toLocalDateTimeEnZona } from '@/lib/utils/dates';
+import type { ApiResponse, EntradaCola, Profesional, Reserva } from '@/lib/types';
+
+/** Error de autorización del backend (para cortar con 401) */
+class ClaveInvalidaError extends Error {}
+
+export async function GET(request: NextRequest) {
+  const key = request.nextUrl.searchParams.get('key');
+
+  if (!key) {
+    return NextResponse.json({ message: 'Falta la clave de la pantalla' }, { status: 401 });
+  }
+
+  const getBackend = async <T>(path: string): Promise<T> => {
+    const response = await fetch(`${envConfig.apiUrl}${path}`, {
+      headers: { Authorization: `Bearer ${key}` },
+      cache: 'no-store',
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new ClaveInvalidaError();
+    }
+    if (!response.ok) {
+      throw new Error(`${path}: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  };
+
+  try {
+    const ahora = new Date();
+    const hoy = toLocalDateTimeEnZona(ahora, negocioConfig.zonaHoraria).slice(0, 10);
+    const [profesionales, reservas, cola] = await Promise.all([
+      getBackend<ApiResponse<Profesional[]>>('/profesionales'),
+      getBackend<Reserva[]>(`/reservas/fecha/${hoy}`),
+      getBackend<EntradaCola[]>('/cola-espera?estado=ESPERANDO'),
+    ]);
+
+    const pantalla = armarPantalla({
+      negocio: negocioConfig.datosNegocio.nombre,
+      profesionales: profesionales.data || [],
+      reservas,
+      cola,
+      ahora,
+      zonaHoraria: negocioConfig.zonaHoraria,
+    });
+
+    return NextResponse.json(pantalla, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (err) {
+    if (err instanceof ClaveInvalidaError) {
+      return NextResponse.json({ message: 'Clave inválida o revocada' }, { status: 401 });
+    }
+    return NextResponse.json({ message: 'No se pudo obtener la información' }, { status: 502 });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * ============================================================
+ * API - SUBIDA DE IMÁGENES (reemplazo local para desarrollo)
+ * ============================================================
+ * Imita POST /uploads del backend guardando los archivos en
+ * public/uploads/{carpeta}/, que Next sirve como estáticos:
+ *
+ *   POST /api/uploads  (multipart: archivo, carpeta)
+ *   → { url: '/uploads/servicios/ab12....webp', nombre, tamano, tipo }
+ *
+ * Se activa con NEXT_PUBLIC_UPLOADS_URL=/api (ver env.config).
+ * Solo responde en desarrollo: en producción las imágenes van al
+ * backend. El middleware solo protege /dashboard, así que la sesión
+ * (cookie auth_token) se exige aquí: sin ella responde 401.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { envConfig } from '@/lib/config/env.config';
+import { nombreConExtension, MAX_MB_IMAGEN_SUBIDA, TIPOS_IMAGEN_PERMITIDOS } from '@/lib/utils/imagenes';
+import type { ApiError, ArchivoSubido, CarpetaUpload } from '@/lib/types';
+
+const CARPETAS: CarpetaUpload[] = ['servicios', 'paquetes', 'negocio'];
+
+// Misma cookie que lee middleware.ts
+const AUTH_COOKIE = 'auth_token';
+
+function error(status: number, message: string) {
+  return NextResponse.json<Partial<ApiError>>({ message, status }, { status });
+}
+
+export async function POST(request: NextRequest) {
+  if (!envConfig.isDev) {
+    return error(404, 'La subida local solo está disponible en desarrollo');
+  }
+
+  if (!request.cookies.get(AUTH_COOKIE)?.value) {
+    return error(401, 'Inicia sesión para subir imágenes');
+  }
+
+  const formData = await request.formData().catch(() => null);
+  const archivo = formData?.get('archivo');
+  const carpeta = formData?.get('carpeta') as CarpetaUpload | null;
+
+  if (!(archivo instanceof File)) {
+    return error(400, 'Falta el archivo');
+  }
+  if (!carpeta || !CARPETAS.includes(carpeta)) {
+    return error(400, 'Carpeta inválida');
+  }
+  if (!TIPOS_IMAGEN_PERMITIDOS.includes(archivo.type)) {
+    return error(400, 'Formato no permitido. Usa JPG, PNG o WEBP');
+  }
+  if (archivo.size > MAX_MB_IMAGEN_SUBIDA * 1024 * 1024) {
+    return error(400, `La imagen no puede pesar más de ${MAX_MB_IMAGEN_SUBIDA} MB`);
+  }
+
+  // Nombre propio: evita choques y rutas armadas con el nombre del cliente
+  const nombre = nombreConExtension(randomUUID(), archivo.type);
+  const directorio = path.join(process.cwd(), 'public', 'uploads', carpeta);
+  await mkdir(directorio, { recursive: true });
+  await writeFile(path.join(directorio, nombre), Buffer.from(await archivo.arrayBuffer()));
+
+  return NextResponse.json<ArchivoSubido>(
+    {
+      url: `/uploads/${carpeta}/${nombre}`,
+      nombre: archivo.name,
+      tamano: archivo.size,
+      tipo: archivo.type,
+    },
+    { status: 201 }
+  );
+}
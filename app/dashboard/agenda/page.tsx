@@ -0,0 +1,330 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - AGENDA (Dashboard)
+ * ============================================================
+ *
+ * Vista calendario para recepción:
+ * - Día: una columna por profesional
+ * - Semana: los 7 días, cada uno con una columna por profesional
+ * - Filas según el HorarioProfesional de cada uno
+ * - Bloques de reserva coloreados por EstadoReserva
+ * - Click en un bloque → detalle de la reserva
+ * - Arrastrar un bloque → reprogramar (permiso UPDATE_BOOKING)
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAgenda } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  cn,
+  dayjs,
+  showSuccess,
+  showError,
+  formatFechaHora,
+  getFechaHoraDestino,
+  getNombreServicios,
+  getPrecioReserva,
+  getServiciosReserva,
+  moverFechaAgenda,
+  toISODate,
+  type DestinoReserva,
+  type VistaAgenda,
+} from '@/lib/utils';
+import { ESTADO_RESERVA_LABELS, formatPrecio } from '@/lib/types';
+import type { ApiError, EstadoReserva, Reserva } from '@/lib/types';
+import { Modal, EstadoReservaBadge, ESTADO_RESERVA_ESTILOS } from '@/components/ui';
+import { AgendaGrid } from '@/components/agenda';
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Loader2,
+} from 'lucide-react';
+
+const ESTADOS = Object.keys(ESTADO_RESERVA_LABELS) as EstadoReserva[];
+
+const VISTAS: { value: VistaAgenda; label: string }[] = [
+  { value: 'dia', label: 'Día' },
+  { value: 'semana', label: 'Semana' },
+];
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function AgendaPage() {
+  const [fecha, setFecha] = useState(() => toISODate(new Date()));
+  const [vista, setVista] = useState<VistaAgenda>('dia');
+  // Filtro de profesional (útil en la vista semana: 7 × N columnas)
+  const [profesionalId, setProfesionalId] = useState<number | null>(null);
+  const [selectedReserva, setSelectedReserva] = useState<Reserva | null>(null);
+
+  const {
+    dias,
+    profesionales,
+    horariosPorProfesional,
+    excepcionesPorProfesional,
+    serviciosPorProfesional,
+    reservas,
+    loading,
+    error,
+    refetch,
+    moverReserva,
+  } = useAgenda(fecha, vista);
+
+  // RBAC: solo quien puede editar reservas puede arrastrarlas
+  const { hasPermission } = useAuth();
+  const canUpdate = hasPermission('UPDATE_BOOKING');
+
+  const profesionalesVisibles = profesionalId
+    ? profesionales.filter((p) => p.id === profesionalId)
+    : profesionales;
+
+  // ============================================================
+  // REPROGRAMAR ARRASTRANDO
+  // ============================================================
+  const handleReservaMove = async (reserva: Reserva, destino: DestinoReserva) => {
+    try {
+      await moverReserva(reserva, destino);
+      showSuccess(`Reserva de ${reserva.clienteNombre} movida al ${formatFechaHora(getFechaHoraDestino(destino))}`);
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (apiError.status === 409) {
+        // Otro usuario ocupó ese horario: recargar para ver la agenda real
+        showError('Ese horario ya no está disponible');
+        refetch();
+      } else {
+        showError(apiError.message || 'No se pudo mover la reserva');
+      }
+    }
+  };
+
+  // Título del período visible
+  const titulo = vista === 'dia'
+    ? dayjs(fecha).format('dddd D [de] MMMM YYYY')
+    : `${dayjs(dias[0]).format('D MMM')} – ${dayjs(dias[dias.length - 1]).format('D MMM YYYY')}`;
+
+  const controlClass = `px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+    bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm
+    focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors`;
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <CalendarDays className="text-blue-600" />
+            Agenda
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1 capitalize">{titulo}</p>
+        </div>
+
+        {/* Botón Recargar */}
+        <button
+          onClick={refetch}
+          disabled={loading}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title="Recargar agenda"
+        >
+          <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* ========== CONTROLES ========== */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap items-center gap-3">
+        {/* Día / Semana */}
+        <div className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+          {VISTAS.map((v) => (
+            <button
+              key={v.value}
+              onClick={() => setVista(v.value)}
+              className={cn(
+                'px-4 py-2 text-sm font-medium transition-colors',
+                vista === v.value
+                  ? 'bg-blue-600 text-white'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              )}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Navegación */}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setFecha(moverFechaAgenda(fecha, vista, -1))}
+            className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Anterior"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <button
+            onClick={() => setFecha(toISODate(new Date()))}
+            className="px-3 py-2 text-sm font-medium rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Hoy
+          </button>
+          <button
+            onClick={() => setFecha(moverFechaAgenda(fecha, vista, 1))}
+            className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Siguiente"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        <input
+          type="date"
+          value={fecha}
+          onChange={(e) => e.target.value && setFecha(e.target.value)}
+          className={controlClass}
+        />
+
+        <select
+          value={profesionalId ?? ''}
+          onChange={(e) => setProfesionalId(e.target.value ? Number(e.target.value) : null)}
+          className={controlClass}
+        >
+          <option value="">Todos los profesionales</option>
+          {profesionales.map((p) => (
+            <option key={p.id} value={p.id}>{p.nombreCompleto}</option>
+          ))}
+        </select>
+
+        {/* Leyenda de colores */}
+        <div className="flex flex-wrap gap-2 sm:ml-auto">
+          {ESTADOS.map((estado) => (
+            <span
+              key={estado}
+              className={cn('px-2 py-0.5 text-xs font-medium rounded-full', ESTADO_RESERVA_ESTILOS[estado])}
+            >
+              {ESTADO_RESERVA_LABELS[estado]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar la agenda</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== AGENDA ========== */}
+      {!error && (
+        <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow">
+          {loading && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center bg-white/60 dark:bg-gray-800/60">
+              <Loader2 size={32} className="animate-spin text-blue-600" />
+            </div>
+          )}
+
+          {!loading && profesionalesVisibles.length === 0 ? (
+            <div className="p-8 text-center">
+              <CalendarDays size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+              <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+                No hay profesionales
+              </h3>
+              <p className="mt-2 text-gray-600 dark:text-gray-400">
+                Registra profesionales para ver su agenda
+              </p>
+            </div>
+          ) : (
+            <AgendaGrid
+              dias={dias}
+              profesionales={profesionalesVisibles}
+              horariosPorProfesional={horariosPorProfesional}
+              excepcionesPorProfesional={excepcionesPorProfesional}
+              serviciosPorProfesional={serviciosPorProfesional}
+              reservas={reservas.filter((r) => !profesionalId || r.profesional.id === profesionalId)}
+              onReservaClick={setSelectedReserva}
+              onReservaMove={canUpdate ? handleReservaMove : undefined}
+              className="max-h-[70vh] overflow-y-auto"
+            />
+          )}
+        </div>
+      )}
+
+      {/* ========== MODAL: DETALLE ========== */}
+      <Modal
+        isOpen={!!selectedReserva}
+        onClose={() => setSelectedReserva(null)}
+        title="Detalle de la Reserva"
+        size="md"
+      >
+        {selectedReserva && (
+          <div className="space-y-4">
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-3 text-sm">
+              <dt className="text-gray-500 dark:text-gray-400">Estado</dt>
+              <dd className="col-span-2"><EstadoReservaBadge estado={selectedReserva.estado} /></dd>
+
+              <dt className="text-gray-500 dark:text-gray-400">Fecha y hora</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-white">{formatFechaHora(selectedReserva.fechaHora)}</dd>
+
+              <dt className="text-gray-500 dark:text-gray-400">Cliente</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-white">
+                {selectedReserva.clienteNombre} · {selectedReserva.clienteTelefono}
+              </dd>
+
+              <dt className="text-gray-500 dark:text-gray-400">Servicios</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-white">
+                {getNombreServicios(getServiciosReserva(selectedReserva))}
+              </dd>
+
+              <dt className="text-gray-500 dark:text-gray-400">Profesional</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-white">{selectedReserva.profesional.nombreCompleto}</dd>
+
+              <dt className="text-gray-500 dark:text-gray-400">Total</dt>
+              <dd className="col-span-2 text-gray-900 dark:text-white">
+                {formatPrecio(
+                  getPrecioReserva(selectedReserva, serviciosPorProfesional[selectedReserva.profesional.id])
+                )}
+              </dd>
+
+              {selectedReserva.motivoEstado && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Motivo</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-white">{selectedReserva.motivoEstado}</dd>
+                </>
+              )}
+
+              {selectedReserva.notas && (
+                <>
+                  <dt className="text-gray-500 dark:text-gray-400">Notas</dt>
+                  <dd className="col-span-2 text-gray-900 dark:text-white">{selectedReserva.notas}</dd>
+                </>
+              )}
+            </dl>
+
+            <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Link
+                href="/dashboard/reservas"
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Gestionar en Reservas
+              </Link>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -2,12 +2,12 @@
 
 import { useState, useMemo, useCallback } from "react"; //hooks de react, useState para manejar estado, useMemo para memorizar valores y useCallback para memorizar funciones
 import { createColumnHelper } from "@tanstack/react-table"; //funcion para crear columnas de una tabla tanstack
-import { useCategorias } from "@/lib/hooks"; //hook personalizado para manejar categorias
+import { useCategorias, useServicios } from "@/lib/hooks"; //hooks personalizados para manejar categorias y servicios
 import { useAuth } from "@/lib/context"; // Hook para verificar permisos
 import { DataTable, SearchInput } from '@/components/ui'; //componente de tabla reutilizable
 import { Modal, ConfirmModal } from "@/components/ui/modal";
 import { CategoriaForm } from "@/components/forms";
-import { exportToPDF, exportToExcel, isValidationError } from "@/lib/utils";
+import { exportToPDF, exportToExcel, isValidationError, contarServiciosPorCategoria } from "@/lib/utils";
 import type { Categoria, CategoriaRequest, ApiError } from "@/lib/types";
 import { showSuccess, showError } from '@/lib/utils';//showSuccess y showError para mostrar notificaciones
 import {
@@ -35,6 +35,10 @@ export default function CategoriasPage() {
     deleteCategoria,
   } = useCategorias();
 
+  // Servicios activos de cada categoría (cada servicio trae su categoría)
+  const { servicios } = useServicios();
+  const serviciosPorCategoria = useMemo(() => contarServiciosPorCategoria(servicios), [servicios]);
+
   // ============================================================
   // RBAC: Verificar permisos del usuario
   // ============================================================
@@ -76,6 +80,18 @@ export default function CategoriasPage() {
         header: "Descripción",
         cell: (info) => <span className="font-mono">{info.getValue()}</span>,
       }),
+      columnHelper.display({
+        id: "servicios",
+        header: "Servicios",
+        cell: (info) => {
+          const cantidad = serviciosPorCategoria[info.row.original.id] ?? 0;
+          return (
+            <span className={cantidad ? "font-medium" : "text-gray-400 dark:text-gray-500"}>
+              {cantidad} {cantidad === 1 ? "servicio" : "servicios"}
+            </span>
+          );
+        },
+      }),
       columnHelper.accessor("estado", {
         header: "Estado",
         cell: (info) => (<span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
@@ -120,7 +136,7 @@ export default function CategoriasPage() {
         }),
       ] : []),
     ],
-    [canUpdate, canDelete],
+    [canUpdate, canDelete, serviciosPorCategoria],
   );
 
   // Buscar (el componente envía el query, si está vacío lista todos)
@@ -215,12 +231,14 @@ export default function CategoriasPage() {
   const exportColumns = [
     { header: "Nombre", accessorKey: "nombre" },
     { header: "Descripción", accessorKey: "descripcion" },
+    { header: "Servicios", accessorKey: "servicios" },
     { header: "Estado", accessorKey: "estado" },
   ];
 
   const handleExportExcel = () => {
     const processedCategorias = categorias.map((categoria) => ({
       ...categoria,//esto copia todas las propiedades de la categoría original
+      servicios: serviciosPorCategoria[categoria.id] ?? 0,
       estado: categoria.estado ? "Activo" : "Inactivo",
     }));
     exportToExcel(processedCategorias, exportColumns, "categorias.xlsx");
@@ -228,6 +246,7 @@ export default function CategoriasPage() {
   const handleExportPDF = () => {
     const processedCategorias = categorias.map((categoria) => ({
       ...categoria,//esto copia todas las propiedades de la categoría original
+      servicios: serviciosPorCategoria[categoria.id] ?? 0,
       estado: categoria.estado ? "Activo" : "Inactivo",
     }));
     exportToPDF(processedCategorias, exportColumns, "categorias.pdf");
@@ -360,7 +379,11 @@ export default function CategoriasPage() {
         onClose={() => setShowDeleteModal(false)}
         onConfirm={handleConfirmDelete}
         title="Eliminar Categoría"
-        message={`¿Estás seguro de que deseas eliminar la categoría "${selectedCategoria?.nombre}"? Esta acción no se puede deshacer.`}
+        message={
+          selectedCategoria && serviciosPorCategoria[selectedCategoria.id]
+            ? `La categoría "${selectedCategoria.nombre}" tiene ${serviciosPorCategoria[selectedCategoria.id]} servicio(s), que quedarán sin categoría. ¿Deseas eliminarla?`
+            : `¿Estás seguro de que deseas eliminar la categoría "${selectedCategoria?.nombre}"? Esta acción no se puede deshacer.`
+        }
         confirmText="Eliminar"
         cancelText="Cancelar"
         variant="danger"
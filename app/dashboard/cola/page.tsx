@@ -0,0 +1,460 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - COLA DE ESPERA (Dashboard)
+ * ============================================================
+ *
+ * Pantalla de recepción para el día:
+ * - Espera estimada con cada profesional (reservas de hoy + cola)
+ * - Clientes sin reserva esperando: agregar, atender (se convierte
+ *   en Reserva EN_PROGRESO) o retirar
+ * - Clientes con reserva que llegan: check-in (pasa a EN_PROGRESO)
+ * - Se refresca sola (ver useColaEspera)
+ */
+
+import { useState } from 'react';
+import { useColaEspera, useServicios } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  showSuccess,
+  showError,
+  isValidationError,
+  formatHora,
+  getNombreServicios,
+  getServiciosReserva,
+  puedeAtenderEntrada,
+  PERMISO_TRANSICION,
+} from '@/lib/utils';
+import { formatDuracion } from '@/lib/types';
+import type { ApiError, CreateEntradaColaDto, EntradaCola, Reserva } from '@/lib/types';
+import { Modal, ConfirmModal, EstadoReservaBadge } from '@/components/ui';
+import { EntradaColaForm } from '@/components/forms';
+import {
+  ListOrdered,
+  Plus,
+  RefreshCw,
+  UserCheck,
+  Scissors,
+  X,
+  Clock,
+} from 'lucide-react';
+
+/** Duración asumida si aún no cargan los servicios */
+const DURACION_POR_DEFECTO = 30;
+
+/** "Ahora" o "25 min" */
+function formatEspera(minutos: number): string {
+  return minutos <= 0 ? 'Ahora' : formatDuracion(minutos);
+}
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ColaEsperaPage() {
+  const { servicios } = useServicios();
+
+  // Servicio con el que se estima la espera de un cliente nuevo
+  const [servicioEstimacionId, setServicioEstimacionId] = useState<number | null>(null);
+  const servicioEstimacion = servicios.find((s) => s.id === servicioEstimacionId) ?? servicios[0];
+  const duracionNuevoCliente = servicioEstimacion?.duracionMinutos ?? DURACION_POR_DEFECTO;
+
+  const {
+    entradas,
+    profesionales,
+    serviciosPorProfesional,
+    reservas,
+    estimacion,
+    loading,
+    error,
+    refetch,
+    agregar,
+    retirar,
+    atender,
+    checkIn,
+  } = useColaEspera(duracionNuevoCliente);
+
+  // ============================================================
+  // RBAC
+  // ============================================================
+  const { hasPermission } = useAuth();
+  const canGestionarCola = hasPermission('CREATE_BOOKING');
+  const puedeCheckIn = (reserva: Reserva) =>
+    hasPermission(PERMISO_TRANSICION.EN_PROGRESO) &&
+    (reserva.estado === 'CONFIRMADA' || hasPermission(PERMISO_TRANSICION.CONFIRMADA));
+
+  // Estados para modales y acciones
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [entradaARetirar, setEntradaARetirar] = useState<EntradaCola | null>(null);
+  // Profesional elegido a mano para atender cada entrada (si no, el estimado)
+  const [profesionalElegido, setProfesionalElegido] = useState<Record<number, number>>({});
+  const [procesandoId, setProcesandoId] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // Clientes con reserva que aún no llegan (hoy)
+  const llegadas = reservas
+    .filter((r) => r.estado === 'PENDIENTE' || r.estado === 'CONFIRMADA')
+    .sort((a, b) => a.fechaHora.localeCompare(b.fechaHora));
+  const enAtencion = reservas.filter((r) => r.estado === 'EN_PROGRESO');
+
+  // Solo quienes ofrecen todos los servicios que pidió
+  const getCandidatos = (entrada: EntradaCola) =>
+    profesionales.filter((p) => puedeAtenderEntrada(entrada, serviciosPorProfesional[p.id]));
+
+  const getProfesionalParaAtender = (entrada: EntradaCola): number | undefined =>
+    profesionalElegido[entrada.id]
+    ?? estimacion.porEntrada[entrada.id]?.profesionalId
+    ?? entrada.profesionalPreferido?.id
+    ?? getCandidatos(entrada)[0]?.id;
+
+  // ============================================================
+  // HANDLERS
+  // ============================================================
+  const handleCloseFormModal = () => {
+    setShowFormModal(false);
+    setServerError(null);
+  };
+
+  const handleAgregar = async (data: CreateEntradaColaDto) => {
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      await agregar(data);
+      showSuccess(`${data.clienteNombre} agregado a la cola`);
+      handleCloseFormModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al agregar a la cola');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAtender = async (entrada: EntradaCola) => {
+    const profesionalId = getProfesionalParaAtender(entrada);
+    if (!profesionalId) return;
+
+    setProcesandoId(entrada.id);
+    try {
+      await atender(entrada, profesionalId);
+      const profesional = profesionales.find((p) => p.id === profesionalId);
+      showSuccess(`${entrada.clienteNombre} pasa con ${profesional?.nombreCompleto ?? 'el profesional'}`);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(
+        apiError.status === 409
+          ? 'El profesional está ocupado en este momento'
+          : apiError.message || 'Error al atender al cliente'
+      );
+    } finally {
+      setProcesandoId(null);
+    }
+  };
+
+  const handleConfirmRetirar = async () => {
+    if (!entradaARetirar) return;
+    setIsSubmitting(true);
+
+    try {
+      await retirar(entradaARetirar.id);
+      showSuccess(`${entradaARetirar.clienteNombre} salió de la cola`);
+      setEntradaARetirar(null);
+    } catch (err) {
+      showError((err as ApiError).message || 'Error al retirar de la cola');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCheckIn = async (reserva: Reserva) => {
+    setProcesandoId(reserva.id);
+    try {
+      await checkIn(reserva);
+      showSuccess(`${reserva.clienteNombre} está siendo atendido`);
+    } catch (err) {
+      showError((err as ApiError).message || 'Error al registrar la llegada');
+    } finally {
+      setProcesandoId(null);
+    }
+  };
+
+  const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow';
+  const cardTitleClass = 'text-lg font-semibold text-gray-900 dark:text-white';
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <ListOrdered className="text-blue-600" />
+            Cola de espera
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Clientes sin reserva y llegadas de hoy
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            title="Recargar"
+          >
+            <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          {canGestionarCola && (
+            <button
+              onClick={() => setShowFormModal(true)}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg
+                hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={20} />
+              <span className="hidden sm:inline">Agregar Cliente</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar la cola</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== ESPERA POR PROFESIONAL ========== */}
+      <section className={`${cardClass} p-4`}>
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h2 className={cardTitleClass}>Espera para un cliente nuevo</h2>
+          {servicios.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              Servicio:
+              <select
+                value={servicioEstimacion?.id ?? ''}
+                onChange={(e) => setServicioEstimacionId(Number(e.target.value))}
+                className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg
+                  bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm
+                  focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                {servicios.map((s) => (
+                  <option key={s.id} value={s.id}>{s.nombre}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          {profesionales.map((prof) => {
+            const espera = estimacion.porProfesional[prof.id];
+            const libre = espera?.esperaMinutos === 0;
+
+            return (
+              <div
+                key={prof.id}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+              >
+                <p className="font-medium text-gray-900 dark:text-white truncate">{prof.nombreCompleto}</p>
+                {espera?.esperaMinutos == null ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">No atiende más hoy</p>
+                ) : (
+                  <p className={`text-sm mt-1 flex items-center gap-1 ${libre ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
+                    <Clock size={14} />
+                    {libre ? 'Libre ahora' : `${formatEspera(espera.esperaMinutos)} (${espera.hora})`}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* ========== EN ESPERA ========== */}
+        <section className={`${cardClass} lg:col-span-2`}>
+          <h2 className={`${cardTitleClass} px-4 pt-4`}>En espera ({entradas.length})</h2>
+
+          {entradas.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400">
+              No hay clientes esperando
+            </p>
+          ) : (
+            <ol className="divide-y divide-gray-200 dark:divide-gray-700">
+              {entradas.map((entrada, i) => {
+                const espera = estimacion.porEntrada[entrada.id];
+                const estimado = profesionales.find((p) => p.id === espera?.profesionalId);
+
+                return (
+                  <li key={entrada.id} className="p-4 flex flex-wrap items-center gap-4">
+                    <span className="w-8 h-8 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400
+                      flex items-center justify-center font-bold shrink-0">
+                      {i + 1}
+                    </span>
+
+                    <div className="flex-1 min-w-48">
+                      <p className="font-medium text-gray-900 dark:text-white">{entrada.clienteNombre}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {getNombreServicios(entrada.servicios)} · llegó {formatHora(entrada.horaLlegada)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        {espera?.esperaMinutos == null
+                          ? 'Sin hueco hoy'
+                          : `${formatEspera(espera.esperaMinutos)} · ${estimado?.nombreCompleto ?? ''} a las ${espera.hora}`}
+                        {entrada.profesionalPreferido && ' (lo pidió)'}
+                      </p>
+                    </div>
+
+                    {canGestionarCola && (
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={getProfesionalParaAtender(entrada) ?? ''}
+                          onChange={(e) => setProfesionalElegido((prev) => ({
+                            ...prev,
+                            [entrada.id]: Number(e.target.value),
+                          }))}
+                          className="px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg
+                            bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm
+                            focus:ring-2 focus:ring-blue-500 outline-none"
+                          title="Profesional que lo atiende"
+                        >
+                          {getCandidatos(entrada).length === 0 && (
+                            <option value="">Nadie ofrece estos servicios</option>
+                          )}
+                          {getCandidatos(entrada).map((p) => (
+                            <option key={p.id} value={p.id}>{p.nombreCompleto}</option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleAtender(entrada)}
+                          disabled={procesandoId === entrada.id || !getProfesionalParaAtender(entrada)}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg
+                            hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                          <Scissors size={14} />
+                          Atender
+                        </button>
+                        <button
+                          onClick={() => setEntradaARetirar(entrada)}
+                          className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          title="Se fue sin ser atendido"
+                        >
+                          <X size={16} />
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </section>
+
+        {/* ========== LLEGADAS CON RESERVA ========== */}
+        <section className={cardClass}>
+          <h2 className={`${cardTitleClass} px-4 pt-4`}>Llegadas con reserva</h2>
+
+          {llegadas.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400">
+              No quedan reservas por llegar hoy
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {llegadas.map((reserva) => (
+                <li key={reserva.id} className="p-4 flex items-center gap-3">
+                  <span className="font-mono text-sm font-semibold text-blue-600 dark:text-blue-400">
+                    {formatHora(reserva.fechaHora)}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{reserva.clienteNombre}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {getNombreServicios(getServiciosReserva(reserva))} · {reserva.profesional.nombreCompleto}
+                    </p>
+                  </div>
+                  {puedeCheckIn(reserva) ? (
+                    <button
+                      onClick={() => handleCheckIn(reserva)}
+                      disabled={procesandoId === reserva.id}
+                      className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg border border-green-600
+                        text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20
+                        disabled:opacity-50 transition-colors"
+                      title="El cliente llegó"
+                    >
+                      <UserCheck size={14} />
+                      Llegó
+                    </button>
+                  ) : (
+                    <EstadoReservaBadge estado={reserva.estado} />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {enAtencion.length > 0 && (
+            <div className="border-t border-gray-200 dark:border-gray-700 p-4">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">En atención</p>
+              <ul className="space-y-1 text-sm text-gray-600 dark:text-gray-400">
+                {enAtencion.map((r) => (
+                  <li key={r.id}>
+                    {r.clienteNombre} · {r.profesional.nombreCompleto}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      </div>
+
+      {/* ========== MODAL: AGREGAR WALK-IN ========== */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={handleCloseFormModal}
+        title="Agregar a la Cola"
+        size="lg"
+      >
+        <EntradaColaForm
+          profesionales={profesionales}
+          servicios={servicios}
+          onSubmit={handleAgregar}
+          onCancel={handleCloseFormModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: RETIRAR ========== */}
+      <ConfirmModal
+        isOpen={!!entradaARetirar}
+        onClose={() => setEntradaARetirar(null)}
+        onConfirm={handleConfirmRetirar}
+        title="Retirar de la Cola"
+        message={`¿"${entradaARetirar?.clienteNombre}" se fue sin ser atendido?`}
+        confirmText="Retirar"
+        cancelText="Volver"
+        variant="warning"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - COMISIONES (reporte de pagos a profesionales)
+ * ============================================================
+ *
+ * - Período (desde / hasta): por defecto el mes en curso
+ * - Total a pagar por profesional sobre sus reservas COMPLETADAS
+ *   (cálculo en lib/utils/comisiones.ts)
+ * - Detalle por profesional: cada servicio atendido con su regla
+ * - Reglas de comisión de cada profesional (porcentaje o monto fijo,
+ *   general o por servicio) en un modal
+ * - Exportación a PDF y Excel del reporte y del detalle
+ * - RBAC: ver con READ_COMMISSIONS, editar reglas con UPDATE_COMMISSIONS
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { createColumnHelper } from '@tanstack/react-table';
+import { useComisiones, useProfesionales, useServicios } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  dayjs,
+  showSuccess,
+  showError,
+  isValidationError,
+  formatFecha,
+  formatFechaHora,
+  formatReglaComision,
+  exportToPDF,
+  exportToExcel,
+} from '@/lib/utils';
+import { formatPrecio } from '@/lib/types';
+import { DataTable } from '@/components/ui';
+import { Modal } from '@/components/ui/modal';
+import { ReglasComisionForm } from '@/components/forms';
+import type {
+  ApiError,
+  Profesional,
+  ReglaComisionDto,
+  ResumenComisionProfesional,
+} from '@/lib/types';
+import {
+  AlertTriangle,
+  Eye,
+  FileSpreadsheet,
+  FileText,
+  Percent,
+  RefreshCw,
+  Wallet,
+} from 'lucide-react';
+
+// ============================================================
+// COLUMN HELPER PARA LA TABLA
+// ============================================================
+const columnHelper = createColumnHelper<ResumenComisionProfesional>();
+
+/** Fila en cero para los profesionales sin servicios en el período */
+const resumenVacio = (profesional: Profesional): ResumenComisionProfesional => ({
+  profesionalId: profesional.id,
+  profesionalNombre: profesional.nombreCompleto,
+  citas: 0,
+  servicios: 0,
+  totalVendido: 0,
+  totalComision: 0,
+  serviciosSinRegla: 0,
+});
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ComisionesPage() {
+  // Período: mes en curso
+  const [desde, setDesde] = useState(() => dayjs().startOf('month').format('YYYY-MM-DD'));
+  const [hasta, setHasta] = useState(() => dayjs().endOf('month').format('YYYY-MM-DD'));
+
+  const { reglas, lineas, resumen, loading, error, refetch, guardarReglas } = useComisiones(desde, hasta);
+  const { profesionales } = useProfesionales();
+  const { servicios } = useServicios();
+
+  // ============================================================
+  // RBAC: Verificar permisos del usuario
+  // ============================================================
+  const { hasPermission } = useAuth();
+
+  const canEdit = hasPermission('UPDATE_COMMISSIONS');
+
+  // Estados para modales
+  const [profesionalReglas, setProfesionalReglas] = useState<Profesional | null>(null);
+  const [profesionalDetalle, setProfesionalDetalle] = useState<ResumenComisionProfesional | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // Todos los profesionales (aunque no tengan servicios en el período)
+  // y los que ya no están en la lista pero sí tienen servicios
+  const filas = useMemo(() => [
+    ...profesionales.map((p) => resumen.find((r) => r.profesionalId === p.id) ?? resumenVacio(p)),
+    ...resumen.filter((r) => !profesionales.some((p) => p.id === r.profesionalId)),
+  ], [profesionales, resumen]);
+
+  const totalComision = filas.reduce((total, fila) => total + fila.totalComision, 0);
+  const totalVendido = filas.reduce((total, fila) => total + fila.totalVendido, 0);
+
+  // Texto de las reglas del profesional: "40 % · 2 por servicio"
+  const getResumenReglas = useCallback((profesionalId: number) => {
+    const propias = reglas.filter((r) => r.profesionalId === profesionalId);
+    const general = propias.find((r) => r.servicioId == null) ?? null;
+    const porServicio = propias.length - (general ? 1 : 0);
+    return porServicio > 0
+      ? `${formatReglaComision(general)} · ${porServicio} por servicio`
+      : formatReglaComision(general);
+  }, [reglas]);
+
+  // Reservas sin el precio que se cobró: sus importes usan los precios actuales
+  const hayEstimados = lineas.some((l) => l.precioEstimado);
+
+  const lineasDetalle = profesionalDetalle
+    ? lineas.filter((l) => l.profesionalId === profesionalDetalle.profesionalId)
+    : [];
+
+  // ============================================================
+  // HANDLERS DE MODALES
+  // ============================================================
+
+  const handleEditReglas = useCallback((profesionalId: number) => {
+    const profesional = profesionales.find((p) => p.id === profesionalId);
+    if (profesional) setProfesionalReglas(profesional);
+  }, [profesionales]);
+
+  const handleCloseReglasModal = () => {
+    setProfesionalReglas(null);
+    setServerError(null);
+  };
+
+  // ============================================================
+  // DEFINICIÓN DE COLUMNAS
+  // ============================================================
+  const columns = useMemo(() => [
+    columnHelper.accessor('profesionalNombre', {
+      header: 'Profesional',
+      cell: (info) => <span className="font-medium">{info.getValue()}</span>,
+    }),
+    columnHelper.display({
+      id: 'reglas',
+      header: 'Comisión',
+      cell: (info) => (
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {getResumenReglas(info.row.original.profesionalId)}
+        </span>
+      ),
+    }),
+    columnHelper.accessor('citas', {
+      header: 'Citas',
+    }),
+    columnHelper.accessor('servicios', {
+      header: 'Servicios',
+      cell: (info) => (
+        <span>
+          {info.getValue()}
+          {info.row.original.serviciosSinRegla > 0 && (
+            <span
+              className="ml-1 text-xs text-amber-600 dark:text-amber-400"
+              title="Servicios sin regla de comisión"
+            >
+              ({info.row.original.serviciosSinRegla} sin regla)
+            </span>
+          )}
+        </span>
+      ),
+    }),
+    columnHelper.accessor('totalVendido', {
+      header: 'Vendido',
+      cell: (info) => formatPrecio(info.getValue()),
+    }),
+    columnHelper.accessor('totalComision', {
+      header: 'A pagar',
+      cell: (info) => <span className="font-semibold">{formatPrecio(info.getValue())}</span>,
+    }),
+    columnHelper.display({
+      id: 'actions',
+      header: 'Acciones',
+      cell: (info) => (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setProfesionalDetalle(info.row.original)}
+            disabled={info.row.original.servicios === 0}
+            className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40 transition-colors"
+            title="Ver detalle"
+          >
+            <Eye size={16} />
+          </button>
+          {canEdit && (
+            <button
+              onClick={() => handleEditReglas(info.row.original.profesionalId)}
+              className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              title="Reglas de comisión"
+            >
+              <Percent size={16} />
+            </button>
+          )}
+        </div>
+      ),
+    }),
+  ], [canEdit, getResumenReglas, handleEditReglas]);
+
+  // ============================================================
+  // HANDLERS DE REGLAS
+  // ============================================================
+
+  const handleReglasSubmit = async (nuevas: ReglaComisionDto[]) => {
+    if (!profesionalReglas) return;
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      await guardarReglas(profesionalReglas.id, nuevas);
+      showSuccess(`Reglas de ${profesionalReglas.nombreCompleto} actualizadas`);
+      handleCloseReglasModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario (no cerrar modal)
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar las reglas');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // HANDLERS DE EXPORTACIÓN
+  // ============================================================
+
+  const periodo = `${formatFecha(desde)} al ${formatFecha(hasta)}`;
+
+  const exportColumns = [
+    { header: 'Profesional', accessorKey: 'profesional' },
+    { header: 'Comisión', accessorKey: 'reglas' },
+    { header: 'Citas', accessorKey: 'citas' },
+    { header: 'Servicios', accessorKey: 'servicios' },
+    { header: 'Vendido', accessorKey: 'vendido' },
+    { header: 'A pagar', accessorKey: 'comision' },
+  ];
+
+  // Filas planas para exportar (con la fila de total al final)
+  const exportData = [
+    ...filas.map((f) => ({
+      profesional: f.profesionalNombre,
+      reglas: getResumenReglas(f.profesionalId),
+      citas: f.citas,
+      servicios: f.servicios,
+      vendido: formatPrecio(f.totalVendido),
+      comision: formatPrecio(f.totalComision),
+    })),
+    {
+      profesional: 'TOTAL',
+      reglas: '',
+      citas: filas.reduce((total, f) => total + f.citas, 0),
+      servicios: filas.reduce((total, f) => total + f.servicios, 0),
+      vendido: formatPrecio(totalVendido),
+      comision: formatPrecio(totalComision),
+    },
+  ];
+
+  const handleExportExcel = () => {
+    exportToExcel(exportData, exportColumns, `comisiones-${desde}-${hasta}`);
+  };
+
+  const handleExportPDF = () => {
+    exportToPDF(exportData, exportColumns, `comisiones-${desde}-${hasta}`, `Comisiones del ${periodo}`);
+  };
+
+  const detalleColumns = [
+    { header: 'Fecha', accessorKey: 'fecha' },
+    { header: 'Cliente', accessorKey: 'cliente' },
+    { header: 'Servicio', accessorKey: 'servicio' },
+    { header: 'Precio', accessorKey: 'precio' },
+    { header: 'Regla', accessorKey: 'regla' },
+    { header: 'Comisión', accessorKey: 'comision' },
+  ];
+
+  const detalleData = lineasDetalle.map((l) => ({
+    fecha: formatFechaHora(l.fechaHora),
+    cliente: l.clienteNombre,
+    servicio: l.servicioNombre,
+    precio: `${formatPrecio(l.precio)}${l.precioEstimado ? ' *' : ''}`,
+    regla: formatReglaComision(l.regla),
+    comision: formatPrecio(l.comision),
+  }));
+
+  const handleExportDetalle = (formato: 'excel' | 'pdf') => {
+    if (!profesionalDetalle) return;
+    const archivo = `comisiones-${profesionalDetalle.profesionalNombre}-${desde}-${hasta}`;
+    if (formato === 'excel') {
+      exportToExcel(detalleData, detalleColumns, archivo);
+    } else {
+      exportToPDF(
+        detalleData,
+        detalleColumns,
+        archivo,
+        `Comisiones de ${profesionalDetalle.profesionalNombre} (${periodo})`
+      );
+    }
+  };
+
+  const controlClass = `px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+    bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm
+    focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors`;
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Wallet className="text-blue-600" />
+            Comisiones
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Lo que corresponde a cada profesional por sus citas completadas
+          </p>
+        </div>
+
+        {/* Botón Recargar */}
+        <button
+          onClick={refetch}
+          disabled={loading}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title="Recargar"
+        >
+          <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* ========== PERÍODO Y TOTALES ========== */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Desde</label>
+            <input
+              type="date"
+              value={desde}
+              max={hasta}
+              onChange={(e) => e.target.value && setDesde(e.target.value)}
+              className={controlClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hasta</label>
+            <input
+              type="date"
+              value={hasta}
+              min={desde}
+              onChange={(e) => e.target.value && setHasta(e.target.value)}
+              className={controlClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Vendido</p>
+            <p className="text-xl font-semibold text-gray-900 dark:text-white">{formatPrecio(totalVendido)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Total a pagar</p>
+            <p className="text-xl font-bold text-blue-600 dark:text-blue-400">{formatPrecio(totalComision)}</p>
+          </div>
+        </div>
+      </div>
+
+      {hayEstimados && !loading && (
+        <div className="flex gap-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm text-yellow-800 dark:text-yellow-400">
+          <AlertTriangle size={20} className="shrink-0" />
+          <p>
+            Algunas citas no guardaron el precio cobrado: sus importes (marcados con *) están
+            estimados a precios actuales y pueden no coincidir con lo que se pagó.
+          </p>
+        </div>
+      )}
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== DATA TABLE ========== */}
+      {!error && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={filas}
+            isLoading={loading}
+            searchPlaceholder="Buscar profesional..."
+            showExport={true}
+            onExportExcel={handleExportExcel}
+            onExportPDF={handleExportPDF}
+          />
+        </div>
+      )}
+
+      {/* ========== MODAL: DETALLE ========== */}
+      <Modal
+        isOpen={!!profesionalDetalle}
+        onClose={() => setProfesionalDetalle(null)}
+        title={profesionalDetalle ? `Comisiones de ${profesionalDetalle.profesionalNombre}` : ''}
+        size="xl"
+      >
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Del {periodo} · {lineasDetalle.length} servicios ·{' '}
+              <span className="font-semibold text-gray-900 dark:text-white">
+                {formatPrecio(profesionalDetalle?.totalComision ?? 0)}
+              </span>
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleExportDetalle('excel')}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                  text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <FileSpreadsheet size={16} />
+                Excel
+              </button>
+              <button
+                onClick={() => handleExportDetalle('pdf')}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                  text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <FileText size={16} />
+                PDF
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <tr>
+                  {detalleColumns.map((col) => (
+                    <th key={col.accessorKey} className="py-2 pr-3 font-medium">{col.header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-gray-700 text-gray-900 dark:text-white">
+                {lineasDetalle.map((linea, i) => (
+                  <tr key={`${linea.reservaId}-${linea.servicioId}`}>
+                    <td className="py-2 pr-3 whitespace-nowrap">{detalleData[i].fecha}</td>
+                    <td className="py-2 pr-3">{linea.clienteNombre}</td>
+                    <td className="py-2 pr-3">{linea.servicioNombre}</td>
+                    <td className="py-2 pr-3">{detalleData[i].precio}</td>
+                    <td className={`py-2 pr-3 ${linea.regla ? '' : 'text-amber-600 dark:text-amber-400'}`}>
+                      {detalleData[i].regla}
+                    </td>
+                    <td className="py-2 pr-3 font-medium">{detalleData[i].comision}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </Modal>
+
+      {/* ========== MODAL: REGLAS ========== */}
+      <Modal
+        isOpen={!!profesionalReglas}
+        onClose={handleCloseReglasModal}
+        title="Reglas de comisión"
+        size="lg"
+      >
+        {profesionalReglas && (
+          <ReglasComisionForm
+            profesional={profesionalReglas}
+            reglas={reglas.filter((r) => r.profesionalId === profesionalReglas.id)}
+            servicios={servicios}
+            onSubmit={handleReglasSubmit}
+            onCancel={handleCloseReglasModal}
+            isLoading={isSubmitting}
+            serverError={serverError}
+            onClearError={() => setServerError(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
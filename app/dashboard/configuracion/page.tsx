@@ -0,0 +1,177 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - CONFIGURACIÓN DEL NEGOCIO
+ * ============================================================
+ *
+ * - Datos del negocio: nombre, contacto, datos fiscales, logo y
+ *   horas mínimas para cancelar (components/forms/negocio-form.tsx)
+ * - Horario de atención: el que heredan los profesionales con
+ *   "Usa horario del negocio" (mismo editor que el de un profesional)
+ * - RBAC: la ruta requiere MANAGE_SETTINGS (ver middleware)
+ */
+
+import { useState } from 'react';
+import { useNegocio } from '@/lib/hooks';
+import { showSuccess, showError, isValidationError, type TurnoHorario } from '@/lib/utils';
+import { NegocioForm, HorarioForm } from '@/components/forms';
+import type { ApiError, UpdateNegocioDto } from '@/lib/types';
+import { Clock, Loader2, RefreshCw, Settings, Store } from 'lucide-react';
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ConfiguracionPage() {
+  const {
+    negocio,
+    horarioNegocio,
+    loading,
+    error,
+    refetch,
+    updateNegocio,
+    guardarHorario,
+  } = useNegocio();
+
+  const [isSavingNegocio, setIsSavingNegocio] = useState(false);
+  const [isSavingHorario, setIsSavingHorario] = useState(false);
+  // Errores del servidor (validación del backend) de cada formulario
+  const [negocioError, setNegocioError] = useState<ApiError | null>(null);
+  const [horarioError, setHorarioError] = useState<ApiError | null>(null);
+
+  // ============================================================
+  // HANDLERS
+  // ============================================================
+  const handleNegocioSubmit = async (data: UpdateNegocioDto) => {
+    setIsSavingNegocio(true);
+    setNegocioError(null);
+
+    try {
+      await updateNegocio(data);
+      showSuccess('Datos del negocio actualizados');
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario
+      if (isValidationError(apiError)) {
+        setNegocioError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar los datos del negocio');
+      }
+    } finally {
+      setIsSavingNegocio(false);
+    }
+  };
+
+  const handleHorarioSubmit = async (turnos: TurnoHorario[]) => {
+    setIsSavingHorario(true);
+    setHorarioError(null);
+
+    try {
+      await guardarHorario(turnos);
+      showSuccess('Horario de atención actualizado');
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (isValidationError(apiError)) {
+        setHorarioError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar el horario');
+      }
+    } finally {
+      setIsSavingHorario(false);
+    }
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Settings className="text-blue-600" />
+            Configuración
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Datos del negocio y horario de atención
+          </p>
+        </div>
+
+        <button
+          onClick={refetch}
+          disabled={loading}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title="Recargar"
+        >
+          <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== LOADING ========== */}
+      {loading && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 flex justify-center">
+          <Loader2 size={32} className="animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {!loading && !error && (
+        <div className="grid gap-6 lg:grid-cols-2 items-start">
+          {/* ========== DATOS DEL NEGOCIO ========== */}
+          <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2 mb-4">
+              <Store size={20} className="text-blue-600" />
+              Datos del negocio
+            </h2>
+            {/* key: al recargar, el formulario vuelve a tomar los datos guardados */}
+            <NegocioForm
+              key={negocio?.updatedAt}
+              initialData={negocio}
+              onSubmit={handleNegocioSubmit}
+              isLoading={isSavingNegocio}
+              serverError={negocioError}
+              onClearError={() => setNegocioError(null)}
+            />
+          </section>
+
+          {/* ========== HORARIO DE ATENCIÓN ========== */}
+          <section className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Clock size={20} className="text-blue-600" />
+              Horario de atención
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">
+              Lo usan los profesionales marcados con &quot;Usa horario del negocio&quot;.
+              Los feriados y cierres puntuales se registran en Ausencias y feriados.
+            </p>
+            <HorarioForm
+              key={JSON.stringify(horarioNegocio)}
+              horarios={horarioNegocio}
+              onSubmit={handleHorarioSubmit}
+              isLoading={isSavingHorario}
+              serverError={horarioError}
+              onClearError={() => setHorarioError(null)}
+            />
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
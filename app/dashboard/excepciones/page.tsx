@@ -0,0 +1,456 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - AUSENCIAS Y FERIADOS (CRUD Completo)
+ * ============================================================
+ *
+ * Excepciones al horario semanal (vigentes y próximas):
+ * - Días libres / vacaciones y horas libres de un profesional
+ * - Días libres y feriados de todo el negocio
+ * - Ausencias que los profesionales solicitan desde Mi agenda: quedan
+ *   pendientes hasta que se aprueban o rechazan aquí
+ * - Se descuentan de la disponibilidad de /reservar y se ven en la agenda
+ * - Modal para crear/editar (components/forms/excepcion-form.tsx)
+ * - Modal de confirmación para eliminar
+ * - Exportación a PDF y Excel
+ * - RBAC: ver con READ_PROFESSIONALS, editar con UPDATE_PROFESSIONALS
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { createColumnHelper } from '@tanstack/react-table';
+import { useExcepciones, useProfesionales } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  showSuccess,
+  showError,
+  isValidationError,
+  formatFechasExcepcion,
+  formatHorasExcepcion,
+  NOMBRES_ESTADO_EXCEPCION,
+  NOMBRES_TIPO_EXCEPCION,
+} from '@/lib/utils';
+import { DataTable, EstadoExcepcionBadge } from '@/components/ui';
+import { Modal, ConfirmModal } from '@/components/ui/modal';
+import { ExcepcionForm } from '@/components/forms';
+import { exportToPDF, exportToExcel } from '@/lib/utils';
+import type { ExcepcionHorario, CreateExcepcionHorarioDto, EstadoExcepcion, ApiError } from '@/lib/types';
+import {
+  CalendarOff,
+  Check,
+  Plus,
+  Pencil,
+  Trash2,
+  RefreshCw,
+  X,
+} from 'lucide-react';
+
+// ============================================================
+// COLUMN HELPER PARA LA TABLA
+// ============================================================
+const columnHelper = createColumnHelper<ExcepcionHorario>();
+
+const TODO_EL_NEGOCIO = 'Todo el negocio';
+
+const ESTILOS_TIPO: Record<ExcepcionHorario['tipo'], string> = {
+  DIA_LIBRE: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400',
+  HORAS_LIBRES: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400',
+  FERIADO: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400',
+};
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ExcepcionesPage() {
+  const {
+    excepciones,
+    loading,
+    error,
+    refetch,
+    createExcepcion,
+    updateExcepcion,
+    deleteExcepcion,
+    cambiarEstado,
+  } = useExcepciones();
+  const { profesionales } = useProfesionales();
+
+  // ============================================================
+  // RBAC: Verificar permisos del usuario
+  // ============================================================
+  const { hasPermission } = useAuth();
+
+  const canEdit = hasPermission('UPDATE_PROFESSIONALS');
+
+  // Estados para modales
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [selectedExcepcion, setSelectedExcepcion] = useState<ExcepcionHorario | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // Nombre de a quién aplica ("Todo el negocio" sin profesional)
+  const getNombreAlcance = useCallback(
+    (excepcion: ExcepcionHorario) =>
+      excepcion.profesionalId == null
+        ? TODO_EL_NEGOCIO
+        : profesionales.find((p) => p.id === excepcion.profesionalId)?.nombreCompleto
+          ?? `Profesional #${excepcion.profesionalId}`,
+    [profesionales]
+  );
+
+  // ============================================================
+  // HANDLERS DE MODALES
+  // ============================================================
+
+  // Abrir modal para crear
+  const handleCreate = () => {
+    setSelectedExcepcion(null);
+    setShowFormModal(true);
+  };
+
+  // Abrir modal para editar
+  const handleEdit = useCallback((excepcion: ExcepcionHorario) => {
+    setSelectedExcepcion(excepcion);
+    setShowFormModal(true);
+  }, []);
+
+  // Abrir modal de confirmación para eliminar
+  const handleDeleteClick = useCallback((excepcion: ExcepcionHorario) => {
+    setSelectedExcepcion(excepcion);
+    setShowDeleteModal(true);
+  }, []);
+
+  // Aprobar / rechazar una ausencia solicitada
+  const handleCambiarEstado = useCallback(
+    async (excepcion: ExcepcionHorario, estado: Exclude<EstadoExcepcion, 'PENDIENTE'>) => {
+      try {
+        await cambiarEstado(excepcion.id, estado);
+        showSuccess(estado === 'APROBADA' ? 'Ausencia aprobada' : 'Ausencia rechazada');
+      } catch (err) {
+        const apiError = err as ApiError;
+        showError(apiError.message || 'Error al responder la solicitud');
+      }
+    },
+    [cambiarEstado]
+  );
+
+  // Cerrar modal de formulario
+  const handleCloseFormModal = () => {
+    setShowFormModal(false);
+    setSelectedExcepcion(null);
+    setServerError(null);
+  };
+
+  // ============================================================
+  // DEFINICIÓN DE COLUMNAS
+  // ============================================================
+  const columns = useMemo(() => [
+    columnHelper.accessor((row) => getNombreAlcance(row), {
+      id: 'alcance',
+      header: 'Aplica a',
+      cell: (info) => (
+        <span className={info.row.original.profesionalId == null ? 'font-medium' : ''}>
+          {info.getValue()}
+        </span>
+      ),
+    }),
+    columnHelper.accessor('tipo', {
+      header: 'Tipo',
+      cell: (info) => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium ${ESTILOS_TIPO[info.getValue()]}`}>
+          {NOMBRES_TIPO_EXCEPCION[info.getValue()]}
+        </span>
+      ),
+    }),
+    columnHelper.accessor('fechaInicio', {
+      header: 'Fechas',
+      cell: (info) => formatFechasExcepcion(info.row.original),
+    }),
+    columnHelper.display({
+      id: 'horas',
+      header: 'Horario',
+      cell: (info) => formatHorasExcepcion(info.row.original),
+    }),
+    columnHelper.accessor('motivo', {
+      header: 'Motivo',
+      cell: (info) => info.getValue() || '-',
+    }),
+    // Sin estado = registrada por el negocio (no muestra nada)
+    columnHelper.accessor('estado', {
+      header: 'Solicitud',
+      cell: (info) => {
+        const estado = info.getValue();
+        return estado ? <EstadoExcepcionBadge estado={estado} /> : '-';
+      },
+    }),
+    // Solo mostrar columna de acciones si puede editar
+    ...(canEdit ? [
+      columnHelper.display({
+        id: 'actions',
+        header: 'Acciones',
+        cell: (info) => (
+          <div className="flex items-center gap-2">
+            {info.row.original.estado === 'PENDIENTE' && (
+              <>
+                <button
+                  onClick={() => handleCambiarEstado(info.row.original, 'APROBADA')}
+                  className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-lg transition-colors"
+                  title="Aprobar"
+                >
+                  <Check size={16} />
+                </button>
+                <button
+                  onClick={() => handleCambiarEstado(info.row.original, 'RECHAZADA')}
+                  className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                  title="Rechazar"
+                >
+                  <X size={16} />
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => handleEdit(info.row.original)}
+              className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              title="Editar"
+            >
+              <Pencil size={16} />
+            </button>
+            <button
+              onClick={() => handleDeleteClick(info.row.original)}
+              className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+              title="Eliminar"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ),
+      }),
+    ] : []),
+  ], [canEdit, getNombreAlcance, handleEdit, handleDeleteClick, handleCambiarEstado]);
+
+  // ============================================================
+  // HANDLERS DE CRUD
+  // ============================================================
+
+  // Enviar formulario (crear o editar)
+  const handleFormSubmit = async (data: CreateExcepcionHorarioDto) => {
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      if (selectedExcepcion) {
+        await updateExcepcion(selectedExcepcion.id, data);
+        showSuccess('Excepción actualizada correctamente');
+      } else {
+        await createExcepcion(data);
+        showSuccess('Excepción creada correctamente');
+      }
+      handleCloseFormModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario (no cerrar modal)
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar la excepción');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirmar eliminación
+  const handleConfirmDelete = async () => {
+    if (!selectedExcepcion) return;
+    setIsSubmitting(true);
+
+    try {
+      await deleteExcepcion(selectedExcepcion.id);
+      showSuccess('Excepción eliminada correctamente');
+      setShowDeleteModal(false);
+      setSelectedExcepcion(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al eliminar la excepción');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // HANDLERS DE EXPORTACIÓN
+  // ============================================================
+
+  const exportColumns = [
+    { header: 'Aplica a', accessorKey: 'alcance' },
+    { header: 'Tipo', accessorKey: 'tipo' },
+    { header: 'Fechas', accessorKey: 'fechas' },
+    { header: 'Horario', accessorKey: 'horas' },
+    { header: 'Motivo', accessorKey: 'motivo' },
+    { header: 'Solicitud', accessorKey: 'estado' },
+  ];
+
+  // Filas planas para exportar
+  const exportData = excepciones.map((e) => ({
+    alcance: getNombreAlcance(e),
+    tipo: NOMBRES_TIPO_EXCEPCION[e.tipo],
+    fechas: formatFechasExcepcion(e),
+    horas: formatHorasExcepcion(e),
+    motivo: e.motivo || '-',
+    estado: e.estado ? NOMBRES_ESTADO_EXCEPCION[e.estado] : '-',
+  }));
+
+  const pendientes = excepciones.filter((e) => e.estado === 'PENDIENTE').length;
+
+  const handleExportExcel = () => {
+    exportToExcel(exportData, exportColumns, 'ausencias-feriados');
+  };
+
+  const handleExportPDF = () => {
+    exportToPDF(exportData, exportColumns, 'ausencias-feriados', 'Ausencias y Feriados');
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <CalendarOff className="text-blue-600" />
+            Ausencias y feriados
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Días y horas en que no se atiende, además del horario semanal
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {/* Botón Recargar */}
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            title="Recargar lista"
+          >
+            <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          {/* Botón Crear - Solo si tiene permiso UPDATE_PROFESSIONALS */}
+          {canEdit && (
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg
+                hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={20} />
+              <span className="hidden sm:inline">Nueva Excepción</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ========== SOLICITUDES PENDIENTES ========== */}
+      {canEdit && pendientes > 0 && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+          <p className="text-yellow-800 dark:text-yellow-400 text-sm">
+            {pendientes === 1
+              ? 'Hay 1 ausencia solicitada por confirmar.'
+              : `Hay ${pendientes} ausencias solicitadas por confirmar.`}
+            {' '}No descuentan horas hasta que las apruebes.
+          </p>
+        </div>
+      )}
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== EMPTY STATE ========== */}
+      {!loading && !error && excepciones.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <CalendarOff size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+            No hay ausencias ni feriados próximos
+          </h3>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Registra vacaciones, días libres o feriados para que no se ofrezcan esas horas
+          </p>
+          {canEdit && (
+            <button
+              onClick={handleCreate}
+              className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Agregar Excepción
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ========== DATA TABLE ========== */}
+      {!error && (excepciones.length > 0 || loading) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={excepciones}
+            isLoading={loading}
+            searchPlaceholder="Buscar..."
+            showExport={true}
+            onExportExcel={handleExportExcel}
+            onExportPDF={handleExportPDF}
+          />
+        </div>
+      )}
+
+      {/* ========== MODAL: CREAR/EDITAR ========== */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={handleCloseFormModal}
+        title={selectedExcepcion ? 'Editar Excepción' : 'Nueva Excepción'}
+        size="md"
+      >
+        <ExcepcionForm
+          initialData={selectedExcepcion}
+          profesionales={profesionales}
+          onSubmit={handleFormSubmit}
+          onCancel={handleCloseFormModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: CONFIRMAR ELIMINACIÓN ========== */}
+      <ConfirmModal
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={handleConfirmDelete}
+        title="Eliminar Excepción"
+        message={
+          selectedExcepcion
+            ? `¿Eliminar "${NOMBRES_TIPO_EXCEPCION[selectedExcepcion.tipo]}" de ${getNombreAlcance(selectedExcepcion)} (${formatFechasExcepcion(selectedExcepcion)})? Esas horas volverán a estar disponibles.`
+            : ''
+        }
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - MI AGENDA (portal del profesional)
+ * ============================================================
+ *
+ * Lo que ve un profesional que entra con su propio usuario:
+ * - Sus reservas del día (navegación por días), sin las de otros
+ * - Iniciar / completar la atención de sus citas
+ * - Sus ausencias próximas y solicitar nuevas (quedan pendientes
+ *   hasta que se aprueban en Ausencias y feriados)
+ * - RBAC: la ruta requiere READ_OWN_BOOKING (ver middleware)
+ */
+
+import { useState } from 'react';
+import { useMiAgenda } from '@/lib/hooks';
+import {
+  dayjs,
+  showSuccess,
+  showError,
+  isValidationError,
+  formatHora,
+  formatFechasExcepcion,
+  formatHorasExcepcion,
+  getDuracionReserva,
+  getEtiquetaExcepcion,
+  getExcepcionesDelDia,
+  getNombreServicios,
+  getServiciosReserva,
+  moverFechaAgenda,
+  puedeTransicionar,
+  toISODate,
+  ACCION_TRANSICION_LABELS,
+  NOMBRES_TIPO_EXCEPCION,
+} from '@/lib/utils';
+import { EstadoReservaBadge, EstadoExcepcionBadge } from '@/components/ui';
+import { Modal, ConfirmModal } from '@/components/ui/modal';
+import { ExcepcionForm } from '@/components/forms';
+import type {
+  ApiError,
+  CreateExcepcionHorarioDto,
+  EstadoReservaProfesional,
+  ExcepcionHorario,
+  Reserva,
+} from '@/lib/types';
+import {
+  CalendarCheck,
+  CalendarOff,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Plus,
+  RefreshCw,
+  Trash2,
+  UserX,
+} from 'lucide-react';
+
+/** Acciones que el profesional puede hacer sobre su cita, en orden */
+const ACCIONES: EstadoReservaProfesional[] = ['EN_PROGRESO', 'COMPLETADA'];
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function MiAgendaPage() {
+  const [fecha, setFecha] = useState(() => toISODate(new Date()));
+
+  const {
+    profesional,
+    reservas,
+    ausencias,
+    loading,
+    error,
+    refetch,
+    iniciarReserva,
+    completarReserva,
+    solicitarAusencia,
+    retirarSolicitud,
+  } = useMiAgenda(fecha);
+
+  // Estados para modales
+  const [showAusenciaModal, setShowAusenciaModal] = useState(false);
+  const [solicitudARetirar, setSolicitudARetirar] = useState<ExcepcionHorario | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Reserva cuyo estado se está cambiando (spinner en su botón)
+  const [reservaEnCurso, setReservaEnCurso] = useState<number | null>(null);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // Usuario sin profesional vinculado
+  const sinProfesional = error?.status === 404;
+
+  // Ausencias aprobadas que caen en el día visible
+  const ausenciasDelDia = getExcepcionesDelDia(ausencias, fecha);
+
+  // ============================================================
+  // HANDLERS
+  // ============================================================
+  const handleCambiarEstado = async (reserva: Reserva, estado: EstadoReservaProfesional) => {
+    setReservaEnCurso(reserva.id);
+
+    try {
+      if (estado === 'EN_PROGRESO') {
+        await iniciarReserva(reserva);
+        showSuccess(`Atención de ${reserva.clienteNombre} iniciada`);
+      } else {
+        await completarReserva(reserva);
+        showSuccess(`Cita de ${reserva.clienteNombre} completada`);
+      }
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'No se pudo actualizar la cita');
+    } finally {
+      setReservaEnCurso(null);
+    }
+  };
+
+  const handleCloseAusenciaModal = () => {
+    setShowAusenciaModal(false);
+    setServerError(null);
+  };
+
+  const handleSolicitarAusencia = async (data: CreateExcepcionHorarioDto) => {
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      // El backend la asigna al profesional del usuario
+      await solicitarAusencia({
+        tipo: data.tipo,
+        fechaInicio: data.fechaInicio,
+        fechaFin: data.fechaFin,
+        horaInicio: data.horaInicio,
+        horaFin: data.horaFin,
+        motivo: data.motivo,
+      });
+      showSuccess('Solicitud enviada. Te avisarán cuando la revisen');
+      handleCloseAusenciaModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario (no cerrar modal)
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al enviar la solicitud');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleConfirmRetirar = async () => {
+    if (!solicitudARetirar) return;
+    setIsSubmitting(true);
+
+    try {
+      await retirarSolicitud(solicitudARetirar.id);
+      showSuccess('Solicitud retirada');
+      setSolicitudARetirar(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al retirar la solicitud');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <CalendarCheck className="text-blue-600" />
+            Mi agenda
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            {profesional ? profesional.nombreCompleto : 'Tus citas y ausencias'}
+          </p>
+        </div>
+
+        {/* Botón Recargar */}
+        <button
+          onClick={refetch}
+          disabled={loading}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title="Recargar"
+        >
+          <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* ========== SIN PROFESIONAL VINCULADO ========== */}
+      {sinProfesional && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <UserX size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+            Tu usuario no está vinculado a un profesional
+          </h3>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Pide al administrador que lo vincule para ver aquí tus citas
+          </p>
+        </div>
+      )}
+
+      {/* ========== ERROR STATE ========== */}
+      {error && !sinProfesional && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {!error && (
+        <div className="grid gap-6 lg:grid-cols-3 items-start">
+          {/* ========== CITAS DEL DÍA ========== */}
+          <section className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow">
+            {/* Navegación por días */}
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+              <p className="font-semibold text-gray-900 dark:text-white capitalize">
+                {dayjs(fecha).format('dddd D [de] MMMM')}
+              </p>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setFecha(moverFechaAgenda(fecha, 'dia', -1))}
+                  className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title="Día anterior"
+                >
+                  <ChevronLeft size={20} />
+                </button>
+                <button
+                  onClick={() => setFecha(toISODate(new Date()))}
+                  className="px-3 py-2 text-sm font-medium rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  Hoy
+                </button>
+                <button
+                  onClick={() => setFecha(moverFechaAgenda(fecha, 'dia', 1))}
+                  className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title="Día siguiente"
+                >
+                  <ChevronRight size={20} />
+                </button>
+              </div>
+            </div>
+
+            {/* Ausencias aprobadas de ese día */}
+            {ausenciasDelDia.length > 0 && (
+              <p className="mx-4 mt-4 p-3 text-sm rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300">
+                {ausenciasDelDia.map(getEtiquetaExcepcion).join(' · ')}
+              </p>
+            )}
+
+            {loading ? (
+              <div className="p-8 flex justify-center">
+                <Loader2 size={32} className="animate-spin text-blue-600" />
+              </div>
+            ) : reservas.length === 0 ? (
+              <p className="p-8 text-center text-gray-500 dark:text-gray-400">No tienes citas este día.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {reservas.map((reserva) => {
+                  const fin = dayjs(reserva.fechaHora).add(getDuracionReserva(reserva), 'minute');
+                  const acciones = ACCIONES.filter((estado) => puedeTransicionar(reserva.estado, estado));
+
+                  return (
+                    <li key={reserva.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4">
+                      <div className="flex items-start gap-4">
+                        <span className="font-mono font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                          {formatHora(reserva.fechaHora)}–{formatHora(fin.toDate())}
+                        </span>
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">{reserva.clienteNombre}</p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {getNombreServicios(getServiciosReserva(reserva))}
+                          </p>
+                          {reserva.notas && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 italic">{reserva.notas}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="flex items-center gap-2 sm:shrink-0">
+                        <EstadoReservaBadge estado={reserva.estado} />
+                        {acciones.map((estado) => (
+                          <button
+                            key={estado}
+                            onClick={() => handleCambiarEstado(reserva, estado)}
+                            disabled={reservaEnCurso === reserva.id}
+                            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg
+                              bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                          >
+                            {reservaEnCurso === reserva.id && <Loader2 size={14} className="animate-spin" />}
+                            {ACCION_TRANSICION_LABELS[estado]}
+                          </button>
+                        ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+
+          {/* ========== MIS AUSENCIAS ========== */}
+          <section className="bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="flex items-center justify-between gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                <CalendarOff size={18} className="text-blue-600" />
+                Mis ausencias
+              </h2>
+              <button
+                onClick={() => setShowAusenciaModal(true)}
+                disabled={!profesional}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg
+                  text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 transition-colors"
+              >
+                <Plus size={16} />
+                Solicitar
+              </button>
+            </div>
+
+            {ausencias.length === 0 ? (
+              <p className="p-6 text-sm text-center text-gray-500 dark:text-gray-400">
+                No tienes ausencias próximas.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                {ausencias.map((ausencia) => (
+                  <li key={ausencia.id} className="flex items-start justify-between gap-3 p-4">
+                    <div className="text-sm">
+                      <p className="font-medium text-gray-900 dark:text-white">
+                        {ausencia.motivo || NOMBRES_TIPO_EXCEPCION[ausencia.tipo]}
+                      </p>
+                      <p className="text-gray-500 dark:text-gray-400">
+                        {formatFechasExcepcion(ausencia)} · {formatHorasExcepcion(ausencia)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {ausencia.estado && <EstadoExcepcionBadge estado={ausencia.estado} />}
+                      {ausencia.estado === 'PENDIENTE' && (
+                        <button
+                          onClick={() => setSolicitudARetirar(ausencia)}
+                          className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          title="Retirar solicitud"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+
+      {/* ========== MODAL: SOLICITAR AUSENCIA ========== */}
+      <Modal
+        isOpen={showAusenciaModal}
+        onClose={handleCloseAusenciaModal}
+        title="Solicitar ausencia"
+        size="md"
+      >
+        <ExcepcionForm
+          profesionales={[]}
+          profesionalFijo={profesional}
+          onSubmit={handleSolicitarAusencia}
+          onCancel={handleCloseAusenciaModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: RETIRAR SOLICITUD ========== */}
+      <ConfirmModal
+        isOpen={!!solicitudARetirar}
+        onClose={() => setSolicitudARetirar(null)}
+        onConfirm={handleConfirmRetirar}
+        title="Retirar solicitud"
+        message={
+          solicitudARetirar
+            ? `¿Retirar la solicitud de ${NOMBRES_TIPO_EXCEPCION[solicitudARetirar.tipo].toLowerCase()} (${formatFechasExcepcion(solicitudARetirar)})?`
+            : ''
+        }
+        confirmText="Retirar"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
@@ -5,7 +5,29 @@
  * Página principal del dashboard con métricas y resumen.
  */
 
+'use client';
+
+import { CalendarPlus } from 'lucide-react';
+import { useNegocioPublico, useReservasDelDia } from '@/lib/hooks';
+import { ESTADO_RESERVA_LABELS } from '@/lib/types';
+import {
+  descargarReservaIcs,
+  formatHora,
+  getNegocioIcs,
+  getNombreServicios,
+  getServiciosReserva,
+  ocupaHorario,
+  toISODate,
+} from '@/lib/utils';
+import { PermissionGate } from '@/components/auth';
+
 export default function DashboardPage() {
+  // Citas de hoy (activas) para "Próximas Reservas"
+  const { reservas, loading } = useReservasDelDia(toISODate(new Date()));
+  const proximasReservas = reservas.filter(ocupaHorario);
+  // Dirección del negocio para el .ics
+  const { negocio } = useNegocioPublico();
+
   return (
     <div className="space-y-6">
       {/* Título de la página */}
@@ -42,15 +64,47 @@ export default function DashboardPage() {
         </div>
       </div>
 
-      {/* Aquí irán más secciones: gráficos, últimas reservas, etc. */}
-      <div className="bg-white rounded-lg shadow p-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">
-          Próximas Reservas
-        </h3>
-        <p className="text-gray-500">
-          Aquí mostrarás las próximas citas del día...
-        </p>
-      </div>
+      {/* Próximas reservas del día */}
+      <PermissionGate permissions={['READ_BOOKING']}>
+        <div className="bg-white rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">
+            Próximas Reservas
+          </h3>
+          {loading ? (
+            <div className="py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600 mx-auto" />
+            </div>
+          ) : proximasReservas.length === 0 ? (
+            <p className="text-gray-500">No hay citas para hoy.</p>
+          ) : (
+            <ul className="divide-y">
+              {proximasReservas.map((reserva) => (
+                <li key={reserva.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-center gap-4">
+                    <span className="font-mono font-semibold text-gray-900">
+                      {formatHora(reserva.fechaHora)}
+                    </span>
+                    <div>
+                      <p className="font-medium text-gray-900">{reserva.clienteNombre}</p>
+                      <p className="text-sm text-gray-500">
+                        {getNombreServicios(getServiciosReserva(reserva))} · {reserva.profesional.nombreCompleto} ·{' '}
+                        {ESTADO_RESERVA_LABELS[reserva.estado]}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => descargarReservaIcs(reserva, getNegocioIcs(negocio))}
+                    className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+                    title="Agregar al calendario (.ics)"
+                  >
+                    <CalendarPlus size={18} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </PermissionGate>
     </div>
   );
 }
@@ -0,0 +1,401 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - PAQUETES (CRUD Completo)
+ * ============================================================
+ *
+ * Gestión de los paquetes (combos de servicios con precio propio):
+ * - Tabla con TanStack Table (búsqueda en la tabla: son pocos)
+ * - Modal para crear/editar (components/forms/paquete-form.tsx),
+ *   eligiendo los servicios entre los activos
+ * - Modal de confirmación para eliminar
+ * - Exportación a PDF y Excel
+ * - RBAC: mismos permisos que los servicios
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { createColumnHelper } from '@tanstack/react-table';
+import { usePaquetes, useServicios } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  showSuccess,
+  showError,
+  isValidationError,
+  getNombreServicios,
+  getDuracionPaquete,
+  getAhorroPaquete,
+} from '@/lib/utils';
+import { DataTable, UploadedImage } from '@/components/ui';
+import { Modal, ConfirmModal } from '@/components/ui/modal';
+import { PaqueteForm } from '@/components/forms';
+import { exportToPDF, exportToExcel } from '@/lib/utils';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import type { Paquete, CreatePaqueteDto, ApiError } from '@/lib/types';
+import {
+  Package,
+  Plus,
+  Pencil,
+  Trash2,
+  RefreshCw,
+} from 'lucide-react';
+
+// ============================================================
+// COLUMN HELPER PARA LA TABLA
+// ============================================================
+const columnHelper = createColumnHelper<Paquete>();
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function PaquetesPage() {
+  const {
+    paquetes,
+    loading,
+    error,
+    refetch,
+    createPaquete,
+    updatePaquete,
+    deletePaquete,
+  } = usePaquetes();
+  const { servicios } = useServicios();
+
+  // ============================================================
+  // RBAC: Verificar permisos del usuario
+  // ============================================================
+  const { hasPermission } = useAuth();
+
+  const canCreate = hasPermission('CREATE_SERVICES');
+  const canUpdate = hasPermission('UPDATE_SERVICES');
+  const canDelete = hasPermission('DELETE_SERVICES');
+
+  // Estados para modales
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [selectedPaquete, setSelectedPaquete] = useState<Paquete | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // ============================================================
+  // HANDLERS DE MODALES
+  // ============================================================
+
+  // Abrir modal para crear
+  const handleCreate = () => {
+    setSelectedPaquete(null);
+    setShowFormModal(true);
+  };
+
+  // Abrir modal para editar
+  const handleEdit = useCallback((paquete: Paquete) => {
+    setSelectedPaquete(paquete);
+    setShowFormModal(true);
+  }, []);
+
+  // Abrir modal de confirmación para eliminar
+  const handleDeleteClick = useCallback((paquete: Paquete) => {
+    setSelectedPaquete(paquete);
+    setShowDeleteModal(true);
+  }, []);
+
+  // Cerrar modal de formulario
+  const handleCloseFormModal = () => {
+    setShowFormModal(false);
+    setSelectedPaquete(null);
+    setServerError(null);
+  };
+
+  // ============================================================
+  // DEFINICIÓN DE COLUMNAS
+  // ============================================================
+  const columns = useMemo(() => [
+    columnHelper.accessor('nombre', {
+      header: 'Paquete',
+      cell: (info) => {
+        const paquete = info.row.original;
+        return (
+          <div className="flex items-center gap-3">
+            {paquete.imagen ? (
+              <UploadedImage
+                src={paquete.imagen}
+                alt={paquete.nombre}
+                className="w-10 h-10 rounded-lg"
+              />
+            ) : (
+              <div className="w-10 h-10 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+                <Package size={18} className="text-blue-600 dark:text-blue-400" />
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className="font-medium">{paquete.nombre}</p>
+              {paquete.descripcion && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                  {paquete.descripcion}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      },
+    }),
+    columnHelper.accessor((row) => getNombreServicios(row.servicios), {
+      id: 'servicios',
+      header: 'Incluye',
+      cell: (info) => <span className="text-sm">{info.getValue()}</span>,
+    }),
+    columnHelper.accessor((row) => getDuracionPaquete(row), {
+      id: 'duracion',
+      header: 'Duración',
+      cell: (info) => formatDuracion(info.getValue()),
+    }),
+    columnHelper.accessor('precio', {
+      header: 'Precio',
+      cell: (info) => {
+        const ahorro = getAhorroPaquete(info.row.original);
+        return (
+          <div>
+            <p className="font-medium">{formatPrecio(info.getValue())}</p>
+            {ahorro > 0 && (
+              <p className="text-xs text-green-600 dark:text-green-400">
+                Ahorra {formatPrecio(ahorro)}
+              </p>
+            )}
+          </div>
+        );
+      },
+    }),
+    // Solo mostrar columna de acciones si tiene algún permiso de acción
+    ...(canUpdate || canDelete ? [
+      columnHelper.display({
+        id: 'actions',
+        header: 'Acciones',
+        cell: (info) => (
+          <div className="flex items-center gap-2">
+            {canUpdate && (
+              <button
+                onClick={() => handleEdit(info.row.original)}
+                className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                title="Editar"
+              >
+                <Pencil size={16} />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => handleDeleteClick(info.row.original)}
+                className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Eliminar"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ),
+      }),
+    ] : []),
+  ], [canUpdate, canDelete, handleEdit, handleDeleteClick]);
+
+  // ============================================================
+  // HANDLERS DE CRUD
+  // ============================================================
+
+  // Enviar formulario (crear o editar)
+  const handleFormSubmit = async (data: CreatePaqueteDto) => {
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      if (selectedPaquete) {
+        await updatePaquete(selectedPaquete.id, data);
+        showSuccess('Paquete actualizado correctamente');
+      } else {
+        await createPaquete(data);
+        showSuccess('Paquete creado correctamente');
+      }
+      handleCloseFormModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario (no cerrar modal)
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar el paquete');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirmar eliminación
+  const handleConfirmDelete = async () => {
+    if (!selectedPaquete) return;
+    setIsSubmitting(true);
+
+    try {
+      await deletePaquete(selectedPaquete.id);
+      showSuccess('Paquete eliminado correctamente');
+      setShowDeleteModal(false);
+      setSelectedPaquete(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al eliminar el paquete');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // HANDLERS DE EXPORTACIÓN
+  // ============================================================
+
+  const exportColumns = [
+    { header: 'Nombre', accessorKey: 'nombre' },
+    { header: 'Incluye', accessorKey: 'servicios' },
+    { header: 'Duración', accessorKey: 'duracion' },
+    { header: 'Precio', accessorKey: 'precio' },
+  ];
+
+  // Filas planas para exportar (servicios, duración y precio legibles)
+  const exportData = paquetes.map((p) => ({
+    nombre: p.nombre,
+    servicios: getNombreServicios(p.servicios),
+    duracion: formatDuracion(getDuracionPaquete(p)),
+    precio: formatPrecio(p.precio),
+  }));
+
+  const handleExportExcel = () => {
+    exportToExcel(exportData, exportColumns, 'paquetes');
+  };
+
+  const handleExportPDF = () => {
+    exportToPDF(exportData, exportColumns, 'paquetes', 'Lista de Paquetes');
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Package className="text-blue-600" />
+            Paquetes
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Combos de servicios que se reservan juntos a un precio propio
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {/* Botón Recargar */}
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            title="Recargar lista"
+          >
+            <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          {/* Botón Crear - Solo si tiene permiso CREATE_SERVICES */}
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg
+                hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={20} />
+              <span className="hidden sm:inline">Nuevo Paquete</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== EMPTY STATE ========== */}
+      {!loading && !error && paquetes.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <Package size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+            No hay paquetes
+          </h3>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Combina servicios (por ejemplo, corte + barba) y ofrécelos a un precio especial
+          </p>
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Agregar Paquete
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ========== DATA TABLE ========== */}
+      {!error && (paquetes.length > 0 || loading) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={paquetes}
+            isLoading={loading}
+            searchPlaceholder="Buscar paquete..."
+            showExport={true}
+            onExportExcel={handleExportExcel}
+            onExportPDF={handleExportPDF}
+          />
+        </div>
+      )}
+
+      {/* ========== MODAL: CREAR/EDITAR ========== */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={handleCloseFormModal}
+        title={selectedPaquete ? 'Editar Paquete' : 'Nuevo Paquete'}
+        size="md"
+      >
+        <PaqueteForm
+          initialData={selectedPaquete}
+          servicios={servicios}
+          onSubmit={handleFormSubmit}
+          onCancel={handleCloseFormModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: CONFIRMAR ELIMINACIÓN ========== */}
+      <ConfirmModal
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={handleConfirmDelete}
+        title="Eliminar Paquete"
+        message={`¿Estás seguro de eliminar "${selectedPaquete?.nombre}"? Las reservas existentes lo conservan, pero ya no se podrá reservar.`}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
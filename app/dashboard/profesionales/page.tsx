@@ -13,6 +13,9 @@
  * - Exportación a PDF y Excel
  * - Soporte completo para dark mode
  * - RBAC: Botones visibles según permisos del usuario
+ * - Enlace a la matriz de servicios por profesional
+ * - Modal con el horario semanal de cada profesional (turnos por día)
+ * - Modal con el enlace de su calendario (.ics) y opción de revocarlo
  * 
  * CAMBIOS IMPORTANTES:
  * - El formulario está en components/forms/profesional-form.tsx (REUTILIZABLE)
@@ -20,21 +23,28 @@
  */
 
 import { useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
 import { createColumnHelper } from '@tanstack/react-table';
-import { useProfesionales } from '@/lib/hooks';
+import { useProfesionales, useHorariosProfesional, useTokenCalendario } from '@/lib/hooks';
 import { useAuth } from '@/lib/context'; // Hook para verificar permisos
-import { showSuccess, showError, isValidationError } from '@/lib/utils';
+import { showSuccess, showError, isValidationError, getUrlCalendario } from '@/lib/utils';
 import { DataTable, SearchInput } from '@/components/ui';
 import { Modal, ConfirmModal } from '@/components/ui/modal';
-import { ProfesionalForm } from '@/components/forms';
+import { ProfesionalForm, HorarioForm } from '@/components/forms';
 import { exportToPDF, exportToExcel } from '@/lib/utils';
 import type { Profesional, CreateProfesionalDto, UpdateProfesionalDto, ApiError } from '@/lib/types';
+import type { TurnoHorario } from '@/lib/utils';
 import { 
   Users, 
   Plus, 
   Pencil, 
   Trash2, 
-  RefreshCw
+  RefreshCw,
+  LayoutGrid,
+  Clock,
+  Loader2,
+  CalendarDays,
+  Copy,
 } from 'lucide-react';
 
 // ============================================================
@@ -80,6 +90,33 @@ export default function ProfesionalesPage() {
   // Estado para búsqueda (input controlado)
   const [searchInput, setSearchInput] = useState('');
 
+  // Horario semanal: profesional cuyo horario se está editando
+  const [horarioProfesional, setHorarioProfesional] = useState<Profesional | null>(null);
+  const [horarioError, setHorarioError] = useState<ApiError | null>(null);
+  const {
+    horarios,
+    horarioNegocio,
+    loading: loadingHorarios,
+    error: errorHorarios,
+    refetch: refetchHorarios,
+    guardarSemana,
+  } = useHorariosProfesional(horarioProfesional?.id ?? null);
+
+  // Calendario suscribible: profesional cuyo enlace se está viendo
+  const [calendarioProfesional, setCalendarioProfesional] = useState<Profesional | null>(null);
+  const [showRegenerarModal, setShowRegenerarModal] = useState(false);
+  const {
+    tokenCalendario,
+    loading: loadingCalendario,
+    error: errorCalendario,
+    refetch: refetchCalendario,
+    regenerar: regenerarCalendario,
+  } = useTokenCalendario(calendarioProfesional?.id ?? null);
+  // Solo existe con el modal abierto (en el navegador)
+  const urlCalendario = calendarioProfesional && tokenCalendario
+    ? getUrlCalendario(window.location.origin, calendarioProfesional.id, tokenCalendario.token)
+    : null;
+
   // ============================================================
   // DEFINICIÓN DE COLUMNAS
   // ============================================================
@@ -128,6 +165,26 @@ export default function ProfesionalesPage() {
         header: 'Acciones',
         cell: (info) => (
           <div className="flex items-center gap-2">
+            {/* Botón Horario - Solo si tiene permiso UPDATE_PROFESSIONALS */}
+            {canUpdate && (
+              <button
+                onClick={() => handleHorario(info.row.original)}
+                className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Horario semanal"
+              >
+                <Clock size={16} />
+              </button>
+            )}
+            {/* Botón Calendario - Solo si tiene permiso UPDATE_PROFESSIONALS */}
+            {canUpdate && (
+              <button
+                onClick={() => setCalendarioProfesional(info.row.original)}
+                className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title="Calendario (.ics)"
+              >
+                <CalendarDays size={16} />
+              </button>
+            )}
             {/* Botón Editar - Solo si tiene permiso UPDATE_PROFESSIONALS */}
             {canUpdate && (
               <button
@@ -195,6 +252,17 @@ export default function ProfesionalesPage() {
     setShowDeleteModal(true);
   };
 
+  // Abrir modal del horario semanal
+  const handleHorario = (profesional: Profesional) => {
+    setHorarioProfesional(profesional);
+  };
+
+  // Cerrar modal del horario
+  const handleCloseHorario = () => {
+    setHorarioProfesional(null);
+    setHorarioError(null);
+  };
+
   // Cerrar modal de formulario
   const handleCloseFormModal = () => {
     setShowFormModal(false);
@@ -236,6 +304,54 @@ export default function ProfesionalesPage() {
     }
   };
 
+  // Guardar el horario semanal (solo se envían las diferencias)
+  const handleHorarioSubmit = async (turnos: TurnoHorario[]) => {
+    setIsSubmitting(true);
+    setHorarioError(null);
+
+    try {
+      await guardarSemana(turnos);
+      showSuccess('Horario actualizado correctamente');
+      handleCloseHorario();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (isValidationError(apiError)) {
+        setHorarioError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar el horario');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Copiar el enlace del calendario
+  const handleCopiarCalendario = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      showSuccess('Enlace copiado');
+    } catch {
+      showError('No se pudo copiar el enlace');
+    }
+  };
+
+  // Generar un enlace nuevo (el anterior deja de funcionar)
+  const handleConfirmRegenerar = async () => {
+    setIsSubmitting(true);
+
+    try {
+      await regenerarCalendario();
+      showSuccess('Enlace regenerado: el anterior ya no funciona');
+      setShowRegenerarModal(false);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al regenerar el enlace');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   // Confirmar eliminación
   const handleConfirmDelete = async () => {
     if (!selectedProfesional) return;
@@ -302,6 +418,16 @@ export default function ProfesionalesPage() {
             <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
           </button>
 
+          {/* Matriz de servicios por profesional */}
+          <Link
+            href="/dashboard/profesionales/servicios"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium"
+          >
+            <LayoutGrid size={20} />
+            <span className="hidden sm:inline">Servicios</span>
+          </Link>
+
           {/* Botón Crear - Solo si tiene permiso CREATE_PROFESSIONALS */}
           {canCreate && (
             <button
@@ -407,6 +533,115 @@ export default function ProfesionalesPage() {
         />
       </Modal>
 
+      {/* ========== MODAL: HORARIO SEMANAL ========== */}
+      <Modal
+        isOpen={!!horarioProfesional}
+        onClose={handleCloseHorario}
+        title={horarioProfesional ? `Horario de ${horarioProfesional.nombreCompleto}` : ''}
+        size="lg"
+      >
+        {loadingHorarios ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 size={32} className="animate-spin text-blue-600" />
+          </div>
+        ) : errorHorarios ? (
+          <div className="py-4 text-center">
+            <p className="text-red-600 dark:text-red-400">{errorHorarios.message}</p>
+            <button
+              onClick={refetchHorarios}
+              className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+            >
+              Reintentar
+            </button>
+          </div>
+        ) : horarioProfesional && (
+          <HorarioForm
+            profesional={horarioProfesional}
+            horarios={horarios}
+            horarioNegocio={horarioNegocio}
+            onSubmit={handleHorarioSubmit}
+            onCancel={handleCloseHorario}
+            isLoading={isSubmitting}
+            serverError={horarioError}
+            onClearError={() => setHorarioError(null)}
+          />
+        )}
+      </Modal>
+
+      {/* ========== MODAL: CALENDARIO (.ics) ========== */}
+      <Modal
+        isOpen={!!calendarioProfesional}
+        onClose={() => setCalendarioProfesional(null)}
+        title={calendarioProfesional ? `Calendario de ${calendarioProfesional.nombreCompleto}` : ''}
+        size="md"
+      >
+        {loadingCalendario ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 size={32} className="animate-spin text-blue-600" />
+          </div>
+        ) : errorCalendario ? (
+          <div className="py-4 text-center">
+            <p className="text-red-600 dark:text-red-400">{errorCalendario.message}</p>
+            <button
+              onClick={refetchCalendario}
+              className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+            >
+              Reintentar
+            </button>
+          </div>
+        ) : urlCalendario && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Agrega este enlace en Google Calendar, Apple Calendar u Outlook
+              (&quot;Suscribirse por URL&quot;) para ver las próximas reservas. Solo permite
+              leer la agenda de este profesional.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                readOnly
+                value={urlCalendario}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                  bg-gray-50 dark:bg-gray-700 text-gray-900 dark:text-white text-sm font-mono"
+              />
+              <button
+                onClick={() => handleCopiarCalendario(urlCalendario)}
+                className="flex items-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg
+                  hover:bg-blue-700 transition-colors"
+              >
+                <Copy size={14} />
+                Copiar
+              </button>
+            </div>
+            <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700">
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                ¿Se compartió con quien no debía? Genera uno nuevo.
+              </p>
+              <button
+                onClick={() => setShowRegenerarModal(true)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Regenerar enlace
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* ========== MODAL: CONFIRMAR REGENERAR CALENDARIO ========== */}
+      <ConfirmModal
+        isOpen={showRegenerarModal}
+        onClose={() => setShowRegenerarModal(false)}
+        onConfirm={handleConfirmRegenerar}
+        title="Regenerar enlace del calendario"
+        message="El enlace actual dejará de funcionar y habrá que volver a suscribirse con el nuevo. ¿Continuar?"
+        confirmText="Regenerar"
+        cancelText="Cancelar"
+        variant="warning"
+        isLoading={isSubmitting}
+      />
+
       {/* ========== MODAL: CONFIRMAR ELIMINACIÓN ========== */}
       <ConfirmModal
         isOpen={showDeleteModal}
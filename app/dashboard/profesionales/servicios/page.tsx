@@ -0,0 +1,284 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - SERVICIOS POR PROFESIONAL (matriz)
+ * ============================================================
+ *
+ * Matriz servicios (filas) × profesionales (columnas):
+ * - Marcar/desmarcar qué servicios ofrece cada profesional
+ * - Precio y duración propios por profesional (opcional)
+ * - Los cambios se guardan en bloque (ver useMatrizServicios)
+ * - RBAC: editar requiere UPDATE_PROFESSIONALS (si no, solo lectura)
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useMatrizServicios, type PersonalizacionServicio } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import { showSuccess, showError } from '@/lib/utils';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import type { ApiError, Servicio, Profesional } from '@/lib/types';
+import { Modal } from '@/components/ui';
+import { PersonalizacionServicioForm } from '@/components/forms';
+import { ArrowLeft, LayoutGrid, Loader2, RefreshCw, SlidersHorizontal } from 'lucide-react';
+
+interface CeldaSeleccionada {
+  profesional: Profesional;
+  servicio: Servicio;
+}
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ServiciosPorProfesionalPage() {
+  const {
+    profesionales,
+    servicios,
+    original,
+    borrador,
+    modificados,
+    loading,
+    error,
+    refetch,
+    toggle,
+    toggleTodos,
+    personalizar,
+    descartar,
+    guardar,
+  } = useMatrizServicios();
+
+  // ============================================================
+  // RBAC
+  // ============================================================
+  const { hasPermission } = useAuth();
+  const canUpdate = hasPermission('UPDATE_PROFESSIONALS');
+
+  const [celda, setCelda] = useState<CeldaSeleccionada | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const celdaModificada = (profesionalId: number, servicioId: number) =>
+    JSON.stringify(original[profesionalId]?.[servicioId] ?? null) !==
+    JSON.stringify(borrador[profesionalId]?.[servicioId] ?? null);
+
+  // ============================================================
+  // HANDLERS
+  // ============================================================
+  const handleGuardar = async () => {
+    setIsSaving(true);
+    try {
+      const cantidad = await guardar();
+      showSuccess(
+        cantidad === 1
+          ? 'Servicios del profesional actualizados'
+          : `Servicios de ${cantidad} profesionales actualizados`
+      );
+    } catch (err) {
+      showError((err as ApiError).message || 'Error al guardar los cambios');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePersonalizar = (datos: PersonalizacionServicio) => {
+    if (!celda) return;
+    personalizar(celda.profesional.id, celda.servicio.id, datos);
+    setCelda(null);
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6 pb-20">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <Link
+            href="/dashboard/profesionales"
+            className="inline-flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline mb-2"
+          >
+            <ArrowLeft size={16} />
+            Profesionales
+          </Link>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <LayoutGrid className="text-blue-600" />
+            Servicios por profesional
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Qué servicios ofrece cada profesional y a qué precio
+          </p>
+        </div>
+
+        <button
+          onClick={refetch}
+          disabled={loading || modificados.length > 0}
+          className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+          title={modificados.length > 0 ? 'Guarda o descarta los cambios antes de recargar' : 'Recargar'}
+        >
+          <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== LOADING ========== */}
+      {loading && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 flex justify-center">
+          <Loader2 size={32} className="animate-spin text-blue-600" />
+        </div>
+      )}
+
+      {/* ========== MATRIZ ========== */}
+      {!loading && !error && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className="sticky left-0 bg-gray-50 dark:bg-gray-700 px-4 py-3 text-left font-medium text-gray-700 dark:text-gray-300">
+                  Servicio
+                </th>
+                {profesionales.map((prof) => {
+                  const asignados = Object.keys(borrador[prof.id] ?? {}).length;
+                  const todos = servicios.length > 0 && asignados === servicios.length;
+                  return (
+                    <th key={prof.id} className="px-4 py-3 text-center font-medium text-gray-700 dark:text-gray-300 min-w-36">
+                      <p className="truncate">{prof.nombreCompleto}</p>
+                      {canUpdate && (
+                        <button
+                          onClick={() => toggleTodos(prof.id, !todos)}
+                          className="mt-1 text-xs font-normal text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {todos ? 'Quitar todos' : 'Marcar todos'}
+                        </button>
+                      )}
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {servicios.map((servicio) => (
+                <tr key={servicio.id}>
+                  <td className="sticky left-0 bg-white dark:bg-gray-800 px-4 py-3">
+                    <p className="font-medium text-gray-900 dark:text-white">{servicio.nombre}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatPrecio(servicio.precio)} · {formatDuracion(servicio.duracionMinutos)}
+                    </p>
+                  </td>
+                  {profesionales.map((prof) => {
+                    const asignacion = borrador[prof.id]?.[servicio.id];
+                    const precio = asignacion?.precioPersonalizado;
+                    const duracion = asignacion?.duracionMinutosPersonalizada;
+                    const personalizado = precio != null || duracion != null;
+
+                    return (
+                      <td
+                        key={prof.id}
+                        className={`px-4 py-3 text-center ${
+                          celdaModificada(prof.id, servicio.id) ? 'bg-yellow-50 dark:bg-yellow-900/20' : ''
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!!asignacion}
+                          onChange={() => toggle(prof.id, servicio.id)}
+                          disabled={!canUpdate}
+                          aria-label={`${prof.nombreCompleto} ofrece ${servicio.nombre}`}
+                          className="w-4 h-4 rounded text-blue-600 border-gray-300 dark:border-gray-600 focus:ring-blue-500"
+                        />
+                        {asignacion && (personalizado || canUpdate) && (
+                          <button
+                            onClick={() => setCelda({ profesional: prof, servicio })}
+                            disabled={!canUpdate}
+                            className={`mt-1 flex items-center justify-center gap-1 mx-auto text-xs rounded px-1.5 py-0.5 ${
+                              personalizado
+                                ? 'text-blue-700 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30'
+                                : 'text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300'
+                            }`}
+                            title="Precio y duración de este profesional"
+                          >
+                            <SlidersHorizontal size={12} />
+                            {personalizado
+                              ? `${formatPrecio(precio ?? servicio.precio)} · ${formatDuracion(duracion ?? servicio.duracionMinutos)}`
+                              : 'Base'}
+                          </button>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {(servicios.length === 0 || profesionales.length === 0) && (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400">
+              {servicios.length === 0 ? 'No hay servicios activos' : 'No hay profesionales registrados'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* ========== BARRA DE CAMBIOS SIN GUARDAR ========== */}
+      {modificados.length > 0 && (
+        <div className="fixed bottom-0 inset-x-0 z-30 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 shadow-lg">
+          <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between gap-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Cambios sin guardar en {modificados.length} {modificados.length === 1 ? 'profesional' : 'profesionales'}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={descartar}
+                disabled={isSaving}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                  text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+              >
+                Descartar
+              </button>
+              <button
+                onClick={handleGuardar}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg
+                  hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {isSaving && <Loader2 size={18} className="animate-spin" />}
+                Guardar cambios
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ========== MODAL: PRECIO/DURACIÓN POR PROFESIONAL ========== */}
+      <Modal
+        isOpen={!!celda}
+        onClose={() => setCelda(null)}
+        title={celda ? `${celda.servicio.nombre} con ${celda.profesional.nombreCompleto}` : ''}
+        size="md"
+      >
+        {celda && (
+          <PersonalizacionServicioForm
+            servicio={celda.servicio}
+            initialData={borrador[celda.profesional.id]?.[celda.servicio.id]}
+            onSubmit={handlePersonalizar}
+            onCancel={() => setCelda(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
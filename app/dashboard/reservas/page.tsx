@@ -0,0 +1,587 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - RESERVAS (Dashboard)
+ * ============================================================
+ *
+ * Gestión de las citas del negocio:
+ * - Tabla con paginación en el BACKEND (reservaService.getAll)
+ * - Filtros: rango de fechas, profesional y estado (ReservaFilters)
+ * - Modal para crear/editar (components/forms/reserva-form.tsx)
+ * - Cambios de estado según la máquina de estados (TRANSICIONES_RESERVA):
+ *   cada botón aparece solo si la transición existe y el usuario tiene el permiso
+ * - Exportación a PDF y Excel (página actual)
+ * - RBAC: Botones visibles según permisos del usuario
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { createColumnHelper } from '@tanstack/react-table';
+import { useReservas, useProfesionales, useServicios, useServiciosPorProfesional } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import {
+  showSuccess,
+  showError,
+  isValidationError,
+  formatFechaHora,
+  isPast,
+  getNombreServicios,
+  getPrecioReserva,
+  getServiciosReserva,
+  getTransicionesPermitidas,
+  requiereMotivo,
+  ESTADOS_GESTIONABLES,
+  PERMISO_TRANSICION,
+  ACCION_TRANSICION_LABELS,
+  exportToPDF,
+  exportToExcel,
+} from '@/lib/utils';
+import { DataTable, EstadoReservaBadge } from '@/components/ui';
+import { Modal } from '@/components/ui/modal';
+import { ReservaForm, MotivoEstadoForm } from '@/components/forms';
+import { ESTADO_RESERVA_LABELS, formatPrecio } from '@/lib/types';
+import type {
+  Reserva,
+  CreateReservaDto,
+  UpdateReservaDto,
+  EstadoReserva,
+  ReservaFilters,
+  ApiError,
+} from '@/lib/types';
+import {
+  Calendar,
+  Plus,
+  Pencil,
+  CheckCircle,
+  XCircle,
+  UserX,
+  Play,
+  CheckCheck,
+  RotateCcw,
+  RefreshCw,
+  type LucideIcon,
+} from 'lucide-react';
+
+// ============================================================
+// COLUMN HELPER PARA LA TABLA
+// ============================================================
+const columnHelper = createColumnHelper<Reserva>();
+
+// Ícono y color del botón que lleva a cada estado
+const ESTILO_TRANSICION: Record<EstadoReserva, { icon: LucideIcon; className: string }> = {
+  PENDIENTE: { icon: RotateCcw, className: 'text-yellow-600 dark:text-yellow-400 hover:bg-yellow-50 dark:hover:bg-yellow-900/20' },
+  CONFIRMADA: { icon: CheckCircle, className: 'text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20' },
+  EN_PROGRESO: { icon: Play, className: 'text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20' },
+  COMPLETADA: { icon: CheckCheck, className: 'text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20' },
+  CANCELADA: { icon: XCircle, className: 'text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20' },
+  NO_ASISTIO: { icon: UserX, className: 'text-orange-600 dark:text-orange-400 hover:bg-orange-50 dark:hover:bg-orange-900/20' },
+};
+
+// Cambio de estado que espera el motivo
+interface TransicionPendiente {
+  reserva: Reserva;
+  estado: EstadoReserva;
+}
+
+const ESTADOS = Object.keys(ESTADO_RESERVA_LABELS) as EstadoReserva[];
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ReservasPage() {
+  // Hook de reservas (filtros y paginación en backend)
+  const {
+    reservas,
+    loading,
+    error,
+    filters,
+    page,
+    pageSize,
+    totalElements,
+    totalPages,
+    refetch,
+    setFilters,
+    setPage,
+    createReserva,
+    updateReserva,
+    cambiarEstado,
+  } = useReservas();
+
+  // Opciones para filtros y formulario
+  const { profesionales } = useProfesionales();
+  const { servicios } = useServicios();
+  // Precio/duración propios de cada profesional (overrides)
+  const { serviciosPorProfesional } = useServiciosPorProfesional(profesionales);
+
+  // ============================================================
+  // RBAC: Verificar permisos del usuario
+  // ============================================================
+  const { hasPermission } = useAuth();
+
+  const canCreate = hasPermission('CREATE_BOOKING');
+  const canUpdate = hasPermission('UPDATE_BOOKING');
+  // Algún cambio de estado permitido (ver PERMISO_TRANSICION)
+  const canCambiarEstado = ESTADOS.some((estado) => hasPermission(PERMISO_TRANSICION[estado]));
+
+  // Estados para modales
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [transicionPendiente, setTransicionPendiente] = useState<TransicionPendiente | null>(null);
+  const [selectedReserva, setSelectedReserva] = useState<Reserva | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+  const [motivoError, setMotivoError] = useState<ApiError | null>(null);
+
+  // Cambio de estado: si exige motivo abre el modal, si no se aplica directo
+  const handleTransicion = useCallback(async (reserva: Reserva, estado: EstadoReserva) => {
+    if (requiereMotivo(estado)) {
+      setTransicionPendiente({ reserva, estado });
+      return;
+    }
+
+    try {
+      await cambiarEstado(reserva, estado);
+      showSuccess(`Reserva de ${reserva.clienteNombre}: ${ESTADO_RESERVA_LABELS[estado]}`);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al actualizar la reserva');
+    }
+  }, [cambiarEstado]);
+
+  // ============================================================
+  // DEFINICIÓN DE COLUMNAS
+  // ============================================================
+  const columns = useMemo(() => [
+    columnHelper.accessor('fechaHora', {
+      header: 'Fecha y hora',
+      cell: (info) => <span className="font-mono">{formatFechaHora(info.getValue())}</span>,
+    }),
+    columnHelper.accessor('clienteNombre', {
+      header: 'Cliente',
+      cell: (info) => (
+        <div>
+          <p className="font-medium">{info.getValue()}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">{info.row.original.clienteTelefono}</p>
+        </div>
+      ),
+    }),
+    columnHelper.display({
+      id: 'servicios',
+      header: 'Servicios',
+      cell: (info) => getNombreServicios(getServiciosReserva(info.row.original)),
+    }),
+    columnHelper.accessor('profesional.nombreCompleto', {
+      header: 'Profesional',
+    }),
+    columnHelper.display({
+      id: 'total',
+      header: 'Total',
+      cell: (info) => {
+        const reserva = info.row.original;
+        return formatPrecio(getPrecioReserva(reserva, serviciosPorProfesional[reserva.profesional.id]));
+      },
+    }),
+    columnHelper.accessor('estado', {
+      header: 'Estado',
+      cell: (info) => <EstadoReservaBadge estado={info.getValue()} />,
+    }),
+    // Solo mostrar columna de acciones si tiene algún permiso de acción
+    ...(canUpdate || canCambiarEstado ? [
+      columnHelper.display({
+        id: 'actions',
+        header: 'Acciones',
+        cell: (info) => {
+          const reserva = info.row.original;
+          const gestionable = ESTADOS_GESTIONABLES.includes(reserva.estado);
+
+          return (
+            <div className="flex items-center gap-1">
+              {/* Editar - UPDATE_BOOKING */}
+              {canUpdate && gestionable && (
+                <button
+                  onClick={() => handleEdit(reserva)}
+                  className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                  title="Editar"
+                >
+                  <Pencil size={16} />
+                </button>
+              )}
+              {/* Cambios de estado permitidos (NO_ASISTIO solo si la hora ya pasó) */}
+              {getTransicionesPermitidas(reserva.estado, hasPermission)
+                .filter((estado) => estado !== 'NO_ASISTIO' || isPast(reserva.fechaHora))
+                .map((estado) => {
+                  const { icon: Icon, className } = ESTILO_TRANSICION[estado];
+                  return (
+                    <button
+                      key={estado}
+                      onClick={() => handleTransicion(reserva, estado)}
+                      className={`p-2 rounded-lg transition-colors ${className}`}
+                      title={ACCION_TRANSICION_LABELS[estado]}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  );
+                })}
+            </div>
+          );
+        },
+      }),
+    ] : []),
+  ], [canUpdate, canCambiarEstado, hasPermission, handleTransicion, serviciosPorProfesional]);
+
+  // ============================================================
+  // HANDLERS DE FILTROS
+  // ============================================================
+  const handleFilterChange = (campo: keyof ReservaFilters, valor: string) => {
+    const nuevos: ReservaFilters = { ...filters };
+
+    if (!valor) {
+      delete nuevos[campo];
+    } else if (campo === 'profesionalId') {
+      nuevos.profesionalId = Number(valor);
+    } else if (campo === 'estado') {
+      nuevos.estado = valor as EstadoReserva;
+    } else {
+      nuevos[campo] = valor;
+    }
+
+    setFilters(nuevos);
+  };
+
+  const hayFiltros = Object.keys(filters).length > 0;
+
+  // ============================================================
+  // HANDLERS DE MODALES
+  // ============================================================
+
+  // Abrir modal para crear
+  const handleCreate = () => {
+    setSelectedReserva(null);
+    setShowFormModal(true);
+  };
+
+  // Abrir modal para editar
+  const handleEdit = (reserva: Reserva) => {
+    setSelectedReserva(reserva);
+    setShowFormModal(true);
+  };
+
+  // Cerrar modal de formulario
+  const handleCloseFormModal = () => {
+    setShowFormModal(false);
+    setSelectedReserva(null);
+    setServerError(null); // Limpiar errores al cerrar
+  };
+
+  const handleCloseMotivoModal = () => {
+    setTransicionPendiente(null);
+    setMotivoError(null);
+  };
+
+  // ============================================================
+  // HANDLERS DE ACCIONES
+  // ============================================================
+
+  // Enviar formulario (crear o editar) - Recibe el DTO del ReservaForm
+  const handleFormSubmit = async (data: CreateReservaDto | UpdateReservaDto) => {
+    setIsSubmitting(true);
+    setServerError(null); // Limpiar errores previos
+
+    try {
+      if (selectedReserva) {
+        await updateReserva(selectedReserva.id, data as UpdateReservaDto);
+        showSuccess('Reserva actualizada correctamente');
+      } else {
+        await createReserva(data as CreateReservaDto);
+        showSuccess('Reserva creada correctamente');
+      }
+      // Solo cerrar si fue exitoso
+      handleCloseFormModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (apiError.status === 409) {
+        showError('El profesional ya tiene una cita en ese horario');
+      } else if (isValidationError(apiError)) {
+        // Si es error de validación, mostrar en el formulario (no cerrar modal)
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar la reserva');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Cancelar o marcar no asistió (desde el modal de motivo)
+  const handleMotivoSubmit = async (motivo: string) => {
+    if (!transicionPendiente) return;
+    const { reserva, estado } = transicionPendiente;
+    setIsSubmitting(true);
+    setMotivoError(null);
+
+    try {
+      await cambiarEstado(reserva, estado, motivo);
+      showSuccess(`Reserva de ${reserva.clienteNombre}: ${ESTADO_RESERVA_LABELS[estado]}`);
+      handleCloseMotivoModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (isValidationError(apiError)) {
+        setMotivoError(apiError);
+      } else {
+        showError(apiError.message || 'Error al actualizar la reserva');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // HANDLERS DE EXPORTACIÓN
+  // ============================================================
+
+  const exportColumns = [
+    { header: 'Fecha y hora', accessorKey: 'fechaHora' },
+    { header: 'Cliente', accessorKey: 'clienteNombre' },
+    { header: 'Teléfono', accessorKey: 'clienteTelefono' },
+    { header: 'Servicios', accessorKey: 'servicios' },
+    { header: 'Profesional', accessorKey: 'profesional.nombreCompleto' },
+    { header: 'Estado', accessorKey: 'estado' },
+  ];
+
+  // Filas planas para exportar (servicios y fecha legibles)
+  const exportData = reservas.map((r) => ({
+    ...r,
+    fechaHora: formatFechaHora(r.fechaHora),
+    servicios: getNombreServicios(getServiciosReserva(r)),
+    estado: ESTADO_RESERVA_LABELS[r.estado],
+  }));
+
+  const handleExportExcel = () => {
+    exportToExcel(exportData, exportColumns, 'reservas');
+  };
+
+  const handleExportPDF = () => {
+    exportToPDF(exportData, exportColumns, 'reservas', 'Lista de Reservas');
+  };
+
+  const filterClass = `w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+    bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+    focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors`;
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Calendar className="text-blue-600" />
+            Reservas
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Gestiona las citas de tus clientes
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {/* Botón Recargar */}
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            title="Recargar lista"
+          >
+            <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          {/* Botón Crear - Solo si tiene permiso CREATE_BOOKING */}
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg
+                hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={20} />
+              <span className="hidden sm:inline">Nueva Reserva</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ========== FILTROS ========== */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Desde</label>
+            <input
+              type="date"
+              value={filters.fechaInicio ?? ''}
+              onChange={(e) => handleFilterChange('fechaInicio', e.target.value)}
+              className={filterClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Hasta</label>
+            <input
+              type="date"
+              value={filters.fechaFin ?? ''}
+              min={filters.fechaInicio}
+              onChange={(e) => handleFilterChange('fechaFin', e.target.value)}
+              className={filterClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Profesional</label>
+            <select
+              value={filters.profesionalId ?? ''}
+              onChange={(e) => handleFilterChange('profesionalId', e.target.value)}
+              className={filterClass}
+            >
+              <option value="">Todos</option>
+              {profesionales.map((p) => (
+                <option key={p.id} value={p.id}>{p.nombreCompleto}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Estado</label>
+            <select
+              value={filters.estado ?? ''}
+              onChange={(e) => handleFilterChange('estado', e.target.value)}
+              className={filterClass}
+            >
+              <option value="">Todos</option>
+              {ESTADOS.map((estado) => (
+                <option key={estado} value={estado}>{ESTADO_RESERVA_LABELS[estado]}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            onClick={() => setFilters({})}
+            disabled={!hayFiltros}
+            className="px-4 py-2 text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-40 disabled:no-underline"
+          >
+            Limpiar filtros
+          </button>
+        </div>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== EMPTY STATE ========== */}
+      {!loading && !error && reservas.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <Calendar size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+            {hayFiltros ? 'No se encontraron resultados' : 'No hay reservas'}
+          </h3>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            {hayFiltros
+              ? 'No hay reservas que coincidan con los filtros'
+              : 'Las reservas de la web y las que registres aparecerán aquí'
+            }
+          </p>
+          {hayFiltros ? (
+            <button
+              onClick={() => setFilters({})}
+              className="mt-4 text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Limpiar filtros
+            </button>
+          ) : canCreate && (
+            <button
+              onClick={handleCreate}
+              className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Agregar Reserva
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ========== DATA TABLE (paginación en backend) ========== */}
+      {!error && (reservas.length > 0 || loading) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={reservas}
+            isLoading={loading}
+            showSearch={false}
+            showExport={true}
+            onExportExcel={handleExportExcel}
+            onExportPDF={handleExportPDF}
+            serverPagination={{
+              pageIndex: page,
+              pageSize,
+              totalElements,
+              totalPages,
+              onPageChange: setPage,
+            }}
+          />
+        </div>
+      )}
+
+      {/* ========== MODAL: CREAR/EDITAR ========== */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={handleCloseFormModal}
+        title={selectedReserva ? 'Editar Reserva' : 'Nueva Reserva'}
+        size="lg"
+      >
+        <ReservaForm
+          initialData={selectedReserva}
+          profesionales={profesionales}
+          servicios={servicios}
+          serviciosPorProfesional={serviciosPorProfesional}
+          onSubmit={handleFormSubmit}
+          onCancel={handleCloseFormModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: MOTIVO (CANCELAR / NO ASISTIÓ) ========== */}
+      <Modal
+        isOpen={!!transicionPendiente}
+        onClose={handleCloseMotivoModal}
+        title={transicionPendiente?.estado === 'CANCELADA' ? 'Cancelar Reserva' : 'Marcar No Asistió'}
+        size="md"
+      >
+        {transicionPendiente && (
+          <MotivoEstadoForm
+            mensaje={
+              transicionPendiente.estado === 'CANCELADA'
+                ? `¿Cancelar la cita de "${transicionPendiente.reserva.clienteNombre}" del ${formatFechaHora(transicionPendiente.reserva.fechaHora)}?`
+                : `¿Confirmas que "${transicionPendiente.reserva.clienteNombre}" no se presentó a su cita?`
+            }
+            confirmText={ACCION_TRANSICION_LABELS[transicionPendiente.estado]}
+            variant={transicionPendiente.estado === 'CANCELADA' ? 'danger' : 'warning'}
+            onSubmit={handleMotivoSubmit}
+            onCancel={handleCloseMotivoModal}
+            isLoading={isSubmitting}
+            serverError={motivoError}
+            onClearError={() => setMotivoError(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
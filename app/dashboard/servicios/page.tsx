@@ -0,0 +1,399 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - SERVICIOS (CRUD Completo)
+ * ============================================================
+ *
+ * Gestión de los servicios que ofrece el negocio:
+ * - Tabla con TanStack Table (búsqueda en la tabla: son pocos)
+ * - Modal para crear/editar (components/forms/servicio-form.tsx),
+ *   con la categoría elegida entre las activas
+ * - Modal de confirmación para eliminar
+ * - Exportación a PDF y Excel
+ * - RBAC: Botones visibles según permisos del usuario
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { createColumnHelper } from '@tanstack/react-table';
+import { useServicios, useCategorias } from '@/lib/hooks';
+import { useAuth } from '@/lib/context';
+import { showSuccess, showError, isValidationError } from '@/lib/utils';
+import { DataTable, UploadedImage } from '@/components/ui';
+import { Modal, ConfirmModal } from '@/components/ui/modal';
+import { ServicioForm } from '@/components/forms';
+import { exportToPDF, exportToExcel } from '@/lib/utils';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import type { Servicio, CreateServicioDto, ApiError } from '@/lib/types';
+import {
+  Scissors,
+  Plus,
+  Pencil,
+  Trash2,
+  RefreshCw,
+} from 'lucide-react';
+
+// ============================================================
+// COLUMN HELPER PARA LA TABLA
+// ============================================================
+const columnHelper = createColumnHelper<Servicio>();
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+export default function ServiciosPage() {
+  const {
+    servicios,
+    loading,
+    error,
+    refetch,
+    createServicio,
+    updateServicio,
+    deleteServicio,
+  } = useServicios();
+  const { categorias } = useCategorias();
+
+  // ============================================================
+  // RBAC: Verificar permisos del usuario
+  // ============================================================
+  const { hasPermission } = useAuth();
+
+  const canCreate = hasPermission('CREATE_SERVICES');
+  const canUpdate = hasPermission('UPDATE_SERVICES');
+  const canDelete = hasPermission('DELETE_SERVICES');
+
+  // Estados para modales
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [selectedServicio, setSelectedServicio] = useState<Servicio | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Estado para errores del servidor (validación del backend)
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+
+  // ============================================================
+  // HANDLERS DE MODALES
+  // ============================================================
+
+  // Abrir modal para crear
+  const handleCreate = () => {
+    setSelectedServicio(null);
+    setShowFormModal(true);
+  };
+
+  // Abrir modal para editar
+  const handleEdit = useCallback((servicio: Servicio) => {
+    setSelectedServicio(servicio);
+    setShowFormModal(true);
+  }, []);
+
+  // Abrir modal de confirmación para eliminar
+  const handleDeleteClick = useCallback((servicio: Servicio) => {
+    setSelectedServicio(servicio);
+    setShowDeleteModal(true);
+  }, []);
+
+  // Cerrar modal de formulario
+  const handleCloseFormModal = () => {
+    setShowFormModal(false);
+    setSelectedServicio(null);
+    setServerError(null);
+  };
+
+  // ============================================================
+  // DEFINICIÓN DE COLUMNAS
+  // ============================================================
+  const columns = useMemo(() => [
+    columnHelper.accessor('nombre', {
+      header: 'Servicio',
+      cell: (info) => {
+        const servicio = info.row.original;
+        return (
+          <div className="flex items-center gap-3">
+            {servicio.imagen ? (
+              <UploadedImage
+                src={servicio.imagen}
+                alt={servicio.nombre}
+                className="w-10 h-10 rounded-lg"
+              />
+            ) : (
+              <div className="w-10 h-10 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
+                <Scissors size={18} className="text-blue-600 dark:text-blue-400" />
+              </div>
+            )}
+            <div className="min-w-0">
+              <p className="font-medium">{servicio.nombre}</p>
+              {servicio.descripcion && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate max-w-xs">
+                  {servicio.descripcion}
+                </p>
+              )}
+            </div>
+          </div>
+        );
+      },
+    }),
+    columnHelper.accessor((row) => row.categoria?.nombre ?? '', {
+      id: 'categoria',
+      header: 'Categoría',
+      cell: (info) => info.getValue()
+        ? (
+          <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400">
+            {info.getValue()}
+          </span>
+        )
+        : <span className="text-gray-400 dark:text-gray-500">-</span>,
+    }),
+    columnHelper.accessor('duracionMinutos', {
+      header: 'Duración',
+      cell: (info) => {
+        const limpieza = info.row.original.minutosLimpieza ?? 0;
+        return (
+          <div>
+            <p>{formatDuracion(info.getValue())}</p>
+            {limpieza > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">+ {limpieza} min de limpieza</p>
+            )}
+          </div>
+        );
+      },
+    }),
+    columnHelper.accessor('precio', {
+      header: 'Precio',
+      cell: (info) => <span className="font-medium">{formatPrecio(info.getValue())}</span>,
+    }),
+    // Solo mostrar columna de acciones si tiene algún permiso de acción
+    ...(canUpdate || canDelete ? [
+      columnHelper.display({
+        id: 'actions',
+        header: 'Acciones',
+        cell: (info) => (
+          <div className="flex items-center gap-2">
+            {canUpdate && (
+              <button
+                onClick={() => handleEdit(info.row.original)}
+                className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                title="Editar"
+              >
+                <Pencil size={16} />
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => handleDeleteClick(info.row.original)}
+                className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Eliminar"
+              >
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+        ),
+      }),
+    ] : []),
+  ], [canUpdate, canDelete, handleEdit, handleDeleteClick]);
+
+  // ============================================================
+  // HANDLERS DE CRUD
+  // ============================================================
+
+  // Enviar formulario (crear o editar)
+  const handleFormSubmit = async (data: CreateServicioDto) => {
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      if (selectedServicio) {
+        await updateServicio(selectedServicio.id, data);
+        showSuccess('Servicio actualizado correctamente');
+      } else {
+        await createServicio(data);
+        showSuccess('Servicio creado correctamente');
+      }
+      handleCloseFormModal();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      // Si es error de validación, mostrar en el formulario (no cerrar modal)
+      if (isValidationError(apiError)) {
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'Error al guardar el servicio');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirmar eliminación
+  const handleConfirmDelete = async () => {
+    if (!selectedServicio) return;
+    setIsSubmitting(true);
+
+    try {
+      await deleteServicio(selectedServicio.id);
+      showSuccess('Servicio eliminado correctamente');
+      setShowDeleteModal(false);
+      setSelectedServicio(null);
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(apiError.message || 'Error al eliminar el servicio');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // HANDLERS DE EXPORTACIÓN
+  // ============================================================
+
+  const exportColumns = [
+    { header: 'Nombre', accessorKey: 'nombre' },
+    { header: 'Categoría', accessorKey: 'categoria' },
+    { header: 'Descripción', accessorKey: 'descripcion' },
+    { header: 'Duración', accessorKey: 'duracion' },
+    { header: 'Precio', accessorKey: 'precio' },
+  ];
+
+  // Filas planas para exportar (duración y precio legibles)
+  const exportData = servicios.map((s) => ({
+    nombre: s.nombre,
+    categoria: s.categoria?.nombre ?? '',
+    descripcion: s.descripcion,
+    duracion: formatDuracion(s.duracionMinutos),
+    precio: formatPrecio(s.precio),
+  }));
+
+  const handleExportExcel = () => {
+    exportToExcel(exportData, exportColumns, 'servicios');
+  };
+
+  const handleExportPDF = () => {
+    exportToPDF(exportData, exportColumns, 'servicios', 'Lista de Servicios');
+  };
+
+  // ============================================================
+  // RENDER
+  // ============================================================
+  return (
+    <div className="space-y-6">
+      {/* ========== HEADER ========== */}
+      <div className="flex flex-col sm:flex-row gap-4 justify-between items-start sm:items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Scissors className="text-blue-600" />
+            Servicios
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Gestiona los servicios, su duración y precio
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {/* Botón Recargar */}
+          <button
+            onClick={refetch}
+            disabled={loading}
+            className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 transition-colors"
+            title="Recargar lista"
+          >
+            <RefreshCw size={20} className={`text-gray-600 dark:text-gray-400 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+
+          {/* Botón Crear - Solo si tiene permiso CREATE_SERVICES */}
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg
+                hover:bg-blue-700 transition-colors font-medium"
+            >
+              <Plus size={20} />
+              <span className="hidden sm:inline">Nuevo Servicio</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* ========== ERROR STATE ========== */}
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-400 font-medium">Error al cargar datos</p>
+          <p className="text-red-600 dark:text-red-300 text-sm mt-1">{error.message}</p>
+          <button
+            onClick={refetch}
+            className="mt-2 text-red-600 dark:text-red-400 underline hover:no-underline"
+          >
+            Reintentar
+          </button>
+        </div>
+      )}
+
+      {/* ========== EMPTY STATE ========== */}
+      {!loading && !error && servicios.length === 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-8 text-center">
+          <Scissors size={48} className="mx-auto text-gray-400 dark:text-gray-500" />
+          <h3 className="mt-4 text-lg font-medium text-gray-900 dark:text-white">
+            No hay servicios
+          </h3>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">
+            Empieza agregando el primer servicio que ofreces
+          </p>
+          {canCreate && (
+            <button
+              onClick={handleCreate}
+              className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Agregar Servicio
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* ========== DATA TABLE ========== */}
+      {!error && (servicios.length > 0 || loading) && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={servicios}
+            isLoading={loading}
+            searchPlaceholder="Buscar servicio..."
+            showExport={true}
+            onExportExcel={handleExportExcel}
+            onExportPDF={handleExportPDF}
+          />
+        </div>
+      )}
+
+      {/* ========== MODAL: CREAR/EDITAR ========== */}
+      <Modal
+        isOpen={showFormModal}
+        onClose={handleCloseFormModal}
+        title={selectedServicio ? 'Editar Servicio' : 'Nuevo Servicio'}
+        size="md"
+      >
+        <ServicioForm
+          initialData={selectedServicio}
+          categorias={categorias}
+          onSubmit={handleFormSubmit}
+          onCancel={handleCloseFormModal}
+          isLoading={isSubmitting}
+          serverError={serverError}
+          onClearError={() => setServerError(null)}
+        />
+      </Modal>
+
+      {/* ========== MODAL: CONFIRMAR ELIMINACIÓN ========== */}
+      <ConfirmModal
+        isOpen={showDeleteModal}
+        onClose={() => setShowDeleteModal(false)}
+        onConfirm={handleConfirmDelete}
+        title="Eliminar Servicio"
+        message={`¿Estás seguro de eliminar "${selectedServicio?.nombre}"? Las reservas existentes lo conservan, pero ya no se podrá reservar.`}
+        confirmText="Eliminar"
+        cancelText="Cancelar"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
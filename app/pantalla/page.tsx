@@ -0,0 +1,188 @@
+'use client';
+
+/**
+ * ============================================================
+ * PÁGINA - PANTALLA DE SALA DE ESPERA (TV, pública)
+ * ============================================================
+ * Vista de solo lectura para la TV del local:
+ * - Por profesional: cliente que se atiende ahora y el siguiente
+ * - Cola de clientes sin reserva, en orden de llegada
+ *
+ * No requiere login: se abre con la clave de la pantalla
+ *
+ *   /pantalla?key=<clave>
+ *
+ * Usa siempre el tema oscuro (clase `dark` en el contenedor, la misma
+ * variante que activa ThemeProvider) sin tocar la preferencia guardada.
+ * Se refresca sola (ver usePantalla).
+ */
+
+import { Suspense, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { usePantalla } from '@/lib/hooks';
+import { formatHora, formatFecha } from '@/lib/utils';
+import type { TurnoPantalla } from '@/lib/types';
+import { Loader2, Maximize, Scissors, WifiOff } from 'lucide-react';
+
+// ============================================================
+// SUBCOMPONENTES
+// ============================================================
+
+/** Reloj del encabezado (se actualiza cada 10 s) */
+function Reloj() {
+  const [ahora, setAhora] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setAhora(new Date()), 10_000);
+    return () => clearInterval(id);
+  }, []);
+
+  return (
+    <div className="text-right">
+      <p className="text-5xl font-bold tabular-nums">{formatHora(ahora)}</p>
+      <p className="text-lg text-gray-400 capitalize">{formatFecha(ahora, 'dddd D [de] MMMM')}</p>
+    </div>
+  );
+}
+
+function Turno({ titulo, turno, destacado }: { titulo: string; turno: TurnoPantalla | null; destacado?: boolean }) {
+  return (
+    <div>
+      <p className="text-sm uppercase tracking-wider text-gray-500 dark:text-gray-400">{titulo}</p>
+      {turno ? (
+        <>
+          <p className={`font-semibold text-gray-900 dark:text-white truncate ${destacado ? 'text-3xl' : 'text-2xl'}`}>
+            {turno.clienteNombre}
+          </p>
+          <p className="text-gray-600 dark:text-gray-400 truncate">
+            {turno.servicios} · {turno.hora}
+          </p>
+        </>
+      ) : (
+        <p className={`text-gray-400 dark:text-gray-600 ${destacado ? 'text-3xl' : 'text-2xl'}`}>—</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================
+// COMPONENTE PRINCIPAL
+// ============================================================
+// Lee ?key con useSearchParams: va dentro de <Suspense> (ver PantallaPage)
+function Pantalla() {
+  const searchParams = useSearchParams();
+  const { pantalla, loading, error } = usePantalla(searchParams.get('key'));
+
+  const handlePantallaCompleta = () => {
+    document.documentElement.requestFullscreen?.().catch(() => {
+      // El navegador puede bloquearlo; se sigue viendo igual
+    });
+  };
+
+  return (
+    <div className="dark">
+      <main className="min-h-screen bg-gray-900 text-white p-8 flex flex-col gap-8">
+        {/* ========== SIN DATOS: CARGANDO / CLAVE INVÁLIDA ========== */}
+        {!pantalla ? (
+          <div className="flex-1 flex flex-col items-center justify-center gap-4 text-center">
+            {loading ? (
+              <Loader2 size={48} className="animate-spin text-blue-400" />
+            ) : (
+              <>
+                <p className="text-3xl font-semibold">No se puede mostrar la pantalla</p>
+                <p className="text-xl text-gray-400">{error?.message}</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <>
+            {/* ========== HEADER ========== */}
+            <header className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-4">
+                <Scissors size={40} className="text-blue-400" />
+                <h1 className="text-4xl font-bold">{pantalla.negocio}</h1>
+              </div>
+              <Reloj />
+            </header>
+
+            <div className="flex-1 grid gap-8 lg:grid-cols-3">
+              {/* ========== PROFESIONALES ========== */}
+              <section className="lg:col-span-2 grid gap-6 sm:grid-cols-2 content-start">
+                {pantalla.profesionales.map((prof) => (
+                  <article
+                    key={prof.id}
+                    className="bg-white dark:bg-gray-800 rounded-2xl p-6 space-y-4 border-l-8 border-blue-500"
+                  >
+                    <h2 className="text-2xl font-bold text-blue-600 dark:text-blue-400 truncate">
+                      {prof.nombreCompleto}
+                    </h2>
+                    <Turno titulo="Atendiendo" turno={prof.actual} destacado />
+                    <Turno titulo="Sigue" turno={prof.siguiente} />
+                  </article>
+                ))}
+              </section>
+
+              {/* ========== COLA DE ESPERA ========== */}
+              <section className="bg-white dark:bg-gray-800 rounded-2xl p-6">
+                <h2 className="text-2xl font-bold mb-4">En espera</h2>
+                {pantalla.cola.length === 0 ? (
+                  <p className="text-xl text-gray-500 dark:text-gray-400">No hay clientes esperando</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {pantalla.cola.map((entrada, i) => (
+                      <li key={entrada.id} className="flex items-center gap-4">
+                        <span className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-xl font-bold shrink-0">
+                          {i + 1}
+                        </span>
+                        <div className="min-w-0">
+                          <p className="text-2xl font-semibold truncate">{entrada.clienteNombre}</p>
+                          <p className="text-gray-500 dark:text-gray-400 truncate">
+                            Llegó {entrada.horaLlegada}
+                            {entrada.profesionalPreferido && ` · con ${entrada.profesionalPreferido}`}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </section>
+            </div>
+
+            {/* ========== FOOTER ========== */}
+            <footer className="flex items-center justify-between text-gray-500">
+              {error ? (
+                <span className="flex items-center gap-2 text-yellow-400">
+                  <WifiOff size={18} />
+                  Sin conexión · datos de las {formatHora(pantalla.actualizadoEn)}
+                </span>
+              ) : (
+                <span>Actualizado {formatHora(pantalla.actualizadoEn)}</span>
+              )}
+              <button
+                onClick={handlePantallaCompleta}
+                className="p-2 rounded-lg hover:bg-gray-800 transition-colors"
+                title="Pantalla completa"
+              >
+                <Maximize size={20} />
+              </button>
+            </footer>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+export default function PantallaPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className="min-h-screen bg-gray-900 flex items-center justify-center">
+          <Loader2 size={48} className="animate-spin text-blue-400" />
+        </main>
+      }
+    >
+      <Pantalla />
+    </Suspense>
+  );
+}
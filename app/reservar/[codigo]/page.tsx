@@ -0,0 +1,391 @@
+/**
+ * ============================================================
+ * PÁGINA - MI RESERVA (Pública)
+ * ============================================================
+ * El cliente gestiona su cita sin login, con el código de confirmación
+ * o con el enlace firmado que recibe al reservar:
+ *   /reservar/BRB-7K2Q9X
+ *   /reservar/BRB-7K2Q9X?token=...
+ *
+ * ACCIONES (solo hasta X horas antes de la cita, X lo define el negocio):
+ * - Cancelar la reserva (reservaPublicaService.cancelar)
+ * - Reprogramar a otro horario libre del mismo profesional (reservaPublicaService.reprogramar)
+ *
+ * Ambas van con el código y el token del enlace: el cliente no tiene sesión.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, CalendarClock, CalendarPlus, XCircle, AlertTriangle } from 'lucide-react';
+import { useReservaPorCodigo, useDisponibilidad, useNegocioPublico } from '@/lib/hooks';
+import { reservaPublicaService } from '@/lib/services';
+import { negocioConfig } from '@/lib/config';
+import { ESTADO_RESERVA_LABELS, formatPrecio, formatDuracion } from '@/lib/types';
+import type { ApiError } from '@/lib/types';
+import {
+  descargarReservaIcs,
+  formatFecha,
+  formatFechaHora,
+  getDuracionReserva,
+  getMinutosLimpiezaReserva,
+  getLimiteCancelacion,
+  getMotivoNoGestionable,
+  getNegocioIcs,
+  getNombreServicios,
+  getPrecioReserva,
+  getServiciosReserva,
+  showError,
+  showSuccess,
+  type SlotDisponible,
+} from '@/lib/utils';
+import { CalendarioSelector, HorarioSelector } from '@/components/booking';
+import { ConfirmModal } from '@/components/ui';
+
+type Modo = 'detalle' | 'reprogramar';
+
+// La máquina de estados exige motivo al cancelar
+const MOTIVO_CANCELACION_CLIENTE = 'Cancelada por el cliente desde la web';
+
+const MENSAJE_ENLACE_INVALIDO = 'El enlace no es válido o ya expiró';
+
+export default function MiReservaPage() {
+  const params = useParams<{ codigo: string }>();
+  const searchParams = useSearchParams();
+
+  const codigo = decodeURIComponent(params.codigo);
+  const token = searchParams.get('token') || undefined;
+
+  const {
+    reserva,
+    profesional,
+    serviciosProfesional,
+    loading,
+    error,
+    errorProfesional,
+    refetch,
+  } = useReservaPorCodigo(codigo, token);
+  const { negocio } = useNegocioPublico();
+
+  const [modo, setModo] = useState<Modo>('detalle');
+  const [selectedFecha, setSelectedFecha] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<SlotDisponible | null>(null);
+  const [isCancelModalOpen, setIsCancelModalOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Ventana definida por el negocio (la de negocioConfig si no la configuró)
+  const horasLimite = negocio?.horasLimiteCancelacion ?? negocioConfig.horasLimiteCancelacion;
+
+  // Solo se calcula disponibilidad mientras se reprograma
+  const {
+    atiende,
+    slots,
+    loadingHorarios,
+    loadingSlots,
+    error: errorDisponibilidad,
+    refetch: refetchDisponibilidad,
+  } = useDisponibilidad({
+    profesional: modo === 'reprogramar' ? profesional : null,
+    duracionMinutos: reserva ? getDuracionReserva(reserva, serviciosProfesional) : 0,
+    minutosLimpieza: reserva ? getMinutosLimpiezaReserva(reserva) : 0,
+    fecha: selectedFecha,
+    excluirReservaId: reserva?.id,
+    serviciosProfesional,
+  });
+
+  const motivoNoGestionable = reserva ? getMotivoNoGestionable(reserva, horasLimite) : null;
+
+  const volverAlDetalle = () => {
+    setModo('detalle');
+    setSelectedFecha(null);
+    setSelectedSlot(null);
+  };
+
+  // ============================================================
+  // CANCELAR
+  // ============================================================
+  const handleCancelar = async () => {
+    if (!reserva) return;
+
+    // La ventana pudo cerrarse mientras la página estaba abierta
+    const motivo = getMotivoNoGestionable(reserva, horasLimite);
+    if (motivo) {
+      showError(motivo);
+      setIsCancelModalOpen(false);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reservaPublicaService.cancelar(reserva, codigo, token, MOTIVO_CANCELACION_CLIENTE);
+      showSuccess('Tu reserva fue cancelada');
+      setIsCancelModalOpen(false);
+      await refetch();
+    } catch (err) {
+      const apiError = err as ApiError;
+      showError(
+        apiError.status === 401 || apiError.status === 403
+          ? MENSAJE_ENLACE_INVALIDO
+          : apiError.message || 'No pudimos cancelar tu reserva'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // ============================================================
+  // REPROGRAMAR
+  // ============================================================
+  const handleReprogramar = async () => {
+    if (!reserva || !selectedSlot) return;
+
+    const motivo = getMotivoNoGestionable(reserva, horasLimite);
+    if (motivo) {
+      showError(motivo);
+      volverAlDetalle();
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await reservaPublicaService.reprogramar(codigo, token, selectedSlot.fechaHora);
+      showSuccess(`Tu cita se movió al ${formatFechaHora(selectedSlot.fechaHora)}`);
+      volverAlDetalle();
+      await refetch();
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (apiError.status === 409) {
+        // Otra persona tomó el horario mientras se elegía
+        showError('Ese horario acaba de ser reservado. Elige otra hora.');
+        setSelectedSlot(null);
+        refetchDisponibilidad();
+      } else if (apiError.status === 401 || apiError.status === 403) {
+        showError(MENSAJE_ENLACE_INVALIDO);
+      } else {
+        showError(apiError.message || 'No pudimos reprogramar tu reserva');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      {/* Header */}
+      <header className="bg-white shadow-sm">
+        <div className="container mx-auto px-6 py-4">
+          <div className="flex items-center gap-4">
+            <Link href="/reservar" className="text-gray-600 hover:text-gray-900">
+              <ArrowLeft size={24} />
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900">
+              Mi Reserva
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+          </div>
+        ) : error || !reserva ? (
+          <div className="max-w-md mx-auto text-center bg-white rounded-lg shadow p-8">
+            <XCircle size={40} className="text-red-500 mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-gray-900 mb-2">
+              {error?.status === 401 || error?.status === 403
+                ? MENSAJE_ENLACE_INVALIDO
+                : 'No encontramos tu reserva'}
+            </h2>
+            <p className="text-gray-600 mb-6">
+              Revisa el código <span className="font-mono font-semibold">{codigo}</span> o
+              comunícate con el negocio.
+            </p>
+            <Link
+              href="/reservar"
+              className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+            >
+              Hacer una nueva reserva
+            </Link>
+          </div>
+        ) : modo === 'detalle' ? (
+          <div className="max-w-md mx-auto">
+            {/* Detalle de la reserva */}
+            <dl className="bg-white rounded-lg shadow p-6 mb-6 text-sm divide-y">
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Código</dt>
+                <dd className="font-mono font-semibold text-gray-900">{reserva.codigo ?? codigo}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Estado</dt>
+                <dd className="font-semibold text-gray-900">{ESTADO_RESERVA_LABELS[reserva.estado]}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Fecha y hora</dt>
+                <dd className="font-semibold text-gray-900">{formatFechaHora(reserva.fechaHora)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Profesional</dt>
+                <dd className="font-semibold text-gray-900">{reserva.profesional.nombreCompleto}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Servicios</dt>
+                <dd className="font-semibold text-gray-900 text-right">
+                  {getNombreServicios(getServiciosReserva(reserva))} · {formatDuracion(getDuracionReserva(reserva, serviciosProfesional))}
+                </dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Precio</dt>
+                <dd className="font-semibold text-gray-900">{formatPrecio(getPrecioReserva(reserva, serviciosProfesional))}</dd>
+              </div>
+            </dl>
+
+            {reserva.estado !== 'CANCELADA' && (
+              <button
+                onClick={() => descargarReservaIcs(reserva, getNegocioIcs(negocio), serviciosProfesional)}
+                className="w-full mb-4 flex items-center justify-center gap-2 border border-gray-300 bg-white text-gray-700 px-4 py-3 rounded-lg hover:bg-gray-50"
+              >
+                <CalendarPlus size={18} />
+                Agregar a mi calendario
+              </button>
+            )}
+
+            {/* Acciones o motivo por el que no se puede modificar */}
+            {motivoNoGestionable ? (
+              <div className="flex gap-3 bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+                <AlertTriangle size={20} className="shrink-0" />
+                <p>{motivoNoGestionable}</p>
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 mb-4 text-center">
+                  Puedes cancelar o reprogramar hasta el{' '}
+                  <span className="font-semibold">
+                    {formatFechaHora(getLimiteCancelacion(reserva, horasLimite))}
+                  </span>
+                </p>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => setIsCancelModalOpen(true)}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <XCircle size={18} />
+                    Cancelar
+                  </button>
+                  <button
+                    onClick={() => setModo('reprogramar')}
+                    disabled={!profesional}
+                    className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CalendarClock size={18} />
+                    Reprogramar
+                  </button>
+                </div>
+                {errorProfesional && (
+                  <p className="text-sm text-gray-500 mt-3 text-center">
+                    No pudimos cargar los horarios para reprogramar.{' '}
+                    <button onClick={refetch} className="text-blue-600 hover:underline">
+                      Reintentar
+                    </button>
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="max-w-4xl mx-auto">
+            <h2 className="text-2xl font-bold text-gray-900 mb-6">
+              Elige tu nuevo horario
+            </h2>
+
+            <button
+              onClick={volverAlDetalle}
+              className="text-blue-600 hover:underline mb-4 flex items-center gap-1"
+            >
+              <ArrowLeft size={16} /> Volver
+            </button>
+
+            {loadingHorarios ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2">
+                {/* Calendario */}
+                <div className="bg-white rounded-lg shadow p-6">
+                  <CalendarioSelector
+                    value={selectedFecha}
+                    onChange={(fecha) => {
+                      setSelectedFecha(fecha);
+                      setSelectedSlot(null);
+                    }}
+                    isFechaHabilitada={atiende}
+                    maxDias={negocioConfig.diasMaximosReserva}
+                  />
+                </div>
+
+                {/* Horas disponibles */}
+                <div className="bg-white rounded-lg shadow p-6">
+                  {errorDisponibilidad ? (
+                    <p className="text-red-600 text-center py-8">
+                      No pudimos cargar los horarios. Intenta nuevamente.
+                    </p>
+                  ) : selectedFecha ? (
+                    <>
+                      <h3 className="font-semibold text-gray-900 mb-4 capitalize">
+                        {formatFecha(selectedFecha, 'dddd D [de] MMMM')}
+                      </h3>
+                      <HorarioSelector
+                        slots={slots.filter((s) => s.fechaHora !== reserva.fechaHora)}
+                        value={selectedSlot?.fechaHora ?? null}
+                        onChange={setSelectedSlot}
+                        isLoading={loadingSlots}
+                      />
+                    </>
+                  ) : (
+                    <p className="text-gray-500 text-center py-8">
+                      Elige un día en el calendario para ver las horas disponibles
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={handleReprogramar}
+              disabled={!selectedSlot || isSubmitting}
+              className="w-full mt-6 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting
+                ? 'Reprogramando...'
+                : selectedSlot
+                ? `Mover mi cita al ${formatFechaHora(selectedSlot.fechaHora)}`
+                : 'Elige una hora para continuar'}
+            </button>
+          </div>
+        )}
+      </main>
+
+      {/* Confirmación de cancelación */}
+      <ConfirmModal
+        isOpen={isCancelModalOpen}
+        onClose={() => setIsCancelModalOpen(false)}
+        onConfirm={handleCancelar}
+        title="Cancelar reserva"
+        message={
+          reserva
+            ? `¿Seguro que quieres cancelar tu cita del ${formatFechaHora(reserva.fechaHora)}?`
+            : ''
+        }
+        confirmText="Sí, cancelar"
+        cancelText="Volver"
+        variant="danger"
+        isLoading={isSubmitting}
+      />
+    </div>
+  );
+}
@@ -5,34 +5,259 @@
  * Página de reservas para clientes (sin login).
  * 
  * FLUJO:
- * 1. Cliente selecciona servicio
- * 2. Cliente selecciona profesional
+ * 1. Cliente selecciona uno o varios servicios (se atienden seguidos)
+ *    o un paquete (combo con precio propio). Desde el catálogo
+ *    (/servicios) llega con ?servicio=3 o ?paquete=2 ya elegido
+ * 2. Cliente selecciona profesional (solo los que ofrecen esos servicios)
+ *    o "Cualquier profesional"
  * 3. Cliente selecciona fecha y hora
  * 4. Cliente ingresa sus datos
- * 5. Se crea la reserva
- * 
- * TODO: Implementar el formulario completo con react-hook-form + zod
+ * 5. Se crea la reserva (reservaService.create) y se muestra el resumen
+ *
+ * Con el código de la reserva el cliente puede cancelarla o
+ * reprogramarla en /reservar/[codigo].
  */
 
 'use client';
 
-import { useState } from 'react';
-import { useServicios, useProfesionales } from '@/lib/hooks';
+import { Suspense, useState, useMemo } from 'react';
+import {
+  useServicios,
+  usePaquetes,
+  useProfesionalesPorServicio,
+  useDisponibilidad,
+  useDisponibilidadGeneral,
+  useNegocioPublico,
+} from '@/lib/hooks';
 import { formatPrecio, formatDuracion } from '@/lib/types';
+import { negocioConfig } from '@/lib/config';
+import { reservaService } from '@/lib/services';
+import {
+  descargarReservaIcs,
+  formatFecha,
+  formatFechaHora,
+  getMinutosLimpieza,
+  getNegocioIcs,
+  getNombreServicios,
+  getPrecioReserva,
+  personalizarServicios,
+  getServiciosReserva,
+  isValidationError,
+  parsePaqueteParam,
+  parseServiciosParam,
+  PARAM_PAQUETE_RESERVA,
+  PARAM_SERVICIO_RESERVA,
+  showError,
+  sumarDuracion,
+  sumarPrecio,
+  type SlotDisponible,
+} from '@/lib/utils';
+import { CalendarioSelector, HorarioSelector, PaquetesSelector, ServiciosSelector } from '@/components/booking';
+import { ReservaClienteForm, type ReservaClienteFormData } from '@/components/forms';
+import type { ApiError, CreateReservaDto, Reserva, Servicio, ServicioResumen } from '@/lib/types';
 import Link from 'next/link';
-import { ArrowLeft, Check } from 'lucide-react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { ArrowLeft, CalendarPlus, Check, Users } from 'lucide-react';
 
 // Pasos del formulario
 type Step = 'servicio' | 'profesional' | 'horario' | 'datos' | 'confirmacion';
 
-export default function ReservarPage() {
+// Opción "Cualquier profesional": se asigna uno al confirmar
+const CUALQUIER_PROFESIONAL = 'cualquiera';
+type SeleccionProfesional = number | typeof CUALQUIER_PROFESIONAL;
+
+// ============================================================
+// ASISTENTE DE RESERVA
+// ============================================================
+// Lee ?servicio / ?paquete con useSearchParams: va dentro de <Suspense>
+// (ver ReservarPage) para que la página se pueda prerenderizar.
+function ReservarWizard() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const [currentStep, setCurrentStep] = useState<Step>('servicio');
-  const [selectedServicio, setSelectedServicio] = useState<number | null>(null);
-  const [selectedProfesional, setSelectedProfesional] = useState<number | null>(null);
+  // Servicios preseleccionados desde el catálogo (?servicio=3)
+  const [selectedServicios, setSelectedServicios] = useState<number[]>(
+    () => parseServiciosParam(searchParams.get(PARAM_SERVICIO_RESERVA))
+  );
+  // Paquete preseleccionado (?paquete=2); reemplaza a los servicios sueltos
+  const [selectedPaquete, setSelectedPaquete] = useState<number | null>(
+    () => parsePaqueteParam(searchParams.get(PARAM_PAQUETE_RESERVA))
+  );
+  const [selectedProfesional, setSelectedProfesional] = useState<SeleccionProfesional | null>(null);
+  const [selectedFecha, setSelectedFecha] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<SlotDisponible | null>(null);
 
   // Datos de la API
   const { servicios, loading: loadingServicios } = useServicios();
-  const { profesionales, loading: loadingProfesionales } = useProfesionales();
+  const { paquetes, loading: loadingPaquetes } = usePaquetes();
+  // Dirección del negocio para el .ics
+  const { negocio } = useNegocioPublico();
+
+  // Objetos completos de la selección actual
+  const paquete = useMemo(
+    () => paquetes.find((p) => p.id === selectedPaquete) ?? null,
+    [paquetes, selectedPaquete]
+  );
+  const serviciosElegidos = useMemo<ServicioResumen[]>(
+    () =>
+      paquete
+        ? paquete.servicios
+        : selectedServicios
+          .map((id) => servicios.find((s) => s.id === id))
+          .filter((s): s is Servicio => !!s),
+    [paquete, servicios, selectedServicios]
+  );
+  const servicioIdsElegidos = useMemo(
+    () => (paquete ? paquete.servicios.map((s) => s.id) : selectedServicios),
+    [paquete, selectedServicios]
+  );
+
+  // Solo los profesionales que ofrecen los servicios elegidos
+  const {
+    profesionales,
+    serviciosPorProfesional,
+    loading: loadingProfesionales,
+  } = useProfesionalesPorServicio(servicioIdsElegidos);
+  const profesional = useMemo(
+    () => profesionales.find((p) => p.id === selectedProfesional) ?? null,
+    [profesionales, selectedProfesional]
+  );
+
+  const esCualquierProfesional = selectedProfesional === CUALQUIER_PROFESIONAL;
+
+  // Precio y duración del profesional elegido (con "Cualquier profesional",
+  // los del servicio hasta que se asigne uno)
+  const serviciosDelProfesional = useMemo(
+    () =>
+      profesional
+        ? personalizarServicios(serviciosElegidos, serviciosPorProfesional[profesional.id])
+        : serviciosElegidos,
+    [profesional, serviciosElegidos, serviciosPorProfesional]
+  );
+
+  // Con "Cualquier profesional" cada candidato ocupa su propia duración
+  const duracionPorProfesional = useMemo(
+    () =>
+      Object.fromEntries(
+        profesionales.map((p) => [
+          p.id,
+          sumarDuracion(personalizarServicios(serviciosElegidos, serviciosPorProfesional[p.id])),
+        ])
+      ),
+    [profesionales, serviciosElegidos, serviciosPorProfesional]
+  );
+
+  // Los servicios se reservan en un solo bloque continuo
+  const duracionTotal = sumarDuracion(serviciosDelProfesional);
+  const precioTotal = paquete?.precio ?? sumarPrecio(serviciosDelProfesional);
+  const nombreSeleccion = paquete
+    ? `${paquete.nombre} (${getNombreServicios(serviciosElegidos)})`
+    : getNombreServicios(serviciosElegidos);
+
+  // Horas libres del profesional elegido para la fecha
+  const disponibilidadProfesional = useDisponibilidad({
+    profesional,
+    duracionMinutos: duracionTotal,
+    minutosLimpieza: getMinutosLimpieza(serviciosElegidos),
+    fecha: selectedFecha,
+    serviciosProfesional: profesional ? serviciosPorProfesional[profesional.id] : undefined,
+  });
+
+  // Horas libres de cualquier profesional que ofrezca los servicios
+  const disponibilidadGeneral = useDisponibilidadGeneral({
+    profesionales,
+    duracionMinutos: duracionTotal,
+    duracionPorProfesional,
+    serviciosPorProfesional,
+    minutosLimpieza: getMinutosLimpieza(serviciosElegidos),
+    fecha: selectedFecha,
+    enabled: esCualquierProfesional,
+  });
+
+  const {
+    atiende,
+    slots,
+    loadingHorarios,
+    loadingSlots,
+    error: errorDisponibilidad,
+    refetch: refetchDisponibilidad,
+  } = esCualquierProfesional ? disponibilidadGeneral : disponibilidadProfesional;
+
+  // Envío de la reserva
+  const [datosCliente, setDatosCliente] = useState<ReservaClienteFormData | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [serverError, setServerError] = useState<ApiError | null>(null);
+  const [reservaCreada, setReservaCreada] = useState<Reserva | null>(null);
+
+  // Código para gestionar una reserva existente (/reservar/[codigo])
+  const [codigoBusqueda, setCodigoBusqueda] = useState('');
+
+  // Al cambiar servicios o profesional, la fecha/hora elegida deja de ser válida
+  const resetHorario = () => {
+    setSelectedFecha(null);
+    setSelectedSlot(null);
+  };
+
+  // ============================================================
+  // CREAR RESERVA
+  // ============================================================
+  // El horario elegido ya no está libre: volver a elegir hora
+  const handleHorarioOcupado = (mensaje: string) => {
+    showError(mensaje);
+    setSelectedSlot(null);
+    refetchDisponibilidad();
+    setCurrentStep('horario');
+  };
+
+  const handleConfirmarReserva = async (data: ReservaClienteFormData) => {
+    if (serviciosElegidos.length === 0 || !selectedSlot || (!profesional && !esCualquierProfesional)) return;
+
+    setDatosCliente(data);
+    setIsSubmitting(true);
+    setServerError(null);
+
+    try {
+      // "Cualquier profesional": se asigna el que tenga menos reservas ese día
+      const profesionalAsignado = esCualquierProfesional
+        ? await disponibilidadGeneral.asignar(selectedSlot)
+        : profesional;
+
+      if (!profesionalAsignado) {
+        handleHorarioOcupado('Ningún profesional está libre a esa hora. Elige otra hora.');
+        return;
+      }
+
+      const dto: CreateReservaDto = {
+        fechaHora: selectedSlot.fechaHora,
+        profesionalId: profesionalAsignado.id,
+        servicioId: serviciosElegidos[0].id,
+        servicioIds: serviciosElegidos.map((s) => s.id),
+        paqueteId: paquete?.id,
+        clienteNombre: data.clienteNombre,
+        clienteTelefono: data.clienteTelefono,
+        clienteEmail: data.clienteEmail || undefined,
+        notas: data.notas || undefined,
+      };
+
+      const reserva = await reservaService.create(dto);
+      setReservaCreada(reserva);
+      setCurrentStep('confirmacion');
+    } catch (err) {
+      const apiError = err as ApiError;
+
+      if (apiError.status === 409) {
+        // Otra persona tomó el horario mientras se llenaba el formulario
+        handleHorarioOcupado('Ese horario acaba de ser reservado. Elige otra hora.');
+      } else if (isValidationError(apiError)) {
+        // Errores de validación: se muestran en el formulario
+        setServerError(apiError);
+      } else {
+        showError(apiError.message || 'No pudimos registrar tu reserva');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-gray-100">
@@ -55,7 +280,7 @@ export default function ReservarPage() {
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center justify-center gap-4">
             {[
-              { key: 'servicio', label: '1. Servicio' },
+              { key: 'servicio', label: '1. Servicios' },
               { key: 'profesional', label: '2. Profesional' },
               { key: 'horario', label: '3. Horario' },
               { key: 'datos', label: '4. Datos' },
@@ -94,43 +319,88 @@ export default function ReservarPage() {
         {currentStep === 'servicio' && (
           <div className="max-w-2xl mx-auto">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">
-              ¿Qué servicio necesitas?
+              ¿Qué servicios necesitas?
             </h2>
+            <p className="text-gray-600 -mt-4 mb-6">
+              Puedes elegir varios: se atienden seguidos en la misma cita.
+            </p>
 
-            {loadingServicios ? (
+            {loadingServicios || loadingPaquetes ? (
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
               </div>
             ) : (
-              <div className="grid gap-4">
-                {servicios.map((servicio) => (
-                  <button
-                    key={servicio.id}
-                    onClick={() => {
-                      setSelectedServicio(servicio.id);
-                      setCurrentStep('profesional');
-                    }}
-                    className={`flex items-center justify-between p-4 rounded-lg border-2 transition-all ${
-                      selectedServicio === servicio.id
-                        ? 'border-blue-600 bg-blue-50'
-                        : 'border-gray-200 bg-white hover:border-blue-300'
-                    }`}
-                  >
-                    <div className="text-left">
-                      <h3 className="font-semibold text-gray-900">
-                        {servicio.nombre}
-                      </h3>
-                      <p className="text-sm text-gray-500">
-                        {formatDuracion(servicio.duracionMinutos)}
-                      </p>
-                    </div>
-                    <span className="text-lg font-bold text-blue-600">
-                      {formatPrecio(servicio.precio)}
-                    </span>
-                  </button>
-                ))}
-              </div>
+              <>
+                {paquetes.length > 0 && (
+                  <div className="mb-8">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-3">Paquetes</h3>
+                    <PaquetesSelector
+                      paquetes={paquetes}
+                      value={selectedPaquete}
+                      onChange={(id) => {
+                        resetHorario();
+                        setSelectedPaquete(id);
+                        setSelectedServicios([]);
+                      }}
+                    />
+                    <h3 className="text-lg font-semibold text-gray-900 mt-8">
+                      O arma tu cita con servicios sueltos
+                    </h3>
+                  </div>
+                )}
+
+                {/* Con un paquete elegido se marcan sus servicios; cambiarlos lo deja de lado */}
+                <ServiciosSelector
+                  servicios={servicios}
+                  value={servicioIdsElegidos}
+                  onChange={(ids) => {
+                    resetHorario();
+                    setSelectedPaquete(null);
+                    setSelectedServicios(ids);
+                  }}
+                />
+
+                <button
+                  onClick={() => setCurrentStep('profesional')}
+                  disabled={serviciosElegidos.length === 0}
+                  className="w-full mt-6 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {serviciosElegidos.length > 0
+                    ? 'Continuar'
+                    : 'Elige al menos un servicio para continuar'}
+                </button>
+              </>
             )}
+
+            {/* Gestionar una reserva existente */}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (codigoBusqueda.trim()) {
+                  router.push(`/reservar/${encodeURIComponent(codigoBusqueda.trim().toUpperCase())}`);
+                }
+              }}
+              className="mt-8 bg-white rounded-lg border border-gray-200 p-4"
+            >
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                ¿Ya tienes una reserva? Ingresa tu código para cancelarla o reprogramarla
+              </label>
+              <div className="flex gap-2">
+                <input
+                  value={codigoBusqueda}
+                  onChange={(e) => setCodigoBusqueda(e.target.value)}
+                  placeholder="BRB-7K2Q9X"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono uppercase focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                />
+                <button
+                  type="submit"
+                  disabled={!codigoBusqueda.trim()}
+                  className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Buscar
+                </button>
+              </div>
+            </form>
           </div>
         )}
 
@@ -152,12 +422,51 @@ export default function ReservarPage() {
               <div className="text-center py-8">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
               </div>
+            ) : profesionales.length === 0 ? (
+              <div className="text-center py-8 bg-white rounded-lg border border-gray-200">
+                <p className="text-gray-600">
+                  Ningún profesional ofrece {nombreSeleccion} en una misma cita por ahora.
+                </p>
+                <button
+                  onClick={() => setCurrentStep('servicio')}
+                  className="mt-3 text-blue-600 hover:underline"
+                >
+                  Elegir otros servicios
+                </button>
+              </div>
             ) : (
               <div className="grid gap-4 sm:grid-cols-2">
+                {/* Opción: Cualquier profesional */}
+                <button
+                  onClick={() => {
+                    if (!esCualquierProfesional) resetHorario();
+                    setSelectedProfesional(CUALQUIER_PROFESIONAL);
+                    setCurrentStep('horario');
+                  }}
+                  className={`flex items-center gap-4 p-4 rounded-lg border-2 transition-all sm:col-span-2 ${
+                    esCualquierProfesional
+                      ? 'border-blue-600 bg-blue-50'
+                      : 'border-gray-200 bg-white hover:border-blue-300'
+                  }`}
+                >
+                  <div className="w-16 h-16 rounded-full bg-blue-600 flex items-center justify-center text-white">
+                    <Users size={28} />
+                  </div>
+                  <div className="text-left">
+                    <h3 className="font-semibold text-gray-900">
+                      Cualquier profesional
+                    </h3>
+                    <p className="text-sm text-gray-500">
+                      Te mostramos todos los horarios libres y asignamos a quien esté disponible
+                    </p>
+                  </div>
+                </button>
+
                 {profesionales.map((profesional) => (
                   <button
                     key={profesional.id}
                     onClick={() => {
+                      if (profesional.id !== selectedProfesional) resetHorario();
                       setSelectedProfesional(profesional.id);
                       setCurrentStep('horario');
                     }}
@@ -189,7 +498,7 @@ export default function ReservarPage() {
 
         {/* PASO 3: Seleccionar Horario */}
         {currentStep === 'horario' && (
-          <div className="max-w-2xl mx-auto">
+          <div className="max-w-4xl mx-auto">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">
               ¿Cuándo te gustaría venir?
             </h2>
@@ -201,23 +510,61 @@ export default function ReservarPage() {
               <ArrowLeft size={16} /> Volver
             </button>
 
-            <div className="bg-white rounded-lg shadow p-6">
-              <p className="text-gray-500 text-center py-8">
-                TODO: Implementar selector de fecha y hora disponible
-                <br />
-                <span className="text-sm">
-                  (Calendario + horarios disponibles del profesional)
-                </span>
-              </p>
-              
-              {/* Botón temporal para continuar */}
-              <button
-                onClick={() => setCurrentStep('datos')}
-                className="w-full mt-4 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700"
-              >
-                Continuar (demo)
-              </button>
-            </div>
+            {loadingHorarios ? (
+              <div className="text-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+              </div>
+            ) : (
+              <div className="grid gap-6 md:grid-cols-2">
+                {/* Calendario */}
+                <div className="bg-white rounded-lg shadow p-6">
+                  <CalendarioSelector
+                    value={selectedFecha}
+                    onChange={(fecha) => {
+                      setSelectedFecha(fecha);
+                      setSelectedSlot(null);
+                    }}
+                    isFechaHabilitada={atiende}
+                    maxDias={negocioConfig.diasMaximosReserva}
+                  />
+                </div>
+
+                {/* Horas disponibles */}
+                <div className="bg-white rounded-lg shadow p-6">
+                  {errorDisponibilidad ? (
+                    <p className="text-red-600 text-center py-8">
+                      No pudimos cargar los horarios. Intenta nuevamente.
+                    </p>
+                  ) : selectedFecha ? (
+                    <>
+                      <h3 className="font-semibold text-gray-900 mb-4 capitalize">
+                        {formatFecha(selectedFecha, 'dddd D [de] MMMM')}
+                      </h3>
+                      <HorarioSelector
+                        slots={slots}
+                        value={selectedSlot?.fechaHora ?? null}
+                        onChange={setSelectedSlot}
+                        isLoading={loadingSlots}
+                      />
+                    </>
+                  ) : (
+                    <p className="text-gray-500 text-center py-8">
+                      Elige un día en el calendario para ver las horas disponibles
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <button
+              onClick={() => setCurrentStep('datos')}
+              disabled={!selectedSlot}
+              className="w-full mt-6 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {selectedSlot && selectedFecha
+                ? `Continuar con ${formatFecha(selectedFecha, 'DD/MM')} a las ${selectedSlot.hora}`
+                : 'Elige una hora para continuar'}
+            </button>
           </div>
         )}
 
@@ -235,48 +582,134 @@ export default function ReservarPage() {
               <ArrowLeft size={16} /> Volver
             </button>
 
-            <div className="bg-white rounded-lg shadow p-6">
-              <p className="text-gray-500 text-center py-8">
-                TODO: Implementar formulario con react-hook-form + zod
-                <br />
-                <span className="text-sm">
-                  (Nombre, Teléfono, Email, Notas)
-                </span>
-              </p>
+            {/* Resumen de la selección */}
+            {serviciosElegidos.length > 0 && selectedSlot && (
+              <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 mb-4 text-sm text-gray-700">
+                <p>
+                  <span className="font-semibold">{nombreSeleccion}</span> con{' '}
+                  <span className="font-semibold">
+                    {profesional?.nombreCompleto ?? 'el primer profesional disponible'}
+                  </span>
+                </p>
+                <p className="mt-1">
+                  {formatFechaHora(selectedSlot.fechaHora)} · {formatDuracion(duracionTotal)} ·{' '}
+                  {formatPrecio(precioTotal)}
+                </p>
+              </div>
+            )}
 
-              {/* Botón temporal */}
-              <button
-                onClick={() => setCurrentStep('confirmacion')}
-                className="w-full mt-4 bg-blue-600 text-white py-3 rounded-lg hover:bg-blue-700"
-              >
-                Confirmar Reserva (demo)
-              </button>
+            <div className="bg-white rounded-lg shadow p-6">
+              <ReservaClienteForm
+                initialData={datosCliente}
+                onSubmit={handleConfirmarReserva}
+                isLoading={isSubmitting}
+                serverError={serverError}
+                onClearError={() => setServerError(null)}
+              />
             </div>
           </div>
         )}
 
         {/* PASO 5: Confirmación */}
-        {currentStep === 'confirmacion' && (
+        {currentStep === 'confirmacion' && reservaCreada && (
           <div className="max-w-md mx-auto text-center">
             <div className="bg-green-100 rounded-full w-20 h-20 flex items-center justify-center mx-auto mb-6">
               <Check size={40} className="text-green-600" />
             </div>
             <h2 className="text-2xl font-bold text-gray-900 mb-4">
-              ¡Reserva Confirmada!
+              {reservaCreada.estado === 'CONFIRMADA' ? '¡Reserva Confirmada!' : '¡Reserva Registrada!'}
             </h2>
-            <p className="text-gray-600 mb-8">
-              Hemos enviado los detalles de tu cita a tu email.
-              Te esperamos!
+            <p className="text-gray-600 mb-6">
+              {reservaCreada.clienteEmail
+                ? `Enviamos los detalles de tu cita a ${reservaCreada.clienteEmail}.`
+                : 'Guarda estos datos de tu cita.'}
+              {' '}¡Te esperamos!
             </p>
-            <Link
-              href="/"
-              className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+
+            {/* Detalle real de la reserva creada */}
+            <dl className="bg-white rounded-lg shadow p-6 mb-8 text-left text-sm divide-y">
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">
+                  {reservaCreada.codigo ? 'Código de reserva' : 'N° de reserva'}
+                </dt>
+                <dd className="font-semibold text-gray-900">
+                  {reservaCreada.codigo ?? `#${reservaCreada.id}`}
+                </dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Fecha y hora</dt>
+                <dd className="font-semibold text-gray-900">{formatFechaHora(reservaCreada.fechaHora)}</dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Profesional</dt>
+                <dd className="font-semibold text-gray-900">{reservaCreada.profesional.nombreCompleto}</dd>
+              </div>
+              {reservaCreada.paquete && (
+                <div className="flex justify-between py-2">
+                  <dt className="text-gray-500">Paquete</dt>
+                  <dd className="font-semibold text-gray-900">{reservaCreada.paquete.nombre}</dd>
+                </div>
+              )}
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Servicios</dt>
+                <dd className="font-semibold text-gray-900 text-right">
+                  {getNombreServicios(getServiciosReserva(reservaCreada))}
+                </dd>
+              </div>
+              <div className="flex justify-between py-2">
+                <dt className="text-gray-500">Precio</dt>
+                <dd className="font-semibold text-gray-900">{formatPrecio(getPrecioReserva(reservaCreada, serviciosPorProfesional[reservaCreada.profesional.id]))}</dd>
+              </div>
+            </dl>
+
+            <button
+              onClick={() => descargarReservaIcs(
+                reservaCreada,
+                getNegocioIcs(negocio),
+                serviciosPorProfesional[reservaCreada.profesional.id]
+              )}
+              className="w-full mb-4 flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50"
             >
-              Volver al Inicio
-            </Link>
+              <CalendarPlus size={18} />
+              Agregar a mi calendario
+            </button>
+
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              {reservaCreada.codigo && (
+                <Link
+                  href={`/reservar/${encodeURIComponent(reservaCreada.codigo)}`}
+                  className="inline-block border border-blue-600 text-blue-600 px-6 py-3 rounded-lg hover:bg-blue-50"
+                >
+                  Gestionar mi reserva
+                </Link>
+              )}
+              <Link
+                href="/"
+                className="inline-block bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700"
+              >
+                Volver al Inicio
+              </Link>
+            </div>
           </div>
         )}
       </main>
     </div>
   );
 }
+
+// ============================================================
+// PÁGINA
+// ============================================================
+export default function ReservarPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-gray-100 flex items-center justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+        </div>
+      }
+    >
+      <ReservarWizard />
+    </Suspense>
+  );
+}
@@ -0,0 +1,489 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - GRILLA DE AGENDA (día / semana)
+ * ============================================================
+ * Calendario del dashboard: una columna por profesional (y por día
+ * en la vista semana), filas de 30 min y bloques de reserva
+ * coloreados según su EstadoReserva.
+ *
+ * - Las horas fuera del HorarioProfesional se ven en gris, igual que
+ *   los descansos del turno y los días/horas libres y feriados
+ *   (ExcepcionHorario)
+ * - Cada bloque mide la duración de sus servicios con ESE profesional
+ *   (duración personalizada, ver serviciosPorProfesional)
+ * - Después de cada reserva vigente se ve, en gris, el tiempo de
+ *   limpieza de sus servicios (el profesional no toma otro cliente)
+ * - Las reservas canceladas / no asistió se ven atenuadas
+ * - Con onReservaMove, las reservas vigentes se pueden ARRASTRAR a otra
+ *   hora u otro profesional. Mientras se arrastra se muestra dónde caería
+ *   (azul = válido, rojo = fuera de horario, se cruza con otra cita o el
+ *   profesional no ofrece sus servicios)
+ *
+ * USO:
+ * <AgendaGrid
+ *   dias={['2024-01-20']}
+ *   profesionales={profesionales}
+ *   horariosPorProfesional={horarios}
+ *   excepcionesPorProfesional={excepciones}
+ *   serviciosPorProfesional={servicios}
+ *   reservas={reservas}
+ *   onReservaClick={abrirDetalle}
+ * />
+ */
+
+import { useMemo, useState, type DragEvent } from 'react';
+import type {
+  ExcepcionHorario,
+  HorarioDto,
+  Profesional,
+  Reserva,
+  ServicioProfesional,
+  ServiciosPorProfesional,
+} from '@/lib/types';
+import {
+  cn,
+  dayjs,
+  formatHora,
+  isToday,
+  getFilasAgenda,
+  getDescansosDelDia,
+  getDuracionReserva,
+  getEtiquetaExcepcion,
+  getExcepcionesDelDia,
+  getMinutosLimpiezaReserva,
+  getNombreServicios,
+  getPosicionEnAgenda,
+  getRangoAgenda,
+  getRangoReserva,
+  getRangosDelDia,
+  getServiciosReserva,
+  minutosAHora,
+  ocupaHorario,
+  puedeMoverReserva,
+  validarMovimientoReserva,
+  INTERVALO_AGENDA_MINUTOS,
+  PASO_ARRASTRE_MINUTOS,
+  type DestinoReserva,
+  type RangoMinutos,
+} from '@/lib/utils';
+import { ESTADO_RESERVA_ESTILOS } from '@/components/ui';
+
+/** Alto en px de cada fila de 30 minutos */
+const ALTURA_FILA = 48;
+const PX_POR_MINUTO = ALTURA_FILA / INTERVALO_AGENDA_MINUTOS;
+
+/** Reserva que se está arrastrando */
+interface Arrastre {
+  reserva: Reserva;
+  /** Minutos entre el inicio del bloque y el punto donde se agarró */
+  offsetMinutos: number;
+}
+
+/** Dónde caería la reserva si se suelta ahora */
+interface VistaPrevia extends DestinoReserva {
+  duracion: number;
+  error: string | null;
+}
+
+interface AgendaGridProps {
+  /** Días visibles "YYYY-MM-DD" (1 = vista día, 7 = vista semana) */
+  dias: string[];
+  profesionales: Profesional[];
+  horariosPorProfesional: Record<number, HorarioDto[]>;
+  /** Días/horas libres y feriados que afectan a cada profesional */
+  excepcionesPorProfesional?: Record<number, ExcepcionHorario[]>;
+  /** Servicios que ofrece cada profesional (valida a quién se arrastra) */
+  serviciosPorProfesional?: ServiciosPorProfesional;
+  reservas: Reserva[];
+  /** Click en un bloque de reserva */
+  onReservaClick?: (reserva: Reserva) => void;
+  /** Soltar una reserva en un lugar válido (sin esto no se puede arrastrar) */
+  onReservaMove?: (reserva: Reserva, destino: DestinoReserva) => void;
+  className?: string;
+}
+
+export function AgendaGrid({
+  dias,
+  profesionales,
+  horariosPorProfesional,
+  excepcionesPorProfesional = {},
+  serviciosPorProfesional = {},
+  reservas,
+  onReservaClick,
+  onReservaMove,
+  className,
+}: AgendaGridProps) {
+  const esSemana = dias.length > 1;
+  const [arrastre, setArrastre] = useState<Arrastre | null>(null);
+  const [vistaPrevia, setVistaPrevia] = useState<VistaPrevia | null>(null);
+
+  // Rango de horas común a todas las columnas
+  const rangoAgenda = useMemo(
+    () => getRangoAgenda(
+      dias,
+      profesionales.map((p) => horariosPorProfesional[p.id] ?? []),
+      reservas,
+      serviciosPorProfesional
+    ),
+    [dias, profesionales, horariosPorProfesional, reservas, serviciosPorProfesional]
+  );
+
+  const filas = getFilasAgenda(rangoAgenda);
+  const alturaTotal = filas.length * ALTURA_FILA;
+
+  // Reservas agrupadas por "día|profesional"; las activas al final para quedar encima
+  const reservasPorColumna = useMemo(() => {
+    const grupos: Record<string, Reserva[]> = {};
+    reservas.forEach((r) => {
+      const clave = `${r.fechaHora.slice(0, 10)}|${r.profesional.id}`;
+      (grupos[clave] ??= []).push(r);
+    });
+    Object.values(grupos).forEach((lista) =>
+      lista.sort((a, b) => Number(ocupaHorario(a)) - Number(ocupaHorario(b)))
+    );
+    return grupos;
+  }, [reservas]);
+
+  // ============================================================
+  // ARRASTRAR Y SOLTAR
+  // ============================================================
+  const handleArrastrarInicio = (reserva: Reserva, offsetMinutos: number) => {
+    setArrastre({ reserva, offsetMinutos });
+  };
+
+  const handleArrastrarFin = () => {
+    setArrastre(null);
+    setVistaPrevia(null);
+  };
+
+  // minutoCursor: minuto del día bajo el puntero dentro de la columna
+  const handleArrastrarSobre = (dia: string, profesionalId: number, minutoCursor: number) => {
+    if (!arrastre) return;
+
+    const inicio = Math.round(
+      (minutoCursor - arrastre.offsetMinutos) / PASO_ARRASTRE_MINUTOS
+    ) * PASO_ARRASTRE_MINUTOS;
+
+    // Evitar re-render si no cambió el lugar
+    if (
+      vistaPrevia?.fecha === dia &&
+      vistaPrevia.profesionalId === profesionalId &&
+      vistaPrevia.inicio === inicio
+    ) return;
+
+    const destino: DestinoReserva = { fecha: dia, inicio, profesionalId };
+    setVistaPrevia({
+      ...destino,
+      duracion: getDuracionReserva(arrastre.reserva, serviciosPorProfesional[profesionalId]),
+      error: validarMovimientoReserva({
+        reserva: arrastre.reserva,
+        destino,
+        horarios: horariosPorProfesional[profesionalId] ?? [],
+        excepciones: excepcionesPorProfesional[profesionalId],
+        serviciosProfesional: serviciosPorProfesional[profesionalId],
+        reservas,
+      }),
+    });
+  };
+
+  const handleSoltar = () => {
+    if (arrastre && vistaPrevia && !vistaPrevia.error) {
+      const { reserva } = arrastre;
+      const rango = getRangoReserva(reserva, serviciosPorProfesional[reserva.profesional.id]);
+      const mismoLugar =
+        rango.inicio === vistaPrevia.inicio &&
+        reserva.fechaHora.startsWith(vistaPrevia.fecha) &&
+        reserva.profesional.id === vistaPrevia.profesionalId;
+
+      if (!mismoLugar) {
+        onReservaMove?.(reserva, {
+          fecha: vistaPrevia.fecha,
+          inicio: vistaPrevia.inicio,
+          profesionalId: vistaPrevia.profesionalId,
+        });
+      }
+    }
+    handleArrastrarFin();
+  };
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <div className="flex min-w-max">
+        {/* ========== COLUMNA DE HORAS ========== */}
+        <div className="w-16 shrink-0 sticky left-0 z-20 bg-white dark:bg-gray-800">
+          <div className={cn('border-b border-gray-200 dark:border-gray-700', esSemana ? 'h-20' : 'h-10')} />
+          <div className="relative" style={{ height: alturaTotal }}>
+            {filas.map((minuto, i) => (
+              <span
+                key={minuto}
+                className="absolute right-2 -translate-y-1/2 text-xs text-gray-500 dark:text-gray-400"
+                style={{ top: i * ALTURA_FILA }}
+              >
+                {minuto % 60 === 0 ? minutosAHora(minuto) : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* ========== DÍAS ========== */}
+        {dias.map((dia) => (
+          <div key={dia} className="border-l-2 border-gray-200 dark:border-gray-700">
+            {esSemana && (
+              <div
+                className={cn(
+                  'h-10 flex items-center justify-center text-sm font-semibold capitalize border-b border-gray-200 dark:border-gray-700',
+                  isToday(dia) ? 'text-blue-600 dark:text-blue-400' : 'text-gray-900 dark:text-white'
+                )}
+              >
+                {dayjs(dia).format('ddd D MMM')}
+              </div>
+            )}
+
+            <div className="flex">
+              {profesionales.map((prof) => (
+                <ColumnaProfesional
+                  key={prof.id}
+                  dia={dia}
+                  profesional={prof}
+                  horarios={horariosPorProfesional[prof.id] ?? []}
+                  excepciones={excepcionesPorProfesional[prof.id] ?? []}
+                  serviciosProfesional={serviciosPorProfesional[prof.id]}
+                  reservas={reservasPorColumna[`${dia}|${prof.id}`] ?? []}
+                  filas={filas}
+                  rangoAgenda={rangoAgenda}
+                  compacta={esSemana}
+                  onReservaClick={onReservaClick}
+                  arrastrable={!!onReservaMove}
+                  vistaPrevia={
+                    vistaPrevia?.fecha === dia && vistaPrevia.profesionalId === prof.id
+                      ? vistaPrevia
+                      : null
+                  }
+                  onArrastrarInicio={handleArrastrarInicio}
+                  onArrastrarSobre={(minuto) => handleArrastrarSobre(dia, prof.id, minuto)}
+                  onArrastrarFin={handleArrastrarFin}
+                  onSoltar={handleSoltar}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// COLUMNA DE UN PROFESIONAL EN UN DÍA
+// ============================================================
+
+interface ColumnaProfesionalProps {
+  dia: string;
+  profesional: Profesional;
+  horarios: HorarioDto[];
+  excepciones: ExcepcionHorario[];
+  /** Servicios del profesional (duraciones personalizadas de sus bloques) */
+  serviciosProfesional?: ServicioProfesional[];
+  reservas: Reserva[];
+  filas: number[];
+  rangoAgenda: RangoMinutos;
+  /** Vista semana: columnas más angostas y menos texto */
+  compacta: boolean;
+  onReservaClick?: (reserva: Reserva) => void;
+  /** Las reservas vigentes se pueden arrastrar */
+  arrastrable: boolean;
+  /** Lugar donde caería la reserva arrastrada (si es en esta columna) */
+  vistaPrevia: VistaPrevia | null;
+  onArrastrarInicio: (reserva: Reserva, offsetMinutos: number) => void;
+  onArrastrarSobre: (minutoCursor: number) => void;
+  onArrastrarFin: () => void;
+  onSoltar: () => void;
+}
+
+function ColumnaProfesional({
+  dia,
+  profesional,
+  horarios,
+  excepciones,
+  serviciosProfesional,
+  reservas,
+  filas,
+  rangoAgenda,
+  compacta,
+  onReservaClick,
+  arrastrable,
+  vistaPrevia,
+  onArrastrarInicio,
+  onArrastrarSobre,
+  onArrastrarFin,
+  onSoltar,
+}: ColumnaProfesionalProps) {
+  const turnos = getRangosDelDia(dia, horarios, excepciones);
+  // Sin turnos (día libre, feriado) no hay descanso que marcar
+  const descansos = turnos.length > 0 ? getDescansosDelDia(dia, horarios) : [];
+  const etiquetas = getExcepcionesDelDia(excepciones, dia).map(getEtiquetaExcepcion).join(' · ');
+
+  // Minuto del día bajo el puntero
+  const getMinutoCursor = (e: DragEvent<HTMLElement>, elemento: HTMLElement) =>
+    rangoAgenda.inicio + (e.clientY - elemento.getBoundingClientRect().top) / PX_POR_MINUTO;
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!arrastrable) return;
+    e.preventDefault(); // Permite soltar aquí
+    e.dataTransfer.dropEffect = vistaPrevia?.error ? 'none' : 'move';
+    onArrastrarSobre(getMinutoCursor(e, e.currentTarget));
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    onSoltar();
+  };
+
+  return (
+    <div className={cn('border-l border-gray-100 dark:border-gray-700/50', compacta ? 'w-32' : 'w-48')}>
+      {/* Encabezado */}
+      <div
+        className="h-10 px-2 flex flex-col items-center justify-center border-b border-gray-200 dark:border-gray-700"
+        title={etiquetas ? `${profesional.nombreCompleto} · ${etiquetas}` : profesional.nombreCompleto}
+      >
+        <span className="max-w-full truncate text-sm font-medium text-gray-700 dark:text-gray-300">
+          {profesional.nombreCompleto}
+        </span>
+        {etiquetas && (
+          <span className="max-w-full truncate text-xs text-amber-600 dark:text-amber-400">
+            {etiquetas}
+          </span>
+        )}
+      </div>
+
+      {/* Cuerpo: fondo gris = no atiende, blanco = dentro de su horario */}
+      <div
+        className="relative bg-gray-100 dark:bg-gray-900/60"
+        style={{ height: filas.length * ALTURA_FILA }}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        {turnos.map((turno) => (
+          <div
+            key={turno.inicio}
+            className="absolute inset-x-0 bg-white dark:bg-gray-800"
+            style={getPosicionEnAgenda(turno, rangoAgenda, ALTURA_FILA)}
+          />
+        ))}
+
+        {/* Descansos (ya en gris: solo la etiqueta) */}
+        {descansos.map((descanso) => (
+          <div
+            key={`descanso-${descanso.inicio}`}
+            className="absolute inset-x-0 px-1.5 py-0.5 text-xs text-gray-400 dark:text-gray-500 pointer-events-none"
+            style={getPosicionEnAgenda(descanso, rangoAgenda, ALTURA_FILA)}
+          >
+            Descanso {minutosAHora(descanso.inicio)}–{minutosAHora(descanso.fin)}
+          </div>
+        ))}
+
+        {/* Líneas de las filas */}
+        {filas.map((minuto, i) => (
+          <div
+            key={minuto}
+            className={cn(
+              'absolute inset-x-0 border-t pointer-events-none',
+              minuto % 60 === 0
+                ? 'border-gray-200 dark:border-gray-700'
+                : 'border-dashed border-gray-100 dark:border-gray-700/50'
+            )}
+            style={{ top: i * ALTURA_FILA }}
+          />
+        ))}
+
+        {/* Limpieza después de cada reserva vigente */}
+        {reservas.filter(ocupaHorario).map((reserva) => {
+          const limpieza = getMinutosLimpiezaReserva(reserva);
+          if (limpieza === 0) return null;
+          const { fin } = getRangoReserva(reserva, serviciosProfesional);
+
+          return (
+            <div
+              key={`limpieza-${reserva.id}`}
+              className="absolute inset-x-1 overflow-hidden rounded-b-md px-1.5 text-[10px] leading-tight pointer-events-none
+                border border-dashed border-gray-300 dark:border-gray-600
+                bg-gray-200/80 dark:bg-gray-700/80 text-gray-500 dark:text-gray-400"
+              style={getPosicionEnAgenda({ inicio: fin, fin: fin + limpieza }, rangoAgenda, ALTURA_FILA)}
+              title={`Limpieza: ${limpieza} min`}
+            >
+              {!compacta && limpieza >= 10 && 'Limpieza'}
+            </div>
+          );
+        })}
+
+        {/* Reservas */}
+        {reservas.map((reserva) => {
+          const { top, height } = getPosicionEnAgenda(
+            getRangoReserva(reserva, serviciosProfesional),
+            rangoAgenda,
+            ALTURA_FILA
+          );
+          const activa = ocupaHorario(reserva);
+          const movible = arrastrable && puedeMoverReserva(reserva);
+
+          return (
+            <button
+              key={reserva.id}
+              type="button"
+              onClick={() => onReservaClick?.(reserva)}
+              draggable={movible}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                e.dataTransfer.setData('text/plain', String(reserva.id));
+                const offset = (e.clientY - e.currentTarget.getBoundingClientRect().top) / PX_POR_MINUTO;
+                onArrastrarInicio(reserva, offset);
+              }}
+              onDragEnd={onArrastrarFin}
+              className={cn(
+                'absolute inset-x-1 z-10 overflow-hidden rounded-md border border-black/10 dark:border-white/10 px-1.5 py-1',
+                'text-left text-xs leading-tight shadow-sm hover:ring-2 hover:ring-blue-500 transition-shadow',
+                ESTADO_RESERVA_ESTILOS[reserva.estado],
+                !activa && 'opacity-60 line-through',
+                movible && 'cursor-grab active:cursor-grabbing'
+              )}
+              style={{ top, height: Math.max(height, 20) }}
+              title={`${formatHora(reserva.fechaHora)} · ${reserva.clienteNombre}`}
+            >
+              <span className="font-semibold">{formatHora(reserva.fechaHora)}</span>{' '}
+              <span className="font-medium">{reserva.clienteNombre}</span>
+              {!compacta && (
+                <span className="block truncate opacity-80">
+                  {getNombreServicios(getServiciosReserva(reserva))}
+                </span>
+              )}
+            </button>
+          );
+        })}
+
+        {/* Dónde caería la reserva arrastrada */}
+        {vistaPrevia && (
+          <div
+            className={cn(
+              'absolute inset-x-1 z-20 rounded-md border-2 border-dashed px-1.5 py-1 text-xs font-medium pointer-events-none',
+              vistaPrevia.error
+                ? 'border-red-500 bg-red-50/80 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                : 'border-blue-500 bg-blue-50/80 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+            )}
+            style={getPosicionEnAgenda(
+              { inicio: vistaPrevia.inicio, fin: vistaPrevia.inicio + vistaPrevia.duracion },
+              rangoAgenda,
+              ALTURA_FILA
+            )}
+          >
+            {minutosAHora(vistaPrevia.inicio)}
+            {vistaPrevia.error && <span className="block">{vistaPrevia.error}</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AgendaGrid;
@@ -0,0 +1,8 @@
+/**
+ * ============================================================
+ * BARREL EXPORT - AGENDA
+ * ============================================================
+ * Componentes de la vista calendario del dashboard (/dashboard/agenda)
+ */
+
+export { AgendaGrid } from './agenda-grid';
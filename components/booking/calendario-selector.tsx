@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - CALENDARIO SELECTOR
+ * ============================================================
+ *
+ * Calendario mensual para elegir la fecha de una reserva.
+ * - Deshabilita días pasados y los que superan el máximo permitido
+ * - Deshabilita los días que no cumplen isFechaHabilitada
+ *   (ej: días en que el profesional no atiende)
+ *
+ * USO:
+ * <CalendarioSelector
+ *   value={fecha}
+ *   onChange={setFecha}
+ *   isFechaHabilitada={(f) => atiendeEseDia(f, horarios)}
+ * />
+ */
+
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn, dayjs } from '@/lib/utils';
+
+// Encabezados de la semana (empieza en lunes)
+const DIAS_CABECERA = ['Lu', 'Ma', 'Mi', 'Ju', 'Vi', 'Sá', 'Do'];
+
+interface CalendarioSelectorProps {
+  /** Fecha seleccionada "YYYY-MM-DD" */
+  value: string | null;
+  /** Callback al elegir una fecha */
+  onChange: (fecha: string) => void;
+  /** Permite deshabilitar fechas puntuales */
+  isFechaHabilitada?: (fecha: string) => boolean;
+  /** Cantidad de días a futuro que se pueden elegir */
+  maxDias?: number;
+  /** Clases CSS adicionales */
+  className?: string;
+}
+
+export function CalendarioSelector({
+  value,
+  onChange,
+  isFechaHabilitada,
+  maxDias = 30,
+  className,
+}: CalendarioSelectorProps) {
+  const hoy = dayjs().startOf('day');
+  const limite = hoy.add(maxDias, 'day');
+
+  // Mes que se está mostrando
+  const [mesVisible, setMesVisible] = useState(() =>
+    (value ? dayjs(value) : hoy).startOf('month')
+  );
+
+  // Celdas vacías antes del día 1 (lunes = 0)
+  const offset = (mesVisible.day() + 6) % 7;
+  const diasDelMes = Array.from({ length: mesVisible.daysInMonth() }, (_, i) =>
+    mesVisible.add(i, 'day')
+  );
+
+  const puedeRetroceder = mesVisible.isAfter(hoy, 'month');
+  const puedeAvanzar = mesVisible.isBefore(limite, 'month');
+
+  return (
+    <div className={cn('select-none', className)}>
+      {/* Navegación de meses */}
+      <div className="flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={() => setMesVisible(mesVisible.subtract(1, 'month'))}
+          disabled={!puedeRetroceder}
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+          aria-label="Mes anterior"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <span className="font-semibold text-gray-900 capitalize">
+          {mesVisible.format('MMMM YYYY')}
+        </span>
+        <button
+          type="button"
+          onClick={() => setMesVisible(mesVisible.add(1, 'month'))}
+          disabled={!puedeAvanzar}
+          className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed"
+          aria-label="Mes siguiente"
+        >
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      {/* Cabecera de días */}
+      <div className="grid grid-cols-7 gap-1 mb-1">
+        {DIAS_CABECERA.map((dia) => (
+          <div key={dia} className="text-center text-xs font-medium text-gray-500 py-1">
+            {dia}
+          </div>
+        ))}
+      </div>
+
+      {/* Días */}
+      <div className="grid grid-cols-7 gap-1">
+        {Array.from({ length: offset }).map((_, i) => (
+          <div key={`vacio-${i}`} />
+        ))}
+
+        {diasDelMes.map((dia) => {
+          const fecha = dia.format('YYYY-MM-DD');
+          const habilitado =
+            !dia.isBefore(hoy, 'day') &&
+            !dia.isAfter(limite, 'day') &&
+            (!isFechaHabilitada || isFechaHabilitada(fecha));
+          const seleccionado = value === fecha;
+
+          return (
+            <button
+              key={fecha}
+              type="button"
+              onClick={() => onChange(fecha)}
+              disabled={!habilitado}
+              className={cn(
+                'aspect-square rounded-lg text-sm font-medium transition-colors',
+                seleccionado
+                  ? 'bg-blue-600 text-white'
+                  : habilitado
+                  ? 'text-gray-900 hover:bg-blue-50'
+                  : 'text-gray-300 cursor-not-allowed',
+                dia.isSame(hoy, 'day') && !seleccionado && 'ring-1 ring-blue-300'
+              )}
+            >
+              {dia.date()}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default CalendarioSelector;
@@ -0,0 +1,98 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - HORARIO SELECTOR
+ * ============================================================
+ *
+ * Grilla de horas disponibles agrupadas por turno (mañana/tarde/noche).
+ * Recibe los slots ya calculados (ver useDisponibilidad).
+ *
+ * USO:
+ * <HorarioSelector
+ *   slots={slots}
+ *   value={slotSeleccionado}
+ *   onChange={setSlotSeleccionado}
+ *   isLoading={loadingSlots}
+ * />
+ */
+
+import { cn, horaAMinutos, type SlotDisponible } from '@/lib/utils';
+
+// Turnos para agrupar las horas
+const TURNOS = [
+  { label: 'Mañana', desde: 0, hasta: 12 * 60 },
+  { label: 'Tarde', desde: 12 * 60, hasta: 18 * 60 },
+  { label: 'Noche', desde: 18 * 60, hasta: 24 * 60 },
+];
+
+interface HorarioSelectorProps {
+  /** Horas disponibles */
+  slots: SlotDisponible[];
+  /** fechaHora del slot seleccionado */
+  value: string | null;
+  /** Callback al elegir una hora */
+  onChange: (slot: SlotDisponible) => void;
+  /** Muestra spinner mientras se calculan los slots */
+  isLoading?: boolean;
+  /** Mensaje cuando no hay horas libres */
+  emptyMessage?: string;
+}
+
+export function HorarioSelector({
+  slots,
+  value,
+  onChange,
+  isLoading = false,
+  emptyMessage = 'No hay horarios disponibles para este día',
+}: HorarioSelectorProps) {
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto" />
+      </div>
+    );
+  }
+
+  if (slots.length === 0) {
+    return <p className="text-gray-500 text-center py-8">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {TURNOS.map((turno) => {
+        const slotsDelTurno = slots.filter((slot) => {
+          const minutos = horaAMinutos(slot.hora);
+          return minutos >= turno.desde && minutos < turno.hasta;
+        });
+
+        if (slotsDelTurno.length === 0) return null;
+
+        return (
+          <div key={turno.label}>
+            <h4 className="text-sm font-medium text-gray-500 mb-2">{turno.label}</h4>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {slotsDelTurno.map((slot) => (
+                <button
+                  key={slot.fechaHora}
+                  type="button"
+                  onClick={() => onChange(slot)}
+                  className={cn(
+                    'py-2 rounded-lg border-2 text-sm font-medium transition-all',
+                    value === slot.fechaHora
+                      ? 'border-blue-600 bg-blue-600 text-white'
+                      : 'border-gray-200 bg-white text-gray-900 hover:border-blue-300'
+                  )}
+                >
+                  {slot.hora}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default HorarioSelector;
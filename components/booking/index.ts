@@ -0,0 +1,11 @@
+/**
+ * ============================================================
+ * BARREL EXPORT - RESERVAS PÚBLICAS
+ * ============================================================
+ * Componentes del flujo de reserva (/reservar)
+ */
+
+export { CalendarioSelector } from './calendario-selector';
+export { HorarioSelector } from './horario-selector';
+export { ServiciosSelector } from './servicios-selector';
+export { PaquetesSelector } from './paquetes-selector';
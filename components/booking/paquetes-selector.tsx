@@ -0,0 +1,83 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - PAQUETES SELECTOR (selección única)
+ * ============================================================
+ *
+ * Tarjetas de paquetes para reservar un combo de servicios a su
+ * precio. Volver a tocar el elegido lo deselecciona.
+ *
+ * USO:
+ * <PaquetesSelector
+ *   paquetes={paquetes}
+ *   value={paqueteId}
+ *   onChange={setPaqueteId}
+ * />
+ */
+
+import { Check, Clock } from 'lucide-react';
+import { formatDuracion, formatPrecio, type Paquete } from '@/lib/types';
+import { cn, getAhorroPaquete, getDuracionPaquete, getNombreServicios } from '@/lib/utils';
+
+interface PaquetesSelectorProps {
+  /** Paquetes que se pueden elegir */
+  paquetes: Paquete[];
+  /** ID del paquete elegido (null = ninguno) */
+  value: number | null;
+  /** Callback con el nuevo paquete (null al deseleccionar) */
+  onChange: (paqueteId: number | null) => void;
+  className?: string;
+}
+
+export function PaquetesSelector({
+  paquetes,
+  value,
+  onChange,
+  className,
+}: PaquetesSelectorProps) {
+  return (
+    <div className={cn('grid gap-3 sm:grid-cols-2', className)}>
+      {paquetes.map((paquete) => {
+        const isSelected = paquete.id === value;
+        const ahorro = getAhorroPaquete(paquete);
+
+        return (
+          <button
+            key={paquete.id}
+            type="button"
+            onClick={() => onChange(isSelected ? null : paquete.id)}
+            className={cn(
+              'relative flex flex-col gap-2 p-4 rounded-lg border-2 text-left transition-all',
+              isSelected
+                ? 'border-blue-600 bg-blue-50'
+                : 'border-gray-200 bg-white hover:border-blue-300'
+            )}
+          >
+            {isSelected && (
+              <span className="absolute top-3 right-3 flex items-center justify-center w-5 h-5 rounded-full bg-blue-600 text-white">
+                <Check size={14} />
+              </span>
+            )}
+            <h3 className="font-semibold text-gray-900 pr-6">{paquete.nombre}</h3>
+            <p className="text-sm text-gray-600">{getNombreServicios(paquete.servicios)}</p>
+            <div className="flex items-end justify-between mt-auto">
+              <span className="flex items-center gap-1 text-sm text-gray-500">
+                <Clock size={14} />
+                {formatDuracion(getDuracionPaquete(paquete))}
+              </span>
+              <div className="text-right">
+                {ahorro > 0 && (
+                  <p className="text-xs font-medium text-green-600">Ahorras {formatPrecio(ahorro)}</p>
+                )}
+                <span className="text-lg font-bold text-blue-600">{formatPrecio(paquete.precio)}</span>
+              </div>
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default PaquetesSelector;
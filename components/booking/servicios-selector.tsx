@@ -0,0 +1,102 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - SERVICIOS SELECTOR (selección múltiple)
+ * ============================================================
+ *
+ * Lista de servicios para elegir uno o varios en la misma cita
+ * (ej: corte + barba + cejas). Muestra la duración y el precio total.
+ * El orden de `value` es el orden en que se atenderán.
+ *
+ * USO:
+ * <ServiciosSelector
+ *   servicios={servicios}
+ *   value={servicioIds}
+ *   onChange={setServicioIds}
+ * />
+ */
+
+import { Check } from 'lucide-react';
+import { formatDuracion, formatPrecio, type ServicioResumen } from '@/lib/types';
+import { cn, sumarDuracion, sumarPrecio } from '@/lib/utils';
+
+interface ServiciosSelectorProps {
+  /** Servicios que se pueden elegir */
+  servicios: ServicioResumen[];
+  /** IDs de los servicios elegidos */
+  value: number[];
+  /** Callback con la nueva selección */
+  onChange: (servicioIds: number[]) => void;
+  className?: string;
+}
+
+export function ServiciosSelector({
+  servicios,
+  value,
+  onChange,
+  className,
+}: ServiciosSelectorProps) {
+  const seleccionados = value
+    .map((id) => servicios.find((s) => s.id === id))
+    .filter((s): s is ServicioResumen => !!s);
+
+  const toggle = (id: number) => {
+    onChange(value.includes(id) ? value.filter((v) => v !== id) : [...value, id]);
+  };
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="grid gap-3">
+        {servicios.map((servicio) => {
+          const isSelected = value.includes(servicio.id);
+
+          return (
+            <button
+              key={servicio.id}
+              type="button"
+              onClick={() => toggle(servicio.id)}
+              className={cn(
+                'flex items-center justify-between gap-4 p-4 rounded-lg border-2 transition-all',
+                isSelected
+                  ? 'border-blue-600 bg-blue-50'
+                  : 'border-gray-200 bg-white hover:border-blue-300'
+              )}
+            >
+              <div className="flex items-center gap-3 text-left">
+                <span
+                  className={cn(
+                    'flex items-center justify-center w-5 h-5 rounded border-2 shrink-0',
+                    isSelected ? 'border-blue-600 bg-blue-600 text-white' : 'border-gray-300'
+                  )}
+                >
+                  {isSelected && <Check size={14} />}
+                </span>
+                <div>
+                  <h3 className="font-semibold text-gray-900">{servicio.nombre}</h3>
+                  <p className="text-sm text-gray-500">{formatDuracion(servicio.duracionMinutos)}</p>
+                </div>
+              </div>
+              <span className="text-lg font-bold text-blue-600">
+                {formatPrecio(servicio.precio)}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Totales de la selección */}
+      {seleccionados.length > 0 && (
+        <div className="flex items-center justify-between p-4 rounded-lg bg-gray-900 text-white text-sm">
+          <span>
+            {seleccionados.length} {seleccionados.length === 1 ? 'servicio' : 'servicios'} ·{' '}
+            {formatDuracion(sumarDuracion(seleccionados))}
+          </span>
+          <span className="text-lg font-bold">{formatPrecio(sumarPrecio(seleccionados))}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ServiciosSelector;
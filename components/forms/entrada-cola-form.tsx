@@ -0,0 +1,245 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE WALK-IN (COLA DE ESPERA)
+ * ============================================================
+ *
+ * Agrega a la cola a un cliente que llegó sin reserva.
+ * Solo se pide lo mínimo: nombre y servicios. El teléfono y el
+ * profesional preferido son opcionales.
+ *
+ * PROPS:
+ * - profesionales / servicios: Opciones de los selects
+ * - onSubmit: Callback con el DTO listo para el API
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type {
+  CreateEntradaColaDto,
+  Profesional,
+  ServicioResumen,
+  ApiError,
+} from '@/lib/types';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import { extractFieldErrors, sumarDuracion, sumarPrecio } from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const entradaColaSchema = z.object({
+  clienteNombre: z.string().trim().min(2, 'Ingresa el nombre del cliente'),
+  clienteTelefono: z.union([
+    z.literal(''),
+    z.string().trim().min(9, 'El teléfono debe tener entre 9 y 20 caracteres').max(20, 'El teléfono debe tener entre 9 y 20 caracteres'),
+  ]).optional(),
+  servicioIds: z.array(z.number()).min(1, 'Elige al menos un servicio'),
+  // "" = cualquier profesional
+  profesionalPreferidoId: z.string().optional(),
+});
+
+export type EntradaColaFormData = z.infer<typeof entradaColaSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof EntradaColaFormData)[] = [
+  'clienteNombre',
+  'clienteTelefono',
+  'servicioIds',
+  'profesionalPreferidoId',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface EntradaColaFormProps {
+  profesionales: Profesional[];
+  servicios: ServicioResumen[];
+  onSubmit: (data: CreateEntradaColaDto) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function EntradaColaForm({
+  profesionales,
+  servicios,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: EntradaColaFormProps) {
+  const { register, handleSubmit, setError, setValue, control, formState: { errors } } = useForm({
+    resolver: zodResolver(entradaColaSchema),
+    defaultValues: {
+      clienteNombre: '',
+      clienteTelefono: '',
+      servicioIds: [],
+      profesionalPreferidoId: '',
+    },
+  });
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof EntradaColaFormData)) {
+        setError(name as keyof EntradaColaFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  const servicioIds = useWatch({ control, name: 'servicioIds' });
+  const seleccionados = servicios.filter((s) => servicioIds.includes(s.id));
+
+  const toggleServicio = (id: number) => {
+    const nuevos = servicioIds.includes(id)
+      ? servicioIds.filter((v) => v !== id)
+      : [...servicioIds, id];
+    setValue('servicioIds', nuevos, { shouldValidate: true });
+  };
+
+  const handleFormSubmit = (data: EntradaColaFormData) => {
+    if (onClearError) onClearError();
+
+    onSubmit({
+      clienteNombre: data.clienteNombre,
+      clienteTelefono: data.clienteTelefono || undefined,
+      servicioIds: data.servicioIds,
+      profesionalPreferidoId: data.profesionalPreferidoId
+        ? Number(data.profesionalPreferidoId)
+        : undefined,
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      <FormErrorAlert error={serverError} onDismiss={onClearError} />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>Nombre *</label>
+          <input
+            {...register('clienteNombre')}
+            type="text"
+            autoFocus
+            className={inputClass(!!errors.clienteNombre)}
+            placeholder="Juan"
+          />
+          {errors.clienteNombre && <p className={errorClass}>{errors.clienteNombre.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Teléfono</label>
+          <input
+            {...register('clienteTelefono')}
+            type="tel"
+            className={inputClass(!!errors.clienteTelefono)}
+            placeholder="Para avisarle cuando sea su turno"
+          />
+          {errors.clienteTelefono && <p className={errorClass}>{errors.clienteTelefono.message}</p>}
+        </div>
+      </div>
+
+      {/* Servicios */}
+      <div>
+        <label className={labelClass}>Servicios *</label>
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-300 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-700">
+          {servicios.map((servicio) => (
+            <label
+              key={servicio.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+              <span className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={servicioIds.includes(servicio.id)}
+                  onChange={() => toggleServicio(servicio.id)}
+                  className="w-4 h-4 rounded text-blue-600 border-gray-300 dark:border-gray-600 focus:ring-blue-500"
+                />
+                {servicio.nombre}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDuracion(servicio.duracionMinutos)} · {formatPrecio(servicio.precio)}
+              </span>
+            </label>
+          ))}
+        </div>
+        {seleccionados.length > 0 && (
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Total: {formatDuracion(sumarDuracion(seleccionados))} · {formatPrecio(sumarPrecio(seleccionados))}
+          </p>
+        )}
+        {errors.servicioIds && <p className={errorClass}>{errors.servicioIds.message}</p>}
+      </div>
+
+      {/* Profesional preferido */}
+      <div>
+        <label className={labelClass}>Profesional</label>
+        <select
+          {...register('profesionalPreferidoId')}
+          className={inputClass(!!errors.profesionalPreferidoId)}
+        >
+          <option value="">El primero que se libere</option>
+          {profesionales.map((profesional) => (
+            <option key={profesional.id} value={profesional.id}>
+              {profesional.nombreCompleto}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            'Agregar a la cola'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default EntradaColaForm;
@@ -0,0 +1,325 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE EXCEPCIÓN DE HORARIO
+ * ============================================================
+ *
+ * Formulario para crear/editar días libres, vacaciones, horas
+ * libres y feriados. Puede aplicar a un profesional o a todo el
+ * negocio (los feriados siempre son de todo el negocio).
+ *
+ * Con profesionalFijo (Mi agenda) la excepción es siempre de ese
+ * profesional: no se elige a quién aplica ni se ofrecen feriados.
+ *
+ * PROPS:
+ * - initialData: Datos para edición (si no se pasa, es creación)
+ * - profesionales: Profesionales que se pueden elegir
+ * - profesionalFijo: Profesional al que aplica sí o sí
+ * - onSubmit: Callback con el DTO listo para el API
+ * - onCancel: Callback cuando se cancela
+ * - isLoading: Estado de carga
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type {
+  ExcepcionHorario,
+  CreateExcepcionHorarioDto,
+  Profesional,
+  TipoExcepcion,
+  ApiError,
+} from '@/lib/types';
+import { dayjs, extractFieldErrors, horaAMinutos, NOMBRES_TIPO_EXCEPCION } from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+const HORA_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const TIPOS = Object.keys(NOMBRES_TIPO_EXCEPCION) as [TipoExcepcion, ...TipoExcepcion[]];
+
+export const excepcionSchema = z
+  .object({
+    // "" = todo el negocio
+    profesionalId: z.string(),
+    tipo: z.enum(TIPOS),
+    fechaInicio: z.string().min(1, 'Elige la fecha de inicio'),
+    fechaFin: z.string().min(1, 'Elige la fecha de fin'),
+    horaInicio: z.string(),
+    horaFin: z.string(),
+    motivo: z.string().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.fechaInicio && data.fechaFin && data.fechaFin < data.fechaInicio) {
+      ctx.addIssue({ code: 'custom', path: ['fechaFin'], message: 'La fecha de fin no puede ser anterior al inicio' });
+    }
+
+    if (data.tipo === 'FERIADO' && data.profesionalId) {
+      ctx.addIssue({ code: 'custom', path: ['profesionalId'], message: 'Los feriados aplican a todo el negocio' });
+    }
+
+    if (data.tipo !== 'HORAS_LIBRES') return;
+
+    if (!HORA_REGEX.test(data.horaInicio)) {
+      ctx.addIssue({ code: 'custom', path: ['horaInicio'], message: 'Ingresa la hora de inicio' });
+    }
+    if (!HORA_REGEX.test(data.horaFin)) {
+      ctx.addIssue({ code: 'custom', path: ['horaFin'], message: 'Ingresa la hora de fin' });
+    } else if (
+      HORA_REGEX.test(data.horaInicio) &&
+      horaAMinutos(data.horaFin) <= horaAMinutos(data.horaInicio)
+    ) {
+      ctx.addIssue({ code: 'custom', path: ['horaFin'], message: 'La hora de fin debe ser posterior al inicio' });
+    }
+  });
+
+// Tipo inferido del schema
+export type ExcepcionFormData = z.infer<typeof excepcionSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof ExcepcionFormData)[] = [
+  'profesionalId',
+  'tipo',
+  'fechaInicio',
+  'fechaFin',
+  'horaInicio',
+  'horaFin',
+  'motivo',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface ExcepcionFormProps {
+  /** Datos iniciales para edición (undefined = crear nueva) */
+  initialData?: ExcepcionHorario | null;
+  /** Profesionales que se pueden elegir */
+  profesionales: Profesional[];
+  /** Profesional al que aplica sí o sí (oculta "Aplica a" y los feriados) */
+  profesionalFijo?: Profesional | null;
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: CreateExcepcionHorarioDto) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ExcepcionForm({
+  initialData,
+  profesionales,
+  profesionalFijo,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: ExcepcionFormProps) {
+  // Determinar si es edición o creación
+  const isEditing = !!initialData;
+  const hoy = dayjs().format('YYYY-MM-DD');
+  const tiposVisibles = profesionalFijo ? TIPOS.filter((t) => t !== 'FERIADO') : TIPOS;
+
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(excepcionSchema),
+    defaultValues: {
+      profesionalId: profesionalFijo
+        ? String(profesionalFijo.id)
+        : initialData?.profesionalId != null ? String(initialData.profesionalId) : '',
+      tipo: initialData?.tipo ?? 'DIA_LIBRE',
+      fechaInicio: initialData?.fechaInicio ?? hoy,
+      fechaFin: initialData?.fechaFin ?? hoy,
+      horaInicio: initialData?.horaInicio?.slice(0, 5) ?? '',
+      horaFin: initialData?.horaFin?.slice(0, 5) ?? '',
+      motivo: initialData?.motivo || '',
+    },
+  });
+
+  const { register, handleSubmit, setError, control, formState: { errors } } = form;
+
+  const tipo = useWatch({ control, name: 'tipo' });
+  const fechaInicio = useWatch({ control, name: 'fechaInicio' });
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof ExcepcionFormData)) {
+        setError(name as keyof ExcepcionFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Handler del submit
+  const handleFormSubmit = (data: ExcepcionFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+    const esHorasLibres = data.tipo === 'HORAS_LIBRES';
+    onSubmit({
+      profesionalId: data.profesionalId ? Number(data.profesionalId) : null,
+      tipo: data.tipo,
+      fechaInicio: data.fechaInicio,
+      fechaFin: data.fechaFin,
+      horaInicio: esHorasLibres ? data.horaInicio : null,
+      horaFin: esHorasLibres ? data.horaFin : null,
+      motivo: data.motivo || undefined,
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Tipo y alcance */}
+      <div className={profesionalFijo ? '' : 'grid gap-4 sm:grid-cols-2'}>
+        <div>
+          <label className={labelClass}>Tipo *</label>
+          <select {...register('tipo')} className={inputClass(!!errors.tipo)}>
+            {tiposVisibles.map((t) => (
+              <option key={t} value={t}>{NOMBRES_TIPO_EXCEPCION[t]}</option>
+            ))}
+          </select>
+          {errors.tipo && <p className={errorClass}>{errors.tipo.message}</p>}
+        </div>
+
+        {!profesionalFijo && (
+          <div>
+            <label className={labelClass}>Aplica a *</label>
+            <select
+              {...register('profesionalId')}
+              disabled={tipo === 'FERIADO'}
+              className={inputClass(!!errors.profesionalId)}
+            >
+              <option value="">Todo el negocio</option>
+              {profesionales.map((prof) => (
+                <option key={prof.id} value={prof.id}>{prof.nombreCompleto}</option>
+              ))}
+            </select>
+            {errors.profesionalId && <p className={errorClass}>{errors.profesionalId.message}</p>}
+          </div>
+        )}
+      </div>
+
+      {/* Fechas */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>Desde *</label>
+          <input
+            {...register('fechaInicio')}
+            type="date"
+            className={inputClass(!!errors.fechaInicio)}
+          />
+          {errors.fechaInicio && <p className={errorClass}>{errors.fechaInicio.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Hasta *</label>
+          <input
+            {...register('fechaFin')}
+            type="date"
+            min={fechaInicio}
+            className={inputClass(!!errors.fechaFin)}
+          />
+          {errors.fechaFin && <p className={errorClass}>{errors.fechaFin.message}</p>}
+        </div>
+      </div>
+
+      {/* Horas: solo para horas libres */}
+      {tipo === 'HORAS_LIBRES' && (
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className={labelClass}>De *</label>
+            <input
+              {...register('horaInicio')}
+              type="time"
+              step={900}
+              className={inputClass(!!errors.horaInicio)}
+            />
+            {errors.horaInicio && <p className={errorClass}>{errors.horaInicio.message}</p>}
+          </div>
+
+          <div>
+            <label className={labelClass}>A *</label>
+            <input
+              {...register('horaFin')}
+              type="time"
+              step={900}
+              className={inputClass(!!errors.horaFin)}
+            />
+            {errors.horaFin && <p className={errorClass}>{errors.horaFin.message}</p>}
+          </div>
+        </div>
+      )}
+
+      {/* Motivo */}
+      <div>
+        <label className={labelClass}>Motivo</label>
+        <input
+          {...register('motivo')}
+          type="text"
+          className={inputClass(!!errors.motivo)}
+          placeholder={tipo === 'FERIADO' ? 'Fiestas Patrias' : 'Vacaciones'}
+        />
+        {errors.motivo && <p className={errorClass}>{errors.motivo.message}</p>}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            isEditing ? 'Actualizar' : profesionalFijo ? 'Enviar solicitud' : 'Crear'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ExcepcionForm;
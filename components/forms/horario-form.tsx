@@ -0,0 +1,361 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE HORARIO SEMANAL
+ * ============================================================
+ *
+ * Editor del horario semanal, un bloque por día (de un profesional
+ * o, sin profesional, el horario de atención del negocio):
+ * - Varios turnos por día (ej: 09:00-13:00 y 15:00-20:00)
+ * - "Copiar a toda la semana" desde cualquier día
+ * - Descanso opcional dentro de cada turno (ej: almuerzo 13:00-14:00)
+ * - Valida fin > inicio, que los turnos de un día no se crucen y
+ *   que el descanso quede dentro del turno
+ *
+ * Si el profesional usa el horario del negocio, se muestra ese
+ * horario en modo lectura (no tiene horario propio que editar).
+ *
+ * PROPS:
+ * - profesional: Profesional dueño del horario (sin él = del negocio)
+ * - horarios: Turnos guardados (GET /profesionales/{id}/horarios)
+ * - horarioNegocio: Horario heredado con usaHorarioNegocio
+ * - onSubmit: Callback con todos los turnos de la semana
+ * - onCancel: Sin él no se muestra el botón (p. ej. en configuración)
+ */
+
+import { useForm, useFieldArray, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Coffee, Copy, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { ApiError, DiaSemana, HorarioDto, Profesional } from '@/lib/types';
+import {
+  copiarDiaASemana,
+  DIAS_SEMANA,
+  getDescansoSugerido,
+  horaAMinutos,
+  minutosAHora,
+  NOMBRES_DIA_SEMANA,
+  tieneDescanso,
+  turnosDesdeHorarios,
+  validarTurnos,
+  type TurnoHorario,
+} from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+const HORA_REGEX = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const horarioSchema = z.object({
+  turnos: z
+    .array(
+      z.object({
+        horarioId: z.number().optional(),
+        diaSemana: z.enum(DIAS_SEMANA as [DiaSemana, ...DiaSemana[]]),
+        horaInicio: z.string().regex(HORA_REGEX, 'Hora inválida'),
+        horaFin: z.string().regex(HORA_REGEX, 'Hora inválida'),
+        // "" = sin descanso
+        descansoInicio: z.string().optional(),
+        descansoFin: z.string().optional(),
+      })
+    )
+    .superRefine((turnos, ctx) => {
+      validarTurnos(turnos).forEach(({ indice, campo = 'horaFin', mensaje }) => {
+        ctx.addIssue({ code: 'custom', path: [indice, campo], message: mensaje });
+      });
+    }),
+});
+
+export type HorarioFormData = z.infer<typeof horarioSchema>;
+
+// Turno nuevo al agregar en un día sin turnos
+const TURNO_POR_DEFECTO = { horaInicio: '09:00', horaFin: '18:00' };
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface HorarioFormProps {
+  /** Dueño del horario (undefined = horario de atención del negocio) */
+  profesional?: Profesional | null;
+  /** Turnos guardados */
+  horarios: (HorarioDto & { id?: number })[];
+  /** Horario del negocio (se muestra si usaHorarioNegocio) */
+  horarioNegocio?: HorarioDto[];
+  /** Callback con todos los turnos de la semana */
+  onSubmit: (turnos: TurnoHorario[]) => Promise<void>;
+  /** Callback cuando se cancela (sin él no hay botón de cancelar) */
+  onCancel?: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function HorarioForm({
+  profesional,
+  horarios,
+  horarioNegocio = [],
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: HorarioFormProps) {
+  // Sin horario propio: solo lectura
+  const heredaNegocio = !!profesional?.usaHorarioNegocio;
+  const soloLectura = heredaNegocio;
+
+  const form = useForm({
+    resolver: zodResolver(horarioSchema),
+    defaultValues: { turnos: turnosDesdeHorarios(horarios) },
+  });
+
+  const { register, handleSubmit, control, getValues, setValue, formState: { errors } } = form;
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'turnos' });
+  const turnos = useWatch({ control, name: 'turnos' });
+
+  // Horario heredado: se muestra el del negocio en lugar del propio
+  const turnosVisibles: TurnoHorario[] = heredaNegocio
+    ? turnosDesdeHorarios(horarioNegocio)
+    : turnos;
+
+  const handleCopiar = (dia: DiaSemana) => {
+    replace(copiarDiaASemana(getValues('turnos'), dia));
+  };
+
+  // Agrega un descanso sugerido o lo quita si ya tiene
+  const handleDescanso = (indice: number) => {
+    const turno = getValues(`turnos.${indice}`);
+    const descanso = tieneDescanso(turno)
+      ? { descansoInicio: '', descansoFin: '' }
+      : getDescansoSugerido(turno);
+    setValue(`turnos.${indice}.descansoInicio`, descanso.descansoInicio, { shouldDirty: true });
+    setValue(`turnos.${indice}.descansoFin`, descanso.descansoFin, { shouldDirty: true });
+  };
+
+  const handleFormSubmit = (data: HorarioFormData) => {
+    if (onClearError) onClearError();
+    onSubmit(data.turnos);
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `px-2 py-1.5 border rounded-lg outline-none transition-colors text-sm
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      disabled:opacity-70 disabled:cursor-not-allowed
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {heredaNegocio && (
+        <p className="p-3 text-sm rounded-lg bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300">
+          {profesional?.nombreCompleto} usa el horario del negocio. Para darle un horario propio,
+          edita el profesional y desactiva &quot;Usa horario del negocio&quot;.
+        </p>
+      )}
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {DIAS_SEMANA.map((dia) => {
+          // Índices en la lista completa (los necesita register/remove)
+          const indices = heredaNegocio
+            ? []
+            : fields.map((_, i) => i).filter((i) => turnos[i]?.diaSemana === dia);
+          const heredados = heredaNegocio ? turnosVisibles.filter((t) => t.diaSemana === dia) : [];
+          const cerrado = heredaNegocio ? heredados.length === 0 : indices.length === 0;
+
+          return (
+            <div key={dia} className="flex flex-col sm:flex-row sm:items-start gap-2 py-3">
+              <p className="w-28 shrink-0 pt-1.5 text-sm font-medium text-gray-900 dark:text-white">
+                {NOMBRES_DIA_SEMANA[dia]}
+              </p>
+
+              <div className="flex-1 space-y-2">
+                {cerrado && (
+                  <p className="pt-1.5 text-sm text-gray-400 dark:text-gray-500">No atiende</p>
+                )}
+
+                {/* Horario del negocio (solo lectura) */}
+                {heredados.map((turno, j) => (
+                  <p key={j} className="pt-1.5 text-sm text-gray-700 dark:text-gray-300">
+                    {turno.horaInicio} – {turno.horaFin}
+                    {tieneDescanso(turno) && (
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {' '}(descanso {turno.descansoInicio} – {turno.descansoFin})
+                      </span>
+                    )}
+                  </p>
+                ))}
+
+                {/* Turnos propios */}
+                {indices.map((i) => (
+                  <div key={fields[i].id}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        {...register(`turnos.${i}.horaInicio`)}
+                        type="time"
+                        step={900}
+                        disabled={soloLectura}
+                        aria-label={`${NOMBRES_DIA_SEMANA[dia]}: inicio`}
+                        className={inputClass(!!errors.turnos?.[i]?.horaInicio)}
+                      />
+                      <span className="text-gray-500 dark:text-gray-400">–</span>
+                      <input
+                        {...register(`turnos.${i}.horaFin`)}
+                        type="time"
+                        step={900}
+                        disabled={soloLectura}
+                        aria-label={`${NOMBRES_DIA_SEMANA[dia]}: fin`}
+                        className={inputClass(!!errors.turnos?.[i]?.horaFin)}
+                      />
+                      {!soloLectura && (
+                        <button
+                          type="button"
+                          onClick={() => handleDescanso(i)}
+                          className={`p-1.5 rounded-lg transition-colors ${tieneDescanso(turnos[i])
+                            ? 'text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20'
+                            : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+                          }`}
+                          title={tieneDescanso(turnos[i]) ? 'Quitar descanso' : 'Agregar descanso'}
+                        >
+                          <Coffee size={16} />
+                        </button>
+                      )}
+                      {!soloLectura && (
+                        <button
+                          type="button"
+                          onClick={() => remove(i)}
+                          className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                          title="Quitar turno"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                    {/* Descanso dentro del turno */}
+                    {tieneDescanso(turnos[i]) && (
+                      <div className="flex items-center gap-2 mt-2 pl-3 border-l-2 border-amber-300 dark:border-amber-700">
+                        <span className="text-xs text-gray-500 dark:text-gray-400">Descanso</span>
+                        <input
+                          {...register(`turnos.${i}.descansoInicio`)}
+                          type="time"
+                          step={900}
+                          disabled={soloLectura}
+                          aria-label={`${NOMBRES_DIA_SEMANA[dia]}: inicio del descanso`}
+                          className={inputClass(!!errors.turnos?.[i]?.descansoInicio)}
+                        />
+                        <span className="text-gray-500 dark:text-gray-400">–</span>
+                        <input
+                          {...register(`turnos.${i}.descansoFin`)}
+                          type="time"
+                          step={900}
+                          disabled={soloLectura}
+                          aria-label={`${NOMBRES_DIA_SEMANA[dia]}: fin del descanso`}
+                          className={inputClass(!!errors.turnos?.[i]?.descansoFin)}
+                        />
+                      </div>
+                    )}
+                    {errors.turnos?.[i]?.horaInicio && (
+                      <p className={errorClass}>{errors.turnos[i]?.horaInicio?.message}</p>
+                    )}
+                    {errors.turnos?.[i]?.horaFin && (
+                      <p className={errorClass}>{errors.turnos[i]?.horaFin?.message}</p>
+                    )}
+                    {errors.turnos?.[i]?.descansoFin && (
+                      <p className={errorClass}>{errors.turnos[i]?.descansoFin?.message}</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {!soloLectura && (
+                <div className="flex gap-1 sm:pt-0.5">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      // El nuevo turno empieza donde termina el último del día
+                      const ultimo = indices.length > 0 ? turnos[indices[indices.length - 1]] : null;
+                      append(
+                        ultimo
+                          ? {
+                            diaSemana: dia,
+                            horaInicio: ultimo.horaFin,
+                            horaFin: minutosAHora(Math.min(horaAMinutos(ultimo.horaFin) + 60, 23 * 60 + 45)),
+                          }
+                          : { diaSemana: dia, ...TURNO_POR_DEFECTO }
+                      );
+                    }}
+                    className="flex items-center gap-1 px-2 py-1.5 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                    title="Agregar turno"
+                  >
+                    <Plus size={14} />
+                    Turno
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleCopiar(dia)}
+                    disabled={indices.length === 0}
+                    className="p-1.5 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg disabled:opacity-40 transition-colors"
+                    title="Copiar a toda la semana"
+                  >
+                    <Copy size={14} />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`${soloLectura ? 'w-full' : 'flex-1'} px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors`}
+          >
+            {soloLectura ? 'Cerrar' : 'Cancelar'}
+          </button>
+        )}
+        {!soloLectura && (
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+              hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+              flex items-center justify-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <Loader2 size={18} className="animate-spin" />
+                Guardando...
+              </>
+            ) : (
+              'Guardar horario'
+            )}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default HorarioForm;
@@ -7,5 +7,20 @@
 
 export { ProfesionalForm, profesionalSchema, type ProfesionalFormData } from './profesional-form';
 export { CategoriaForm, categoriaSchema, type CategoriaFormData } from './categoria-form';
+export { ServicioForm, servicioSchema, type ServicioFormData } from './servicio-form';
+export { HorarioForm, horarioSchema, type HorarioFormData } from './horario-form';
+export { PaqueteForm, paqueteSchema, type PaqueteFormData } from './paquete-form';
+export { ExcepcionForm, excepcionSchema, type ExcepcionFormData } from './excepcion-form';
+export { NegocioForm, negocioSchema, type NegocioFormData } from './negocio-form';
+export { ReglasComisionForm, reglasComisionSchema, type ReglasComisionFormData } from './reglas-comision-form';
 
 
+export { ReservaClienteForm, reservaClienteSchema, type ReservaClienteFormData } from './reserva-cliente-form';
+export { ReservaForm, reservaSchema, type ReservaFormData } from './reserva-form';
+export { MotivoEstadoForm, motivoEstadoSchema, type MotivoEstadoFormData } from './motivo-estado-form';
+export { EntradaColaForm, entradaColaSchema, type EntradaColaFormData } from './entrada-cola-form';
+export {
+  PersonalizacionServicioForm,
+  personalizacionServicioSchema,
+  type PersonalizacionServicioFormData,
+} from './personalizacion-servicio-form';
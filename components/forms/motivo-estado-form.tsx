@@ -0,0 +1,149 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE MOTIVO (CAMBIO DE ESTADO)
+ * ============================================================
+ *
+ * Pide el motivo al cancelar una reserva o marcar "no asistió"
+ * (ver ESTADOS_CON_MOTIVO en lib/utils/estado-reserva.ts).
+ *
+ * PROPS:
+ * - mensaje: Texto que explica la acción
+ * - onSubmit: Callback con el motivo ya validado
+ */
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type { ApiError } from '@/lib/types';
+import { extractFieldErrors } from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const motivoEstadoSchema = z.object({
+  motivo: z
+    .string()
+    .trim()
+    .min(3, 'Indica el motivo (mínimo 3 caracteres)')
+    .max(255, 'Máximo 255 caracteres'),
+});
+
+export type MotivoEstadoFormData = z.infer<typeof motivoEstadoSchema>;
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface MotivoEstadoFormProps {
+  /** Texto que explica la acción (ej: "¿Cancelar la cita de Juan?") */
+  mensaje: string;
+  /** Texto del botón de confirmar */
+  confirmText: string;
+  /** Color del botón de confirmar */
+  variant?: 'danger' | 'warning';
+  onSubmit: (motivo: string) => Promise<void>;
+  onCancel: () => void;
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+const variantClasses = {
+  danger: 'bg-red-600 hover:bg-red-700',
+  warning: 'bg-orange-600 hover:bg-orange-700',
+};
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function MotivoEstadoForm({
+  mensaje,
+  confirmText,
+  variant = 'danger',
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: MotivoEstadoFormProps) {
+  const { register, handleSubmit, setError, formState: { errors } } = useForm({
+    resolver: zodResolver(motivoEstadoSchema),
+    defaultValues: { motivo: '' },
+  });
+
+  // Error de campo "motivo" enviado por el backend
+  useEffect(() => {
+    if (!serverError) return;
+    const error = extractFieldErrors(serverError).find((e) => e.name === 'motivo');
+    if (error) setError('motivo', { type: 'server', message: error.message });
+  }, [serverError, setError]);
+
+  const handleFormSubmit = (data: MotivoEstadoFormData) => {
+    if (onClearError) onClearError();
+    onSubmit(data.motivo);
+  };
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      <FormErrorAlert error={serverError} onDismiss={onClearError} />
+
+      <p className="text-gray-600 dark:text-gray-400">{mensaje}</p>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Motivo *
+        </label>
+        <textarea
+          {...register('motivo')}
+          rows={3}
+          autoFocus
+          className={`w-full px-3 py-2 border rounded-lg outline-none transition-colors
+            bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+            ${errors.motivo
+              ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+              : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+            } focus:ring-2 focus:border-transparent`}
+          placeholder="Ej: el cliente llamó para cancelar"
+        />
+        {errors.motivo && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.motivo.message}</p>
+        )}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Volver
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`flex-1 px-4 py-2 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed
+            transition-colors flex items-center justify-center gap-2 ${variantClasses[variant]}`}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            confirmText
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default MotivoEstadoForm;
@@ -0,0 +1,292 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE DATOS DEL NEGOCIO
+ * ============================================================
+ *
+ * Datos del negocio en /dashboard/configuracion: nombre, datos de
+ * contacto, datos fiscales (razón social, RUC), logo y las horas
+ * mínimas para que el cliente cancele o reprograme.
+ *
+ * PROPS:
+ * - initialData: Datos actuales del negocio
+ * - onSubmit: Callback con el DTO listo para el API
+ * - onCancel: Sin él no se muestra el botón de cancelar
+ * - isLoading: Estado de carga
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type { Negocio, UpdateNegocioDto, ApiError } from '@/lib/types';
+import { negocioConfig } from '@/lib/config';
+import { extractFieldErrors } from '@/lib/utils';
+import { FormErrorAlert, ImageUpload } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const negocioSchema = z.object({
+  nombre: z.string().trim().min(3, 'El nombre debe tener al menos 3 caracteres'),
+  razonSocial: z.string().optional(),
+  ruc: z.union([z.literal(''), z.string().regex(/^\d{11}$/, 'El RUC debe tener 11 dígitos')]).optional(),
+  direccion: z.string().optional(),
+  telefono: z.string().optional(),
+  email: z.union([z.literal(''), z.email('Ingresa un email válido')]).optional(),
+  // URL que devuelve la subida (ImageUpload); "" = sin logo
+  logo: z.string().optional(),
+  horasLimiteCancelacion: z
+    .number({ error: 'Ingresa las horas' })
+    .int('Ingresa horas enteras')
+    .min(0, 'No puede ser negativo')
+    .max(168, 'Máximo 168 horas (una semana)'),
+});
+
+// Tipo inferido del schema
+export type NegocioFormData = z.infer<typeof negocioSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof NegocioFormData)[] = [
+  'nombre',
+  'razonSocial',
+  'ruc',
+  'direccion',
+  'telefono',
+  'email',
+  'logo',
+  'horasLimiteCancelacion',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface NegocioFormProps {
+  /** Datos actuales del negocio */
+  initialData?: Negocio | null;
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: UpdateNegocioDto) => Promise<void>;
+  /** Callback cuando se cancela (sin él no hay botón de cancelar) */
+  onCancel?: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function NegocioForm({
+  initialData,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: NegocioFormProps) {
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(negocioSchema),
+    defaultValues: {
+      nombre: initialData?.nombre || '',
+      razonSocial: initialData?.razonSocial || '',
+      ruc: initialData?.ruc || '',
+      direccion: initialData?.direccion || '',
+      telefono: initialData?.telefono || '',
+      email: initialData?.email || '',
+      logo: initialData?.logo || '',
+      horasLimiteCancelacion: initialData?.horasLimiteCancelacion ?? negocioConfig.horasLimiteCancelacion,
+    },
+  });
+
+  const { register, handleSubmit, setError, setValue, control, formState: { errors } } = form;
+
+  const logo = useWatch({ control, name: 'logo' });
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof NegocioFormData)) {
+        setError(name as keyof NegocioFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Handler del submit
+  const handleFormSubmit = (data: NegocioFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+    onSubmit({
+      nombre: data.nombre,
+      razonSocial: data.razonSocial || undefined,
+      ruc: data.ruc || undefined,
+      direccion: data.direccion || undefined,
+      telefono: data.telefono || undefined,
+      email: data.email || undefined,
+      logo: data.logo || null,
+      horasLimiteCancelacion: data.horasLimiteCancelacion,
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Logo */}
+      <div>
+        <label className={labelClass}>Logo</label>
+        <ImageUpload
+          value={logo}
+          onChange={(url) => setValue('logo', url, { shouldDirty: true })}
+          carpeta="negocio"
+          disabled={isLoading}
+        />
+        {errors.logo && <p className={errorClass}>{errors.logo.message}</p>}
+      </div>
+
+      {/* Nombre */}
+      <div>
+        <label className={labelClass}>Nombre comercial *</label>
+        <input
+          {...register('nombre')}
+          type="text"
+          className={inputClass(!!errors.nombre)}
+          placeholder="Barbería Central"
+        />
+        {errors.nombre && <p className={errorClass}>{errors.nombre.message}</p>}
+      </div>
+
+      {/* Datos fiscales */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>Razón social</label>
+          <input
+            {...register('razonSocial')}
+            type="text"
+            className={inputClass(!!errors.razonSocial)}
+          />
+          {errors.razonSocial && <p className={errorClass}>{errors.razonSocial.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>RUC</label>
+          <input
+            {...register('ruc')}
+            type="text"
+            inputMode="numeric"
+            maxLength={11}
+            className={inputClass(!!errors.ruc)}
+            placeholder="20123456789"
+          />
+          {errors.ruc && <p className={errorClass}>{errors.ruc.message}</p>}
+        </div>
+      </div>
+
+      {/* Dirección */}
+      <div>
+        <label className={labelClass}>Dirección</label>
+        <input
+          {...register('direccion')}
+          type="text"
+          className={inputClass(!!errors.direccion)}
+          placeholder="Av. Ejemplo 123, Lima"
+        />
+        {errors.direccion && <p className={errorClass}>{errors.direccion.message}</p>}
+      </div>
+
+      {/* Contacto */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>Teléfono</label>
+          <input
+            {...register('telefono')}
+            type="tel"
+            className={inputClass(!!errors.telefono)}
+          />
+          {errors.telefono && <p className={errorClass}>{errors.telefono.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Email</label>
+          <input
+            {...register('email')}
+            type="email"
+            className={inputClass(!!errors.email)}
+          />
+          {errors.email && <p className={errorClass}>{errors.email.message}</p>}
+        </div>
+      </div>
+
+      {/* Reglas de reserva */}
+      <div>
+        <label className={labelClass}>Horas mínimas para cancelar o reprogramar *</label>
+        <input
+          {...register('horasLimiteCancelacion', { valueAsNumber: true })}
+          type="number"
+          min={0}
+          max={168}
+          className={inputClass(!!errors.horasLimiteCancelacion)}
+        />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Antes de ese plazo el cliente puede cancelar o reprogramar su cita desde el enlace de la reserva
+        </p>
+        {errors.horasLimiteCancelacion && (
+          <p className={errorClass}>{errors.horasLimiteCancelacion.message}</p>
+        )}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancelar
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            'Guardar datos'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default NegocioForm;
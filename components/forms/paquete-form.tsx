@@ -0,0 +1,283 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE PAQUETE (REUTILIZABLE)
+ * ============================================================
+ *
+ * Formulario para crear/editar paquetes: servicios existentes que
+ * se reservan juntos a un precio propio. Muestra la duración total
+ * y el precio por separado para comparar.
+ *
+ * PROPS:
+ * - initialData: Datos para edición (si no se pasa, es creación)
+ * - servicios: Servicios activos que se pueden incluir
+ * - onSubmit: Callback con el DTO listo para el API
+ * - onCancel: Callback cuando se cancela
+ * - isLoading: Estado de carga
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type { Paquete, Servicio, CreatePaqueteDto, ApiError } from '@/lib/types';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import { extractFieldErrors, sumarDuracion, sumarPrecio } from '@/lib/utils';
+import { FormErrorAlert, ImageUpload } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const paqueteSchema = z.object({
+  nombre: z.string().trim().min(3, 'El nombre debe tener al menos 3 caracteres'),
+  descripcion: z.string().optional(),
+  servicioIds: z.array(z.number()).min(2, 'Elige al menos 2 servicios'),
+  precio: z
+    .number({ error: 'Ingresa el precio' })
+    .min(0, 'El precio no puede ser negativo'),
+  // URL que devuelve la subida (ImageUpload); "" = sin imagen
+  imagen: z.string().optional(),
+});
+
+// Tipo inferido del schema
+export type PaqueteFormData = z.infer<typeof paqueteSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof PaqueteFormData)[] = [
+  'nombre',
+  'descripcion',
+  'servicioIds',
+  'precio',
+  'imagen',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface PaqueteFormProps {
+  /** Datos iniciales para edición (undefined = crear nuevo) */
+  initialData?: Paquete | null;
+  /** Servicios activos que se pueden incluir */
+  servicios: Servicio[];
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: CreatePaqueteDto) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function PaqueteForm({
+  initialData,
+  servicios,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: PaqueteFormProps) {
+  // Determinar si es edición o creación
+  const isEditing = !!initialData;
+
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(paqueteSchema),
+    defaultValues: {
+      nombre: initialData?.nombre || '',
+      descripcion: initialData?.descripcion || '',
+      servicioIds: initialData?.servicios.map((s) => s.id) ?? [],
+      precio: initialData?.precio ?? 0,
+      imagen: initialData?.imagen || '',
+    },
+  });
+
+  const { register, handleSubmit, setError, setValue, control, formState: { errors } } = form;
+
+  const servicioIds = useWatch({ control, name: 'servicioIds' });
+  const imagen = useWatch({ control, name: 'imagen' });
+
+  // Activos + los que ya tenía el paquete (aunque ya no estén activos)
+  const opciones = [
+    ...servicios,
+    ...(initialData?.servicios ?? [])
+      .filter((s) => !servicios.some((activo) => activo.id === s.id)),
+  ];
+  const elegidos = opciones.filter((s) => servicioIds.includes(s.id));
+
+  const toggleServicio = (id: number) => {
+    setValue(
+      'servicioIds',
+      servicioIds.includes(id) ? servicioIds.filter((s) => s !== id) : [...servicioIds, id],
+      { shouldValidate: true }
+    );
+  };
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof PaqueteFormData)) {
+        setError(name as keyof PaqueteFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Handler del submit
+  const handleFormSubmit = (data: PaqueteFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+    onSubmit({
+      nombre: data.nombre,
+      descripcion: data.descripcion || undefined,
+      // En el orden del catálogo: es el orden en que se atienden
+      servicioIds: opciones.map((s) => s.id).filter((id) => data.servicioIds.includes(id)),
+      precio: data.precio,
+      imagen: data.imagen || null,
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Nombre */}
+      <div>
+        <label className={labelClass}>Nombre *</label>
+        <input
+          {...register('nombre')}
+          type="text"
+          className={inputClass(!!errors.nombre)}
+          placeholder="Corte + Barba"
+        />
+        {errors.nombre && <p className={errorClass}>{errors.nombre.message}</p>}
+      </div>
+
+      {/* Descripción */}
+      <div>
+        <label className={labelClass}>Descripción</label>
+        <textarea
+          {...register('descripcion')}
+          rows={2}
+          className={inputClass(!!errors.descripcion)}
+          placeholder="Corte clásico con perfilado de barba"
+        />
+        {errors.descripcion && <p className={errorClass}>{errors.descripcion.message}</p>}
+      </div>
+
+      {/* Servicios incluidos */}
+      <div>
+        <label className={labelClass}>Servicios incluidos *</label>
+        <div className="max-h-56 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+          {opciones.map((servicio) => (
+            <label
+              key={servicio.id}
+              className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+              <input
+                type="checkbox"
+                checked={servicioIds.includes(servicio.id)}
+                onChange={() => toggleServicio(servicio.id)}
+                className="w-4 h-4 rounded text-blue-600 border-gray-300 dark:border-gray-600 focus:ring-blue-500"
+              />
+              <span className="flex-1 text-sm text-gray-900 dark:text-white">{servicio.nombre}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatPrecio(servicio.precio)} · {formatDuracion(servicio.duracionMinutos)}
+              </span>
+            </label>
+          ))}
+          {opciones.length === 0 && (
+            <p className="px-3 py-4 text-sm text-center text-gray-500 dark:text-gray-400">
+              No hay servicios activos
+            </p>
+          )}
+        </div>
+        {errors.servicioIds && <p className={errorClass}>{errors.servicioIds.message}</p>}
+        {elegidos.length > 0 && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Duración total: <span className="font-medium">{formatDuracion(sumarDuracion(elegidos))}</span>
+            {' · '}Por separado: <span className="font-medium">{formatPrecio(sumarPrecio(elegidos))}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Precio */}
+      <div>
+        <label className={labelClass}>Precio del paquete (S/) *</label>
+        <input
+          {...register('precio', { valueAsNumber: true })}
+          type="number"
+          min={0}
+          step="0.01"
+          className={inputClass(!!errors.precio)}
+        />
+        {errors.precio && <p className={errorClass}>{errors.precio.message}</p>}
+      </div>
+
+      {/* Imagen */}
+      <div>
+        <label className={labelClass}>Imagen</label>
+        <ImageUpload
+          value={imagen}
+          onChange={(url) => setValue('imagen', url, { shouldDirty: true })}
+          carpeta="paquetes"
+          disabled={isLoading}
+        />
+        {errors.imagen && <p className={errorClass}>{errors.imagen.message}</p>}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            isEditing ? 'Actualizar' : 'Crear'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default PaqueteForm;
@@ -0,0 +1,147 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE PRECIO/DURACIÓN POR PROFESIONAL
+ * ============================================================
+ *
+ * Precio y duración propios de un profesional para un servicio
+ * (matriz de asignación). Vacío = usa el valor del servicio.
+ *
+ * PROPS:
+ * - servicio: Servicio con los valores por defecto
+ * - initialData: Personalización actual
+ * - onSubmit: Callback con los valores (null = el del servicio)
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import type { Servicio, AsignacionServicioDto } from '@/lib/types';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+// Los inputs se manejan como texto: "" = sin personalizar
+export const personalizacionServicioSchema = z.object({
+  precioPersonalizado: z
+    .string()
+    .refine((v) => v === '' || Number(v) >= 0, 'El precio no puede ser negativo'),
+  duracionMinutosPersonalizada: z
+    .string()
+    .refine(
+      (v) => v === '' || (Number.isInteger(Number(v)) && Number(v) >= 5 && Number(v) <= 480),
+      'La duración debe estar entre 5 y 480 minutos'
+    ),
+});
+
+export type PersonalizacionServicioFormData = z.infer<typeof personalizacionServicioSchema>;
+
+type Personalizacion = Pick<AsignacionServicioDto, 'precioPersonalizado' | 'duracionMinutosPersonalizada'>;
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface PersonalizacionServicioFormProps {
+  servicio: Servicio;
+  initialData?: Personalizacion | null;
+  onSubmit: (data: Personalizacion) => void;
+  onCancel: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function PersonalizacionServicioForm({
+  servicio,
+  initialData,
+  onSubmit,
+  onCancel,
+}: PersonalizacionServicioFormProps) {
+  const { register, handleSubmit, formState: { errors } } = useForm({
+    resolver: zodResolver(personalizacionServicioSchema),
+    defaultValues: {
+      precioPersonalizado: initialData?.precioPersonalizado?.toString() ?? '',
+      duracionMinutosPersonalizada: initialData?.duracionMinutosPersonalizada?.toString() ?? '',
+    },
+  });
+
+  const handleFormSubmit = (data: PersonalizacionServicioFormData) => {
+    onSubmit({
+      precioPersonalizado: data.precioPersonalizado === '' ? null : Number(data.precioPersonalizado),
+      duracionMinutosPersonalizada: data.duracionMinutosPersonalizada === ''
+        ? null
+        : Number(data.duracionMinutosPersonalizada),
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Deja un campo vacío para usar el valor del servicio.
+      </p>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <label className={labelClass}>Precio (S/)</label>
+          <input
+            {...register('precioPersonalizado')}
+            type="number"
+            min={0}
+            step="0.01"
+            className={inputClass(!!errors.precioPersonalizado)}
+            placeholder={formatPrecio(servicio.precio)}
+          />
+          {errors.precioPersonalizado && <p className={errorClass}>{errors.precioPersonalizado.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Duración (minutos)</label>
+          <input
+            {...register('duracionMinutosPersonalizada')}
+            type="number"
+            min={5}
+            step={5}
+            className={inputClass(!!errors.duracionMinutosPersonalizada)}
+            placeholder={formatDuracion(servicio.duracionMinutos)}
+          />
+          {errors.duracionMinutosPersonalizada && (
+            <p className={errorClass}>{errors.duracionMinutosPersonalizada.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Aplicar
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default PersonalizacionServicioForm;
@@ -0,0 +1,255 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE REGLAS DE COMISIÓN
+ * ============================================================
+ *
+ * Reglas de comisión de un profesional, una fila por regla:
+ * - "Todos los servicios" = regla general
+ * - Un servicio concreto = reemplaza a la general para ese servicio
+ * - Porcentaje de lo cobrado o monto fijo por servicio
+ * Se guardan todas juntas (las que se quitan se eliminan).
+ *
+ * PROPS:
+ * - profesional: Dueño de las reglas
+ * - reglas: Reglas guardadas del profesional
+ * - servicios: Servicios del negocio para elegir
+ * - onSubmit: Callback con todas las reglas
+ * - onCancel: Callback cuando se cancela
+ */
+
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import type {
+  ApiError,
+  Profesional,
+  ReglaComision,
+  ReglaComisionDto,
+  Servicio,
+  TipoComision,
+} from '@/lib/types';
+import { NOMBRES_TIPO_COMISION } from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+const TIPOS = Object.keys(NOMBRES_TIPO_COMISION) as [TipoComision, ...TipoComision[]];
+
+export const reglasComisionSchema = z.object({
+  reglas: z
+    .array(
+      z.object({
+        // "" = todos los servicios (regla general)
+        servicioId: z.string(),
+        tipo: z.enum(TIPOS),
+        valor: z
+          .number({ error: 'Ingresa el valor' })
+          .min(0, 'No puede ser negativo'),
+      })
+    )
+    .superRefine((reglas, ctx) => {
+      reglas.forEach((regla, indice) => {
+        if (regla.tipo === 'PORCENTAJE' && regla.valor > 100) {
+          ctx.addIssue({ code: 'custom', path: [indice, 'valor'], message: 'Máximo 100 %' });
+        }
+        // Una sola regla por servicio (y una sola general)
+        if (reglas.findIndex((r) => r.servicioId === regla.servicioId) < indice) {
+          ctx.addIssue({ code: 'custom', path: [indice, 'servicioId'], message: 'Ya hay una regla para este servicio' });
+        }
+      });
+    }),
+});
+
+export type ReglasComisionFormData = z.infer<typeof reglasComisionSchema>;
+
+// Regla nueva al agregar una fila
+const REGLA_POR_DEFECTO = { servicioId: '', tipo: 'PORCENTAJE' as TipoComision, valor: 40 };
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface ReglasComisionFormProps {
+  /** Dueño de las reglas */
+  profesional: Profesional;
+  /** Reglas guardadas del profesional */
+  reglas: ReglaComision[];
+  /** Servicios del negocio */
+  servicios: Servicio[];
+  /** Callback con todas las reglas */
+  onSubmit: (reglas: ReglaComisionDto[]) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ReglasComisionForm({
+  profesional,
+  reglas,
+  servicios,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: ReglasComisionFormProps) {
+  const form = useForm({
+    resolver: zodResolver(reglasComisionSchema),
+    defaultValues: {
+      // La general primero
+      reglas: [
+        ...reglas.filter((r) => r.servicioId == null),
+        ...reglas.filter((r) => r.servicioId != null),
+      ].map((r) => ({
+        servicioId: r.servicioId != null ? String(r.servicioId) : '',
+        tipo: r.tipo,
+        valor: r.valor,
+      })),
+    },
+  });
+
+  const { register, handleSubmit, control, formState: { errors } } = form;
+  const { fields, append, remove } = useFieldArray({ control, name: 'reglas' });
+
+  const handleFormSubmit = (data: ReglasComisionFormData) => {
+    if (onClearError) onClearError();
+    onSubmit(
+      data.reglas.map((r) => ({
+        servicioId: r.servicioId ? Number(r.servicioId) : null,
+        tipo: r.tipo,
+        valor: r.valor,
+      }))
+    );
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `px-2 py-1.5 border rounded-lg outline-none transition-colors text-sm
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Comisión de {profesional.nombreCompleto} por cada servicio completado. Una regla para
+        un servicio concreto reemplaza a la de &quot;Todos los servicios&quot;.
+      </p>
+
+      {fields.length === 0 && (
+        <p className="p-3 text-sm rounded-lg bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300">
+          Sin reglas: sus servicios no generan comisión.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {fields.map((field, i) => (
+          <div key={field.id}>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                {...register(`reglas.${i}.servicioId`)}
+                aria-label="Servicio"
+                className={`flex-1 min-w-40 ${inputClass(!!errors.reglas?.[i]?.servicioId)}`}
+              >
+                <option value="">Todos los servicios</option>
+                {servicios.map((servicio) => (
+                  <option key={servicio.id} value={servicio.id}>{servicio.nombre}</option>
+                ))}
+              </select>
+              <select
+                {...register(`reglas.${i}.tipo`)}
+                aria-label="Tipo de comisión"
+                className={inputClass(!!errors.reglas?.[i]?.tipo)}
+              >
+                {TIPOS.map((t) => (
+                  <option key={t} value={t}>{NOMBRES_TIPO_COMISION[t]}</option>
+                ))}
+              </select>
+              <input
+                {...register(`reglas.${i}.valor`, { valueAsNumber: true })}
+                type="number"
+                min={0}
+                step="0.01"
+                aria-label="Valor"
+                className={`w-24 ${inputClass(!!errors.reglas?.[i]?.valor)}`}
+              />
+              <button
+                type="button"
+                onClick={() => remove(i)}
+                className="p-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                title="Quitar regla"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+            {errors.reglas?.[i]?.servicioId && (
+              <p className={errorClass}>{errors.reglas[i]?.servicioId?.message}</p>
+            )}
+            {errors.reglas?.[i]?.valor && (
+              <p className={errorClass}>{errors.reglas[i]?.valor?.message}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => append(REGLA_POR_DEFECTO)}
+        className="flex items-center gap-1 px-2 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+      >
+        <Plus size={16} />
+        Agregar regla
+      </button>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            'Guardar reglas'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ReglasComisionForm;
@@ -0,0 +1,237 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE DATOS DEL CLIENTE (RESERVA)
+ * ============================================================
+ *
+ * Datos de contacto que pide la web pública antes de crear la reserva
+ * (clienteNombre, clienteTelefono, clienteEmail, notas de CreateReservaDto).
+ *
+ * Los errores de validación del backend se muestran en el FormErrorAlert
+ * y, si corresponden a un campo del formulario, también debajo del input.
+ *
+ * PROPS:
+ * - onSubmit: Callback con los datos validados
+ * - onCancel: Callback para volver al paso anterior (opcional)
+ * - isLoading: Estado de carga
+ * - serverError: Error del backend
+ */
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type { ApiError } from '@/lib/types';
+import { extractFieldErrors } from '@/lib/utils';
+import { FormErrorAlert } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const reservaClienteSchema = z.object({
+  clienteNombre: z.string().trim().min(3, 'El nombre debe tener al menos 3 caracteres'),
+  clienteTelefono: z
+    .string()
+    .trim()
+    .min(9, 'El teléfono debe tener entre 9 y 20 caracteres')
+    .max(20, 'El teléfono debe tener entre 9 y 20 caracteres'),
+  clienteEmail: z.union([z.literal(''), z.email('Ingresa un email válido')]).optional(),
+  notas: z.string().max(500, 'Las notas no pueden superar los 500 caracteres').optional(),
+});
+
+// Tipo inferido del schema
+export type ReservaClienteFormData = z.infer<typeof reservaClienteSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof ReservaClienteFormData)[] = ['clienteNombre', 'clienteTelefono', 'clienteEmail', 'notas'];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface ReservaClienteFormProps {
+  /** Datos iniciales (ej: si el cliente vuelve a este paso) */
+  initialData?: Partial<ReservaClienteFormData> | null;
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: ReservaClienteFormData) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel?: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Texto del botón de envío */
+  submitText?: string;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ReservaClienteForm({
+  initialData,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  submitText = 'Confirmar Reserva',
+  serverError,
+  onClearError,
+}: ReservaClienteFormProps) {
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(reservaClienteSchema),
+    defaultValues: {
+      clienteNombre: initialData?.clienteNombre || '',
+      clienteTelefono: initialData?.clienteTelefono || '',
+      clienteEmail: initialData?.clienteEmail || '',
+      notas: initialData?.notas || '',
+    },
+  });
+
+  const { register, handleSubmit, setError, formState: { errors } } = form;
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof ReservaClienteFormData)) {
+        setError(name as keyof ReservaClienteFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Handler del submit
+  const handleFormSubmit = (data: ReservaClienteFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+    onSubmit(data);
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Nombre */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Nombre Completo *
+        </label>
+        <input
+          {...register('clienteNombre')}
+          type="text"
+          autoComplete="name"
+          className={inputClass(!!errors.clienteNombre)}
+          placeholder="Juan Pérez"
+        />
+        {errors.clienteNombre && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+            {errors.clienteNombre.message}
+          </p>
+        )}
+      </div>
+
+      {/* Teléfono */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Teléfono *
+        </label>
+        <input
+          {...register('clienteTelefono')}
+          type="tel"
+          autoComplete="tel"
+          className={inputClass(!!errors.clienteTelefono)}
+          placeholder="987654321"
+        />
+        {errors.clienteTelefono && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+            {errors.clienteTelefono.message}
+          </p>
+        )}
+      </div>
+
+      {/* Email */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Email
+        </label>
+        <input
+          {...register('clienteEmail')}
+          type="email"
+          autoComplete="email"
+          className={inputClass(!!errors.clienteEmail)}
+          placeholder="juan@correo.com"
+        />
+        {errors.clienteEmail && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+            {errors.clienteEmail.message}
+          </p>
+        )}
+      </div>
+
+      {/* Notas */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Notas
+        </label>
+        <textarea
+          {...register('notas')}
+          rows={3}
+          className={inputClass(!!errors.notas)}
+          placeholder="Algo que debamos saber antes de tu cita"
+        />
+        {errors.notas && (
+          <p className="mt-1 text-sm text-red-600 dark:text-red-400">
+            {errors.notas.message}
+          </p>
+        )}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={isLoading}
+            className="flex-1 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg
+              text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Volver
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`${onCancel ? 'flex-1' : 'w-full'} px-4 py-3 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2`}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Reservando...
+            </>
+          ) : (
+            submitText
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ReservaClienteForm;
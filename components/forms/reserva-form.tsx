@@ -0,0 +1,415 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE RESERVA (DASHBOARD)
+ * ============================================================
+ *
+ * Formulario para crear/editar reservas desde el dashboard
+ * (ej: el recepcionista registra una cita por teléfono).
+ *
+ * - Crear: datos del cliente + servicios + profesional + fecha/hora
+ * - Editar: solo servicios, profesional, fecha/hora y notas
+ *   (UpdateReservaDto no cambia los datos del cliente)
+ *
+ * Se pueden elegir varios servicios: se atienden seguidos en un
+ * solo bloque (duración y precio se suman, con los del profesional).
+ *
+ * Solo se listan los profesionales que ofrecen TODOS los servicios
+ * elegidos, y antes de enviar se comprueba que la hora esté libre
+ * (useDisponibilidad → calcularSlotsDisponibles). El 409 del backend
+ * queda para cuando otro usuario la tomó mientras tanto.
+ *
+ * PROPS:
+ * - initialData: Reserva a editar (si no se pasa, es creación)
+ * - profesionales / servicios: Opciones de los selects
+ * - serviciosPorProfesional: Lo que ofrece cada profesional (con overrides)
+ * - onSubmit: Callback con el DTO listo para el API
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type {
+  Reserva,
+  CreateReservaDto,
+  UpdateReservaDto,
+  Profesional,
+  ServicioResumen,
+  ServiciosPorProfesional,
+  ApiError,
+} from '@/lib/types';
+import { formatDuracion, formatPrecio } from '@/lib/types';
+import {
+  dayjs,
+  extractFieldErrors,
+  getMinutosLimpieza,
+  getServiciosReserva,
+  ofreceServicios,
+  personalizarServicios,
+  sumarDuracion,
+  sumarPrecio,
+  toLocalDateTime,
+} from '@/lib/utils';
+import { useDisponibilidad } from '@/lib/hooks/use-disponibilidad';
+import { FormErrorAlert } from '@/components/ui';
+import { reservaClienteSchema } from './reserva-cliente-form';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const reservaSchema = reservaClienteSchema.extend({
+  servicioIds: z.array(z.number()).min(1, 'Elige al menos un servicio'),
+  profesionalId: z.number({ error: 'Selecciona un profesional' }).int().positive('Selecciona un profesional'),
+  fecha: z.string().min(1, 'Selecciona la fecha'),
+  hora: z.string().min(1, 'Selecciona la hora'),
+});
+
+// Tipo inferido del schema
+export type ReservaFormData = z.infer<typeof reservaSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof ReservaFormData)[] = [
+  'clienteNombre',
+  'clienteTelefono',
+  'clienteEmail',
+  'notas',
+  'servicioIds',
+  'profesionalId',
+  'fecha',
+  'hora',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface ReservaFormProps {
+  /** Reserva a editar (undefined = crear nueva) */
+  initialData?: Reserva | null;
+  /** Profesionales que se pueden asignar */
+  profesionales: Profesional[];
+  /** Servicios que se pueden elegir */
+  servicios: ServicioResumen[];
+  /** Servicios (con precio/duración personalizados) de cada profesional */
+  serviciosPorProfesional: ServiciosPorProfesional;
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: CreateReservaDto | UpdateReservaDto) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ReservaForm({
+  initialData,
+  profesionales,
+  servicios,
+  serviciosPorProfesional,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  serverError,
+  onClearError,
+}: ReservaFormProps) {
+  // Determinar si es edición o creación
+  const isEditing = !!initialData;
+
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(reservaSchema),
+    defaultValues: {
+      clienteNombre: initialData?.clienteNombre || '',
+      clienteTelefono: initialData?.clienteTelefono || '',
+      clienteEmail: initialData?.clienteEmail || '',
+      notas: initialData?.notas || '',
+      servicioIds: initialData ? getServiciosReserva(initialData).map((s) => s.id) : [],
+      profesionalId: initialData?.profesional.id,
+      fecha: initialData ? dayjs(initialData.fechaHora).format('YYYY-MM-DD') : '',
+      hora: initialData ? dayjs(initialData.fechaHora).format('HH:mm') : '',
+    },
+  });
+
+  const { register, handleSubmit, setError, setValue, control, formState: { errors } } = form;
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof ReservaFormData)) {
+        setError(name as keyof ReservaFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Servicios elegidos (en el orden en que se marcaron)
+  const servicioIds = useWatch({ control, name: 'servicioIds' });
+  const seleccionados = servicioIds
+    .map((id) => servicios.find((s) => s.id === id))
+    .filter((s): s is ServicioResumen => !!s);
+
+  // Solo los que hacen todos los servicios elegidos (la cita es con una sola persona)
+  const profesionalesDisponibles = servicioIds.length > 0
+    ? profesionales.filter((p) => ofreceServicios(serviciosPorProfesional[p.id] ?? [], servicioIds))
+    : profesionales;
+
+  // Disponibilidad del profesional elegido, con su duración personalizada
+  const [profesionalId, fecha] = useWatch({ control, name: ['profesionalId', 'fecha'] });
+  const profesional = profesionales.find((p) => p.id === profesionalId) ?? null;
+  const serviciosProfesional = profesional ? serviciosPorProfesional[profesional.id] : undefined;
+  const personalizados = personalizarServicios(seleccionados, serviciosProfesional);
+
+  const { slots, loadingHorarios, loadingSlots, error: errorDisponibilidad } = useDisponibilidad({
+    profesional,
+    duracionMinutos: sumarDuracion(personalizados),
+    minutosLimpieza: getMinutosLimpieza(seleccionados),
+    fecha: fecha || null,
+    excluirReservaId: initialData?.id,
+    serviciosProfesional,
+  });
+  const verificandoHora = !!profesional && !!fecha && (loadingHorarios || loadingSlots);
+
+  const toggleServicio = (id: number) => {
+    const nuevos = servicioIds.includes(id)
+      ? servicioIds.filter((v) => v !== id)
+      : [...servicioIds, id];
+    setValue('servicioIds', nuevos, { shouldValidate: true });
+  };
+
+  // Handler del submit: arma el DTO que espera el backend
+  const handleFormSubmit = (data: ReservaFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+
+    if (!ofreceServicios(serviciosPorProfesional[data.profesionalId] ?? [], data.servicioIds)) {
+      setError('profesionalId', { type: 'manual', message: 'El profesional no ofrece todos estos servicios' });
+      return;
+    }
+
+    const fechaHora = toLocalDateTime(`${data.fecha}T${data.hora}`);
+    // Al editar sin tocar profesional, hora ni servicios no se revalida
+    // (puede ser una cita pasada a la que solo se le cambian las notas)
+    const sinCambiosDeAgenda = isEditing
+      && initialData.profesional.id === data.profesionalId
+      && toLocalDateTime(initialData.fechaHora) === fechaHora
+      && getServiciosReserva(initialData).map((s) => s.id).join() === data.servicioIds.join();
+
+    // Si no se pudo calcular la disponibilidad, decide el backend (409)
+    if (!sinCambiosDeAgenda && !errorDisponibilidad && !slots.some((s) => s.hora === data.hora)) {
+      setError('hora', { type: 'manual', message: 'Esa hora no está libre para el profesional' });
+      return;
+    }
+
+    const comun = {
+      fechaHora,
+      profesionalId: data.profesionalId,
+      servicioId: data.servicioIds[0],
+      servicioIds: data.servicioIds,
+      notas: data.notas || undefined,
+    };
+
+    if (isEditing) {
+      onSubmit(comun satisfies UpdateReservaDto);
+    } else {
+      onSubmit({
+        ...comun,
+        clienteNombre: data.clienteNombre,
+        clienteTelefono: data.clienteTelefono,
+        clienteEmail: data.clienteEmail || undefined,
+      } satisfies CreateReservaDto);
+    }
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      read-only:opacity-60 read-only:cursor-not-allowed
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Cliente (no se edita después de crear) */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="sm:col-span-2">
+          <label className={labelClass}>Cliente *</label>
+          <input
+            {...register('clienteNombre')}
+            type="text"
+            readOnly={isEditing}
+            className={inputClass(!!errors.clienteNombre)}
+            placeholder="Juan Pérez"
+          />
+          {errors.clienteNombre && <p className={errorClass}>{errors.clienteNombre.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Teléfono *</label>
+          <input
+            {...register('clienteTelefono')}
+            type="tel"
+            readOnly={isEditing}
+            className={inputClass(!!errors.clienteTelefono)}
+            placeholder="987654321"
+          />
+          {errors.clienteTelefono && <p className={errorClass}>{errors.clienteTelefono.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Email</label>
+          <input
+            {...register('clienteEmail')}
+            type="email"
+            readOnly={isEditing}
+            className={inputClass(!!errors.clienteEmail)}
+            placeholder="juan@correo.com"
+          />
+          {errors.clienteEmail && <p className={errorClass}>{errors.clienteEmail.message}</p>}
+        </div>
+      </div>
+
+      {/* Servicios (selección múltiple) */}
+      <div>
+        <label className={labelClass}>Servicios *</label>
+        <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-300 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-700">
+          {servicios.map((servicio) => (
+            <label
+              key={servicio.id}
+              className="flex items-center justify-between gap-3 px-3 py-2 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+            >
+              <span className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                <input
+                  type="checkbox"
+                  checked={servicioIds.includes(servicio.id)}
+                  onChange={() => toggleServicio(servicio.id)}
+                  className="w-4 h-4 rounded text-blue-600 border-gray-300 dark:border-gray-600 focus:ring-blue-500"
+                />
+                {servicio.nombre}
+              </span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatDuracion(servicio.duracionMinutos)} · {formatPrecio(servicio.precio)}
+              </span>
+            </label>
+          ))}
+        </div>
+        {seleccionados.length > 0 && (
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            Total: {formatDuracion(sumarDuracion(personalizados))} · {formatPrecio(sumarPrecio(personalizados))}
+          </p>
+        )}
+        {errors.servicioIds && <p className={errorClass}>{errors.servicioIds.message}</p>}
+      </div>
+
+      {/* Profesional */}
+      <div>
+        <label className={labelClass}>Profesional *</label>
+        <select
+          {...register('profesionalId', { valueAsNumber: true })}
+          className={inputClass(!!errors.profesionalId)}
+        >
+          <option value="">Selecciona un profesional</option>
+          {profesionalesDisponibles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.nombreCompleto}
+            </option>
+          ))}
+        </select>
+        {servicioIds.length > 0 && profesionalesDisponibles.length === 0 && (
+          <p className={errorClass}>Ningún profesional ofrece todos estos servicios</p>
+        )}
+        {errors.profesionalId && <p className={errorClass}>{errors.profesionalId.message}</p>}
+      </div>
+
+      {/* Fecha y hora */}
+      <div className="grid gap-4 grid-cols-2">
+        <div>
+          <label className={labelClass}>Fecha *</label>
+          <input
+            {...register('fecha')}
+            type="date"
+            className={inputClass(!!errors.fecha)}
+          />
+          {errors.fecha && <p className={errorClass}>{errors.fecha.message}</p>}
+        </div>
+        <div>
+          <label className={labelClass}>Hora *</label>
+          <input
+            {...register('hora')}
+            type="time"
+            step={900}
+            list="reserva-horas-libres"
+            className={inputClass(!!errors.hora)}
+          />
+          {/* Sugerencias: las horas libres del profesional ese día */}
+          <datalist id="reserva-horas-libres">
+            {slots.map((slot) => (
+              <option key={slot.hora} value={slot.hora} />
+            ))}
+          </datalist>
+          {errors.hora && <p className={errorClass}>{errors.hora.message}</p>}
+        </div>
+      </div>
+
+      {/* Notas */}
+      <div>
+        <label className={labelClass}>Notas</label>
+        <textarea
+          {...register('notas')}
+          rows={2}
+          className={inputClass(!!errors.notas)}
+          placeholder="Preferencias del cliente, indicaciones..."
+        />
+        {errors.notas && <p className={errorClass}>{errors.notas.message}</p>}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg 
+            text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isLoading || verificandoHora}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg 
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors 
+            flex items-center justify-center gap-2"
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            isEditing ? 'Actualizar' : 'Crear Reserva'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ReservaForm;
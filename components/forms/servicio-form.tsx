@@ -0,0 +1,301 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - FORMULARIO DE SERVICIO (REUTILIZABLE)
+ * ============================================================
+ *
+ * Formulario para crear/editar los servicios del negocio
+ * (corte, barba, etc.). La categoría se elige entre las activas y
+ * la imagen se sube desde el mismo formulario (ImageUpload).
+ *
+ * PROPS:
+ * - initialData: Datos para edición (si no se pasa, es creación)
+ * - categorias: Categorías del negocio (se ofrecen solo las activas)
+ * - onSubmit: Callback con el DTO listo para el API
+ * - onCancel: Callback cuando se cancela
+ * - isLoading: Estado de carga
+ */
+
+import { useEffect } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Loader2 } from 'lucide-react';
+import type { Servicio, Categoria, CreateServicioDto, ApiError } from '@/lib/types';
+import { extractFieldErrors } from '@/lib/utils';
+import { FormErrorAlert, ImageUpload } from '@/components/ui';
+
+// ============================================================
+// SCHEMA DE VALIDACIÓN CON ZOD
+// ============================================================
+export const servicioSchema = z.object({
+  nombre: z.string().trim().min(3, 'El nombre debe tener al menos 3 caracteres'),
+  descripcion: z.string().optional(),
+  duracionMinutos: z
+    .number({ error: 'Ingresa la duración' })
+    .int('La duración debe ser en minutos enteros')
+    .min(5, 'La duración mínima es 5 minutos')
+    .max(480, 'La duración máxima es 8 horas'),
+  // Tiempo después del servicio en que el profesional no toma otro cliente
+  minutosLimpieza: z
+    .number({ error: 'Ingresa los minutos (0 si no necesita)' })
+    .int('Ingresa minutos enteros')
+    .min(0, 'No puede ser negativo')
+    .max(60, 'Máximo 60 minutos'),
+  precio: z
+    .number({ error: 'Ingresa el precio' })
+    .min(0, 'El precio no puede ser negativo'),
+  // URL que devuelve la subida (ImageUpload); "" = sin imagen
+  imagen: z.string().optional(),
+  // "" = sin categoría
+  categoriaId: z.string().optional(),
+});
+
+// Tipo inferido del schema
+export type ServicioFormData = z.infer<typeof servicioSchema>;
+
+// Campos del formulario (para mapear errores del backend)
+const CAMPOS: (keyof ServicioFormData)[] = [
+  'nombre',
+  'descripcion',
+  'duracionMinutos',
+  'minutosLimpieza',
+  'precio',
+  'imagen',
+  'categoriaId',
+];
+
+// ============================================================
+// TIPOS DE PROPS
+// ============================================================
+interface ServicioFormProps {
+  /** Datos iniciales para edición (undefined = crear nuevo) */
+  initialData?: Servicio | null;
+  /** Categorías del negocio (se ofrecen solo las activas) */
+  categorias: Categoria[];
+  /** Callback cuando se envía el formulario */
+  onSubmit: (data: CreateServicioDto) => Promise<void>;
+  /** Callback cuando se cancela */
+  onCancel: () => void;
+  /** Estado de carga del botón */
+  isLoading?: boolean;
+  /** Mostrar botón de cancelar */
+  showCancelButton?: boolean;
+  /** Error del backend para mostrar en el formulario */
+  serverError?: ApiError | null;
+  /** Callback para limpiar el error del servidor */
+  onClearError?: () => void;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ServicioForm({
+  initialData,
+  categorias,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+  showCancelButton = true,
+  serverError,
+  onClearError,
+}: ServicioFormProps) {
+  // Determinar si es edición o creación
+  const isEditing = !!initialData;
+
+  // React Hook Form con validación Zod
+  const form = useForm({
+    resolver: zodResolver(servicioSchema),
+    defaultValues: {
+      nombre: initialData?.nombre || '',
+      descripcion: initialData?.descripcion || '',
+      duracionMinutos: initialData?.duracionMinutos ?? 30,
+      minutosLimpieza: initialData?.minutosLimpieza ?? 0,
+      precio: initialData?.precio ?? 0,
+      imagen: initialData?.imagen || '',
+      categoriaId: initialData?.categoria ? String(initialData.categoria.id) : '',
+    },
+  });
+
+  const { register, handleSubmit, setError, setValue, control, formState: { errors } } = form;
+
+  const imagen = useWatch({ control, name: 'imagen' });
+
+  // Activas + la actual (aunque se haya desactivado, para no perderla al editar)
+  const opcionesCategoria = categorias.filter(
+    (c) => c.estado || c.id === initialData?.categoria?.id
+  );
+
+  // Marcar en cada input los errores de campo que envió el backend
+  useEffect(() => {
+    if (!serverError) return;
+    extractFieldErrors(serverError).forEach(({ name, message }) => {
+      if (CAMPOS.includes(name as keyof ServicioFormData)) {
+        setError(name as keyof ServicioFormData, { type: 'server', message });
+      }
+    });
+  }, [serverError, setError]);
+
+  // Handler del submit
+  const handleFormSubmit = (data: ServicioFormData) => {
+    // Limpiar error del servidor antes de enviar
+    if (onClearError) onClearError();
+    onSubmit({
+      nombre: data.nombre,
+      descripcion: data.descripcion || undefined,
+      duracionMinutos: data.duracionMinutos,
+      minutosLimpieza: data.minutosLimpieza,
+      precio: data.precio,
+      imagen: data.imagen || null,
+      categoriaId: data.categoriaId ? Number(data.categoriaId) : null,
+    });
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full px-3 py-2 border rounded-lg outline-none transition-colors
+      bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+      ${hasError
+        ? 'border-red-300 dark:border-red-600 focus:ring-red-500'
+        : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+      } focus:ring-2 focus:border-transparent`;
+
+  const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+  const errorClass = 'mt-1 text-sm text-red-600 dark:text-red-400';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-4">
+      {/* Alert de errores del servidor */}
+      <FormErrorAlert
+        error={serverError}
+        onDismiss={onClearError}
+      />
+
+      {/* Nombre */}
+      <div>
+        <label className={labelClass}>Nombre *</label>
+        <input
+          {...register('nombre')}
+          type="text"
+          className={inputClass(!!errors.nombre)}
+          placeholder="Corte clásico"
+        />
+        {errors.nombre && <p className={errorClass}>{errors.nombre.message}</p>}
+      </div>
+
+      {/* Categoría */}
+      <div>
+        <label className={labelClass}>Categoría</label>
+        <select
+          {...register('categoriaId')}
+          className={inputClass(!!errors.categoriaId)}
+        >
+          <option value="">Sin categoría</option>
+          {opcionesCategoria.map((categoria) => (
+            <option key={categoria.id} value={categoria.id}>
+              {categoria.nombre}{!categoria.estado && ' (inactiva)'}
+            </option>
+          ))}
+        </select>
+        {errors.categoriaId && <p className={errorClass}>{errors.categoriaId.message}</p>}
+      </div>
+
+      {/* Descripción */}
+      <div>
+        <label className={labelClass}>Descripción</label>
+        <textarea
+          {...register('descripcion')}
+          rows={3}
+          className={inputClass(!!errors.descripcion)}
+          placeholder="Corte con tijera y máquina, incluye lavado"
+        />
+        {errors.descripcion && <p className={errorClass}>{errors.descripcion.message}</p>}
+      </div>
+
+      {/* Duración, limpieza y precio */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div>
+          <label className={labelClass}>Duración (minutos) *</label>
+          <input
+            {...register('duracionMinutos', { valueAsNumber: true })}
+            type="number"
+            min={5}
+            step={5}
+            className={inputClass(!!errors.duracionMinutos)}
+          />
+          {errors.duracionMinutos && <p className={errorClass}>{errors.duracionMinutos.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Limpieza (minutos)</label>
+          <input
+            {...register('minutosLimpieza', { valueAsNumber: true })}
+            type="number"
+            min={0}
+            max={60}
+            step={5}
+            className={inputClass(!!errors.minutosLimpieza)}
+            title="Minutos después del servicio antes de atender al siguiente cliente"
+          />
+          {errors.minutosLimpieza && <p className={errorClass}>{errors.minutosLimpieza.message}</p>}
+        </div>
+
+        <div>
+          <label className={labelClass}>Precio (S/) *</label>
+          <input
+            {...register('precio', { valueAsNumber: true })}
+            type="number"
+            min={0}
+            step="0.01"
+            className={inputClass(!!errors.precio)}
+          />
+          {errors.precio && <p className={errorClass}>{errors.precio.message}</p>}
+        </div>
+      </div>
+
+      {/* Imagen */}
+      <div>
+        <label className={labelClass}>Imagen</label>
+        <ImageUpload
+          value={imagen}
+          onChange={(url) => setValue('imagen', url, { shouldDirty: true })}
+          carpeta="servicios"
+          disabled={isLoading}
+        />
+        {errors.imagen && <p className={errorClass}>{errors.imagen.message}</p>}
+      </div>
+
+      {/* Botones */}
+      <div className="flex gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+        {showCancelButton && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+              text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+          >
+            Cancelar
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`${showCancelButton ? 'flex-1' : 'w-full'} px-4 py-2 bg-blue-600 text-white rounded-lg
+            hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors
+            flex items-center justify-center gap-2`}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 size={18} className="animate-spin" />
+              Guardando...
+            </>
+          ) : (
+            isEditing ? 'Actualizar' : 'Crear'
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default ServicioForm;
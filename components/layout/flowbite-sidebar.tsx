@@ -32,11 +32,17 @@ import {
   Users, 
   Scissors,
   Calendar,
+  CalendarCheck,
+  CalendarDays,
+  CalendarOff,
+  ListOrdered,
+  Package,
   Settings,
   LogOut,
   ChevronDown,
   UserCircle,
-  Tag
+  Tag,
+  Wallet
 } from 'lucide-react';
 import { useAuth } from '@/lib/context';
 import type { Permission } from '@/lib/types';
@@ -64,12 +70,25 @@ const menuItems: MenuItem[] = [
     icon: LayoutDashboard,
     // Dashboard visible para todos los autenticados
   },
+  {
+    label: 'Mi agenda',
+    href: '/dashboard/mi-agenda',
+    icon: CalendarCheck,
+    // Profesionales con usuario propio: solo sus citas y ausencias
+    permissions: ['READ_OWN_BOOKING'],
+  },
   {
     label: 'Profesionales',
     href: '/dashboard/profesionales',
     icon: Users,
     permissions: ['READ_PROFESSIONALS'],
   },
+  {
+    label: 'Ausencias y feriados',
+    href: '/dashboard/excepciones',
+    icon: CalendarOff,
+    permissions: ['READ_PROFESSIONALS'],
+  },
   {
     label: 'Categorías',
     href: '/dashboard/categorias',
@@ -88,12 +107,36 @@ const menuItems: MenuItem[] = [
     icon: Scissors,
     permissions: ['READ_SERVICES'],
   },
+  {
+    label: 'Paquetes',
+    href: '/dashboard/paquetes',
+    icon: Package,
+    permissions: ['READ_SERVICES'],
+  },
+  {
+    label: 'Agenda',
+    href: '/dashboard/agenda',
+    icon: CalendarDays,
+    permissions: ['READ_BOOKING'],
+  },
+  {
+    label: 'Cola de espera',
+    href: '/dashboard/cola',
+    icon: ListOrdered,
+    permissions: ['READ_BOOKING'],
+  },
   {
     label: 'Reservas',
     href: '/dashboard/reservas',
     icon: Calendar,
     permissions: ['READ_BOOKING'],
   },
+  {
+    label: 'Comisiones',
+    href: '/dashboard/comisiones',
+    icon: Wallet,
+    permissions: ['READ_COMMISSIONS'],
+  },
   {
     label: 'Configuración',
     href: '/dashboard/configuracion',
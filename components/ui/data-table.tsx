@@ -8,7 +8,7 @@
  * Tabla de datos reutilizable con:
  * - Ordenamiento por columnas
  * - Filtro/Búsqueda global
- * - Paginación
+ * - Paginación (en memoria o en el backend con serverPagination)
  * - Exportación a PDF y Excel
  * - Soporte para dark mode
  * 
@@ -27,7 +27,9 @@ import {
   getSortedRowModel,
   flexRender,
   type ColumnDef,
+  type PaginationState,
   type SortingState,
+  type Updater,
 } from '@tanstack/react-table';
 import { 
   Search, 
@@ -45,6 +47,19 @@ import {
 // ============================================================
 // TIPOS
 // ============================================================
+
+/**
+ * Paginación hecha por el backend (ApiPaginatedResponse).
+ * La tabla solo muestra la página recibida en `data`.
+ */
+export interface ServerPagination {
+  pageIndex: number;      // Página actual (0-based, igual que el backend)
+  pageSize: number;
+  totalElements: number;
+  totalPages: number;
+  onPageChange: (pageIndex: number) => void;
+}
+
 interface DataTableProps<TData> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   columns: ColumnDef<TData, any>[];
@@ -58,6 +73,8 @@ interface DataTableProps<TData> {
   isLoading?: boolean;
   onExportPDF?: () => void;
   onExportExcel?: () => void;
+  /** Si se pasa, la paginación la hace el backend */
+  serverPagination?: ServerPagination;
 }
 
 // ============================================================
@@ -75,10 +92,23 @@ export function DataTable<TData>({
   isLoading = false,
   onExportPDF,
   onExportExcel,
+  serverPagination,
 }: DataTableProps<TData>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [globalFilter, setGlobalFilter] = useState('');
 
+  // Paginación del backend: la página actual la controla el padre
+  const serverPaginationState: PaginationState | undefined = serverPagination && {
+    pageIndex: serverPagination.pageIndex,
+    pageSize: serverPagination.pageSize,
+  };
+
+  const handleServerPaginationChange = (updater: Updater<PaginationState>) => {
+    if (!serverPagination || !serverPaginationState) return;
+    const next = typeof updater === 'function' ? updater(serverPaginationState) : updater;
+    serverPagination.onPageChange(next.pageIndex);
+  };
+
   // Configurar tabla
   const table = useReactTable({
     data,
@@ -86,9 +116,15 @@ export function DataTable<TData>({
     state: {
       sorting,
       globalFilter,
+      ...(serverPaginationState && { pagination: serverPaginationState }),
     },
     onSortingChange: setSorting,
     onGlobalFilterChange: setGlobalFilter,
+    ...(serverPagination && {
+      manualPagination: true,
+      pageCount: serverPagination.totalPages,
+      onPaginationChange: handleServerPaginationChange,
+    }),
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
@@ -100,6 +136,12 @@ export function DataTable<TData>({
     },
   });
 
+  // Total de registros (en el backend o filtrados en memoria)
+  const totalRegistros = serverPagination
+    ? serverPagination.totalElements
+    : table.getFilteredRowModel().rows.length;
+  const { pageIndex, pageSize: registrosPorPagina } = table.getState().pagination;
+
   return (
     <div className="space-y-4">
       {/* ========== TOOLBAR ========== */}
@@ -261,12 +303,9 @@ export function DataTable<TData>({
         <div className="flex flex-col sm:flex-row gap-4 justify-between items-center">
           {/* Info de registros */}
           <p className="text-sm text-gray-600 dark:text-gray-400">
-            Mostrando {table.getState().pagination.pageIndex * table.getState().pagination.pageSize + 1} a{' '}
-            {Math.min(
-              (table.getState().pagination.pageIndex + 1) * table.getState().pagination.pageSize,
-              table.getFilteredRowModel().rows.length
-            )}{' '}
-            de {table.getFilteredRowModel().rows.length} registros
+            Mostrando {totalRegistros === 0 ? 0 : pageIndex * registrosPorPagina + 1} a{' '}
+            {Math.min((pageIndex + 1) * registrosPorPagina, totalRegistros)}{' '}
+            de {totalRegistros} registros
           </p>
 
           {/* Controles de paginación */}
@@ -288,7 +327,7 @@ export function DataTable<TData>({
 
             {/* Número de página */}
             <span className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300">
-              Página {table.getState().pagination.pageIndex + 1} de {table.getPageCount()}
+              Página {pageIndex + 1} de {Math.max(table.getPageCount(), 1)}
             </span>
 
             <button
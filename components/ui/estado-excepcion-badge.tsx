@@ -0,0 +1,41 @@
+/**
+ * ============================================================
+ * COMPONENTE - BADGE DE ESTADO DE AUSENCIA SOLICITADA
+ * ============================================================
+ * Estado de una ausencia pedida desde Mi agenda (pendiente,
+ * aprobada, rechazada). Se usa en Mi agenda y en Ausencias y feriados.
+ *
+ * USO:
+ * <EstadoExcepcionBadge estado={excepcion.estado} />
+ */
+
+import { cn, NOMBRES_ESTADO_EXCEPCION } from '@/lib/utils';
+import type { EstadoExcepcion } from '@/lib/types';
+
+/** Colores de cada estado */
+export const ESTADO_EXCEPCION_ESTILOS: Record<EstadoExcepcion, string> = {
+  PENDIENTE: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400',
+  APROBADA: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  RECHAZADA: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400',
+};
+
+interface EstadoExcepcionBadgeProps {
+  estado: EstadoExcepcion;
+  className?: string;
+}
+
+export function EstadoExcepcionBadge({ estado, className }: EstadoExcepcionBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex px-2 py-1 text-xs font-medium rounded-full',
+        ESTADO_EXCEPCION_ESTILOS[estado],
+        className
+      )}
+    >
+      {NOMBRES_ESTADO_EXCEPCION[estado]}
+    </span>
+  );
+}
+
+export default EstadoExcepcionBadge;
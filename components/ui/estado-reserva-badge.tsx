@@ -0,0 +1,43 @@
+/**
+ * ============================================================
+ * COMPONENTE - BADGE DE ESTADO DE RESERVA
+ * ============================================================
+ * Muestra el EstadoReserva con su color (tabla, agenda, detalle).
+ *
+ * USO:
+ * <EstadoReservaBadge estado={reserva.estado} />
+ */
+
+import { cn } from '@/lib/utils';
+import { ESTADO_RESERVA_LABELS, type EstadoReserva } from '@/lib/types';
+
+/** Colores de cada estado (badge y bloques de la agenda) */
+export const ESTADO_RESERVA_ESTILOS: Record<EstadoReserva, string> = {
+  PENDIENTE: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400',
+  CONFIRMADA: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-400',
+  EN_PROGRESO: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-400',
+  COMPLETADA: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  CANCELADA: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400',
+  NO_ASISTIO: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+};
+
+interface EstadoReservaBadgeProps {
+  estado: EstadoReserva;
+  className?: string;
+}
+
+export function EstadoReservaBadge({ estado, className }: EstadoReservaBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex px-2 py-1 text-xs font-medium rounded-full',
+        ESTADO_RESERVA_ESTILOS[estado],
+        className
+      )}
+    >
+      {ESTADO_RESERVA_LABELS[estado]}
+    </span>
+  );
+}
+
+export default EstadoReservaBadge;
@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * ============================================================
+ * COMPONENTE - IMAGE UPLOAD (REUTILIZABLE)
+ * ============================================================
+ *
+ * Subida de una imagen con vista previa:
+ * - Arrastrar y soltar, o clic para elegir el archivo
+ * - Se redimensiona y comprime en el navegador antes de subir
+ * - Se sube con uploadService y se devuelve la URL por onChange
+ *
+ * USO (con react-hook-form):
+ * <ImageUpload
+ *   value={imagen}
+ *   onChange={(url) => setValue('imagen', url, { shouldDirty: true })}
+ *   carpeta="servicios"
+ * />
+ */
+
+import { useRef, useState } from 'react';
+import { ImagePlus, Loader2, Trash2, Upload } from 'lucide-react';
+import { uploadService } from '@/lib/services';
+import {
+  cn,
+  comprimirImagen,
+  nombreConExtension,
+  TIPOS_IMAGEN_PERMITIDOS,
+  validarImagen,
+  type OpcionesCompresion,
+} from '@/lib/utils';
+import type { ApiError, CarpetaUpload } from '@/lib/types';
+import { UploadedImage } from './uploaded-image';
+
+// ============================================================
+// TIPOS
+// ============================================================
+interface ImageUploadProps {
+  /** URL actual ("" = sin imagen) */
+  value?: string;
+  /** Callback con la URL subida ("" al quitarla) */
+  onChange: (url: string) => void;
+  /** Carpeta de destino en el servidor */
+  carpeta: CarpetaUpload;
+  /** Tamaño y calidad de la compresión */
+  compresion?: OpcionesCompresion;
+  /** Texto de ayuda bajo la zona de subida */
+  hint?: string;
+  disabled?: boolean;
+  /** Clases CSS adicionales */
+  className?: string;
+}
+
+// ============================================================
+// COMPONENTE
+// ============================================================
+export function ImageUpload({
+  value,
+  onChange,
+  carpeta,
+  compresion,
+  hint = 'JPG, PNG o WEBP. Se optimiza antes de subir.',
+  disabled = false,
+  className,
+}: ImageUploadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bloqueado = disabled || isUploading;
+
+  const subir = async (archivo: File) => {
+    const invalido = validarImagen(archivo);
+    if (invalido) {
+      setError(invalido);
+      return;
+    }
+
+    setError(null);
+    setIsUploading(true);
+    try {
+      const imagen = await comprimirImagen(archivo, compresion);
+      const subida = await uploadService.subirImagen(
+        imagen,
+        carpeta,
+        nombreConExtension(archivo.name, imagen.type)
+      );
+      onChange(subida.url);
+    } catch (err) {
+      setError((err as ApiError).message || 'No se pudo subir la imagen');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (bloqueado) return;
+    const archivo = e.dataTransfer.files[0];
+    if (archivo) subir(archivo);
+  };
+
+  const handleSeleccion = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archivo = e.target.files?.[0];
+    // Permite volver a elegir el mismo archivo
+    e.target.value = '';
+    if (archivo) subir(archivo);
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div
+        role="button"
+        tabIndex={bloqueado ? -1 : 0}
+        onClick={() => !bloqueado && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && !bloqueado) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!bloqueado) setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'relative flex items-center gap-4 p-3 border-2 border-dashed rounded-lg transition-colors outline-none',
+          'focus-visible:ring-2 focus-visible:ring-blue-500',
+          isDragging
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-300 dark:border-gray-600 hover:border-blue-400 dark:hover:border-blue-500',
+          bloqueado ? 'cursor-not-allowed opacity-70' : 'cursor-pointer'
+        )}
+      >
+        {/* Vista previa */}
+        <div className="w-20 h-20 shrink-0 rounded-lg overflow-hidden bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+          {isUploading ? (
+            <Loader2 size={24} className="animate-spin text-blue-600" />
+          ) : value ? (
+            <UploadedImage src={value} alt="Vista previa" className="w-full h-full" />
+          ) : (
+            <ImagePlus size={24} className="text-gray-400 dark:text-gray-500" />
+          )}
+        </div>
+
+        <div className="min-w-0 flex-1 text-sm">
+          <p className="flex items-center gap-1 font-medium text-gray-700 dark:text-gray-300">
+            <Upload size={16} />
+            {isUploading
+              ? 'Subiendo...'
+              : value
+                ? 'Arrastra otra imagen o haz clic para cambiarla'
+                : 'Arrastra una imagen o haz clic para elegirla'}
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+        </div>
+
+        {value && !bloqueado && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onChange('');
+            }}
+            className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+            title="Quitar imagen"
+          >
+            <Trash2 size={16} />
+          </button>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={TIPOS_IMAGEN_PERMITIDOS.join(',')}
+          onChange={handleSeleccion}
+          disabled={bloqueado}
+          className="hidden"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default ImageUpload;
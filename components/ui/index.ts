@@ -6,6 +6,10 @@
  */
 
 export { Modal, ConfirmModal } from './modal';
-export { DataTable } from './data-table';
+export { DataTable, type ServerPagination } from './data-table';
 export { SearchInput } from './search-input';
 export { FormErrorAlert } from './form-error-alert';
+export { EstadoReservaBadge, ESTADO_RESERVA_ESTILOS } from './estado-reserva-badge';
+export { EstadoExcepcionBadge, ESTADO_EXCEPCION_ESTILOS } from './estado-excepcion-badge';
+export { ImageUpload } from './image-upload';
+export { UploadedImage } from './uploaded-image';
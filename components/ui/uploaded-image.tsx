@@ -0,0 +1,34 @@
+/**
+ * ============================================================
+ * COMPONENTE - UPLOADED IMAGE (REUTILIZABLE)
+ * ============================================================
+ *
+ * Muestra una imagen subida con ImageUpload (servicios, paquetes,
+ * logo) usando next/image, recortada para llenar su caja (object-cover).
+ *
+ * Va sin optimizar (unoptimized): ya se comprimió en el navegador al
+ * subirla y su URL puede ser del backend, de un CDN o del reemplazo
+ * local /uploads, así que no se puede fijar la lista de dominios.
+ *
+ * USO: el tamaño lo dan las clases del contenedor
+ * <UploadedImage src={servicio.imagen} alt={servicio.nombre} className="w-10 h-10 rounded-lg" />
+ */
+
+import Image from 'next/image';
+import { cn } from '@/lib/utils';
+
+interface UploadedImageProps {
+  /** URL devuelta por uploadService */
+  src: string;
+  alt: string;
+  /** Tamaño y forma de la caja (ej: "w-10 h-10 rounded-lg") */
+  className?: string;
+}
+
+export function UploadedImage({ src, alt, className }: UploadedImageProps) {
+  return (
+    <span className={cn('relative block overflow-hidden', className)}>
+      <Image src={src} alt={alt} fill unoptimized className="object-cover" />
+    </span>
+  );
+}
@@ -8,12 +8,22 @@
  * Para configurar: crea un archivo .env.local en la raíz con:
  * NEXT_PUBLIC_API_URL=http://localhost:8080/api
  * NEXT_PUBLIC_APP_NAME=Barbería
+ *
+ * Subida de imágenes: por defecto va al backend (POST {apiUrl}/uploads).
+ * En desarrollo, sin almacenamiento en el backend, se puede usar el
+ * reemplazo local de app/api/uploads (guarda en public/uploads):
+ * NEXT_PUBLIC_UPLOADS_URL=/api
  */
 
 export const envConfig = {
   // URL base del API backend
   apiUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api',
   
+  // Base URL para subir imágenes (POST {uploadsUrl}/uploads)
+  uploadsUrl: process.env.NEXT_PUBLIC_UPLOADS_URL
+    || process.env.NEXT_PUBLIC_API_URL
+    || 'http://localhost:8080/api',
+
   // Nombre de la aplicación
   appName: process.env.NEXT_PUBLIC_APP_NAME || 'Barbería',
   
@@ -7,3 +7,4 @@
  */
 
 export * from './env.config';
+export * from './negocio.config';
@@ -0,0 +1,57 @@
+/**
+ * ============================================================
+ * CONFIGURACIÓN - REGLAS DEL NEGOCIO
+ * ============================================================
+ * Valores por defecto para el cálculo de disponibilidad y reservas.
+ *
+ * El horario del negocio se usa para los profesionales que tienen
+ * `usaHorarioNegocio: true` (heredan este horario en lugar del suyo).
+ * Se edita en /dashboard/configuracion; el de aquí solo se usa
+ * mientras el negocio no haya guardado el suyo.
+ */
+
+import type { HorarioDto } from '@/lib/types';
+import { envConfig } from './env.config';
+
+/**
+ * Horario de atención del negocio (por defecto, ver negocioService.getHorario)
+ */
+const HORARIO_NEGOCIO_DEFAULT: HorarioDto[] = [
+  { diaSemana: 'LUNES', horaInicio: '09:00', horaFin: '20:00', activo: true },
+  { diaSemana: 'MARTES', horaInicio: '09:00', horaFin: '20:00', activo: true },
+  { diaSemana: 'MIERCOLES', horaInicio: '09:00', horaFin: '20:00', activo: true },
+  { diaSemana: 'JUEVES', horaInicio: '09:00', horaFin: '20:00', activo: true },
+  { diaSemana: 'VIERNES', horaInicio: '09:00', horaFin: '20:00', activo: true },
+  { diaSemana: 'SABADO', horaInicio: '09:00', horaFin: '18:00', activo: true },
+];
+
+export const negocioConfig = {
+  // Datos del negocio por defecto (web pública y .ics) si el negocio no
+  // cargó los suyos en /dashboard/configuracion (ver getNegocioIcs)
+  // Para configurar: NEXT_PUBLIC_NEGOCIO_DIRECCION=Av. Ejemplo 123, Lima
+  datosNegocio: {
+    nombre: envConfig.appName as string,
+    direccion: process.env.NEXT_PUBLIC_NEGOCIO_DIRECCION || undefined,
+  },
+
+  // Zona horaria del local (IANA). Las rutas del servidor calculan "hoy" y
+  // "ahora" con ella: el servidor puede estar en UTC o en otro país.
+  // Para configurar: NEXT_PUBLIC_NEGOCIO_ZONA_HORARIA=America/Lima
+  zonaHoraria: process.env.NEXT_PUBLIC_NEGOCIO_ZONA_HORARIA || 'America/Lima',
+
+  // Horario por defecto mientras el negocio no guarde el suyo
+  horarioNegocio: HORARIO_NEGOCIO_DEFAULT,
+
+  // Cada cuántos minutos se ofrece una hora de inicio (09:00, 09:15, ...)
+  intervaloSlotsMinutos: 15,
+
+  // Hasta cuántos días a futuro se puede reservar desde la web pública
+  diasMaximosReserva: 30,
+
+  // Horas antes de la cita hasta las que el cliente puede cancelar o reprogramar
+  // (el negocio puede definir su propio valor en Negocio.horasLimiteCancelacion)
+  horasLimiteCancelacion: 24,
+};
+
+// Tipo para autocompletado
+export type NegocioConfig = typeof negocioConfig;
@@ -14,8 +14,27 @@
 export { useProfesionales } from './use-profesionales';
 export { useCategorias } from './use-categorias';
 export { useServicios } from './use-servicios';
+export { usePaquetes } from './use-paquetes';
 export { useThemeToggle } from './use-theme-toggle';
 export { useClientes } from './use-clientes';
 export { usePermissions } from './use-permissions';
+export { useDisponibilidad } from './use-disponibilidad';
+export { useDisponibilidadGeneral } from './use-disponibilidad-general';
+export { useProfesionalesPorServicio } from './use-profesionales-por-servicio';
+export { useServiciosPorProfesional } from './use-servicios-por-profesional';
+export { useReservaPorCodigo } from './use-reserva-por-codigo';
 
 
+export { useReservasDelDia } from './use-reservas-del-dia';
+export { useReservas } from './use-reservas';
+export { useAgenda } from './use-agenda';
+export { useColaEspera } from './use-cola-espera';
+export { usePantalla } from './use-pantalla';
+export { useMatrizServicios, type PersonalizacionServicio } from './use-matriz-servicios';
+export { useHorariosProfesional } from './use-horarios-profesional';
+export { useTokenCalendario } from './use-token-calendario';
+export { useExcepciones } from './use-excepciones';
+export { useNegocio } from './use-negocio';
+export { useNegocioPublico } from './use-negocio-publico';
+export { useMiAgenda } from './use-mi-agenda';
+export { useComisiones } from './use-comisiones';
@@ -0,0 +1,238 @@
+/**
+ * ============================================================
+ * HOOK - useAgenda
+ * ============================================================
+ * Datos de la agenda del dashboard (vista calendario):
+ * - Profesionales del negocio, su horario semanal efectivo
+ *   (getHorarios o el horario del negocio) y los servicios que ofrecen
+ * - Reservas de los días visibles:
+ *   día → reservaService.getByDate, semana → reservaService.getAll
+ * - Excepciones de los días visibles (días/horas libres, feriados)
+ * - moverReserva: reprograma arrastrando (actualización optimista
+ *   y rollback si el backend la rechaza)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { excepcionService, negocioService, profesionalService, reservaService } from '@/lib/services';
+import {
+  getDiasAgenda,
+  getExcepcionesProfesional,
+  getFechaHoraDestino,
+  type DestinoReserva,
+  type VistaAgenda,
+} from '@/lib/utils';
+import type {
+  Profesional,
+  HorarioDto,
+  Reserva,
+  ExcepcionHorario,
+  ServiciosPorProfesional,
+  ApiError,
+} from '@/lib/types';
+
+/** Máximo de reservas que se piden para una semana */
+const MAX_RESERVAS_SEMANA = 500;
+
+interface UseAgendaState {
+  profesionales: Profesional[];
+  horariosPorProfesional: Record<number, HorarioDto[]>;
+  serviciosPorProfesional: ServiciosPorProfesional;
+  reservas: Reserva[];
+  excepciones: ExcepcionHorario[];
+  loadingEquipo: boolean;
+  loadingReservas: boolean;
+  error: ApiError | null;
+}
+
+interface UseAgendaReturn {
+  /** Días visibles en formato "YYYY-MM-DD" */
+  dias: string[];
+  profesionales: Profesional[];
+  horariosPorProfesional: Record<number, HorarioDto[]>;
+  /** Servicios que ofrece cada profesional (al arrastrar a su columna) */
+  serviciosPorProfesional: ServiciosPorProfesional;
+  reservas: Reserva[];
+  /** Excepciones que afectan a cada profesional (propias + del negocio) */
+  excepcionesPorProfesional: Record<number, ExcepcionHorario[]>;
+  loading: boolean;
+  error: ApiError | null;
+  /** Recarga las reservas y excepciones (los horarios casi no cambian) */
+  refetch: () => Promise<void>;
+  /** Mueve una reserva a otra hora/profesional (lanza error si el backend la rechaza) */
+  moverReserva: (reserva: Reserva, destino: DestinoReserva) => Promise<Reserva>;
+}
+
+/**
+ * Hook para la agenda de día/semana
+ *
+ * @param fecha - Día de referencia "YYYY-MM-DD"
+ * @param vista - 'dia' o 'semana' (la semana que contiene a la fecha)
+ */
+export function useAgenda(fecha: string, vista: VistaAgenda): UseAgendaReturn {
+  const [state, setState] = useState<UseAgendaState>({
+    profesionales: [],
+    horariosPorProfesional: {},
+    serviciosPorProfesional: {},
+    reservas: [],
+    excepciones: [],
+    loadingEquipo: true,
+    loadingReservas: true,
+    error: null,
+  });
+
+  const dias = useMemo(() => getDiasAgenda(fecha, vista), [fecha, vista]);
+
+  // ============================================================
+  // PROFESIONALES Y SUS HORARIOS
+  // ============================================================
+  const fetchEquipo = useCallback(async () => {
+    setState((prev) => ({ ...prev, loadingEquipo: true, error: null }));
+
+    try {
+      const profesionales = await profesionalService.getAll();
+      const horariosPorProfesional: Record<number, HorarioDto[]> = {};
+      const serviciosPorProfesional: ServiciosPorProfesional = {};
+      // Horario del negocio: se pide una sola vez si alguien lo hereda
+      const horarioNegocio = profesionales.some((p) => p.usaHorarioNegocio)
+        ? await negocioService.getHorario()
+        : [];
+
+      await Promise.all(
+        profesionales.map(async (prof) => {
+          const [horarios, servicios] = await Promise.all([
+            prof.usaHorarioNegocio ? horarioNegocio : profesionalService.getHorarios(prof.id),
+            profesionalService.getServicios(prof.id),
+          ]);
+          horariosPorProfesional[prof.id] = horarios;
+          serviciosPorProfesional[prof.id] = servicios;
+        })
+      );
+
+      setState((prev) => ({
+        ...prev,
+        profesionales: [...profesionales].sort((a, b) => a.nombreCompleto.localeCompare(b.nombreCompleto)),
+        horariosPorProfesional,
+        serviciosPorProfesional,
+        loadingEquipo: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        profesionales: [],
+        horariosPorProfesional: {},
+        serviciosPorProfesional: {},
+        loadingEquipo: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // ============================================================
+  // RESERVAS Y EXCEPCIONES DE LOS DÍAS VISIBLES
+  // ============================================================
+  const fetchReservas = useCallback(async (visibles: string[]) => {
+    setState((prev) => ({ ...prev, loadingReservas: true, error: null }));
+
+    const desde = visibles[0];
+    const hasta = visibles[visibles.length - 1];
+
+    try {
+      const [reservas, excepciones] = await Promise.all([
+        visibles.length === 1
+          ? reservaService.getByDate(desde)
+          : reservaService.getAll({
+              fechaInicio: desde,
+              fechaFin: hasta,
+              page: 0,
+              size: MAX_RESERVAS_SEMANA,
+              sort: 'fechaHora,asc',
+            }).then((pagina) => pagina.content),
+        excepcionService.getByRango({ desde, hasta }),
+      ]);
+
+      setState((prev) => ({ ...prev, reservas, excepciones, loadingReservas: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        excepciones: [],
+        loadingReservas: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEquipo();
+  }, [fetchEquipo]);
+
+  useEffect(() => {
+    fetchReservas(dias);
+  }, [dias, fetchReservas]);
+
+  const refetch = useCallback(async () => {
+    await fetchReservas(dias);
+  }, [dias, fetchReservas]);
+
+  const excepcionesPorProfesional = useMemo(
+    () => Object.fromEntries(
+      state.profesionales.map((p) => [p.id, getExcepcionesProfesional(state.excepciones, p.id)])
+    ),
+    [state.profesionales, state.excepciones]
+  );
+
+  // ============================================================
+  // REPROGRAMAR (arrastrar y soltar)
+  // ============================================================
+  const moverReserva = useCallback(async (reserva: Reserva, destino: DestinoReserva): Promise<Reserva> => {
+    const fechaHora = getFechaHoraDestino(destino);
+    const profesional = state.profesionales.find((p) => p.id === destino.profesionalId);
+
+    // Optimista: el bloque se ve en su nuevo lugar mientras responde el backend
+    const movida: Reserva = {
+      ...reserva,
+      fechaHora,
+      profesional: profesional
+        ? { id: profesional.id, nombreCompleto: profesional.nombreCompleto }
+        : reserva.profesional,
+    };
+    setState((prev) => ({
+      ...prev,
+      reservas: prev.reservas.map((r) => (r.id === reserva.id ? movida : r)),
+    }));
+
+    try {
+      const actualizada = await reservaService.update(reserva.id, {
+        fechaHora,
+        profesionalId: destino.profesionalId,
+      });
+      setState((prev) => ({
+        ...prev,
+        reservas: prev.reservas.map((r) => (r.id === reserva.id ? actualizada : r)),
+      }));
+      return actualizada;
+    } catch (err) {
+      // Rollback: vuelve a su lugar original
+      setState((prev) => ({
+        ...prev,
+        reservas: prev.reservas.map((r) => (r.id === reserva.id ? reserva : r)),
+      }));
+      throw err;
+    }
+  }, [state.profesionales]);
+
+  return {
+    dias,
+    profesionales: state.profesionales,
+    horariosPorProfesional: state.horariosPorProfesional,
+    serviciosPorProfesional: state.serviciosPorProfesional,
+    reservas: state.reservas,
+    excepcionesPorProfesional,
+    loading: state.loadingEquipo || state.loadingReservas,
+    error: state.error,
+    refetch,
+    moverReserva,
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * ============================================================
+ * HOOK - useColaEspera
+ * ============================================================
+ * Pantalla de recepción ("cola de espera"):
+ * - Clientes sin reserva esperando (colaService)
+ * - Agenda de HOY: profesionales, horarios y reservas (useAgenda)
+ * - Espera estimada por cliente y por profesional (estimarEsperas)
+ * - Acciones: agregar / retirar / atender walk-ins y check-in de
+ *   clientes con reserva (pasan a EN_PROGRESO)
+ *
+ * Se refresca sola cada INTERVALO_REFRESCO_MS. "Hoy" se recalcula en
+ * cada refresco: la pantalla puede quedar abierta pasada la medianoche.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { colaService, reservaService } from '@/lib/services';
+import { estimarEsperas, toISODate, type EstimacionCola } from '@/lib/utils';
+import type {
+  EntradaCola,
+  CreateEntradaColaDto,
+  Profesional,
+  HorarioDto,
+  Reserva,
+  ServiciosPorProfesional,
+  ApiError,
+} from '@/lib/types';
+import { useAgenda } from './use-agenda';
+
+/** Cada cuánto se recarga la pantalla (otros usuarios también agregan) */
+const INTERVALO_REFRESCO_MS = 30_000;
+
+interface UseColaEsperaState {
+  entradas: EntradaCola[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseColaEsperaReturn {
+  /** Clientes esperando, en orden de llegada */
+  entradas: EntradaCola[];
+  profesionales: Profesional[];
+  horariosPorProfesional: Record<number, HorarioDto[]>;
+  /** Precio/duración propios de cada profesional (overrides) */
+  serviciosPorProfesional: ServiciosPorProfesional;
+  /** Reservas de hoy */
+  reservas: Reserva[];
+  estimacion: EstimacionCola;
+  loading: boolean;
+  error: ApiError | null;
+  refetch: () => Promise<void>;
+  agregar: (data: CreateEntradaColaDto) => Promise<EntradaCola>;
+  retirar: (id: number) => Promise<void>;
+  /** Convierte la entrada en una Reserva EN_PROGRESO con ese profesional */
+  atender: (entrada: EntradaCola, profesionalId: number) => Promise<Reserva>;
+  /** Cliente con reserva que llegó: pasa a EN_PROGRESO (confirmándola si estaba pendiente) */
+  checkIn: (reserva: Reserva) => Promise<Reserva>;
+}
+
+/**
+ * Hook para la cola de espera de hoy
+ *
+ * @param duracionNuevoCliente - Minutos que se asumen para estimar la espera de un cliente nuevo
+ */
+export function useColaEspera(duracionNuevoCliente: number): UseColaEsperaReturn {
+  const [hoy, setHoy] = useState(() => toISODate(new Date()));
+  const agenda = useAgenda(hoy, 'dia');
+  const { refetch: refetchAgenda } = agenda;
+
+  const [state, setState] = useState<UseColaEsperaState>({
+    entradas: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchEntradas = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const data = await colaService.getEsperando();
+      setState((prev) => ({
+        ...prev,
+        entradas: [...data].sort((a, b) => a.horaLlegada.localeCompare(b.horaLlegada)),
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        entradas: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  const refetch = useCallback(async () => {
+    const fechaActual = toISODate(new Date());
+    if (fechaActual !== hoy) {
+      // Cambió el día: useAgenda carga el nuevo al cambiar la fecha
+      setHoy(fechaActual);
+      await fetchEntradas();
+      return;
+    }
+    await Promise.all([fetchEntradas(), refetchAgenda()]);
+  }, [hoy, fetchEntradas, refetchAgenda]);
+
+  useEffect(() => {
+    fetchEntradas();
+  }, [fetchEntradas]);
+
+  // Refresco automático
+  useEffect(() => {
+    const id = setInterval(refetch, INTERVALO_REFRESCO_MS);
+    return () => clearInterval(id);
+  }, [refetch]);
+
+  // ============================================================
+  // ESTIMACIÓN DE ESPERA
+  // ============================================================
+  const estimacion = useMemo(
+    () => estimarEsperas({
+      agendas: agenda.profesionales.map((p) => ({
+        profesionalId: p.id,
+        horarios: agenda.horariosPorProfesional[p.id] ?? [],
+        reservas: agenda.reservas.filter((r) => r.profesional.id === p.id),
+        excepciones: agenda.excepcionesPorProfesional[p.id],
+        serviciosProfesional: agenda.serviciosPorProfesional[p.id],
+      })),
+      cola: state.entradas,
+      duracionNuevoCliente,
+    }),
+    [
+      agenda.profesionales,
+      agenda.horariosPorProfesional,
+      agenda.reservas,
+      agenda.excepcionesPorProfesional,
+      agenda.serviciosPorProfesional,
+      state.entradas,
+      duracionNuevoCliente,
+    ]
+  );
+
+  // ============================================================
+  // ACCIONES
+  // ============================================================
+  const agregar = useCallback(async (data: CreateEntradaColaDto) => {
+    const nueva = await colaService.create(data);
+    await fetchEntradas();
+    return nueva;
+  }, [fetchEntradas]);
+
+  const retirar = useCallback(async (id: number) => {
+    await colaService.retirar(id);
+    await fetchEntradas();
+  }, [fetchEntradas]);
+
+  const atender = useCallback(async (entrada: EntradaCola, profesionalId: number) => {
+    const { reserva } = await colaService.atender(entrada.id, profesionalId);
+    await refetch();
+    return reserva;
+  }, [refetch]);
+
+  const checkIn = useCallback(async (reserva: Reserva) => {
+    // La máquina de estados no permite PENDIENTE → EN_PROGRESO directo
+    const confirmada = reserva.estado === 'PENDIENTE'
+      ? await reservaService.confirmar(reserva)
+      : reserva;
+    const enProgreso = await reservaService.iniciar(confirmada);
+    await refetchAgenda();
+    return enProgreso;
+  }, [refetchAgenda]);
+
+  return {
+    entradas: state.entradas,
+    profesionales: agenda.profesionales,
+    horariosPorProfesional: agenda.horariosPorProfesional,
+    serviciosPorProfesional: agenda.serviciosPorProfesional,
+    reservas: agenda.reservas,
+    estimacion,
+    loading: state.loading || agenda.loading,
+    error: state.error ?? agenda.error,
+    refetch,
+    agregar,
+    retirar,
+    atender,
+    checkIn,
+  };
+}
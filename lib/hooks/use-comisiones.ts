@@ -0,0 +1,156 @@
+/**
+ * ============================================================
+ * HOOK - useComisiones
+ * ============================================================
+ * Reporte de comisiones (/dashboard/comisiones): reglas de cada
+ * profesional y lo que le toca por las reservas COMPLETADAS entre
+ * dos fechas (con lo que se cobró en cada reserva o, si la reserva no
+ * lo trae, el precio actual de su profesional).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { comisionService, profesionalService, reservaService } from '@/lib/services';
+import { calcularLineasComision, resumirComisiones, tienePrecioReserva } from '@/lib/utils';
+import type {
+  ApiError,
+  LineaComision,
+  ReglaComision,
+  ReglaComisionDto,
+  Reserva,
+  ResumenComisionProfesional,
+  ServiciosPorProfesional,
+} from '@/lib/types';
+
+/** Reservas por página al traer las del período */
+const TAMANO_PAGINA = 200;
+
+interface UseComisionesState {
+  reglas: ReglaComision[];
+  reservas: Reserva[];
+  /** Servicios (precios personalizados) de los profesionales del período */
+  serviciosPorProfesional: ServiciosPorProfesional;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseComisionesReturn extends Omit<UseComisionesState, 'reservas' | 'serviciosPorProfesional'> {
+  /** Un servicio atendido por fila */
+  lineas: LineaComision[];
+  /** Total a pagar por profesional */
+  resumen: ResumenComisionProfesional[];
+  refetch: () => Promise<void>;
+  /** Reemplaza las reglas de un profesional (recalcula el reporte) */
+  guardarReglas: (profesionalId: number, reglas: ReglaComisionDto[]) => Promise<ReglaComision[]>;
+}
+
+/**
+ * Todas las reservas completadas del período (recorre las páginas)
+ */
+async function getReservasCompletadas(desde: string, hasta: string): Promise<Reserva[]> {
+  const reservas: Reserva[] = [];
+  let page = 0;
+  let ultima = false;
+
+  while (!ultima) {
+    const data = await reservaService.getAll({
+      fechaInicio: desde,
+      fechaFin: hasta,
+      estado: 'COMPLETADA',
+      page,
+      size: TAMANO_PAGINA,
+      sort: 'fechaHora,asc',
+    });
+    reservas.push(...data.content);
+    ultima = data.last || data.content.length === 0;
+    page += 1;
+  }
+
+  return reservas;
+}
+
+/**
+ * Precios actuales de los profesionales con reservas que no traen lo
+ * que se cobró (precioReserva): sus importes son estimados
+ */
+async function getServiciosPorProfesional(reservas: Reserva[]): Promise<ServiciosPorProfesional> {
+  const ids = Array.from(new Set(
+    reservas.filter((r) => !tienePrecioReserva(r)).map((r) => r.profesional.id)
+  ));
+  const servicios = await Promise.all(ids.map((id) => profesionalService.getServicios(id)));
+  return Object.fromEntries(ids.map((id, i) => [id, servicios[i]]));
+}
+
+/**
+ * Hook para el reporte de comisiones
+ *
+ * @param desde - Inicio del período "YYYY-MM-DD" (inclusive)
+ * @param hasta - Fin del período "YYYY-MM-DD" (inclusive)
+ */
+export function useComisiones(desde: string, hasta: string): UseComisionesReturn {
+  const [state, setState] = useState<UseComisionesState>({
+    reglas: [],
+    reservas: [],
+    serviciosPorProfesional: {},
+    loading: true,
+    error: null,
+  });
+
+  const fetchComisiones = useCallback(async (inicio: string, fin: string) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [reglas, reservas] = await Promise.all([
+        comisionService.getReglas(),
+        getReservasCompletadas(inicio, fin),
+      ]);
+      const serviciosPorProfesional = await getServiciosPorProfesional(reservas);
+      setState({ reglas, reservas, serviciosPorProfesional, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  const guardarReglas = useCallback(
+    async (profesionalId: number, reglas: ReglaComisionDto[]): Promise<ReglaComision[]> => {
+      const guardadas = await comisionService.setReglas(profesionalId, reglas);
+      setState((prev) => ({
+        ...prev,
+        reglas: [...prev.reglas.filter((r) => r.profesionalId !== profesionalId), ...guardadas],
+      }));
+      return guardadas;
+    },
+    []
+  );
+
+  useEffect(() => {
+    fetchComisiones(desde, hasta);
+  }, [desde, hasta, fetchComisiones]);
+
+  const refetch = useCallback(async () => {
+    await fetchComisiones(desde, hasta);
+  }, [desde, hasta, fetchComisiones]);
+
+  // El cálculo se rehace al cambiar reglas o reservas
+  const lineas = useMemo(
+    () => calcularLineasComision(state.reservas, state.reglas, state.serviciosPorProfesional),
+    [state.reservas, state.reglas, state.serviciosPorProfesional]
+  );
+  const resumen = useMemo(() => resumirComisiones(lineas), [lineas]);
+
+  return {
+    reglas: state.reglas,
+    loading: state.loading,
+    error: state.error,
+    lineas,
+    resumen,
+    refetch,
+    guardarReglas,
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * ============================================================
+ * HOOK - useDisponibilidadGeneral ("Cualquier profesional")
+ * ============================================================
+ * Disponibilidad combinada de TODOS los profesionales que ofrecen
+ * el servicio elegido. Se usa cuando al cliente no le importa quién
+ * lo atiende.
+ *
+ * 1. Recibe los profesionales que ofrecen el servicio
+ *    (ver useProfesionalesPorServicio)
+ * 2. Carga los horarios de cada uno (getHorarios o horario del negocio)
+ *    y las excepciones (días/horas libres, feriados) de los días reservables
+ * 3. Carga las reservas del día y une los slots libres de todos
+ * 4. Al confirmar, asigna un profesional con asignar() usando
+ *    reservas frescas (el que tenga menos reservas ese día)
+ *
+ * Cada candidato se calcula con su duración personalizada
+ * (duracionPorProfesional) y sus reservas ocupan la suya.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { excepcionService, negocioService, profesionalService, reservaService } from '@/lib/services';
+import { negocioConfig } from '@/lib/config';
+import {
+  atiendeEseDia,
+  calcularSlotsCualquierProfesional,
+  asignarProfesional,
+  dayjs,
+  getExcepcionesProfesional,
+  type AgendaProfesional,
+  type SlotDisponible,
+} from '@/lib/utils';
+import type {
+  Profesional,
+  HorarioDto,
+  Reserva,
+  ExcepcionHorario,
+  ServiciosPorProfesional,
+  ApiError,
+} from '@/lib/types';
+
+interface UseDisponibilidadGeneralParams {
+  /** Profesionales que ofrecen el servicio elegido */
+  profesionales: Profesional[];
+  /** Duración de lo que se quiere reservar (la del servicio) */
+  duracionMinutos: number;
+  /** Duración con cada profesional, si la tiene personalizada (por profesionalId) */
+  duracionPorProfesional?: Record<number, number>;
+  /** Servicios de cada profesional (ver useProfesionalesPorServicio) */
+  serviciosPorProfesional?: ServiciosPorProfesional;
+  /** Limpieza después de lo que se quiere reservar (default: 0) */
+  minutosLimpieza?: number;
+  /** Fecha en formato "YYYY-MM-DD" (null = aún no elegida) */
+  fecha: string | null;
+  /** Solo carga datos cuando el cliente eligió "Cualquier profesional" */
+  enabled: boolean;
+}
+
+interface UseDisponibilidadGeneralState {
+  candidatos: Profesional[];
+  horariosPorProfesional: Record<number, HorarioDto[]>;
+  /** Excepciones de todos (se filtran por candidato al usarlas) */
+  excepciones: ExcepcionHorario[];
+  reservasDelDia: Reserva[];
+  loadingHorarios: boolean;
+  loadingReservas: boolean;
+  error: ApiError | null;
+}
+
+interface UseDisponibilidadGeneralReturn {
+  /** Profesionales que ofrecen el servicio */
+  candidatos: Profesional[];
+  /** Unión de horarios de los candidatos */
+  horarios: HorarioDto[];
+  /** Si al menos un candidato atiende ese día (para habilitar días del calendario) */
+  atiende: (fecha: string) => boolean;
+  /** Horas libres en las que al menos un candidato puede atender */
+  slots: SlotDisponible[];
+  loadingHorarios: boolean;
+  loadingSlots: boolean;
+  error: ApiError | null;
+  refetch: () => Promise<void>;
+  /** Asigna un profesional libre para el slot (null si ya nadie está libre) */
+  asignar: (slot: SlotDisponible) => Promise<Profesional | null>;
+}
+
+export function useDisponibilidadGeneral({
+  profesionales,
+  duracionMinutos,
+  duracionPorProfesional,
+  serviciosPorProfesional,
+  minutosLimpieza = 0,
+  fecha,
+  enabled,
+}: UseDisponibilidadGeneralParams): UseDisponibilidadGeneralReturn {
+  const [state, setState] = useState<UseDisponibilidadGeneralState>({
+    candidatos: [],
+    horariosPorProfesional: {},
+    excepciones: [],
+    reservasDelDia: [],
+    loadingHorarios: false,
+    loadingReservas: false,
+    error: null,
+  });
+
+  // ============================================================
+  // CANDIDATOS Y SUS HORARIOS
+  // ============================================================
+  const fetchCandidatos = useCallback(async (lista: Profesional[]) => {
+    setState((prev) => ({ ...prev, loadingHorarios: true, error: null }));
+
+    try {
+      const horariosPorProfesional: Record<number, HorarioDto[]> = {};
+      // Horario del negocio: se pide una sola vez si alguien lo hereda
+      // (endpoint público: este hook corre en /reservar, sin sesión)
+      const horarioNegocio = lista.some((p) => p.usaHorarioNegocio)
+        ? await negocioService.getHorarioPublico()
+        : [];
+
+      const [excepciones] = await Promise.all([
+        excepcionService.getByRango({
+          desde: dayjs().format('YYYY-MM-DD'),
+          hasta: dayjs().add(negocioConfig.diasMaximosReserva, 'day').format('YYYY-MM-DD'),
+        }),
+        ...lista.map(async (prof) => {
+          horariosPorProfesional[prof.id] = prof.usaHorarioNegocio
+            ? horarioNegocio
+            : await profesionalService.getHorarios(prof.id);
+        }),
+      ]);
+
+      setState((prev) => ({
+        ...prev,
+        candidatos: [...lista].sort((a, b) => a.id - b.id),
+        horariosPorProfesional,
+        excepciones,
+        loadingHorarios: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        candidatos: [],
+        horariosPorProfesional: {},
+        excepciones: [],
+        loadingHorarios: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // ============================================================
+  // RESERVAS DEL DÍA (de todos los profesionales)
+  // ============================================================
+  const fetchReservas = useCallback(async (dia: string) => {
+    setState((prev) => ({ ...prev, loadingReservas: true, error: null }));
+
+    try {
+      const data = await reservaService.getByDate(dia);
+      setState((prev) => ({ ...prev, reservasDelDia: data, loadingReservas: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservasDelDia: [],
+        loadingReservas: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled && profesionales.length > 0) {
+      fetchCandidatos(profesionales);
+    }
+  }, [enabled, profesionales, fetchCandidatos]);
+
+  useEffect(() => {
+    if (enabled && fecha) {
+      fetchReservas(fecha);
+    }
+  }, [enabled, fecha, fetchReservas]);
+
+  // ============================================================
+  // SLOTS
+  // ============================================================
+  const construirAgendas = useCallback(
+    (reservas: Reserva[]): AgendaProfesional[] =>
+      state.candidatos.map((prof) => ({
+        profesionalId: prof.id,
+        horarios: state.horariosPorProfesional[prof.id] ?? [],
+        reservas: reservas.filter((r) => r.profesional.id === prof.id),
+        excepciones: getExcepcionesProfesional(state.excepciones, prof.id),
+        serviciosProfesional: serviciosPorProfesional?.[prof.id],
+        duracionMinutos: duracionPorProfesional?.[prof.id],
+      })),
+    [state.candidatos, state.horariosPorProfesional, state.excepciones, serviciosPorProfesional, duracionPorProfesional]
+  );
+
+  const horarios = useMemo(
+    () => Object.values(state.horariosPorProfesional).flat(),
+    [state.horariosPorProfesional]
+  );
+
+  const atiende = useCallback(
+    (dia: string) =>
+      enabled &&
+      construirAgendas([]).some((agenda) => atiendeEseDia(dia, agenda.horarios, agenda.excepciones)),
+    [enabled, construirAgendas]
+  );
+
+  const slots = useMemo(() => {
+    if (!enabled || !fecha || state.loadingHorarios || state.loadingReservas) return [];
+
+    return calcularSlotsCualquierProfesional({
+      fecha,
+      duracionMinutos,
+      minutosLimpieza,
+      agendas: construirAgendas(state.reservasDelDia),
+      intervaloMinutos: negocioConfig.intervaloSlotsMinutos,
+    });
+  }, [enabled, fecha, duracionMinutos, minutosLimpieza, construirAgendas, state]);
+
+  const refetch = useCallback(async () => {
+    if (enabled && fecha) {
+      await fetchReservas(fecha);
+    }
+  }, [enabled, fecha, fetchReservas]);
+
+  // ============================================================
+  // ASIGNACIÓN (se ejecuta al confirmar la reserva)
+  // ============================================================
+  const asignar = useCallback(async (slot: SlotDisponible): Promise<Profesional | null> => {
+    const dia = slot.fechaHora.slice(0, 10);
+
+    // Reservas frescas: pudo haber nuevas desde que se calcularon los slots
+    const reservas = await reservaService.getByDate(dia);
+    const libres = calcularSlotsCualquierProfesional({
+      fecha: dia,
+      duracionMinutos,
+      minutosLimpieza,
+      agendas: construirAgendas(reservas),
+      intervaloMinutos: negocioConfig.intervaloSlotsMinutos,
+    }).find((s) => s.fechaHora === slot.fechaHora);
+
+    const id = asignarProfesional(libres?.profesionalIds ?? [], reservas);
+    return state.candidatos.find((p) => p.id === id) ?? null;
+  }, [duracionMinutos, minutosLimpieza, construirAgendas, state.candidatos]);
+
+  return {
+    candidatos: enabled ? state.candidatos : [],
+    horarios: enabled ? horarios : [],
+    atiende,
+    slots,
+    loadingHorarios: state.loadingHorarios,
+    loadingSlots: state.loadingReservas,
+    error: state.error,
+    refetch,
+    asignar,
+  };
+}
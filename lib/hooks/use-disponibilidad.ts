@@ -0,0 +1,238 @@
+/**
+ * ============================================================
+ * HOOK - useDisponibilidad
+ * ============================================================
+ * Obtiene las horas reservables de un profesional para una fecha.
+ *
+ * 1. Carga los horarios del profesional (o usa el horario del negocio
+ *    si tiene `usaHorarioNegocio: true`)
+ * 2. Carga las excepciones (días/horas libres, feriados) de los días
+ *    que se pueden reservar
+ * 3. Carga las reservas del día seleccionado
+ * 4. Calcula los slots libres con calcularSlotsDisponibles()
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { excepcionService, negocioService, profesionalService, reservaService } from '@/lib/services';
+import { negocioConfig } from '@/lib/config';
+import {
+  atiendeEseDia,
+  calcularSlotsDisponibles,
+  dayjs,
+  getExcepcionesProfesional,
+  type SlotDisponible,
+} from '@/lib/utils';
+import type {
+  Profesional,
+  HorarioDto,
+  Reserva,
+  ExcepcionHorario,
+  ServicioProfesional,
+  ApiError,
+} from '@/lib/types';
+
+interface UseDisponibilidadParams {
+  /** Profesional seleccionado (null = aún no elegido) */
+  profesional: Profesional | null;
+  /** Duración de lo que se quiere reservar (con la personalizada del profesional) */
+  duracionMinutos: number;
+  /** Limpieza después de lo que se quiere reservar (default: 0) */
+  minutosLimpieza?: number;
+  /** Fecha en formato "YYYY-MM-DD" (null = aún no elegida) */
+  fecha: string | null;
+  /** Reserva que se está reprogramando (su horario actual no cuenta como ocupado) */
+  excluirReservaId?: number;
+  /** Servicios del profesional: sus reservas ocupan su duración personalizada */
+  serviciosProfesional?: ServicioProfesional[];
+}
+
+interface UseDisponibilidadState {
+  horarios: HorarioDto[];
+  /** Excepciones de todos (se filtran por profesional al usarlas) */
+  excepciones: ExcepcionHorario[];
+  reservas: Reserva[];
+  loadingHorarios: boolean;
+  loadingExcepciones: boolean;
+  loadingReservas: boolean;
+  error: ApiError | null;
+}
+
+interface UseDisponibilidadReturn {
+  /** Horarios semanales efectivos del profesional */
+  horarios: HorarioDto[];
+  /** Excepciones del profesional y del negocio */
+  excepciones: ExcepcionHorario[];
+  /** Si el profesional atiende ese día (horario + excepciones) */
+  atiende: (fecha: string) => boolean;
+  /** Horas de inicio libres para la fecha elegida */
+  slots: SlotDisponible[];
+  loadingHorarios: boolean;
+  loadingSlots: boolean;
+  error: ApiError | null;
+  /** Recarga las reservas del día (ej: si otra persona tomó el horario) */
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para calcular la disponibilidad de un profesional
+ *
+ * EJEMPLO DE USO:
+ * ```tsx
+ * const { slots, loadingSlots } = useDisponibilidad({
+ *   profesional,
+ *   duracionMinutos: servicio.duracionMinutos,
+ *   fecha: '2024-01-20',
+ * });
+ * ```
+ */
+export function useDisponibilidad({
+  profesional,
+  duracionMinutos,
+  minutosLimpieza = 0,
+  fecha,
+  excluirReservaId,
+  serviciosProfesional,
+}: UseDisponibilidadParams): UseDisponibilidadReturn {
+  const [state, setState] = useState<UseDisponibilidadState>({
+    horarios: [],
+    excepciones: [],
+    reservas: [],
+    loadingHorarios: false,
+    loadingExcepciones: true,
+    loadingReservas: false,
+    error: null,
+  });
+
+  // ============================================================
+  // HORARIOS DEL PROFESIONAL (se cargan al elegir profesional)
+  // ============================================================
+  const fetchHorarios = useCallback(async (prof: Profesional) => {
+    setState((prev) => ({ ...prev, loadingHorarios: true, error: null }));
+
+    try {
+      // El profesional puede heredar el horario del negocio (endpoint público:
+      // este hook corre en /reservar, sin sesión)
+      const data = prof.usaHorarioNegocio
+        ? await negocioService.getHorarioPublico()
+        : await profesionalService.getHorarios(prof.id);
+      setState((prev) => ({ ...prev, horarios: data, loadingHorarios: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        horarios: [],
+        loadingHorarios: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // ============================================================
+  // EXCEPCIONES (de hoy hasta el último día reservable)
+  // ============================================================
+  const fetchExcepciones = useCallback(async () => {
+    setState((prev) => ({ ...prev, loadingExcepciones: true }));
+
+    try {
+      const data = await excepcionService.getByRango({
+        desde: dayjs().format('YYYY-MM-DD'),
+        hasta: dayjs().add(negocioConfig.diasMaximosReserva, 'day').format('YYYY-MM-DD'),
+      });
+      setState((prev) => ({ ...prev, excepciones: data, loadingExcepciones: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        excepciones: [],
+        loadingExcepciones: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // ============================================================
+  // RESERVAS DEL DÍA (se cargan al elegir fecha)
+  // ============================================================
+  const fetchReservas = useCallback(async (dia: string, profesionalId: number) => {
+    setState((prev) => ({ ...prev, loadingReservas: true, error: null }));
+
+    try {
+      const data = await reservaService.getByDate(dia);
+      setState((prev) => ({
+        ...prev,
+        reservas: data.filter((r) => r.profesional.id === profesionalId),
+        loadingReservas: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        loadingReservas: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExcepciones();
+  }, [fetchExcepciones]);
+
+  useEffect(() => {
+    if (profesional) {
+      fetchHorarios(profesional);
+    }
+  }, [profesional, fetchHorarios]);
+
+  const excepciones = useMemo(
+    () => (profesional ? getExcepcionesProfesional(state.excepciones, profesional.id) : []),
+    [profesional, state.excepciones]
+  );
+
+  useEffect(() => {
+    if (profesional && fecha) {
+      fetchReservas(fecha, profesional.id);
+    }
+  }, [profesional, fecha, fetchReservas]);
+
+  // ============================================================
+  // SLOTS (se recalculan al cambiar cualquier dato)
+  // ============================================================
+  const slots = useMemo(() => {
+    if (!profesional || !fecha || state.loadingHorarios || state.loadingExcepciones || state.loadingReservas) {
+      return [];
+    }
+
+    return calcularSlotsDisponibles({
+      fecha,
+      horarios: state.horarios,
+      duracionMinutos,
+      minutosLimpieza,
+      reservas: state.reservas.filter((r) => r.id !== excluirReservaId),
+      serviciosProfesional,
+      excepciones,
+      intervaloMinutos: negocioConfig.intervaloSlotsMinutos,
+    });
+  }, [profesional, fecha, duracionMinutos, minutosLimpieza, excluirReservaId, serviciosProfesional, excepciones, state]);
+
+  const atiende = useCallback(
+    (dia: string) => atiendeEseDia(dia, state.horarios, excepciones),
+    [state.horarios, excepciones]
+  );
+
+  const refetch = useCallback(async () => {
+    if (profesional && fecha) {
+      await fetchReservas(fecha, profesional.id);
+    }
+  }, [profesional, fecha, fetchReservas]);
+
+  return {
+    horarios: profesional ? state.horarios : [],
+    excepciones,
+    atiende,
+    slots,
+    loadingHorarios: state.loadingHorarios || state.loadingExcepciones,
+    loadingSlots: state.loadingReservas,
+    error: state.error,
+    refetch,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * ============================================================
+ * HOOK - useExcepciones
+ * ============================================================
+ * Días libres, horas libres y feriados de hoy en adelante
+ * (página /dashboard/excepciones). Incluye las que ya empezaron
+ * pero siguen vigentes (p. ej. vacaciones en curso), y las ausencias
+ * que los profesionales solicitaron desde Mi agenda.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { excepcionService } from '@/lib/services';
+import { dayjs } from '@/lib/utils';
+import type {
+  EstadoExcepcion,
+  ExcepcionHorario,
+  CreateExcepcionHorarioDto,
+  UpdateExcepcionHorarioDto,
+  ApiError,
+} from '@/lib/types';
+
+/** Hasta cuántos días adelante se listan */
+const DIAS_ADELANTE = 365;
+
+interface UseExcepcionesState {
+  excepciones: ExcepcionHorario[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseExcepcionesReturn extends UseExcepcionesState {
+  refetch: () => Promise<void>;
+  createExcepcion: (data: CreateExcepcionHorarioDto) => Promise<ExcepcionHorario>;
+  updateExcepcion: (id: number, data: UpdateExcepcionHorarioDto) => Promise<ExcepcionHorario>;
+  deleteExcepcion: (id: number) => Promise<void>;
+  /** Aprueba o rechaza una ausencia solicitada */
+  cambiarEstado: (id: number, estado: Exclude<EstadoExcepcion, 'PENDIENTE'>) => Promise<ExcepcionHorario>;
+}
+
+/**
+ * Hook para las excepciones de horario vigentes y próximas
+ */
+export function useExcepciones(): UseExcepcionesReturn {
+  const [state, setState] = useState<UseExcepcionesState>({
+    excepciones: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchExcepciones = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const data = await excepcionService.getByRango({
+        desde: dayjs().format('YYYY-MM-DD'),
+        hasta: dayjs().add(DIAS_ADELANTE, 'day').format('YYYY-MM-DD'),
+      });
+      // Las más próximas primero
+      const excepciones = [...data].sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio));
+      setState({ excepciones, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // Después de cada acción recargamos la lista
+  const createExcepcion = useCallback(async (data: CreateExcepcionHorarioDto): Promise<ExcepcionHorario> => {
+    const nueva = await excepcionService.create(data);
+    await fetchExcepciones();
+    return nueva;
+  }, [fetchExcepciones]);
+
+  const updateExcepcion = useCallback(
+    async (id: number, data: UpdateExcepcionHorarioDto): Promise<ExcepcionHorario> => {
+      const actualizada = await excepcionService.update(id, data);
+      await fetchExcepciones();
+      return actualizada;
+    },
+    [fetchExcepciones]
+  );
+
+  const deleteExcepcion = useCallback(async (id: number): Promise<void> => {
+    await excepcionService.delete(id);
+    await fetchExcepciones();
+  }, [fetchExcepciones]);
+
+  const cambiarEstado = useCallback(
+    async (id: number, estado: Exclude<EstadoExcepcion, 'PENDIENTE'>): Promise<ExcepcionHorario> => {
+      const actualizada = await excepcionService.cambiarEstado(id, estado);
+      setState((prev) => ({
+        ...prev,
+        excepciones: prev.excepciones.map((e) => (e.id === id ? actualizada : e)),
+      }));
+      return actualizada;
+    },
+    []
+  );
+
+  useEffect(() => {
+    fetchExcepciones();
+  }, [fetchExcepciones]);
+
+  return {
+    ...state,
+    refetch: fetchExcepciones,
+    createExcepcion,
+    updateExcepcion,
+    deleteExcepcion,
+    cambiarEstado,
+  };
+}
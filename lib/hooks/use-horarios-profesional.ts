@@ -0,0 +1,93 @@
+/**
+ * ============================================================
+ * HOOK - useHorariosProfesional
+ * ============================================================
+ * Horario semanal de un profesional (editor en /dashboard/profesionales):
+ * - Carga sus turnos (GET /profesionales/{id}/horarios) y el horario
+ *   del negocio (el que se muestra si usa el horario del negocio)
+ * - guardarSemana() aplica solo las diferencias con lo guardado:
+ *   primero elimina (para no cruzarse con los nuevos) y luego
+ *   actualiza y crea
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { negocioService, profesionalService } from '@/lib/services';
+import { calcularCambiosHorario, type TurnoHorario } from '@/lib/utils';
+import type { HorarioProfesional, HorarioDto, ApiError } from '@/lib/types';
+
+interface UseHorariosProfesionalState {
+  horarios: HorarioProfesional[];
+  horarioNegocio: HorarioDto[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseHorariosProfesionalReturn extends UseHorariosProfesionalState {
+  refetch: () => Promise<void>;
+  /** Deja el backend igual a los turnos editados */
+  guardarSemana: (turnos: TurnoHorario[]) => Promise<void>;
+}
+
+/**
+ * Hook para ver y editar el horario semanal de un profesional
+ *
+ * @param profesionalId - Profesional a editar (null = no carga nada)
+ */
+export function useHorariosProfesional(profesionalId: number | null): UseHorariosProfesionalReturn {
+  const [state, setState] = useState<UseHorariosProfesionalState>({
+    horarios: [],
+    horarioNegocio: [],
+    loading: false,
+    error: null,
+  });
+
+  const fetchHorarios = useCallback(async () => {
+    if (profesionalId == null) return;
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [horarios, horarioNegocio] = await Promise.all([
+        profesionalService.getHorarios(profesionalId),
+        negocioService.getHorario(),
+      ]);
+      setState({ horarios, horarioNegocio, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, [profesionalId]);
+
+  useEffect(() => {
+    setState({ horarios: [], horarioNegocio: [], loading: profesionalId != null, error: null });
+    fetchHorarios();
+  }, [profesionalId, fetchHorarios]);
+
+  const guardarSemana = useCallback(async (turnos: TurnoHorario[]): Promise<void> => {
+    if (profesionalId == null) return;
+    const { crear, actualizar, eliminar } = calcularCambiosHorario(state.horarios, turnos);
+
+    try {
+      await Promise.all(eliminar.map((id) => profesionalService.deleteHorario(profesionalId, id)));
+      await Promise.all([
+        ...actualizar.map(({ horarioId, data }) =>
+          profesionalService.updateHorario(profesionalId, horarioId, data)
+        ),
+        ...crear.map((data) => profesionalService.addHorario(profesionalId, data)),
+      ]);
+    } finally {
+      // Si algo falló, el editor se reinicia con lo que realmente quedó guardado
+      await fetchHorarios();
+    }
+  }, [profesionalId, state.horarios, fetchHorarios]);
+
+  return {
+    ...state,
+    refetch: fetchHorarios,
+    guardarSemana,
+  };
+}
@@ -0,0 +1,257 @@
+/**
+ * ============================================================
+ * HOOK - useMatrizServicios
+ * ============================================================
+ * Matriz profesionales × servicios (/dashboard/profesionales/servicios):
+ * - Carga profesionales, servicios activos y lo que ofrece cada uno
+ * - Los cambios se hacen sobre un borrador (marcar/desmarcar, precio
+ *   y duración personalizados)
+ * - guardar() envía en bloque solo los profesionales modificados
+ *   (PUT /profesionales/{id}/servicios reemplaza la lista completa)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { profesionalService, servicioService } from '@/lib/services';
+import type {
+  Profesional,
+  Servicio,
+  ServicioProfesional,
+  AsignacionServicioDto,
+  ApiError,
+} from '@/lib/types';
+
+/** Asignaciones de un profesional, por servicioId */
+export type AsignacionesProfesional = Record<number, AsignacionServicioDto>;
+
+/** Asignaciones de todos, por profesionalId */
+export type MatrizAsignaciones = Record<number, AsignacionesProfesional>;
+
+export type PersonalizacionServicio = Pick<
+  AsignacionServicioDto,
+  'precioPersonalizado' | 'duracionMinutosPersonalizada'
+>;
+
+interface UseMatrizServiciosState {
+  profesionales: Profesional[];
+  servicios: Servicio[];
+  /** Lo guardado en el backend */
+  original: MatrizAsignaciones;
+  /** Lo que se está editando */
+  borrador: MatrizAsignaciones;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseMatrizServiciosReturn extends UseMatrizServiciosState {
+  /** Profesionales con cambios sin guardar */
+  modificados: number[];
+  refetch: () => Promise<void>;
+  toggle: (profesionalId: number, servicioId: number) => void;
+  /** Asigna o quita todos los servicios a un profesional */
+  toggleTodos: (profesionalId: number, asignar: boolean) => void;
+  personalizar: (profesionalId: number, servicioId: number, datos: PersonalizacionServicio) => void;
+  descartar: () => void;
+  /** Guarda los profesionales modificados; devuelve cuántos se guardaron */
+  guardar: () => Promise<number>;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+function toAsignaciones(servicios: ServicioProfesional[]): AsignacionesProfesional {
+  return Object.fromEntries(
+    servicios.map((s) => [
+      s.id,
+      {
+        servicioId: s.id,
+        precioPersonalizado: s.precioPersonalizado ?? null,
+        duracionMinutosPersonalizada: s.duracionMinutosPersonalizada ?? null,
+      },
+    ])
+  );
+}
+
+/** Lista ordenada para enviar y comparar */
+function toLista(asignaciones: AsignacionesProfesional = {}): AsignacionServicioDto[] {
+  return Object.values(asignaciones).sort((a, b) => a.servicioId - b.servicioId);
+}
+
+function sonIguales(a?: AsignacionesProfesional, b?: AsignacionesProfesional): boolean {
+  return JSON.stringify(toLista(a)) === JSON.stringify(toLista(b));
+}
+
+// ============================================================
+// HOOK
+// ============================================================
+
+/**
+ * Hook para asignar servicios a profesionales en bloque
+ */
+export function useMatrizServicios(): UseMatrizServiciosReturn {
+  const [state, setState] = useState<UseMatrizServiciosState>({
+    profesionales: [],
+    servicios: [],
+    original: {},
+    borrador: {},
+    loading: true,
+    error: null,
+  });
+
+  const fetchMatriz = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [profesionales, servicios] = await Promise.all([
+        profesionalService.getAll(),
+        servicioService.getAllActive(),
+      ]);
+      const ofrecidos = await Promise.all(
+        profesionales.map((p) => profesionalService.getServicios(p.id))
+      );
+
+      const original: MatrizAsignaciones = {};
+      profesionales.forEach((p, i) => {
+        original[p.id] = toAsignaciones(ofrecidos[i]);
+      });
+
+      setState((prev) => ({
+        ...prev,
+        profesionales,
+        servicios,
+        original,
+        borrador: original,
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMatriz();
+  }, [fetchMatriz]);
+
+  // ============================================================
+  // EDICIÓN DEL BORRADOR
+  // ============================================================
+  const setAsignaciones = useCallback(
+    (profesionalId: number, actualizar: (actual: AsignacionesProfesional) => AsignacionesProfesional) => {
+      setState((prev) => ({
+        ...prev,
+        borrador: {
+          ...prev.borrador,
+          [profesionalId]: actualizar(prev.borrador[profesionalId] ?? {}),
+        },
+      }));
+    },
+    []
+  );
+
+  const toggle = useCallback((profesionalId: number, servicioId: number) => {
+    setAsignaciones(profesionalId, (actual) => {
+      const siguiente = { ...actual };
+      if (siguiente[servicioId]) {
+        delete siguiente[servicioId];
+      } else {
+        siguiente[servicioId] = {
+          servicioId,
+          precioPersonalizado: null,
+          duracionMinutosPersonalizada: null,
+        };
+      }
+      return siguiente;
+    });
+  }, [setAsignaciones]);
+
+  const toggleTodos = useCallback((profesionalId: number, asignar: boolean) => {
+    setAsignaciones(profesionalId, (actual) => {
+      if (!asignar) return {};
+      // Conserva las personalizaciones de los que ya tenía
+      return Object.fromEntries(
+        state.servicios.map((s) => [
+          s.id,
+          actual[s.id] ?? { servicioId: s.id, precioPersonalizado: null, duracionMinutosPersonalizada: null },
+        ])
+      );
+    });
+  }, [setAsignaciones, state.servicios]);
+
+  const personalizar = useCallback(
+    (profesionalId: number, servicioId: number, datos: PersonalizacionServicio) => {
+      setAsignaciones(profesionalId, (actual) => ({
+        ...actual,
+        [servicioId]: { servicioId, ...datos },
+      }));
+    },
+    [setAsignaciones]
+  );
+
+  const descartar = useCallback(() => {
+    setState((prev) => ({ ...prev, borrador: prev.original }));
+  }, []);
+
+  const modificados = useMemo(
+    () => state.profesionales
+      .filter((p) => !sonIguales(state.original[p.id], state.borrador[p.id]))
+      .map((p) => p.id),
+    [state.profesionales, state.original, state.borrador]
+  );
+
+  // ============================================================
+  // GUARDAR EN BLOQUE
+  // ============================================================
+  const guardar = useCallback(async (): Promise<number> => {
+    const resultados = await Promise.allSettled(
+      modificados.map((id) => profesionalService.setServicios(id, toLista(state.borrador[id])))
+    );
+
+    // Lo que se guardó pasa a ser el original; lo que falló queda en el borrador
+    const guardados: MatrizAsignaciones = {};
+    const fallidos: number[] = [];
+    resultados.forEach((resultado, i) => {
+      if (resultado.status === 'fulfilled') {
+        guardados[modificados[i]] = toAsignaciones(resultado.value);
+      } else {
+        fallidos.push(modificados[i]);
+      }
+    });
+
+    setState((prev) => ({
+      ...prev,
+      original: { ...prev.original, ...guardados },
+      borrador: { ...prev.borrador, ...guardados },
+    }));
+
+    if (fallidos.length > 0) {
+      const nombres = state.profesionales
+        .filter((p) => fallidos.includes(p.id))
+        .map((p) => p.nombreCompleto);
+      const primerError = resultados.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+      const error: ApiError = {
+        message: `No se guardaron los cambios de: ${nombres.join(', ')}`,
+        status: (primerError.reason as ApiError)?.status ?? 0,
+      };
+      throw error;
+    }
+
+    return modificados.length;
+  }, [modificados, state.borrador, state.profesionales]);
+
+  return {
+    ...state,
+    modificados,
+    refetch: fetchMatriz,
+    toggle,
+    toggleTodos,
+    personalizar,
+    descartar,
+    guardar,
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * ============================================================
+ * HOOK - useMiAgenda
+ * ============================================================
+ * Portal del profesional (/dashboard/mi-agenda): sus reservas del
+ * día, iniciar / completar la atención y sus ausencias (aprobadas
+ * y solicitadas). Todo viene de /mi-agenda, filtrado por el backend
+ * con el usuario del token.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { miAgendaService } from '@/lib/services';
+import { dayjs } from '@/lib/utils';
+import type {
+  Profesional,
+  Reserva,
+  ExcepcionHorario,
+  SolicitudAusenciaDto,
+  ApiError,
+} from '@/lib/types';
+
+/** Hasta cuántos días adelante se listan las ausencias */
+const DIAS_ADELANTE = 365;
+
+interface UseMiAgendaState {
+  profesional: Profesional | null;
+  reservas: Reserva[];
+  /** Ausencias de hoy en adelante, las más próximas primero */
+  ausencias: ExcepcionHorario[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseMiAgendaReturn extends UseMiAgendaState {
+  refetch: () => Promise<void>;
+  iniciarReserva: (reserva: Reserva) => Promise<Reserva>;
+  completarReserva: (reserva: Reserva) => Promise<Reserva>;
+  solicitarAusencia: (data: SolicitudAusenciaDto) => Promise<ExcepcionHorario>;
+  retirarSolicitud: (id: number) => Promise<void>;
+}
+
+const ordenarAusencias = (ausencias: ExcepcionHorario[]) =>
+  [...ausencias].sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio));
+
+/**
+ * Hook para la agenda del profesional que inició sesión
+ *
+ * @param fecha - Día a mostrar en formato "YYYY-MM-DD"
+ */
+export function useMiAgenda(fecha: string): UseMiAgendaReturn {
+  const [state, setState] = useState<UseMiAgendaState>({
+    profesional: null,
+    reservas: [],
+    ausencias: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchAgenda = useCallback(async (dia: string) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [profesional, reservas, ausencias] = await Promise.all([
+        miAgendaService.getProfesional(),
+        miAgendaService.getReservas(dia, dia),
+        miAgendaService.getAusencias(
+          dayjs().format('YYYY-MM-DD'),
+          dayjs().add(DIAS_ADELANTE, 'day').format('YYYY-MM-DD')
+        ),
+      ]);
+      setState({
+        profesional,
+        reservas: [...reservas].sort((a, b) => a.fechaHora.localeCompare(b.fechaHora)),
+        ausencias: ordenarAusencias(ausencias),
+        loading: false,
+        error: null,
+      });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // Reemplaza la reserva en la lista con la que devolvió el backend
+  const actualizarReserva = useCallback((actualizada: Reserva) => {
+    setState((prev) => ({
+      ...prev,
+      reservas: prev.reservas.map((r) => (r.id === actualizada.id ? actualizada : r)),
+    }));
+    return actualizada;
+  }, []);
+
+  const iniciarReserva = useCallback(
+    async (reserva: Reserva): Promise<Reserva> =>
+      actualizarReserva(await miAgendaService.cambiarEstadoReserva(reserva, 'EN_PROGRESO')),
+    [actualizarReserva]
+  );
+
+  const completarReserva = useCallback(
+    async (reserva: Reserva): Promise<Reserva> =>
+      actualizarReserva(await miAgendaService.cambiarEstadoReserva(reserva, 'COMPLETADA')),
+    [actualizarReserva]
+  );
+
+  const solicitarAusencia = useCallback(async (data: SolicitudAusenciaDto): Promise<ExcepcionHorario> => {
+    const nueva = await miAgendaService.solicitarAusencia(data);
+    setState((prev) => ({ ...prev, ausencias: ordenarAusencias([...prev.ausencias, nueva]) }));
+    return nueva;
+  }, []);
+
+  const retirarSolicitud = useCallback(async (id: number): Promise<void> => {
+    await miAgendaService.retirarSolicitud(id);
+    setState((prev) => ({ ...prev, ausencias: prev.ausencias.filter((a) => a.id !== id) }));
+  }, []);
+
+  useEffect(() => {
+    fetchAgenda(fecha);
+  }, [fecha, fetchAgenda]);
+
+  const refetch = useCallback(async () => {
+    await fetchAgenda(fecha);
+  }, [fecha, fetchAgenda]);
+
+  return {
+    ...state,
+    refetch,
+    iniciarReserva,
+    completarReserva,
+    solicitarAusencia,
+    retirarSolicitud,
+  };
+}
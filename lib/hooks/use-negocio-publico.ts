@@ -0,0 +1,61 @@
+/**
+ * ============================================================
+ * HOOK - useNegocioPublico
+ * ============================================================
+ * Datos públicos del negocio para la web de reservas (sin login):
+ * dirección para el .ics y ventana de cancelación del cliente.
+ *
+ * Si no se pueden cargar, la página sigue funcionando con los
+ * valores por defecto de negocioConfig.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { negocioService } from '@/lib/services';
+import type { NegocioPublico, ApiError } from '@/lib/types';
+
+interface UseNegocioPublicoState {
+  negocio: NegocioPublico | null;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseNegocioPublicoReturn extends UseNegocioPublicoState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para obtener los datos públicos del negocio
+ */
+export function useNegocioPublico(): UseNegocioPublicoReturn {
+  const [state, setState] = useState<UseNegocioPublicoState>({
+    negocio: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchNegocio = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const negocio = await negocioService.getPublico();
+      setState({ negocio, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNegocio();
+  }, [fetchNegocio]);
+
+  return {
+    ...state,
+    refetch: fetchNegocio,
+  };
+}
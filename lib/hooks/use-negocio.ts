@@ -0,0 +1,82 @@
+/**
+ * ============================================================
+ * HOOK - useNegocio
+ * ============================================================
+ * Datos y horario de atención del negocio (/dashboard/configuracion).
+ * El horario es el que heredan los profesionales con
+ * usaHorarioNegocio (también se muestra en su editor de horario).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { negocioService } from '@/lib/services';
+import { horarioDesdeTurno, type TurnoHorario } from '@/lib/utils';
+import type { Negocio, UpdateNegocioDto, HorarioDto, ApiError } from '@/lib/types';
+
+interface UseNegocioState {
+  negocio: Negocio | null;
+  horarioNegocio: HorarioDto[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseNegocioReturn extends UseNegocioState {
+  refetch: () => Promise<void>;
+  updateNegocio: (data: UpdateNegocioDto) => Promise<Negocio>;
+  /** Reemplaza el horario de atención con los turnos del editor */
+  guardarHorario: (turnos: TurnoHorario[]) => Promise<HorarioDto[]>;
+}
+
+/**
+ * Hook para la configuración del negocio
+ */
+export function useNegocio(): UseNegocioReturn {
+  const [state, setState] = useState<UseNegocioState>({
+    negocio: null,
+    horarioNegocio: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchNegocio = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const [negocio, horarioNegocio] = await Promise.all([
+        negocioService.get(),
+        negocioService.getHorario(),
+      ]);
+      setState({ negocio, horarioNegocio, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  const updateNegocio = useCallback(async (data: UpdateNegocioDto): Promise<Negocio> => {
+    const actualizado = await negocioService.update(data);
+    setState((prev) => ({ ...prev, negocio: actualizado }));
+    return actualizado;
+  }, []);
+
+  const guardarHorario = useCallback(async (turnos: TurnoHorario[]): Promise<HorarioDto[]> => {
+    const horarioNegocio = await negocioService.setHorario(turnos.map(horarioDesdeTurno));
+    setState((prev) => ({ ...prev, horarioNegocio }));
+    return horarioNegocio;
+  }, []);
+
+  useEffect(() => {
+    fetchNegocio();
+  }, [fetchNegocio]);
+
+  return {
+    ...state,
+    refetch: fetchNegocio,
+    updateNegocio,
+    guardarHorario,
+  };
+}
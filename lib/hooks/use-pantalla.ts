@@ -0,0 +1,67 @@
+/**
+ * ============================================================
+ * HOOK - usePantalla
+ * ============================================================
+ * Datos de la TV de la sala de espera, refrescados cada
+ * INTERVALO_REFRESCO_MS.
+ *
+ * Si un refresco falla se conservan los últimos datos (la TV no
+ * debe quedar en blanco por un corte de red de unos segundos).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { pantallaService } from '@/lib/services';
+import type { PantallaSnapshot, ApiError } from '@/lib/types';
+
+const INTERVALO_REFRESCO_MS = 15_000;
+
+interface UsePantallaState {
+  pantalla: PantallaSnapshot | null;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UsePantallaReturn extends UsePantallaState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para la pantalla pública de la sala de espera
+ *
+ * @param clave - Clave de la pantalla (?key= de la URL)
+ */
+export function usePantalla(clave: string | null): UsePantallaReturn {
+  const [state, setState] = useState<UsePantallaState>({
+    pantalla: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchPantalla = useCallback(async () => {
+    if (!clave) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: { message: 'Falta la clave de la pantalla', status: 401 },
+      }));
+      return;
+    }
+
+    try {
+      const pantalla = await pantallaService.get(clave);
+      setState({ pantalla, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({ ...prev, loading: false, error: err as ApiError }));
+    }
+  }, [clave]);
+
+  useEffect(() => {
+    fetchPantalla();
+    const id = setInterval(fetchPantalla, INTERVALO_REFRESCO_MS);
+    return () => clearInterval(id);
+  }, [fetchPantalla]);
+
+  return { ...state, refetch: fetchPantalla };
+}
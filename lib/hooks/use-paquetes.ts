@@ -0,0 +1,83 @@
+/**
+ * ============================================================
+ * HOOK - usePaquetes
+ * ============================================================
+ * Hook para manejar los paquetes (combos de servicios).
+ * Lista los paquetes activos (catálogo y /reservar) y permite
+ * crearlos, editarlos y eliminarlos (página /dashboard/paquetes).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { paqueteService } from '@/lib/services';
+import type { Paquete, CreatePaqueteDto, UpdatePaqueteDto, ApiError } from '@/lib/types';
+
+interface UsePaquetesState {
+  paquetes: Paquete[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UsePaquetesReturn extends UsePaquetesState {
+  refetch: () => Promise<void>;
+  createPaquete: (data: CreatePaqueteDto) => Promise<Paquete>;
+  updatePaquete: (id: number, data: UpdatePaqueteDto) => Promise<Paquete>;
+  deletePaquete: (id: number) => Promise<void>;
+}
+
+/**
+ * Hook para obtener lista de paquetes activos
+ */
+export function usePaquetes(): UsePaquetesReturn {
+  const [state, setState] = useState<UsePaquetesState>({
+    paquetes: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchPaquetes = useCallback(async () => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const data = await paqueteService.getAllActive();
+      setState({ paquetes: data, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  // Después de cada acción recargamos la lista
+  const createPaquete = useCallback(async (data: CreatePaqueteDto): Promise<Paquete> => {
+    const nuevo = await paqueteService.create(data);
+    await fetchPaquetes();
+    return nuevo;
+  }, [fetchPaquetes]);
+
+  const updatePaquete = useCallback(async (id: number, data: UpdatePaqueteDto): Promise<Paquete> => {
+    const actualizado = await paqueteService.update(id, data);
+    await fetchPaquetes();
+    return actualizado;
+  }, [fetchPaquetes]);
+
+  const deletePaquete = useCallback(async (id: number): Promise<void> => {
+    await paqueteService.delete(id);
+    await fetchPaquetes();
+  }, [fetchPaquetes]);
+
+  useEffect(() => {
+    fetchPaquetes();
+  }, [fetchPaquetes]);
+
+  return {
+    ...state,
+    refetch: fetchPaquetes,
+    createPaquete,
+    updatePaquete,
+    deletePaquete,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * ============================================================
+ * HOOK - useProfesionalesPorServicio
+ * ============================================================
+ * Lista solo los profesionales que ofrecen los servicios elegidos.
+ * Se usa en /reservar para no mostrar barberos que no hacen
+ * los servicios elegidos en el paso 1 (si son varios, deben
+ * ofrecerlos TODOS: la cita es un solo bloque con la misma persona).
+ *
+ * NOTA: Consulta GET /profesionales/{id}/servicios por cada profesional.
+ * Esa respuesta trae el precio y la duración personalizados de cada
+ * uno: se devuelve en serviciosPorProfesional (ver personalizarServicios).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { profesionalService } from '@/lib/services';
+import { ofreceServicios } from '@/lib/utils';
+import type { Profesional, ServiciosPorProfesional, ApiError } from '@/lib/types';
+
+interface UseProfesionalesPorServicioState {
+  profesionales: Profesional[];
+  /** Servicios (con precio/duración personalizados) de cada profesional */
+  serviciosPorProfesional: ServiciosPorProfesional;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseProfesionalesPorServicioReturn extends UseProfesionalesPorServicioState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para obtener los profesionales que ofrecen uno o varios servicios
+ *
+ * @param servicioIds - Servicios elegidos (vacío = no carga nada)
+ */
+export function useProfesionalesPorServicio(servicioIds: number[]): UseProfesionalesPorServicioReturn {
+  const [state, setState] = useState<UseProfesionalesPorServicioState>({
+    profesionales: [],
+    serviciosPorProfesional: {},
+    loading: false,
+    error: null,
+  });
+
+  const fetchProfesionales = useCallback(async (ids: number[]) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const todos = await profesionalService.getAll();
+      const serviciosDeCada = await Promise.all(
+        todos.map((p) => profesionalService.getServicios(p.id))
+      );
+
+      const serviciosPorProfesional: ServiciosPorProfesional = {};
+      const profesionales = todos.filter((prof, index) => {
+        if (!ofreceServicios(serviciosDeCada[index], ids)) return false;
+        serviciosPorProfesional[prof.id] = serviciosDeCada[index];
+        return true;
+      });
+
+      setState((prev) => ({
+        ...prev,
+        profesionales,
+        serviciosPorProfesional,
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        profesionales: [],
+        serviciosPorProfesional: {},
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (servicioIds.length > 0) {
+      fetchProfesionales(servicioIds);
+    }
+  }, [servicioIds, fetchProfesionales]);
+
+  const refetch = useCallback(async () => {
+    if (servicioIds.length > 0) {
+      await fetchProfesionales(servicioIds);
+    }
+  }, [servicioIds, fetchProfesionales]);
+
+  return {
+    ...state,
+    profesionales: servicioIds.length > 0 ? state.profesionales : [],
+    refetch,
+  };
+}
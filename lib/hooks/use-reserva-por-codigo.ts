@@ -0,0 +1,103 @@
+/**
+ * ============================================================
+ * HOOK - useReservaPorCodigo
+ * ============================================================
+ * Carga la reserva que el cliente gestiona desde /reservar/[codigo]
+ * junto con su profesional (necesario para reprogramar: horarios) y los
+ * servicios que ofrece (precio y duración personalizados).
+ *
+ * Todo pasa por reservaPublicaService (sin sesión, autoriza el enlace).
+ * Si falla solo el profesional, la reserva se muestra igual: se puede
+ * cancelar, pero no reprogramar (errorProfesional).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { reservaPublicaService } from '@/lib/services';
+import type { Profesional, Reserva, ServicioProfesional, ApiError } from '@/lib/types';
+
+interface UseReservaPorCodigoState {
+  reserva: Reserva | null;
+  profesional: Profesional | null;
+  /** Servicios del profesional (su duración personalizada al reprogramar) */
+  serviciosProfesional: ServicioProfesional[];
+  loading: boolean;
+  /** No se encontró la reserva o el enlace no es válido */
+  error: ApiError | null;
+  /** Se cargó la reserva pero no su profesional (no se puede reprogramar) */
+  errorProfesional: ApiError | null;
+}
+
+interface UseReservaPorCodigoReturn extends UseReservaPorCodigoState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para obtener una reserva por su código de confirmación
+ *
+ * @param codigo - Código de la reserva (de la URL)
+ * @param token - Firma del enlace (opcional, viene como ?token=)
+ */
+export function useReservaPorCodigo(codigo: string, token?: string): UseReservaPorCodigoReturn {
+  const [state, setState] = useState<UseReservaPorCodigoState>({
+    reserva: null,
+    profesional: null,
+    serviciosProfesional: [],
+    loading: true,
+    error: null,
+    errorProfesional: null,
+  });
+
+  const fetchReserva = useCallback(async (cod: string, firma?: string) => {
+    setState((prev) => ({ ...prev, loading: true, error: null, errorProfesional: null }));
+
+    let reserva: Reserva;
+    try {
+      reserva = await reservaPublicaService.getByCodigo(cod, firma);
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reserva: null,
+        profesional: null,
+        serviciosProfesional: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+      return;
+    }
+
+    try {
+      const { profesional, servicios } = await reservaPublicaService.getProfesional(cod, firma);
+      setState((prev) => ({
+        ...prev,
+        reserva,
+        profesional,
+        serviciosProfesional: servicios,
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reserva,
+        profesional: null,
+        serviciosProfesional: [],
+        loading: false,
+        errorProfesional: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReserva(codigo, token);
+  }, [codigo, token, fetchReserva]);
+
+  const refetch = useCallback(async () => {
+    await fetchReserva(codigo, token);
+  }, [codigo, token, fetchReserva]);
+
+  return {
+    ...state,
+    refetch,
+  };
+}
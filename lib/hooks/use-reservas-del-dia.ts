@@ -0,0 +1,69 @@
+/**
+ * ============================================================
+ * HOOK - useReservasDelDia
+ * ============================================================
+ * Reservas de un día (todas las de los profesionales del negocio).
+ * Se usa en el dashboard para ver las citas de hoy.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { reservaService } from '@/lib/services';
+import type { Reserva, ApiError } from '@/lib/types';
+
+interface UseReservasDelDiaState {
+  reservas: Reserva[];
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseReservasDelDiaReturn extends UseReservasDelDiaState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para obtener las reservas de un día, ordenadas por hora
+ *
+ * @param fecha - Día en formato "YYYY-MM-DD"
+ */
+export function useReservasDelDia(fecha: string): UseReservasDelDiaReturn {
+  const [state, setState] = useState<UseReservasDelDiaState>({
+    reservas: [],
+    loading: true,
+    error: null,
+  });
+
+  const fetchReservas = useCallback(async (dia: string) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const data = await reservaService.getByDate(dia);
+      setState((prev) => ({
+        ...prev,
+        reservas: [...data].sort((a, b) => a.fechaHora.localeCompare(b.fechaHora)),
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReservas(fecha);
+  }, [fecha, fetchReservas]);
+
+  const refetch = useCallback(async () => {
+    await fetchReservas(fecha);
+  }, [fecha, fetchReservas]);
+
+  return {
+    ...state,
+    refetch,
+  };
+}
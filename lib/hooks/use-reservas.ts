@@ -0,0 +1,147 @@
+/**
+ * ============================================================
+ * HOOK - useReservas
+ * ============================================================
+ * Maneja el listado de reservas del dashboard:
+ * - Paginación en el backend (ApiPaginatedResponse)
+ * - Filtros: rango de fechas, profesional y estado (ReservaFilters)
+ * - Acciones: crear, editar y cambiar de estado (según TRANSICIONES_RESERVA)
+ *
+ * Después de cada acción se recarga la página actual.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { reservaService } from '@/lib/services';
+import type {
+  Reserva,
+  EstadoReserva,
+  CreateReservaDto,
+  UpdateReservaDto,
+  ReservaFilters,
+  ApiError,
+} from '@/lib/types';
+
+const PAGE_SIZE = 10;
+
+interface UseReservasState {
+  reservas: Reserva[];
+  loading: boolean;
+  error: ApiError | null;
+  filters: ReservaFilters;
+  page: number;          // 0-based (igual que el backend)
+  pageSize: number;
+  totalElements: number;
+  totalPages: number;
+}
+
+interface UseReservasReturn extends UseReservasState {
+  refetch: () => Promise<void>;
+  /** Cambia los filtros y vuelve a la primera página */
+  setFilters: (filters: ReservaFilters) => void;
+  setPage: (page: number) => void;
+  createReserva: (data: CreateReservaDto) => Promise<Reserva>;
+  updateReserva: (id: number, data: UpdateReservaDto) => Promise<Reserva>;
+  /** Cambia el estado (motivo obligatorio para CANCELADA y NO_ASISTIO) */
+  cambiarEstado: (reserva: Reserva, estado: EstadoReserva, motivo?: string) => Promise<Reserva>;
+}
+
+/**
+ * Hook para el módulo de reservas del dashboard
+ *
+ * @param initialFilters - Filtros iniciales (ej: solo las de hoy)
+ */
+export function useReservas(initialFilters: ReservaFilters = {}): UseReservasReturn {
+  const [state, setState] = useState<UseReservasState>({
+    reservas: [],
+    loading: true,
+    error: null,
+    filters: initialFilters,
+    page: 0,
+    pageSize: PAGE_SIZE,
+    totalElements: 0,
+    totalPages: 0,
+  });
+
+  const { filters, page, pageSize } = state;
+
+  const fetchReservas = useCallback(async (
+    filtros: ReservaFilters,
+    pagina: number,
+    size: number
+  ) => {
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const data = await reservaService.getAll({
+        ...filtros,
+        page: pagina,
+        size,
+        sort: 'fechaHora,desc',
+      });
+
+      setState((prev) => ({
+        ...prev,
+        reservas: data.content,
+        totalElements: data.totalElements,
+        totalPages: data.totalPages,
+        loading: false,
+      }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        reservas: [],
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReservas(filters, page, pageSize);
+  }, [filters, page, pageSize, fetchReservas]);
+
+  const refetch = useCallback(async () => {
+    await fetchReservas(filters, page, pageSize);
+  }, [filters, page, pageSize, fetchReservas]);
+
+  const setFilters = useCallback((nuevos: ReservaFilters) => {
+    setState((prev) => ({ ...prev, filters: nuevos, page: 0 }));
+  }, []);
+
+  const setPage = useCallback((nueva: number) => {
+    setState((prev) => ({ ...prev, page: nueva }));
+  }, []);
+
+  // ============================================================
+  // ACCIONES (recargan la página actual)
+  // ============================================================
+  const createReserva = useCallback(async (data: CreateReservaDto) => {
+    const nueva = await reservaService.create(data);
+    await refetch();
+    return nueva;
+  }, [refetch]);
+
+  const updateReserva = useCallback(async (id: number, data: UpdateReservaDto) => {
+    const actualizada = await reservaService.update(id, data);
+    await refetch();
+    return actualizada;
+  }, [refetch]);
+
+  const cambiarEstado = useCallback(async (reserva: Reserva, estado: EstadoReserva, motivo?: string) => {
+    const actualizada = await reservaService.cambiarEstado(reserva, estado, motivo);
+    await refetch();
+    return actualizada;
+  }, [refetch]);
+
+  return {
+    ...state,
+    refetch,
+    setFilters,
+    setPage,
+    createReserva,
+    updateReserva,
+    cambiarEstado,
+  };
+}
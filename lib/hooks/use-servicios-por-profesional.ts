@@ -0,0 +1,75 @@
+/**
+ * ============================================================
+ * HOOK - useServiciosPorProfesional
+ * ============================================================
+ * Servicios que ofrece cada profesional, con su precio y duración
+ * personalizados (GET /profesionales/{id}/servicios por cada uno).
+ *
+ * Se usa donde ya se tiene la lista de profesionales (ej: la tabla de
+ * reservas) y hay que mostrar precios/duraciones con los overrides
+ * (ver getPrecioReserva, personalizarServicios, ofreceServicios).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { profesionalService } from '@/lib/services';
+import type { Profesional, ServiciosPorProfesional, ApiError } from '@/lib/types';
+
+interface UseServiciosPorProfesionalState {
+  serviciosPorProfesional: ServiciosPorProfesional;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseServiciosPorProfesionalReturn extends UseServiciosPorProfesionalState {
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook para obtener los servicios (con overrides) de varios profesionales
+ *
+ * @param profesionales - Profesionales a consultar (vacío = no carga nada)
+ */
+export function useServiciosPorProfesional(profesionales: Profesional[]): UseServiciosPorProfesionalReturn {
+  const [state, setState] = useState<UseServiciosPorProfesionalState>({
+    serviciosPorProfesional: {},
+    loading: false,
+    error: null,
+  });
+
+  const fetchServicios = useCallback(async () => {
+    if (profesionales.length === 0) return;
+
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const serviciosDeCada = await Promise.all(
+        profesionales.map((p) => profesionalService.getServicios(p.id))
+      );
+
+      const serviciosPorProfesional: ServiciosPorProfesional = {};
+      profesionales.forEach((prof, index) => {
+        serviciosPorProfesional[prof.id] = serviciosDeCada[index];
+      });
+
+      setState({ serviciosPorProfesional, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        serviciosPorProfesional: {},
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, [profesionales]);
+
+  useEffect(() => {
+    fetchServicios();
+  }, [fetchServicios]);
+
+  return {
+    ...state,
+    refetch: fetchServicios,
+  };
+}
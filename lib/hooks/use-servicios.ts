@@ -3,13 +3,15 @@
  * HOOK - useServicios
  * ============================================================
  * Hook para manejar el estado de servicios de la barbería.
+ * Lista los servicios activos y permite crearlos, editarlos y
+ * eliminarlos (página /dashboard/servicios).
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
 import { servicioService } from '@/lib/services';
-import type { Servicio, ApiError } from '@/lib/types';
+import type { Servicio, CreateServicioDto, UpdateServicioDto, ApiError } from '@/lib/types';
 
 interface UseServiciosState {
   servicios: Servicio[];
@@ -19,6 +21,9 @@ interface UseServiciosState {
 
 interface UseServiciosReturn extends UseServiciosState {
   refetch: () => Promise<void>;
+  createServicio: (data: CreateServicioDto) => Promise<Servicio>;
+  updateServicio: (id: number, data: UpdateServicioDto) => Promise<Servicio>;
+  deleteServicio: (id: number) => Promise<void>;
 }
 
 /**
@@ -46,6 +51,24 @@ export function useServicios(): UseServiciosReturn {
     }
   }, []);
 
+  // Después de cada acción recargamos la lista
+  const createServicio = useCallback(async (data: CreateServicioDto): Promise<Servicio> => {
+    const nuevo = await servicioService.create(data);
+    await fetchServicios();
+    return nuevo;
+  }, [fetchServicios]);
+
+  const updateServicio = useCallback(async (id: number, data: UpdateServicioDto): Promise<Servicio> => {
+    const actualizado = await servicioService.update(id, data);
+    await fetchServicios();
+    return actualizado;
+  }, [fetchServicios]);
+
+  const deleteServicio = useCallback(async (id: number): Promise<void> => {
+    await servicioService.delete(id);
+    await fetchServicios();
+  }, [fetchServicios]);
+
   useEffect(() => {
     fetchServicios();
   }, [fetchServicios]);
@@ -53,5 +76,8 @@ export function useServicios(): UseServiciosReturn {
   return {
     ...state,
     refetch: fetchServicios,
+    createServicio,
+    updateServicio,
+    deleteServicio,
   };
 }
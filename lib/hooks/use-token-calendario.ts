@@ -0,0 +1,74 @@
+/**
+ * ============================================================
+ * HOOK - useTokenCalendario
+ * ============================================================
+ * Token del calendario suscribible de un profesional
+ * (/dashboard/profesionales → "Calendario"):
+ * - Carga el token de solo lectura del feed .ics
+ * - regenerar() emite uno nuevo y revoca el anterior (si el enlace
+ *   se compartió con quien no debía)
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { profesionalService } from '@/lib/services';
+import type { TokenCalendario, ApiError } from '@/lib/types';
+
+interface UseTokenCalendarioState {
+  tokenCalendario: TokenCalendario | null;
+  loading: boolean;
+  error: ApiError | null;
+}
+
+interface UseTokenCalendarioReturn extends UseTokenCalendarioState {
+  refetch: () => Promise<void>;
+  regenerar: () => Promise<TokenCalendario | null>;
+}
+
+/**
+ * Hook para el token del feed de calendario de un profesional
+ *
+ * @param profesionalId - Profesional a consultar (null = no carga nada)
+ */
+export function useTokenCalendario(profesionalId: number | null): UseTokenCalendarioReturn {
+  const [state, setState] = useState<UseTokenCalendarioState>({
+    tokenCalendario: null,
+    loading: false,
+    error: null,
+  });
+
+  const fetchToken = useCallback(async () => {
+    if (profesionalId == null) return;
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const tokenCalendario = await profesionalService.getTokenCalendario(profesionalId);
+      setState({ tokenCalendario, loading: false, error: null });
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        loading: false,
+        error: err as ApiError,
+      }));
+    }
+  }, [profesionalId]);
+
+  useEffect(() => {
+    setState({ tokenCalendario: null, loading: profesionalId != null, error: null });
+    fetchToken();
+  }, [profesionalId, fetchToken]);
+
+  const regenerar = useCallback(async (): Promise<TokenCalendario | null> => {
+    if (profesionalId == null) return null;
+    const tokenCalendario = await profesionalService.regenerarTokenCalendario(profesionalId);
+    setState((prev) => ({ ...prev, tokenCalendario }));
+    return tokenCalendario;
+  }, [profesionalId]);
+
+  return {
+    ...state,
+    refetch: fetchToken,
+    regenerar,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * ============================================================
+ * SERVICIO - COLA DE ESPERA
+ * ============================================================
+ * Clientes sin reserva (walk-ins) que esperan turno en el local.
+ */
+
+import { httpClient } from './http-client';
+import type {
+  EntradaCola,
+  CreateEntradaColaDto,
+  AtenderEntradaColaResponse,
+} from '@/lib/types';
+
+const ENDPOINT = '/cola-espera';
+
+export const colaService = {
+  /**
+   * Clientes que siguen esperando hoy, en orden de llegada
+   */
+  async getEsperando(): Promise<EntradaCola[]> {
+    const response = await httpClient.get<EntradaCola[]>(ENDPOINT, {
+      params: { estado: 'ESPERANDO' },
+    });
+    return response.data;
+  },
+
+  /**
+   * Agrega un cliente a la cola (la hora de llegada la pone el backend)
+   */
+  async create(data: CreateEntradaColaDto): Promise<EntradaCola> {
+    const response = await httpClient.post<EntradaCola>(ENDPOINT, data);
+    return response.data;
+  },
+
+  /**
+   * El cliente se fue sin ser atendido
+   */
+  async retirar(id: number): Promise<EntradaCola> {
+    const response = await httpClient.patch<EntradaCola>(`${ENDPOINT}/${id}/estado`, {
+      estado: 'RETIRADO',
+    });
+    return response.data;
+  },
+
+  /**
+   * Atiende al cliente: el backend crea la Reserva (ahora, EN_PROGRESO)
+   * con sus servicios y marca la entrada como ATENDIDO
+   */
+  async atender(id: number, profesionalId: number): Promise<AtenderEntradaColaResponse> {
+    const response = await httpClient.post<AtenderEntradaColaResponse>(
+      `${ENDPOINT}/${id}/atender`,
+      { profesionalId }
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,34 @@
+/**
+ * ============================================================
+ * SERVICIO - COMISIONES
+ * ============================================================
+ * Reglas de comisión de los profesionales. El cálculo sobre las
+ * reservas completadas se hace en lib/utils/comisiones.ts.
+ *
+ * GET /comisiones/reglas                    - Reglas de todos los profesionales
+ * PUT /comisiones/reglas/profesional/{id}   - Reemplaza las reglas de un profesional
+ */
+
+import { httpClient } from './http-client';
+import type { ReglaComision, ReglaComisionDto } from '@/lib/types';
+
+const ENDPOINT = '/comisiones/reglas';
+
+export const comisionService = {
+  /**
+   * Reglas de comisión del negocio (de todos los profesionales)
+   */
+  async getReglas(): Promise<ReglaComision[]> {
+    const response = await httpClient.get<ReglaComision[]>(ENDPOINT);
+    return response.data;
+  },
+
+  /**
+   * Reemplaza todas las reglas del profesional.
+   * Las que no vengan en la lista se eliminan.
+   */
+  async setReglas(profesionalId: number, reglas: ReglaComisionDto[]): Promise<ReglaComision[]> {
+    const response = await httpClient.put<ReglaComision[]>(`${ENDPOINT}/profesional/${profesionalId}`, reglas);
+    return response.data;
+  },
+};
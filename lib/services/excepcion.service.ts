@@ -0,0 +1,63 @@
+/**
+ * ============================================================
+ * SERVICIO - EXCEPCIONES DE HORARIO
+ * ============================================================
+ * Días libres, vacaciones, horas libres y feriados.
+ * La web pública también las lee para no ofrecer esas horas.
+ *
+ * Las ausencias que solicita un profesional (Mi agenda) llegan aquí
+ * como PENDIENTE y se aprueban o rechazan con cambiarEstado.
+ */
+
+import { httpClient } from './http-client';
+import type {
+  EstadoExcepcion,
+  ExcepcionHorario,
+  ExcepcionHorarioParams,
+  CreateExcepcionHorarioDto,
+  UpdateExcepcionHorarioDto,
+} from '@/lib/types';
+
+const ENDPOINT = '/excepciones-horario';
+
+export const excepcionService = {
+  /**
+   * Excepciones que tocan el rango [desde, hasta] (del negocio y de
+   * todos los profesionales, salvo que se filtre por profesionalId)
+   */
+  async getByRango(params: ExcepcionHorarioParams): Promise<ExcepcionHorario[]> {
+    const response = await httpClient.get<ExcepcionHorario[]>(ENDPOINT, { params });
+    return response.data;
+  },
+
+  /**
+   * Crea una excepción
+   */
+  async create(data: CreateExcepcionHorarioDto): Promise<ExcepcionHorario> {
+    const response = await httpClient.post<ExcepcionHorario>(ENDPOINT, data);
+    return response.data;
+  },
+
+  /**
+   * Actualiza una excepción
+   */
+  async update(id: number, data: UpdateExcepcionHorarioDto): Promise<ExcepcionHorario> {
+    const response = await httpClient.put<ExcepcionHorario>(`${ENDPOINT}/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Elimina una excepción
+   */
+  async delete(id: number): Promise<void> {
+    await httpClient.delete(`${ENDPOINT}/${id}`);
+  },
+
+  /**
+   * Aprueba o rechaza una ausencia solicitada por el profesional
+   */
+  async cambiarEstado(id: number, estado: Exclude<EstadoExcepcion, 'PENDIENTE'>): Promise<ExcepcionHorario> {
+    const response = await httpClient.patch<ExcepcionHorario>(`${ENDPOINT}/${id}/estado`, { estado });
+    return response.data;
+  },
+};
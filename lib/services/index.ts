@@ -11,8 +11,17 @@ export { httpClient } from './http-client';
 export { authService } from './auth.service';
 export { profesionalService } from './profesional.service';
 export { servicioService } from './servicio.service';
+export { paqueteService } from './paquete.service';
 export { reservaService } from './reserva.service';
+export { reservaPublicaService } from './reserva-publica.service';
 export { categoriaService } from './categoria.service';
 export { clienteService } from './cliente.service';
+export { colaService } from './cola.service';
+export { excepcionService } from './excepcion.service';
+export { negocioService } from './negocio.service';
+export { miAgendaService } from './mi-agenda.service';
+export { comisionService } from './comision.service';
 
 
+export { pantallaService } from './pantalla.service';
+export { uploadService } from './upload.service';
@@ -0,0 +1,92 @@
+/**
+ * ============================================================
+ * SERVICIO - MI AGENDA (portal del profesional)
+ * ============================================================
+ * Lo que ve un profesional que entra con su propio usuario.
+ * El backend resuelve el Profesional vinculado al usuarioId del
+ * token, así que estos endpoints nunca devuelven datos de otros.
+ *
+ * GET    /mi-agenda/profesional          - Profesional vinculado al usuario
+ * GET    /mi-agenda/reservas             - Sus reservas entre desde y hasta
+ * PATCH  /mi-agenda/reservas/{id}/estado - Iniciar / completar una cita suya
+ * GET    /mi-agenda/ausencias            - Sus ausencias (aprobadas y solicitadas)
+ * POST   /mi-agenda/ausencias            - Solicitar una ausencia (queda PENDIENTE)
+ * DELETE /mi-agenda/ausencias/{id}       - Retirar una solicitud pendiente
+ */
+
+import { httpClient } from './http-client';
+import { validarTransicion } from '@/lib/utils/estado-reserva';
+import type {
+  Profesional,
+  Reserva,
+  ExcepcionHorario,
+  SolicitudAusenciaDto,
+  CambiarEstadoReservaDto,
+  EstadoReservaProfesional,
+  ApiResponse,
+} from '@/lib/types';
+
+const ENDPOINT = '/mi-agenda';
+
+export const miAgendaService = {
+  /**
+   * Profesional vinculado al usuario (404 si el usuario no es profesional)
+   */
+  async getProfesional(): Promise<Profesional> {
+    const response = await httpClient.get<ApiResponse<Profesional>>(`${ENDPOINT}/profesional`);
+    return response.data.data;
+  },
+
+  /**
+   * Reservas del profesional entre dos fechas ("YYYY-MM-DD", inclusive)
+   */
+  async getReservas(desde: string, hasta: string): Promise<Reserva[]> {
+    const response = await httpClient.get<Reserva[]>(`${ENDPOINT}/reservas`, {
+      params: { desde, hasta },
+    });
+    return response.data;
+  },
+
+  /**
+   * Marca el inicio o el fin de la atención de una reserva suya.
+   * La transición se valida antes de llamar al backend.
+   *
+   * @throws ApiError 409 si la transición no está permitida
+   */
+  async cambiarEstadoReserva(
+    reserva: Pick<Reserva, 'id' | 'estado'>,
+    estado: EstadoReservaProfesional
+  ): Promise<Reserva> {
+    const error = validarTransicion(reserva.estado, estado);
+    if (error) throw error;
+
+    const body: CambiarEstadoReservaDto = { estado };
+    const response = await httpClient.patch<Reserva>(`${ENDPOINT}/reservas/${reserva.id}/estado`, body);
+    return response.data;
+  },
+
+  /**
+   * Ausencias del profesional que tocan el rango [desde, hasta]
+   */
+  async getAusencias(desde: string, hasta: string): Promise<ExcepcionHorario[]> {
+    const response = await httpClient.get<ExcepcionHorario[]>(`${ENDPOINT}/ausencias`, {
+      params: { desde, hasta },
+    });
+    return response.data;
+  },
+
+  /**
+   * Solicita una ausencia: no descuenta horas hasta que se aprueba
+   */
+  async solicitarAusencia(data: SolicitudAusenciaDto): Promise<ExcepcionHorario> {
+    const response = await httpClient.post<ExcepcionHorario>(`${ENDPOINT}/ausencias`, data);
+    return response.data;
+  },
+
+  /**
+   * Retira una solicitud que aún está pendiente
+   */
+  async retirarSolicitud(id: number): Promise<void> {
+    await httpClient.delete(`${ENDPOINT}/ausencias/${id}`);
+  },
+};
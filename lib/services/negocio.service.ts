@@ -0,0 +1,75 @@
+/**
+ * ============================================================
+ * SERVICIO - NEGOCIO (configuración)
+ * ============================================================
+ * Datos y horario de atención del negocio del usuario (el backend
+ * lo toma del negocioId del token).
+ *
+ * GET /negocio          - Datos del negocio
+ * GET /negocio/publico  - Datos públicos (web de reservas, sin login)
+ * GET /negocio/publico/horarios - Horario de atención (web de reservas, sin login)
+ * PUT /negocio          - Actualizar datos
+ * GET /negocio/horarios - Horario de atención
+ * PUT /negocio/horarios - Reemplaza el horario de atención completo
+ */
+
+import { httpClient } from './http-client';
+import { negocioConfig } from '@/lib/config';
+import type { Negocio, NegocioPublico, UpdateNegocioDto, HorarioDto } from '@/lib/types';
+
+const ENDPOINT = '/negocio';
+
+export const negocioService = {
+  /**
+   * Obtiene los datos del negocio
+   */
+  async get(): Promise<Negocio> {
+    const response = await httpClient.get<Negocio>(ENDPOINT);
+    return response.data;
+  },
+
+  /**
+   * Datos públicos del negocio (dirección, ventana de cancelación...)
+   * NO requiere autenticación
+   */
+  async getPublico(): Promise<NegocioPublico> {
+    const response = await httpClient.get<NegocioPublico>(`${ENDPOINT}/publico`);
+    return response.data;
+  },
+
+  /**
+   * Actualiza los datos del negocio
+   */
+  async update(data: UpdateNegocioDto): Promise<Negocio> {
+    const response = await httpClient.put<Negocio>(ENDPOINT, data);
+    return response.data;
+  },
+
+  /**
+   * Horario de atención (lo heredan los profesionales con
+   * usaHorarioNegocio). Si el negocio aún no guardó el suyo,
+   * devuelve el horario por defecto de negocioConfig.
+   */
+  async getHorario(): Promise<HorarioDto[]> {
+    const response = await httpClient.get<HorarioDto[]>(`${ENDPOINT}/horarios`);
+    return response.data.length > 0 ? response.data : negocioConfig.horarioNegocio;
+  },
+
+  /**
+   * Horario de atención para la web de reservas (sin login). Mismo
+   * valor por defecto que getHorario; en el dashboard usar getHorario.
+   * NO requiere autenticación
+   */
+  async getHorarioPublico(): Promise<HorarioDto[]> {
+    const response = await httpClient.get<HorarioDto[]>(`${ENDPOINT}/publico/horarios`);
+    return response.data.length > 0 ? response.data : negocioConfig.horarioNegocio;
+  },
+
+  /**
+   * Reemplaza el horario de atención completo
+   */
+  async setHorario(horarios: HorarioDto[]): Promise<HorarioDto[]> {
+    const response = await httpClient.put<HorarioDto[]>(`${ENDPOINT}/horarios`, horarios);
+    return response.data;
+  },
+};
@@ -0,0 +1,50 @@
+/**
+ * ============================================================
+ * SERVICIO - PANTALLA DE SALA DE ESPERA (TV)
+ * ============================================================
+ * Lee /api/public/pantalla (ruta de Next, mismo origen).
+ *
+ * NO usa httpClient: no llama al backend sino a nuestra propia API,
+ * y un 401 (clave inválida) debe mostrarse en la TV en lugar de
+ * redirigir a /login.
+ */
+
+import type { ApiError, PantallaSnapshot } from '@/lib/types';
+
+const ENDPOINT = '/api/public/pantalla';
+
+export const pantallaService = {
+  /**
+   * Estado actual de la pantalla para la clave dada
+   */
+  async get(clave: string): Promise<PantallaSnapshot> {
+    let response: Response;
+    try {
+      response = await fetch(`${ENDPOINT}?key=${encodeURIComponent(clave)}`, {
+        cache: 'no-store',
+      });
+    } catch {
+      const networkError: ApiError = {
+        message: 'Error de conexión. Verifica tu internet.',
+        status: 0,
+      };
+      throw networkError;
+    }
+
+    if (!response.ok) {
+      // Un 5xx o un proxy puede responder HTML o vacío
+      let data: Partial<ApiError> | null = null;
+      try {
+        data = await response.json();
+      } catch {
+        data = null;
+      }
+      const apiError: ApiError = {
+        message: data?.message || 'No se pudo cargar la pantalla',
+        status: response.status,
+      };
+      throw apiError;
+    }
+    return (await response.json()) as PantallaSnapshot;
+  },
+};
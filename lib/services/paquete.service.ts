@@ -0,0 +1,56 @@
+/**
+ * ============================================================
+ * SERVICIO - PAQUETES (combos de servicios)
+ * ============================================================
+ * Operaciones para los paquetes del negocio.
+ */
+
+import { httpClient } from './http-client';
+import type {
+  Paquete,
+  CreatePaqueteDto,
+  UpdatePaqueteDto,
+} from '@/lib/types';
+
+const ENDPOINT = '/paquetes';
+
+export const paqueteService = {
+  /**
+   * Obtiene todos los paquetes activos (sin paginación)
+   */
+  async getAllActive(): Promise<Paquete[]> {
+    const response = await httpClient.get<Paquete[]>(`${ENDPOINT}/activos`);
+    return response.data;
+  },
+
+  /**
+   * Obtiene un paquete por ID
+   */
+  async getById(id: number): Promise<Paquete> {
+    const response = await httpClient.get<Paquete>(`${ENDPOINT}/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Crea un nuevo paquete
+   */
+  async create(data: CreatePaqueteDto): Promise<Paquete> {
+    const response = await httpClient.post<Paquete>(ENDPOINT, data);
+    return response.data;
+  },
+
+  /**
+   * Actualiza un paquete existente
+   */
+  async update(id: number, data: UpdatePaqueteDto): Promise<Paquete> {
+    const response = await httpClient.put<Paquete>(`${ENDPOINT}/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Elimina un paquete
+   */
+  async delete(id: number): Promise<void> {
+    await httpClient.delete(`${ENDPOINT}/${id}`);
+  },
+};
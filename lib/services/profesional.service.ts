@@ -12,16 +12,26 @@
  * DELETE /profesionales/{id}         - Eliminar (soft delete)
  * GET    /profesionales/{id}/horarios - Horarios del profesional
  * POST   /profesionales/{id}/horarios - Agregar horario
+ * PUT    /profesionales/{id}/horarios/{horarioId} - Actualizar horario
+ * DELETE /profesionales/{id}/horarios/{horarioId} - Eliminar horario
  * GET    /profesionales/{id}/servicios - Servicios que ofrece
+ * PUT    /profesionales/{id}/servicios - Reemplaza los servicios que ofrece
+ * DELETE /profesionales/{id}/servicios/{servicioId} - Deja de ofrecer un servicio
+ * GET    /profesionales/{id}/calendario/token - Token del feed .ics (lo crea si no existe)
+ * POST   /profesionales/{id}/calendario/token - Genera uno nuevo (revoca el anterior)
  */
 
 import { httpClient } from './http-client';
+import { ofreceServicios } from '@/lib/utils/reservas';
 import type {
   Profesional,
   CreateProfesionalDto,
   UpdateProfesionalDto,
   HorarioProfesional,
   HorarioDto,
+  ServicioProfesional,
+  AsignacionServicioDto,
+  TokenCalendario,
   ApiResponse,
 } from '@/lib/types';
 
@@ -101,6 +111,24 @@ export const profesionalService = {
     return response.data.data;
   },
 
+  /**
+   * Actualiza un turno del horario (día, horas o activo)
+   */
+  async updateHorario(profesionalId: number, horarioId: number, data: HorarioDto): Promise<HorarioProfesional> {
+    const response = await httpClient.put<ApiResponse<HorarioProfesional>>(
+      `${ENDPOINT}/${profesionalId}/horarios/${horarioId}`,
+      data
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Elimina un turno del horario
+   */
+  async deleteHorario(profesionalId: number, horarioId: number): Promise<void> {
+    await httpClient.delete(`${ENDPOINT}/${profesionalId}/horarios/${horarioId}`);
+  },
+
   // ============================================================
   // SERVICIOS QUE OFRECE
   // ============================================================
@@ -108,15 +136,74 @@ export const profesionalService = {
   /**
    * Obtiene los servicios que ofrece un profesional
    */
-  async getServicios(profesionalId: number): Promise<unknown[]> {
-    const response = await httpClient.get<ApiResponse<unknown[]>>(`${ENDPOINT}/${profesionalId}/servicios`);
+  async getServicios(profesionalId: number): Promise<ServicioProfesional[]> {
+    const response = await httpClient.get<ApiResponse<ServicioProfesional[]>>(`${ENDPOINT}/${profesionalId}/servicios`);
     return response.data.data || [];
   },
 
+  /**
+   * Indica si un profesional ofrece un servicio
+   */
+  async ofreceServicio(profesionalId: number, servicioId: number): Promise<boolean> {
+    return this.ofreceServicios(profesionalId, [servicioId]);
+  },
+
+  /**
+   * Verifica si un profesional ofrece TODOS los servicios indicados
+   * (reservas con varios servicios: los atiende la misma persona)
+   */
+  async ofreceServicios(profesionalId: number, servicioIds: number[]): Promise<boolean> {
+    return ofreceServicios(await this.getServicios(profesionalId), servicioIds);
+  },
+
   /**
    * Asigna un servicio a un profesional
    */
   async addServicio(profesionalId: number, servicioId: number): Promise<void> {
     await httpClient.post(`${ENDPOINT}/${profesionalId}/servicios`, { servicioId });
   },
+
+  /**
+   * Quita un servicio a un profesional
+   */
+  async removeServicio(profesionalId: number, servicioId: number): Promise<void> {
+    await httpClient.delete(`${ENDPOINT}/${profesionalId}/servicios/${servicioId}`);
+  },
+
+  /**
+   * Reemplaza todos los servicios del profesional (con sus precios y
+   * duraciones personalizados). Los que no vengan en la lista se quitan.
+   */
+  async setServicios(profesionalId: number, asignaciones: AsignacionServicioDto[]): Promise<ServicioProfesional[]> {
+    const response = await httpClient.put<ApiResponse<ServicioProfesional[]>>(
+      `${ENDPOINT}/${profesionalId}/servicios`,
+      asignaciones
+    );
+    return response.data.data || [];
+  },
+
+  // ============================================================
+  // CALENDARIO SUSCRIBIBLE (.ics)
+  // ============================================================
+
+  /**
+   * Obtiene el token de solo lectura del feed de calendario
+   * (el backend lo genera la primera vez)
+   */
+  async getTokenCalendario(profesionalId: number): Promise<TokenCalendario> {
+    const response = await httpClient.get<ApiResponse<TokenCalendario>>(
+      `${ENDPOINT}/${profesionalId}/calendario/token`
+    );
+    return response.data.data;
+  },
+
+  /**
+   * Genera un token nuevo: las suscripciones con el anterior dejan de funcionar
+   */
+  async regenerarTokenCalendario(profesionalId: number): Promise<TokenCalendario> {
+    const response = await httpClient.post<ApiResponse<TokenCalendario>>(
+      `${ENDPOINT}/${profesionalId}/calendario/token`
+    );
+    return response.data.data;
+  },
 };
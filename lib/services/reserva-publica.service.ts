@@ -0,0 +1,131 @@
+/**
+ * ============================================================
+ * SERVICIO - RESERVA PÚBLICA (gestión por código)
+ * ============================================================
+ * El cliente consulta, cancela o reprograma su cita sin login desde
+ * /reservar/[codigo]. Lo que autoriza cada llamada es el código de
+ * confirmación más la firma del enlace (?token=), no una sesión:
+ *
+ * GET   /reservas/codigo/{codigo}?token=...        - Ver la reserva
+ * PATCH /reservas/codigo/{codigo}/estado?token=... - Cancelar
+ * PATCH /reservas/codigo/{codigo}?token=...        - Reprogramar
+ * GET   /reservas/codigo/{codigo}/profesional?token=... - Su profesional y servicios
+ *
+ * NO usa httpClient: un 401/403 aquí significa "enlace inválido o
+ * expirado" y debe mostrarse en la página, no borrar la sesión ni
+ * redirigir a /login.
+ */
+
+import { envConfig } from '@/lib/config';
+import { validarTransicion } from '@/lib/utils/estado-reserva';
+import type {
+  ApiError,
+  CambiarEstadoReservaDto,
+  ProfesionalReservaPublica,
+  ReprogramarReservaDto,
+  Reserva,
+} from '@/lib/types';
+
+const ENDPOINT = '/reservas/codigo';
+
+/**
+ * Llama al backend con fetch y convierte los errores en ApiError
+ */
+async function request<T>(
+  codigo: string,
+  token: string | undefined,
+  path = '',
+  init?: RequestInit
+): Promise<T> {
+  const url = new URL(`${envConfig.apiUrl}${ENDPOINT}/${encodeURIComponent(codigo)}${path}`);
+  if (token) url.searchParams.set('token', token);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store',
+    });
+  } catch {
+    const networkError: ApiError = {
+      message: 'Error de conexión. Verifica tu internet.',
+      status: 0,
+    };
+    throw networkError;
+  }
+
+  if (!response.ok) {
+    // El cuerpo del error puede no ser JSON (proxy, 5xx)
+    let data: Partial<ApiError> | null = null;
+    try {
+      data = await response.json();
+    } catch {
+      data = null;
+    }
+    const apiError: ApiError = {
+      message: data?.message || data?.error || 'No pudimos procesar tu solicitud',
+      error: data?.error,
+      status: response.status,
+      errors: data?.errors,
+    };
+    throw apiError;
+  }
+
+  return (await response.json()) as T;
+}
+
+export const reservaPublicaService = {
+  /**
+   * Obtiene una reserva por su código de confirmación
+   *
+   * @param codigo - Código que recibe el cliente al reservar
+   * @param token - Firma del enlace enviado por email/WhatsApp (opcional)
+   * @throws ApiError 401/403 si el enlace no es válido o expiró
+   */
+  async getByCodigo(codigo: string, token?: string): Promise<Reserva> {
+    return request<Reserva>(codigo, token);
+  },
+
+  /**
+   * Obtiene el profesional de la reserva (horario) y los servicios que
+   * ofrece (duración personalizada), para reprogramar sin sesión
+   */
+  async getProfesional(codigo: string, token?: string): Promise<ProfesionalReservaPublica> {
+    return request<ProfesionalReservaPublica>(codigo, token, '/profesional');
+  },
+
+  /**
+   * Cancela la reserva (el backend valida la ventana de cancelación)
+   *
+   * @param reserva - Reserva con su estado ACTUAL (para validar la transición)
+   */
+  async cancelar(
+    reserva: Pick<Reserva, 'estado'>,
+    codigo: string,
+    token: string | undefined,
+    motivo: string
+  ): Promise<Reserva> {
+    const error = validarTransicion(reserva.estado, 'CANCELADA', motivo);
+    if (error) throw error;
+
+    const body: CambiarEstadoReservaDto = { estado: 'CANCELADA', motivo: motivo.trim() };
+    return request<Reserva>(codigo, token, '/estado', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+  },
+
+  /**
+   * Mueve la reserva a otro horario del mismo profesional
+   *
+   * @throws ApiError 409 si el horario ya fue tomado
+   */
+  async reprogramar(codigo: string, token: string | undefined, fechaHora: string): Promise<Reserva> {
+    const body: ReprogramarReservaDto = { fechaHora };
+    return request<Reserva>(codigo, token, '', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+    });
+  },
+};
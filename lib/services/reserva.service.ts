@@ -3,13 +3,20 @@
  * SERVICIO - RESERVAS
  * ============================================================
  * Operaciones para gestión de citas/reservas.
+ *
+ * Los cambios de estado pasan por la máquina de estados de
+ * lib/utils/estado-reserva.ts: una transición no permitida o sin
+ * motivo se rechaza antes de llamar al backend.
  */
 
 import { httpClient } from './http-client';
+import { validarTransicion } from '@/lib/utils/estado-reserva';
 import type {
   Reserva,
+  EstadoReserva,
   CreateReservaDto,
   UpdateReservaDto,
+  CambiarEstadoReservaDto,
   ReservaFilters,
   ApiPaginatedResponse,
   PaginationParams,
@@ -65,25 +72,57 @@ export const reservaService = {
 
   /**
    * Cambia el estado de una reserva
+   *
+   * @param reserva - Reserva con su estado ACTUAL (para validar la transición)
+   * @param estado - Estado destino
+   * @param motivo - Obligatorio para CANCELADA y NO_ASISTIO
+   * @throws ApiError 409 si la transición no está permitida, 422 si falta el motivo
    */
-  async cambiarEstado(id: number, estado: string): Promise<Reserva> {
-    const response = await httpClient.patch<Reserva>(`${ENDPOINT}/${id}/estado`, {
-      estado,
-    });
+  async cambiarEstado(
+    reserva: Pick<Reserva, 'id' | 'estado'>,
+    estado: EstadoReserva,
+    motivo?: string
+  ): Promise<Reserva> {
+    const error = validarTransicion(reserva.estado, estado, motivo);
+    if (error) throw error;
+
+    const body: CambiarEstadoReservaDto = { estado, motivo: motivo?.trim() || undefined };
+    const response = await httpClient.patch<Reserva>(`${ENDPOINT}/${reserva.id}/estado`, body);
     return response.data;
   },
 
   /**
-   * Cancela una reserva
+   * Confirma una reserva pendiente
+   */
+  async confirmar(reserva: Pick<Reserva, 'id' | 'estado'>): Promise<Reserva> {
+    return this.cambiarEstado(reserva, 'CONFIRMADA');
+  },
+
+  /**
+   * Marca el inicio de la atención
+   */
+  async iniciar(reserva: Pick<Reserva, 'id' | 'estado'>): Promise<Reserva> {
+    return this.cambiarEstado(reserva, 'EN_PROGRESO');
+  },
+
+  /**
+   * Marca la atención como terminada
+   */
+  async completar(reserva: Pick<Reserva, 'id' | 'estado'>): Promise<Reserva> {
+    return this.cambiarEstado(reserva, 'COMPLETADA');
+  },
+
+  /**
+   * Cancela una reserva (requiere motivo)
    */
-  async cancelar(id: number): Promise<Reserva> {
-    return this.cambiarEstado(id, 'CANCELADA');
+  async cancelar(reserva: Pick<Reserva, 'id' | 'estado'>, motivo: string): Promise<Reserva> {
+    return this.cambiarEstado(reserva, 'CANCELADA', motivo);
   },
 
   /**
-   * Confirma una reserva
+   * Marca que el cliente no se presentó (requiere motivo)
    */
-  async confirmar(id: number): Promise<Reserva> {
-    return this.cambiarEstado(id, 'CONFIRMADA');
+  async marcarNoAsistio(reserva: Pick<Reserva, 'id' | 'estado'>, motivo: string): Promise<Reserva> {
+    return this.cambiarEstado(reserva, 'NO_ASISTIO', motivo);
   },
 };
@@ -0,0 +1,35 @@
+/**
+ * ============================================================
+ * SERVICIO - SUBIDA DE IMÁGENES
+ * ============================================================
+ * Sube imágenes (multipart/form-data) y devuelve su URL pública.
+ * La base es envConfig.uploadsUrl: el backend, o en desarrollo
+ * el reemplazo local de app/api/uploads.
+ */
+
+import { httpClient } from './http-client';
+import { envConfig } from '@/lib/config';
+import type { ArchivoSubido, CarpetaUpload } from '@/lib/types';
+
+const ENDPOINT = '/uploads';
+
+export const uploadService = {
+  /**
+   * Sube una imagen a la carpeta indicada
+   *
+   * @param archivo - Imagen ya comprimida (ver comprimirImagen)
+   * @param nombre - Nombre del archivo (el Blob comprimido no lo tiene)
+   */
+  async subirImagen(archivo: Blob, carpeta: CarpetaUpload, nombre: string): Promise<ArchivoSubido> {
+    const formData = new FormData();
+    formData.append('archivo', archivo, nombre);
+    formData.append('carpeta', carpeta);
+
+    const response = await httpClient.post<ArchivoSubido>(ENDPOINT, formData, {
+      baseURL: envConfig.uploadsUrl,
+      // Axios completa el boundary del multipart
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  },
+};
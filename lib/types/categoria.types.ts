@@ -23,4 +23,12 @@ export interface CategoriaResponse{
     negocioId: number;
     regEstado: RegEstado;
     estado : boolean;
-}
\ No newline at end of file
+}
+
+/**
+ * Categoría resumida (la que trae cada Servicio)
+ */
+export interface CategoriaResumen {
+  id: number;
+  nombre: string;
+}
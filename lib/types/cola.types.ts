@@ -0,0 +1,53 @@
+/**
+ * ============================================================
+ * TIPOS - COLA DE ESPERA (walk-ins)
+ * ============================================================
+ * Clientes que llegan sin reserva y esperan turno en el local.
+ * Al atenderlos, la entrada se convierte en una Reserva.
+ */
+
+import type { ProfesionalResumen } from './profesional.types';
+import type { Reserva } from './reserva.types';
+import type { ServicioResumen } from './servicio.types';
+
+/**
+ * Estados de una entrada de la cola
+ */
+export type EstadoEntradaCola =
+  | 'ESPERANDO'  // En la cola
+  | 'ATENDIDO'   // Se convirtió en reserva
+  | 'RETIRADO';  // Se fue sin ser atendido
+
+/**
+ * Cliente en la cola de espera
+ */
+export interface EntradaCola {
+  id: number;
+  clienteNombre: string;
+  clienteTelefono?: string;
+  servicios: ServicioResumen[];
+  /** Profesional que pidió el cliente (null = el primero libre) */
+  profesionalPreferido?: ProfesionalResumen | null;
+  horaLlegada: string; // "2024-01-20T10:05:00"
+  estado: EstadoEntradaCola;
+  /** Reserva creada al atenderlo */
+  reservaId?: number;
+}
+
+/**
+ * DTO para agregar un cliente a la cola
+ */
+export interface CreateEntradaColaDto {
+  clienteNombre: string;
+  clienteTelefono?: string;
+  servicioIds: number[];
+  profesionalPreferidoId?: number;
+}
+
+/**
+ * Respuesta al atender una entrada: la reserva creada (EN_PROGRESO)
+ */
+export interface AtenderEntradaColaResponse {
+  entrada: EntradaCola;
+  reserva: Reserva;
+}
@@ -0,0 +1,77 @@
+/**
+ * ============================================================
+ * TIPOS - COMISIONES DE LOS PROFESIONALES
+ * ============================================================
+ * Lo que el negocio le paga a cada profesional por los servicios
+ * que atiende. Cada profesional tiene sus reglas:
+ * - Una regla general (servicioId null) para todos sus servicios
+ * - Reglas por servicio que reemplazan a la general
+ *
+ * La comisión se calcula sobre las reservas COMPLETADAS
+ * (ver lib/utils/comisiones.ts).
+ */
+
+/**
+ * - PORCENTAJE: valor = % del precio cobrado por el servicio
+ * - MONTO_FIJO: valor = soles por cada servicio atendido
+ */
+export type TipoComision = 'PORCENTAJE' | 'MONTO_FIJO';
+
+/**
+ * Regla de comisión de un profesional
+ */
+export interface ReglaComision {
+  id: number;
+  profesionalId: number;
+  /** null = regla general (servicios sin regla propia) */
+  servicioId: number | null;
+  tipo: TipoComision;
+  valor: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * DTO de una regla (se guardan todas las del profesional juntas)
+ */
+export interface ReglaComisionDto {
+  servicioId: number | null;
+  tipo: TipoComision;
+  valor: number;
+}
+
+/**
+ * Comisión de un servicio atendido (una fila del detalle)
+ */
+export interface LineaComision {
+  reservaId: number;
+  fechaHora: string;
+  profesionalId: number;
+  profesionalNombre: string;
+  clienteNombre: string;
+  servicioId: number;
+  servicioNombre: string;
+  /** Lo cobrado por el servicio (en un paquete, su parte del precio) */
+  precio: number;
+  /** true = la reserva no trae su precio (precioReserva): se usó el actual */
+  precioEstimado: boolean;
+  /** null = el profesional no tiene regla para este servicio */
+  regla: ReglaComisionDto | null;
+  comision: number;
+}
+
+/**
+ * Total a pagar a un profesional en el período
+ */
+export interface ResumenComisionProfesional {
+  profesionalId: number;
+  profesionalNombre: string;
+  /** Reservas completadas */
+  citas: number;
+  /** Servicios atendidos (una reserva puede tener varios) */
+  servicios: number;
+  totalVendido: number;
+  totalComision: number;
+  /** Servicios que no tienen regla (comisión 0) */
+  serviciosSinRegla: number;
+}
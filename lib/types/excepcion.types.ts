@@ -0,0 +1,79 @@
+/**
+ * ============================================================
+ * TIPOS - EXCEPCIONES DE HORARIO
+ * ============================================================
+ * Cambios al horario semanal en fechas concretas:
+ * - "Juan no viene el martes 12" / vacaciones del 1 al 15
+ * - "Juan sale de 15:00 a 17:00 el viernes" (horas libres)
+ * - "Cerrado el 28 de julio" (feriado, todo el negocio)
+ *
+ * Sin profesionalId la excepción es de todo el negocio.
+ *
+ * Un profesional también puede SOLICITAR una ausencia desde Mi agenda:
+ * queda PENDIENTE y no descuenta horas hasta que se aprueba.
+ */
+
+/**
+ * - DIA_LIBRE: no atiende en todo el día (o rango de días)
+ * - HORAS_LIBRES: no atiende entre horaInicio y horaFin
+ * - FERIADO: el negocio cierra (solo aplica a todo el negocio)
+ */
+export type TipoExcepcion = 'DIA_LIBRE' | 'HORAS_LIBRES' | 'FERIADO';
+
+/**
+ * Estado de una ausencia solicitada por el profesional.
+ * Las que registra el negocio no tienen estado (ya están aprobadas).
+ */
+export type EstadoExcepcion = 'PENDIENTE' | 'APROBADA' | 'RECHAZADA';
+
+/**
+ * Excepción al horario semanal
+ */
+export interface ExcepcionHorario {
+  id: number;
+  /** null = todo el negocio */
+  profesionalId: number | null;
+  tipo: TipoExcepcion;
+  fechaInicio: string; // "2024-07-28"
+  fechaFin: string;    // igual a fechaInicio si es un solo día
+  /** Solo en HORAS_LIBRES */
+  horaInicio?: string | null;
+  horaFin?: string | null;
+  motivo?: string;
+  /** Solo en las solicitadas desde Mi agenda (sin valor = aprobada) */
+  estado?: EstadoExcepcion;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * DTO para crear una excepción
+ */
+export interface CreateExcepcionHorarioDto {
+  profesionalId: number | null;
+  tipo: TipoExcepcion;
+  fechaInicio: string;
+  fechaFin: string;
+  horaInicio?: string | null;
+  horaFin?: string | null;
+  motivo?: string;
+}
+
+/**
+ * DTO para actualizar una excepción
+ */
+export type UpdateExcepcionHorarioDto = Partial<CreateExcepcionHorarioDto>;
+
+/**
+ * DTO para que el profesional solicite una ausencia (siempre suya)
+ */
+export type SolicitudAusenciaDto = Omit<CreateExcepcionHorarioDto, 'profesionalId'>;
+
+/**
+ * Filtro por rango de fechas (GET /excepciones-horario)
+ */
+export interface ExcepcionHorarioParams {
+  desde: string;
+  hasta: string;
+  profesionalId?: number;
+}
@@ -19,7 +19,13 @@ export * from './negocio.types';
 export * from './profesional.types';  // ⭐ EJEMPLO COMPLETO
 export * from './auth.types';
 export * from './servicio.types';
+export * from './paquete.types';
 export * from './reserva.types';
 export * from './categoria.types';
 export * from './clientes.types';
+export * from './cola.types';
 
+export * from './pantalla.types';
+export * from './upload.types';
+export * from './excepcion.types';
+export * from './comision.types';
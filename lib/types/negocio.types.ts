@@ -20,6 +20,8 @@ export interface Negocio extends AuditFields {
   logo?: string;
   razonSocial?: string;
   ruc?: string;
+  /** Horas mínimas de anticipación para que el cliente cancele o reprograme */
+  horasLimiteCancelacion?: number;
 }
 
 /**
@@ -30,15 +32,25 @@ export interface CreateNegocioDto {
   direccion?: string;
   telefono?: string;
   email?: string;
-  logo?: string;
+  /** null = quitar el logo */
+  logo?: string | null;
   razonSocial?: string;
   ruc?: string;
+  horasLimiteCancelacion?: number;
 }
 
 /**
  * DTO para actualizar un negocio
  */
-export interface UpdateNegocioDto extends Partial<CreateNegocioDto> {}
+export type UpdateNegocioDto = Partial<CreateNegocioDto>;
+
+/**
+ * Datos públicos del negocio (web de reservas, sin login)
+ */
+export type NegocioPublico = Pick<
+  Negocio,
+  'nombre' | 'direccion' | 'telefono' | 'logo' | 'horasLimiteCancelacion'
+>;
 
 /**
  * Negocio resumido (para selects, referencias)
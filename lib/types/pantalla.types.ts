@@ -0,0 +1,52 @@
+/**
+ * ============================================================
+ * TIPOS - PANTALLA DE SALA DE ESPERA (TV)
+ * ============================================================
+ * Lo que muestra la TV del local. Es una vista pública, así que
+ * solo lleva lo necesario: nombre abreviado del cliente, servicios
+ * y horas (nunca teléfonos, emails ni precios).
+ */
+
+/**
+ * Un cliente en la pantalla (atendiéndose o próximo)
+ */
+export interface TurnoPantalla {
+  /** Nombre abreviado: "Juan P." */
+  clienteNombre: string;
+  servicios: string;
+  /** Hora de inicio "HH:mm" */
+  hora: string;
+}
+
+/**
+ * Columna de un profesional: a quién atiende y quién sigue
+ */
+export interface ProfesionalPantalla {
+  id: number;
+  nombreCompleto: string;
+  actual: TurnoPantalla | null;
+  siguiente: TurnoPantalla | null;
+}
+
+/**
+ * Cliente sin reserva en la cola
+ */
+export interface EntradaColaPantalla {
+  id: number;
+  clienteNombre: string;
+  /** Hora de llegada "HH:mm" */
+  horaLlegada: string;
+  /** Nombre del profesional que pidió (si pidió uno) */
+  profesionalPreferido?: string;
+}
+
+/**
+ * Respuesta de GET /api/public/pantalla
+ */
+export interface PantallaSnapshot {
+  negocio: string;
+  profesionales: ProfesionalPantalla[];
+  cola: EntradaColaPantalla[];
+  /** Momento en que se armó (ISO) */
+  actualizadoEn: string;
+}
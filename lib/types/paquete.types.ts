@@ -0,0 +1,54 @@
+/**
+ * ============================================================
+ * TIPOS - PAQUETE (combos de servicios)
+ * ============================================================
+ * Un paquete agrupa servicios existentes con un precio propio.
+ * Ejemplo: "Corte + Barba" a S/ 30 en lugar de S/ 35.
+ * Se reserva como una sola cita: su duración es la suma de sus
+ * servicios, atendidos seguidos por el mismo profesional.
+ */
+
+import type { AuditFields, RegEstado } from './common.types';
+import type { ServicioResumen } from './servicio.types';
+
+/**
+ * Entidad Paquete completa
+ */
+export interface Paquete extends AuditFields {
+  id: number;
+  nombre: string;
+  descripcion?: string;
+  /** Precio del paquete (normalmente menor que la suma de sus servicios) */
+  precio: number;
+  imagen?: string;
+  /** Servicios incluidos, en el orden en que se atienden */
+  servicios: ServicioResumen[];
+}
+
+/**
+ * DTO para crear un paquete
+ */
+export interface CreatePaqueteDto {
+  nombre: string;
+  descripcion?: string;
+  precio: number;
+  /** null = quitar la imagen */
+  imagen?: string | null;
+  servicioIds: number[];
+}
+
+/**
+ * DTO para actualizar un paquete
+ */
+export interface UpdatePaqueteDto extends Partial<CreatePaqueteDto> {
+  regEstado?: RegEstado;
+}
+
+/**
+ * Paquete resumido (el que trae una Reserva hecha con paquete)
+ */
+export interface PaqueteResumen {
+  id: number;
+  nombre: string;
+  precio: number;
+}
@@ -9,6 +9,7 @@
  */
 
 import type { AuditFields, RegEstado } from './common.types';
+import type { ServicioResumen } from './servicio.types';
 
 /**
  * Días de la semana (como los maneja el backend)
@@ -31,6 +32,9 @@ export interface HorarioProfesional {
   diaSemana: DiaSemana;
   horaInicio: string; // "09:00"
   horaFin: string;    // "18:00"
+  /** Descanso dentro del turno (ej: almuerzo 13:00-14:00), opcional */
+  descansoInicio?: string | null;
+  descansoFin?: string | null;
   activo: boolean;
   createdAt: string;
   updatedAt: string;
@@ -47,6 +51,8 @@ export interface Profesional extends AuditFields {
   telefono?: string;
   direccion?: string;
   usaHorarioNegocio: boolean;
+  /** Usuario con el que entra a Mi agenda (null = sin acceso) */
+  usuarioId?: number | null;
   negocioId: number;
 }
 
@@ -76,6 +82,8 @@ export interface HorarioDto {
   diaSemana: DiaSemana;
   horaInicio: string;
   horaFin: string;
+  descansoInicio?: string | null;
+  descansoFin?: string | null;
   activo?: boolean;
 }
 
@@ -86,3 +94,41 @@ export interface ProfesionalResumen {
   id: number;
   nombreCompleto: string;
 }
+
+/**
+ * Servicio que ofrece un profesional (GET /profesionales/{id}/servicios).
+ * Puede cobrar otro precio o tardar otro tiempo que el del servicio.
+ */
+export interface ServicioProfesional extends ServicioResumen {
+  /** Precio de este profesional (null = el del servicio) */
+  precioPersonalizado?: number | null;
+  /** Duración de este profesional (null = la del servicio) */
+  duracionMinutosPersonalizada?: number | null;
+}
+
+/**
+ * Servicios que ofrece cada profesional, por profesionalId
+ */
+export type ServiciosPorProfesional = Record<number, ServicioProfesional[]>;
+
+/**
+ * Un servicio asignado a un profesional (guardado en bloque)
+ */
+export interface AsignacionServicioDto {
+  servicioId: number;
+  precioPersonalizado?: number | null;
+  duracionMinutosPersonalizada?: number | null;
+}
+
+/**
+ * Token del calendario suscribible de un profesional
+ * (GET /profesionales/{id}/calendario/token).
+ *
+ * Solo permite LEER sus reservas, su negocio y sus servicios: no es la
+ * sesión del dashboard. Regenerarlo revoca el anterior.
+ */
+export interface TokenCalendario {
+  token: string;
+  /** Cuándo se generó (ISO) */
+  creadoEn: string;
+}
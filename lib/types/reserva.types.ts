@@ -6,8 +6,9 @@
  */
 
 import type { AuditFields, RegEstado } from './common.types';
-import type { ProfesionalResumen } from './profesional.types';
+import type { Profesional, ProfesionalResumen, ServicioProfesional } from './profesional.types';
 import type { ServicioResumen } from './servicio.types';
+import type { PaqueteResumen } from './paquete.types';
 
 /**
  * Estados posibles de una reserva
@@ -20,13 +21,33 @@ export type EstadoReserva =
   | 'CANCELADA'    // Cancelada por cliente o negocio
   | 'NO_ASISTIO';  // Cliente no se presentó
 
+/**
+ * Texto para mostrar cada estado
+ */
+export const ESTADO_RESERVA_LABELS: Record<EstadoReserva, string> = {
+  PENDIENTE: 'Pendiente',
+  CONFIRMADA: 'Confirmada',
+  EN_PROGRESO: 'En progreso',
+  COMPLETADA: 'Completada',
+  CANCELADA: 'Cancelada',
+  NO_ASISTIO: 'No asistió',
+};
+
+/**
+ * Estados a los que el profesional puede pasar sus propias reservas
+ * desde Mi agenda
+ */
+export type EstadoReservaProfesional = Extract<EstadoReserva, 'EN_PROGRESO' | 'COMPLETADA'>;
+
 /**
  * Entidad Reserva completa
  */
 export interface Reserva extends AuditFields {
   id: number;
+  codigo?: string;   // Código de confirmación: "BRB-7K2Q9X" (gestión desde la web)
   fechaHora: string; // ISO 8601: "2024-01-20T10:30:00"
   estado: EstadoReserva;
+  motivoEstado?: string; // Motivo de la cancelación / no asistencia
   notas?: string;
   
   // Datos del cliente (puede no estar registrado)
@@ -36,7 +57,9 @@ export interface Reserva extends AuditFields {
   
   // Relaciones
   profesional: ProfesionalResumen;
-  servicio: ServicioResumen;
+  servicio: ServicioResumen;     // Servicio principal (el primero)
+  servicios?: ServicioResumen[]; // Todos los servicios de la cita, en orden
+  paquete?: PaqueteResumen | null; // Si se reservó como paquete (su precio reemplaza la suma)
 }
 
 /**
@@ -45,7 +68,9 @@ export interface Reserva extends AuditFields {
 export interface CreateReservaDto {
   fechaHora: string;
   profesionalId: number;
-  servicioId: number;
+  servicioId: number;       // Servicio principal (= servicioIds[0])
+  servicioIds?: number[];   // Varios servicios en un solo bloque: corte + barba
+  paqueteId?: number;       // Reserva de un paquete (servicioIds = sus servicios)
   clienteNombre: string;
   clienteTelefono: string;
   clienteEmail?: string;
@@ -59,11 +84,37 @@ export interface UpdateReservaDto {
   fechaHora?: string;
   profesionalId?: number;
   servicioId?: number;
-  estado?: EstadoReserva;
+  servicioIds?: number[];
   notas?: string;
   regEstado?: RegEstado;
 }
 
+/**
+ * DTO para cambiar el estado de una reserva
+ * (ver TRANSICIONES_RESERVA en lib/utils/estado-reserva.ts)
+ */
+export interface CambiarEstadoReservaDto {
+  estado: EstadoReserva;
+  motivo?: string; // Obligatorio para CANCELADA y NO_ASISTIO
+}
+
+/**
+ * DTO para que el cliente reprograme su reserva (web pública, por código)
+ */
+export interface ReprogramarReservaDto {
+  fechaHora: string;
+}
+
+/**
+ * Profesional de una reserva, visto por el cliente desde su enlace
+ * (GET /reservas/codigo/{codigo}/profesional): lo necesario para
+ * reprogramar con su horario y su duración personalizada
+ */
+export interface ProfesionalReservaPublica {
+  profesional: Profesional;
+  servicios: ServicioProfesional[];
+}
+
 /**
  * Filtros para buscar reservas
  */
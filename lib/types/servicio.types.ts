@@ -7,6 +7,7 @@
  */
 
 import type { AuditFields, RegEstado } from './common.types';
+import type { CategoriaResumen } from './categoria.types';
 
 /**
  * Entidad Servicio completa
@@ -16,8 +17,12 @@ export interface Servicio extends AuditFields {
   nombre: string;
   descripcion?: string;
   duracionMinutos: number;
+  /** Minutos de limpieza/preparación después del servicio (0 = ninguno) */
+  minutosLimpieza?: number;
   precio: number;
   imagen?: string;
+  /** null = sin categoría */
+  categoria?: CategoriaResumen | null;
 }
 
 /**
@@ -27,8 +32,12 @@ export interface CreateServicioDto {
   nombre: string;
   descripcion?: string;
   duracionMinutos: number;
+  minutosLimpieza?: number;
   precio: number;
-  imagen?: string;
+  /** null = quitar la imagen */
+  imagen?: string | null;
+  /** null = quitar la categoría */
+  categoriaId?: number | null;
 }
 
 /**
@@ -45,7 +54,14 @@ export interface ServicioResumen {
   id: number;
   nombre: string;
   duracionMinutos: number;
+  minutosLimpieza?: number;
   precio: number;
+  /**
+   * Precio que se cobró en ESA reserva (foto al reservar, con el precio
+   * del profesional). Solo viene en Reserva.servicio(s); si falta, se
+   * usa el precio actual.
+   */
+  precioReserva?: number | null;
 }
 
 /**
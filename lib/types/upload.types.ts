@@ -0,0 +1,25 @@
+/**
+ * ============================================================
+ * TIPOS - SUBIDA DE ARCHIVOS (imágenes)
+ * ============================================================
+ * Imágenes de servicios, paquetes y el logo del negocio.
+ * El archivo se sube a POST /uploads (multipart) y lo que se
+ * guarda en la entidad es la URL que devuelve.
+ */
+
+/**
+ * Carpeta donde se guarda la imagen (una por tipo de entidad)
+ */
+export type CarpetaUpload = 'servicios' | 'paquetes' | 'negocio';
+
+/**
+ * Respuesta de POST /uploads
+ */
+export interface ArchivoSubido {
+  /** URL pública de la imagen (absoluta o relativa al sitio) */
+  url: string;
+  nombre: string;
+  /** Tamaño en bytes */
+  tamano: number;
+  tipo: string;
+}
@@ -0,0 +1,245 @@
+/**
+ * ============================================================
+ * UTILIDADES - AGENDA (vista calendario del dashboard)
+ * ============================================================
+ * Cálculos para dibujar la agenda de día/semana:
+ * - Qué días se muestran según la vista
+ * - Qué rango de horas cubre la grilla (según los horarios)
+ * - Posición y alto de cada bloque de reserva
+ * - Validación al arrastrar una reserva a otra hora/profesional
+ *   (incluido que el profesional de destino ofrezca sus servicios)
+ *
+ * Funciones puras: no llaman al API.
+ */
+
+import { dayjs } from './dates';
+import {
+  getRangoOcupadoReserva,
+  getRangosDelDia,
+  hayConflicto,
+  minutosAHora,
+  ocupaHorario,
+  type RangoMinutos,
+} from './disponibilidad';
+import {
+  ESTADOS_GESTIONABLES,
+  getDuracionReserva,
+  getMinutosLimpiezaReserva,
+  getServiciosReserva,
+  ofreceServicios,
+} from './reservas';
+import type {
+  ExcepcionHorario,
+  HorarioDto,
+  Reserva,
+  ServicioProfesional,
+  ServiciosPorProfesional,
+} from '@/lib/types';
+
+// ============================================================
+// TIPOS Y CONSTANTES
+// ============================================================
+
+export type VistaAgenda = 'dia' | 'semana';
+
+/** Minutos que representa cada fila de la grilla */
+export const INTERVALO_AGENDA_MINUTOS = 30;
+
+/** Al arrastrar, la hora de inicio se ajusta a múltiplos de este valor */
+export const PASO_ARRASTRE_MINUTOS = 15;
+
+/** Rango por defecto si nadie tiene horario ese día (09:00 - 18:00) */
+const RANGO_AGENDA_DEFAULT: RangoMinutos = { inicio: 9 * 60, fin: 18 * 60 };
+
+// ============================================================
+// DÍAS
+// ============================================================
+
+/**
+ * Días visibles ("YYYY-MM-DD"): el día elegido o su semana (lunes a domingo)
+ */
+export function getDiasAgenda(fecha: string, vista: VistaAgenda): string[] {
+  if (vista === 'dia') return [fecha];
+
+  // El locale "es" empieza la semana en lunes
+  const lunes = dayjs(fecha).startOf('week');
+  return Array.from({ length: 7 }, (_, i) => lunes.add(i, 'day').format('YYYY-MM-DD'));
+}
+
+/**
+ * Fecha a la que se llega con los botones anterior/siguiente
+ */
+export function moverFechaAgenda(fecha: string, vista: VistaAgenda, pasos: number): string {
+  return dayjs(fecha).add(pasos, vista === 'dia' ? 'day' : 'week').format('YYYY-MM-DD');
+}
+
+// ============================================================
+// RANGO DE HORAS
+// ============================================================
+
+/**
+ * Rango de horas de la grilla: desde el turno que empieza más temprano
+ * hasta el que termina más tarde, redondeado a horas completas.
+ * También se estira para incluir reservas fuera de horario (con su limpieza
+ * y la duración personalizada de su profesional).
+ */
+export function getRangoAgenda(
+  dias: string[],
+  horarios: HorarioDto[][],
+  reservas: Reserva[] = [],
+  serviciosPorProfesional: ServiciosPorProfesional = {}
+): RangoMinutos {
+  const rangos = [
+    ...dias.flatMap((dia) => horarios.flatMap((h) => getRangosDelDia(dia, h))),
+    ...reservas.map((r) => getRangoOcupadoReserva(r, serviciosPorProfesional[r.profesional.id])),
+  ];
+
+  if (rangos.length === 0) return RANGO_AGENDA_DEFAULT;
+
+  const inicio = Math.min(...rangos.map((r) => r.inicio));
+  const fin = Math.max(...rangos.map((r) => r.fin));
+
+  return {
+    inicio: Math.floor(inicio / 60) * 60,
+    fin: Math.min(Math.ceil(fin / 60) * 60, 24 * 60),
+  };
+}
+
+/**
+ * Minuto de inicio de cada fila: [540, 570, 600, ...]
+ */
+export function getFilasAgenda(rango: RangoMinutos, intervalo = INTERVALO_AGENDA_MINUTOS): number[] {
+  const filas: number[] = [];
+  for (let m = rango.inicio; m < rango.fin; m += intervalo) {
+    filas.push(m);
+  }
+  return filas;
+}
+
+/**
+ * Posición vertical (en px) de un rango dentro de la grilla
+ *
+ * @param alturaFila - Alto en px de cada fila de INTERVALO_AGENDA_MINUTOS
+ */
+export function getPosicionEnAgenda(
+  rango: RangoMinutos,
+  rangoAgenda: RangoMinutos,
+  alturaFila: number
+): { top: number; height: number } {
+  const pxPorMinuto = alturaFila / INTERVALO_AGENDA_MINUTOS;
+  return {
+    top: (rango.inicio - rangoAgenda.inicio) * pxPorMinuto,
+    height: (rango.fin - rango.inicio) * pxPorMinuto,
+  };
+}
+
+// ============================================================
+// ARRASTRAR Y SOLTAR (reprogramar desde la agenda)
+// ============================================================
+
+/**
+ * Lugar donde se suelta una reserva
+ */
+export interface DestinoReserva {
+  /** Día "YYYY-MM-DD" */
+  fecha: string;
+  /** Minutos desde las 00:00 de la nueva hora de inicio */
+  inicio: number;
+  profesionalId: number;
+}
+
+export interface ValidarMovimientoParams {
+  reserva: Reserva;
+  destino: DestinoReserva;
+  /** Horario semanal efectivo del profesional de destino */
+  horarios: HorarioDto[];
+  /** Excepciones del profesional de destino (y del negocio) */
+  excepciones?: ExcepcionHorario[];
+  /**
+   * Servicios que ofrece el profesional de destino, con su duración
+   * personalizada (sin dato no se valida que los ofrezca)
+   */
+  serviciosProfesional?: ServicioProfesional[];
+  /** Reservas conocidas (se usan las del profesional y día de destino) */
+  reservas: Reserva[];
+  ahora?: Date;
+}
+
+/**
+ * Indica si una reserva se puede arrastrar (solo las que siguen vigentes)
+ */
+export function puedeMoverReserva(reserva: Reserva): boolean {
+  return ESTADOS_GESTIONABLES.includes(reserva.estado);
+}
+
+/**
+ * Convierte el destino al formato del backend: "2024-01-20T10:30:00"
+ */
+export function getFechaHoraDestino({ fecha, inicio }: DestinoReserva): string {
+  return `${fecha}T${minutosAHora(inicio)}:00`;
+}
+
+/**
+ * Valida soltar una reserva en otra hora/profesional.
+ * Misma regla que la web pública: el profesional de destino debe
+ * ofrecer todos sus servicios, el bloque completo (con su duración)
+ * debe caer dentro de UN turno (con sus descansos y excepciones de ese
+ * día) y no cruzarse con otra reserva activa, contando la limpieza
+ * posterior de cada una.
+ *
+ * @returns Motivo por el que no se puede mover, o null si es válido
+ */
+export function validarMovimientoReserva({
+  reserva,
+  destino,
+  horarios,
+  excepciones = [],
+  serviciosProfesional,
+  reservas,
+  ahora = new Date(),
+}: ValidarMovimientoParams): string | null {
+  if (!puedeMoverReserva(reserva)) {
+    return 'Solo se pueden mover reservas pendientes o confirmadas';
+  }
+
+  if (
+    serviciosProfesional &&
+    destino.profesionalId !== reserva.profesional.id &&
+    !ofreceServicios(serviciosProfesional, getServiciosReserva(reserva).map((s) => s.id))
+  ) {
+    return 'El profesional no ofrece este servicio';
+  }
+
+  const rango = {
+    inicio: destino.inicio,
+    fin: destino.inicio + getDuracionReserva(reserva, serviciosProfesional),
+  };
+
+  if (dayjs(getFechaHoraDestino(destino)).isBefore(dayjs(ahora))) {
+    return 'No se puede mover a una hora pasada';
+  }
+
+  const dentroDeTurno = getRangosDelDia(destino.fecha, horarios, excepciones).some(
+    (turno) => rango.inicio >= turno.inicio && rango.fin <= turno.fin
+  );
+  if (!dentroDeTurno) {
+    return 'Fuera del horario del profesional';
+  }
+
+  const conLimpieza = { ...rango, fin: rango.fin + getMinutosLimpiezaReserva(reserva) };
+
+  const ocupados = reservas
+    .filter((r) =>
+      r.id !== reserva.id &&
+      r.profesional.id === destino.profesionalId &&
+      r.fechaHora.startsWith(destino.fecha) &&
+      ocupaHorario(r)
+    )
+    .map((r) => getRangoOcupadoReserva(r, serviciosProfesional));
+
+  if (hayConflicto(conLimpieza, ocupados)) {
+    return 'Se cruza con otra reserva';
+  }
+
+  return null;
+}
@@ -0,0 +1,227 @@
+/**
+ * ============================================================
+ * UTILIDADES - COLA DE ESPERA (tiempo estimado)
+ * ============================================================
+ * Estima cuánto esperará cada cliente sin reserva y cuándo se
+ * libera cada profesional, a partir de:
+ * - Las reservas de hoy (la duración de sus servicios y su limpieza)
+ * - El horario del profesional (fuera de turno no atiende)
+ * - Los clientes que ya están en la cola, en orden de llegada
+ *
+ * Cada cliente de la cola toma el primer hueco libre del profesional
+ * que pidió, o del que se libere antes entre los que ofrecen sus
+ * servicios si le da igual. La duración es la de ESE profesional
+ * (precio/duración personalizados, ver personalizarServicios).
+ *
+ * Funciones puras: no llaman al API.
+ */
+
+import { dayjs } from './dates';
+import {
+  getRangoOcupadoReserva,
+  getRangosDelDia,
+  minutosAHora,
+  ocupaHorario,
+  type AgendaProfesional,
+  type RangoMinutos,
+} from './disponibilidad';
+import {
+  getMinutosLimpieza,
+  ofreceServicios,
+  personalizarServicios,
+  sumarDuracion,
+} from './reservas';
+import type { EntradaCola, ServicioProfesional } from '@/lib/types';
+
+const MINUTOS_DIA = 24 * 60;
+
+// ============================================================
+// TIPOS
+// ============================================================
+
+export interface EsperaEntrada {
+  /** Profesional que lo atendería (null = nadie puede hoy) */
+  profesionalId: number | null;
+  /** Hora estimada de atención "HH:mm" */
+  hora: string | null;
+  esperaMinutos: number | null;
+}
+
+export interface EsperaProfesional {
+  /** Hora a la que podría atender a un cliente NUEVO "HH:mm" (null = hoy no) */
+  hora: string | null;
+  esperaMinutos: number | null;
+}
+
+export interface EstimarEsperasParams {
+  /** Agenda de HOY de cada profesional */
+  agendas: AgendaProfesional[];
+  /** Clientes esperando, en orden de llegada */
+  cola: EntradaCola[];
+  /** Duración que se asume para un cliente nuevo (ej: el servicio más común) */
+  duracionNuevoCliente: number;
+  ahora?: Date;
+}
+
+export interface EstimacionCola {
+  porEntrada: Record<number, EsperaEntrada>;
+  porProfesional: Record<number, EsperaProfesional>;
+}
+
+// ============================================================
+// HELPERS
+// ============================================================
+
+/**
+ * Rangos del día en que el profesional NO está disponible:
+ * fuera de sus turnos + reservas activas (las completadas ya liberaron el tiempo)
+ */
+function getRangosOcupados(fecha: string, agenda: AgendaProfesional): RangoMinutos[] {
+  const turnos = getRangosDelDia(fecha, agenda.horarios, agenda.excepciones);
+  const ocupados: RangoMinutos[] = [];
+
+  // Huecos entre turnos (y antes/después de la jornada)
+  let cursor = 0;
+  for (const turno of turnos) {
+    if (turno.inicio > cursor) ocupados.push({ inicio: cursor, fin: turno.inicio });
+    cursor = Math.max(cursor, turno.fin);
+  }
+  ocupados.push({ inicio: cursor, fin: MINUTOS_DIA });
+
+  agenda.reservas
+    .filter((r) => ocupaHorario(r) && r.estado !== 'COMPLETADA' && r.fechaHora.startsWith(fecha))
+    .forEach((r) => ocupados.push(getRangoOcupadoReserva(r, agenda.serviciosProfesional)));
+
+  return ocupados.sort((a, b) => a.inicio - b.inicio);
+}
+
+/**
+ * Primer minuto >= desde en el que caben `duracion` minutos seguidos
+ * (null si ya no hay hueco hoy)
+ */
+export function primerHuecoLibre(
+  ocupados: RangoMinutos[],
+  desde: number,
+  duracion: number
+): number | null {
+  let inicio = desde;
+
+  for (const rango of ocupados) {
+    if (rango.fin <= inicio) continue;
+    if (rango.inicio >= inicio + duracion) break;
+    inicio = rango.fin;
+  }
+
+  return inicio + duracion <= MINUTOS_DIA ? inicio : null;
+}
+
+/**
+ * ¿El profesional ofrece TODOS los servicios que pidió el cliente?
+ *
+ * @param serviciosProfesional - profesionalService.getServicios(id)
+ */
+export function puedeAtenderEntrada(
+  entrada: Pick<EntradaCola, 'servicios'>,
+  serviciosProfesional: ServicioProfesional[] = []
+): boolean {
+  return ofreceServicios(serviciosProfesional, entrada.servicios.map((s) => s.id));
+}
+
+/**
+ * Minutos que ocupa la entrada con ese profesional: atención (con su
+ * duración personalizada) + limpieza, porque el siguiente cliente
+ * entra después de ambas
+ */
+function getDuracionEntrada(entrada: EntradaCola, serviciosProfesional?: ServicioProfesional[]): number {
+  return sumarDuracion(personalizarServicios(entrada.servicios, serviciosProfesional))
+    + getMinutosLimpieza(entrada.servicios);
+}
+
+// ============================================================
+// ESTIMACIÓN
+// ============================================================
+
+/**
+ * Estima la espera de cada cliente de la cola y de un cliente nuevo
+ * con cada profesional.
+ *
+ * @example
+ * const { porEntrada, porProfesional } = estimarEsperas({
+ *   agendas,               // reservas y horarios de hoy
+ *   cola,                  // colaService.getEsperando()
+ *   duracionNuevoCliente: 30,
+ * });
+ * porEntrada[entrada.id];  // { profesionalId: 2, hora: '10:45', esperaMinutos: 25 }
+ */
+export function estimarEsperas({
+  agendas,
+  cola,
+  duracionNuevoCliente,
+  ahora = new Date(),
+}: EstimarEsperasParams): EstimacionCola {
+  const momento = dayjs(ahora);
+  const fecha = momento.format('YYYY-MM-DD');
+  const minutoActual = momento.hour() * 60 + momento.minute();
+
+  const ocupadosPorProfesional = new Map(
+    agendas.map((a) => [a.profesionalId, getRangosOcupados(fecha, a)])
+  );
+  const serviciosPorProfesional = new Map(
+    agendas.map((a) => [a.profesionalId, a.serviciosProfesional])
+  );
+
+  // Reserva el rango en la agenda simulada del profesional
+  const ocupar = (profesionalId: number, rango: RangoMinutos) => {
+    const ocupados = ocupadosPorProfesional.get(profesionalId) ?? [];
+    ocupadosPorProfesional.set(
+      profesionalId,
+      [...ocupados, rango].sort((a, b) => a.inicio - b.inicio)
+    );
+  };
+
+  const porEntrada: Record<number, EsperaEntrada> = {};
+
+  for (const entrada of cola) {
+    // Si le da igual, solo los que hacen todos sus servicios
+    const candidatos = entrada.profesionalPreferido
+      ? [entrada.profesionalPreferido.id]
+      : [...ocupadosPorProfesional.keys()].filter((id) =>
+          puedeAtenderEntrada(entrada, serviciosPorProfesional.get(id))
+        );
+
+    // El candidato que pueda empezar antes
+    let mejor: { profesionalId: number; inicio: number; duracion: number } | null = null;
+    for (const profesionalId of candidatos) {
+      const ocupados = ocupadosPorProfesional.get(profesionalId);
+      if (!ocupados) continue;
+      const duracion = getDuracionEntrada(entrada, serviciosPorProfesional.get(profesionalId));
+      const inicio = primerHuecoLibre(ocupados, minutoActual, duracion);
+      if (inicio !== null && (!mejor || inicio < mejor.inicio)) {
+        mejor = { profesionalId, inicio, duracion };
+      }
+    }
+
+    if (mejor) {
+      ocupar(mejor.profesionalId, { inicio: mejor.inicio, fin: mejor.inicio + mejor.duracion });
+    }
+
+    porEntrada[entrada.id] = mejor
+      ? {
+          profesionalId: mejor.profesionalId,
+          hora: minutosAHora(mejor.inicio),
+          esperaMinutos: mejor.inicio - minutoActual,
+        }
+      : { profesionalId: null, hora: null, esperaMinutos: null };
+  }
+
+  // Después de la cola actual: ¿cuándo atendería a un cliente nuevo?
+  const porProfesional: Record<number, EsperaProfesional> = {};
+  ocupadosPorProfesional.forEach((ocupados, profesionalId) => {
+    const inicio = primerHuecoLibre(ocupados, minutoActual, duracionNuevoCliente);
+    porProfesional[profesionalId] = inicio === null
+      ? { hora: null, esperaMinutos: null }
+      : { hora: minutosAHora(inicio), esperaMinutos: inicio - minutoActual };
+  });
+
+  return { porEntrada, porProfesional };
+}
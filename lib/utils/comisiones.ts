@@ -0,0 +1,143 @@
+/**
+ * ============================================================
+ * UTILIDADES - COMISIONES DE LOS PROFESIONALES
+ * ============================================================
+ * Cálculo de lo que se paga a cada profesional por las reservas
+ * COMPLETADAS de un período:
+ * - Por cada servicio atendido se busca la regla del profesional
+ *   para ese servicio; si no tiene, su regla general
+ * - PORCENTAJE: % de lo cobrado por el servicio: el precio guardado
+ *   en la reserva (precioReserva) o, en reservas que no lo traen, el
+ *   precio ACTUAL del profesional (la línea queda como precioEstimado).
+ *   En un paquete, su parte del precio del paquete.
+ * - MONTO_FIJO: el mismo monto por cada servicio atendido
+ *
+ * @example
+ * const lineas = calcularLineasComision(reservas, reglas, serviciosPorProfesional);
+ * const resumen = resumirComisiones(lineas);
+ */
+
+import { formatPrecio } from '@/lib/types';
+import { getPreciosServiciosReserva, tienePrecioReserva } from './reservas';
+import type {
+  LineaComision,
+  Reserva,
+  ReglaComisionDto,
+  ResumenComisionProfesional,
+  ServiciosPorProfesional,
+  TipoComision,
+} from '@/lib/types';
+
+export const NOMBRES_TIPO_COMISION: Record<TipoComision, string> = {
+  PORCENTAJE: 'Porcentaje',
+  MONTO_FIJO: 'Monto fijo',
+};
+
+/** Redondeo a céntimos */
+const redondear = (monto: number) => Math.round(monto * 100) / 100;
+
+/**
+ * Regla que aplica a un servicio del profesional: la del servicio
+ * o, si no tiene, la general (servicioId null)
+ */
+export function getReglaAplicable<T extends ReglaComisionDto & { profesionalId: number }>(
+  reglas: T[],
+  profesionalId: number,
+  servicioId: number
+): T | null {
+  const delProfesional = reglas.filter((r) => r.profesionalId === profesionalId);
+  return (
+    delProfesional.find((r) => r.servicioId === servicioId) ??
+    delProfesional.find((r) => r.servicioId == null) ??
+    null
+  );
+}
+
+/**
+ * Comisión de un servicio según la regla (0 sin regla)
+ */
+export function calcularComision(regla: ReglaComisionDto | null, precio: number): number {
+  if (!regla) return 0;
+  return redondear(regla.tipo === 'PORCENTAJE' ? (precio * regla.valor) / 100 : regla.valor);
+}
+
+/**
+ * Regla legible: "40 %" o "S/ 5.00 por servicio"
+ */
+export function formatReglaComision(regla: ReglaComisionDto | null): string {
+  if (!regla) return 'Sin regla';
+  return regla.tipo === 'PORCENTAJE'
+    ? `${regla.valor} %`
+    : `${formatPrecio(regla.valor)} por servicio`;
+}
+
+/**
+ * Una línea por cada servicio atendido en las reservas COMPLETADAS
+ * (las de otros estados se ignoran)
+ *
+ * @param serviciosPorProfesional - Precios actuales de cada profesional (reservas sin precioReserva)
+ */
+export function calcularLineasComision(
+  reservas: Reserva[],
+  reglas: (ReglaComisionDto & { profesionalId: number })[],
+  serviciosPorProfesional: ServiciosPorProfesional = {}
+): LineaComision[] {
+  return reservas
+    .filter((r) => r.estado === 'COMPLETADA')
+    .flatMap((reserva) => {
+      const precios = getPreciosServiciosReserva(reserva, serviciosPorProfesional[reserva.profesional.id]);
+      const precioEstimado = !tienePrecioReserva(reserva);
+      return precios.map(({ servicio, precio }) => {
+        const regla = getReglaAplicable(reglas, reserva.profesional.id, servicio.id);
+        return {
+          reservaId: reserva.id,
+          fechaHora: reserva.fechaHora,
+          profesionalId: reserva.profesional.id,
+          profesionalNombre: reserva.profesional.nombreCompleto,
+          clienteNombre: reserva.clienteNombre,
+          servicioId: servicio.id,
+          servicioNombre: servicio.nombre,
+          precio: redondear(precio),
+          precioEstimado,
+          regla: regla && { servicioId: regla.servicioId, tipo: regla.tipo, valor: regla.valor },
+          comision: calcularComision(regla, precio),
+        };
+      });
+    });
+}
+
+/**
+ * Totales por profesional, ordenados por nombre
+ */
+export function resumirComisiones(lineas: LineaComision[]): ResumenComisionProfesional[] {
+  const porProfesional = new Map<number, ResumenComisionProfesional & { reservaIds: Set<number> }>();
+
+  lineas.forEach((linea) => {
+    const resumen = porProfesional.get(linea.profesionalId) ?? {
+      profesionalId: linea.profesionalId,
+      profesionalNombre: linea.profesionalNombre,
+      citas: 0,
+      servicios: 0,
+      totalVendido: 0,
+      totalComision: 0,
+      serviciosSinRegla: 0,
+      reservaIds: new Set<number>(),
+    };
+
+    resumen.reservaIds.add(linea.reservaId);
+    resumen.servicios += 1;
+    resumen.totalVendido += linea.precio;
+    resumen.totalComision += linea.comision;
+    if (!linea.regla) resumen.serviciosSinRegla += 1;
+    porProfesional.set(linea.profesionalId, resumen);
+  });
+
+  return Array.from(porProfesional.values())
+    .map(({ reservaIds, ...resumen }) => ({
+      ...resumen,
+      citas: reservaIds.size,
+      totalVendido: redondear(resumen.totalVendido),
+      totalComision: redondear(resumen.totalComision),
+    }))
+    .sort((a, b) => a.profesionalNombre.localeCompare(b.profesionalNombre));
+}
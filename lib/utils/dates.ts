@@ -46,6 +46,43 @@ export function toISODateTime(fecha: Date): string {
   return dayjs(fecha).toISOString();
 }
 
+/**
+ * Obtiene fecha y hora local sin zona horaria
+ * Es el formato que usa el backend en Reserva.fechaHora: "2024-01-20T10:30:00"
+ */
+export function toLocalDateTime(fecha: string | Date): string {
+  return dayjs(fecha).format('YYYY-MM-DDTHH:mm:ss');
+}
+
+/**
+ * Fecha y hora local de OTRA zona horaria, sin zona: "2024-01-20T10:30:00"
+ * Sirve en el servidor, cuyo reloj puede estar en UTC o en otro país
+ * (ver negocioConfig.zonaHoraria). Si la zona no es válida, usa la local.
+ *
+ * @param zonaHoraria - Zona IANA, ej: "America/Lima"
+ */
+export function toLocalDateTimeEnZona(fecha: Date, zonaHoraria: string): string {
+  let partes: Intl.DateTimeFormatPart[];
+  try {
+    partes = new Intl.DateTimeFormat('en-CA', {
+      timeZone: zonaHoraria,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(fecha);
+  } catch {
+    return toLocalDateTime(fecha);
+  }
+
+  const valor = (tipo: Intl.DateTimeFormatPartTypes) =>
+    partes.find((p) => p.type === tipo)?.value ?? '00';
+  return `${valor('year')}-${valor('month')}-${valor('day')}T${valor('hour')}:${valor('minute')}:${valor('second')}`;
+}
+
 /**
  * Verifica si una fecha es hoy
  */
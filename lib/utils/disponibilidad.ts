@@ -0,0 +1,403 @@
+/**
+ * ============================================================
+ * UTILIDADES - DISPONIBILIDAD DE HORARIOS
+ * ============================================================
+ * Calcula las horas de inicio reservables de un profesional en un día.
+ *
+ * ENTRADAS:
+ * - Horarios semanales (HorarioProfesional o el horario del negocio),
+ *   con su descanso opcional dentro de cada turno
+ * - Excepciones de esas fechas (días libres, horas libres, feriados)
+ * - Duración de los servicios elegidos (se reservan en un solo bloque)
+ *   y sus minutos de limpieza posteriores. La duración es la del
+ *   profesional si la tiene personalizada (ver personalizarServicios)
+ * - Reservas existentes del día (reservaService.getByDate)
+ *
+ * SALIDA:
+ * - Lista de slots libres: [{ hora: "09:00", fechaHora: "2024-01-20T09:00:00" }, ...]
+ *
+ * Todas las funciones son puras (no llaman al API), así se pueden
+ * reutilizar en la web pública y en el dashboard.
+ */
+
+import { dayjs } from './dates';
+import { getDuracionReserva, getMinutosLimpiezaReserva } from './reservas';
+import type {
+  DiaSemana,
+  EstadoReserva,
+  ExcepcionHorario,
+  HorarioDto,
+  Reserva,
+  ServicioProfesional,
+} from '@/lib/types';
+
+// ============================================================
+// CONSTANTES
+// ============================================================
+
+/** Días de la semana en el orden de dayjs().day() (0 = domingo) */
+export const DIAS_SEMANA_POR_INDICE: DiaSemana[] = [
+  'DOMINGO',
+  'LUNES',
+  'MARTES',
+  'MIERCOLES',
+  'JUEVES',
+  'VIERNES',
+  'SABADO',
+];
+
+/** Estados de reserva que NO ocupan el horario del profesional */
+export const ESTADOS_SIN_OCUPACION: EstadoReserva[] = ['CANCELADA', 'NO_ASISTIO'];
+
+// ============================================================
+// TIPOS
+// ============================================================
+
+/**
+ * Rango de tiempo dentro de un día, en minutos desde las 00:00
+ * Ejemplo: 09:00 - 10:30 → { inicio: 540, fin: 630 }
+ */
+export interface RangoMinutos {
+  inicio: number;
+  fin: number;
+}
+
+/**
+ * Hora de inicio reservable
+ */
+export interface SlotDisponible {
+  hora: string;      // "09:30"
+  fechaHora: string; // "2024-01-20T09:30:00" (formato del backend)
+  /** Profesionales libres a esa hora (solo en "Cualquier profesional") */
+  profesionalIds?: number[];
+}
+
+/**
+ * Horarios y reservas de un profesional (para calcular varios a la vez)
+ */
+export interface AgendaProfesional {
+  profesionalId: number;
+  horarios: HorarioDto[];
+  reservas: Reserva[];
+  /** Excepciones del profesional y del negocio */
+  excepciones?: ExcepcionHorario[];
+  /** Servicios que ofrece (precio y duración personalizados) */
+  serviciosProfesional?: ServicioProfesional[];
+  /** Duración de lo que se quiere reservar con ESTE profesional (default: la general) */
+  duracionMinutos?: number;
+}
+
+export interface CalcularSlotsParams {
+  /** Día a calcular en formato "YYYY-MM-DD" */
+  fecha: string;
+  /** Horarios semanales efectivos del profesional */
+  horarios: HorarioDto[];
+  /** Duración total de lo que se quiere reservar */
+  duracionMinutos: number;
+  /** Limpieza después de lo que se quiere reservar (ver getMinutosLimpieza) */
+  minutosLimpieza?: number;
+  /** Reservas del día del profesional (las canceladas se ignoran) */
+  reservas: Reserva[];
+  /** Servicios del profesional: sus reservas ocupan su duración personalizada */
+  serviciosProfesional?: ServicioProfesional[];
+  /** Excepciones del profesional y del negocio (días/horas libres, feriados) */
+  excepciones?: ExcepcionHorario[];
+  /** Separación entre horas de inicio ofrecidas (default: 15) */
+  intervaloMinutos?: number;
+  /** Momento actual (las horas pasadas no se ofrecen) */
+  ahora?: Date;
+}
+
+export interface CalcularSlotsMultiplesParams
+  extends Omit<CalcularSlotsParams, 'horarios' | 'reservas' | 'excepciones' | 'serviciosProfesional'> {
+  /** Agenda de cada profesional candidato */
+  agendas: AgendaProfesional[];
+}
+
+// ============================================================
+// CONVERSIONES DE HORA
+// ============================================================
+
+/**
+ * Convierte "HH:mm" (o "HH:mm:ss") a minutos desde las 00:00
+ */
+export function horaAMinutos(hora: string): number {
+  const [horas, minutos] = hora.split(':').map(Number);
+  return horas * 60 + (minutos || 0);
+}
+
+/**
+ * Convierte minutos desde las 00:00 a "HH:mm"
+ */
+export function minutosAHora(minutos: number): string {
+  const horas = Math.floor(minutos / 60);
+  const mins = minutos % 60;
+  return `${String(horas).padStart(2, '0')}:${String(mins).padStart(2, '0')}`;
+}
+
+/**
+ * Obtiene el DiaSemana (como lo maneja el backend) de una fecha
+ */
+export function getDiaSemana(fecha: string | Date): DiaSemana {
+  return DIAS_SEMANA_POR_INDICE[dayjs(fecha).day()];
+}
+
+// ============================================================
+// HORARIOS Y RESERVAS
+// ============================================================
+
+/**
+ * Indica si la excepción descuenta horas: las solicitudes pendientes
+ * o rechazadas de Mi agenda no cuentan
+ */
+export function isExcepcionVigente(excepcion: ExcepcionHorario): boolean {
+  return !excepcion.estado || excepcion.estado === 'APROBADA';
+}
+
+/**
+ * Indica si la excepción vigente cubre la fecha (fechaInicio..fechaFin inclusive)
+ */
+export function excepcionAplicaEnFecha(excepcion: ExcepcionHorario, fecha: string | Date): boolean {
+  const dia = dayjs(fecha).format('YYYY-MM-DD');
+  return isExcepcionVigente(excepcion) && excepcion.fechaInicio <= dia && dia <= excepcion.fechaFin;
+}
+
+/**
+ * Quita de los turnos las horas que cubre `libre` (puede partir un turno en dos)
+ */
+function restarRango(turnos: RangoMinutos[], libre: RangoMinutos): RangoMinutos[] {
+  return turnos.flatMap((t) => {
+    if (libre.fin <= t.inicio || libre.inicio >= t.fin) return [t];
+    return [
+      { inicio: t.inicio, fin: libre.inicio },
+      { inicio: libre.fin, fin: t.fin },
+    ].filter((r) => r.fin > r.inicio);
+  });
+}
+
+/**
+ * Descansos dentro de los turnos de un día (ej: almuerzo 13:00-14:00)
+ */
+export function getDescansosDelDia(fecha: string | Date, horarios: HorarioDto[]): RangoMinutos[] {
+  const dia = getDiaSemana(fecha);
+  return horarios
+    .filter((h) => h.diaSemana === dia && h.activo !== false && h.descansoInicio && h.descansoFin)
+    .map((h) => ({
+      inicio: horaAMinutos(h.descansoInicio as string),
+      fin: horaAMinutos(h.descansoFin as string),
+    }))
+    .filter((r) => r.fin > r.inicio)
+    .sort((a, b) => a.inicio - b.inicio);
+}
+
+/**
+ * Rangos de atención de un día según los horarios semanales.
+ * Un mismo día puede tener varios turnos (ej: 09:00-13:00 y 15:00-20:00)
+ * y el descanso de un turno lo parte en dos.
+ * Las excepciones de esa fecha los anulan (día libre, feriado) o los
+ * recortan (horas libres).
+ */
+export function getRangosDelDia(
+  fecha: string | Date,
+  horarios: HorarioDto[],
+  excepciones: ExcepcionHorario[] = []
+): RangoMinutos[] {
+  const dia = getDiaSemana(fecha);
+  const delDia = excepciones.filter((e) => excepcionAplicaEnFecha(e, fecha));
+
+  if (delDia.some((e) => e.tipo !== 'HORAS_LIBRES')) return [];
+
+  const turnos = horarios
+    .filter((h) => h.diaSemana === dia && h.activo !== false)
+    .map((h) => ({ inicio: horaAMinutos(h.horaInicio), fin: horaAMinutos(h.horaFin) }))
+    .filter((r) => r.fin > r.inicio)
+    .sort((a, b) => a.inicio - b.inicio);
+
+  const libres: RangoMinutos[] = [
+    ...getDescansosDelDia(fecha, horarios),
+    ...delDia
+      .filter((e) => e.horaInicio && e.horaFin)
+      .map((e) => ({
+        inicio: horaAMinutos(e.horaInicio as string),
+        fin: horaAMinutos(e.horaFin as string),
+      })),
+  ];
+
+  return libres.reduce((restantes, libre) => restarRango(restantes, libre), turnos);
+}
+
+/**
+ * Indica si el profesional atiende algún turno ese día
+ * (según su horario semanal y las excepciones de esa fecha)
+ */
+export function atiendeEseDia(
+  fecha: string | Date,
+  horarios: HorarioDto[],
+  excepciones: ExcepcionHorario[] = []
+): boolean {
+  return getRangosDelDia(fecha, horarios, excepciones).length > 0;
+}
+
+/**
+ * Indica si la reserva bloquea el horario (las canceladas o no asistidas no)
+ */
+export function ocupaHorario(reserva: Reserva): boolean {
+  return !ESTADOS_SIN_OCUPACION.includes(reserva.estado);
+}
+
+/**
+ * Rango que ocupa una reserva dentro de su día (todos sus servicios seguidos)
+ *
+ * @param serviciosProfesional - Servicios de su profesional (duraciones personalizadas)
+ */
+export function getRangoReserva(reserva: Reserva, serviciosProfesional?: ServicioProfesional[]): RangoMinutos {
+  const inicio = dayjs(reserva.fechaHora);
+  const minutosInicio = inicio.hour() * 60 + inicio.minute();
+  return {
+    inicio: minutosInicio,
+    fin: minutosInicio + getDuracionReserva(reserva, serviciosProfesional),
+  };
+}
+
+/**
+ * Rango que la reserva deja ocupado al profesional: la atención más
+ * la limpieza posterior
+ */
+export function getRangoOcupadoReserva(reserva: Reserva, serviciosProfesional?: ServicioProfesional[]): RangoMinutos {
+  const rango = getRangoReserva(reserva, serviciosProfesional);
+  return { inicio: rango.inicio, fin: rango.fin + getMinutosLimpiezaReserva(reserva) };
+}
+
+/**
+ * Indica si el rango [inicio, fin) se cruza con alguno de los ocupados
+ */
+export function hayConflicto(rango: RangoMinutos, ocupados: RangoMinutos[]): boolean {
+  return ocupados.some((o) => rango.inicio < o.fin && o.inicio < rango.fin);
+}
+
+// ============================================================
+// CÁLCULO DE SLOTS
+// ============================================================
+
+/**
+ * Calcula las horas de inicio libres de un profesional en un día.
+ *
+ * Un slot es válido si:
+ * 1. Inicio y fin (inicio + duración) caen dentro del MISMO turno
+ * 2. No se cruza con ninguna reserva activa, contando la limpieza
+ *    posterior de ambas (la suya puede pasar del fin del turno)
+ * 3. No está en el pasado
+ *
+ * @example
+ * calcularSlotsDisponibles({
+ *   fecha: '2024-01-20',
+ *   horarios,            // profesionalService.getHorarios(id)
+ *   duracionMinutos: 30,
+ *   reservas,            // reservaService.getByDate('2024-01-20')
+ * });
+ * // [{ hora: '09:00', fechaHora: '2024-01-20T09:00:00' }, ...]
+ */
+export function calcularSlotsDisponibles({
+  fecha,
+  horarios,
+  duracionMinutos,
+  minutosLimpieza = 0,
+  reservas,
+  serviciosProfesional,
+  excepciones = [],
+  intervaloMinutos = 15,
+  ahora = new Date(),
+}: CalcularSlotsParams): SlotDisponible[] {
+  if (duracionMinutos <= 0 || intervaloMinutos <= 0) return [];
+
+  const dia = dayjs(fecha).startOf('day');
+  const momentoActual = dayjs(ahora);
+
+  // Fechas pasadas no tienen slots
+  if (dia.isBefore(momentoActual, 'day')) return [];
+
+  // Si es hoy, solo se ofrecen horas posteriores a la actual
+  const minimo = dia.isSame(momentoActual, 'day')
+    ? momentoActual.hour() * 60 + momentoActual.minute()
+    : -1;
+
+  const ocupados = reservas
+    .filter((r) => ocupaHorario(r) && dayjs(r.fechaHora).isSame(dia, 'day'))
+    .map((r) => getRangoOcupadoReserva(r, serviciosProfesional));
+
+  const slots: SlotDisponible[] = [];
+
+  for (const turno of getRangosDelDia(dia.toDate(), horarios, excepciones)) {
+    for (let inicio = turno.inicio; inicio + duracionMinutos <= turno.fin; inicio += intervaloMinutos) {
+      if (inicio <= minimo) continue;
+
+      const rango = { inicio, fin: inicio + duracionMinutos + minutosLimpieza };
+      if (hayConflicto(rango, ocupados)) continue;
+
+      slots.push({
+        hora: minutosAHora(inicio),
+        fechaHora: dia.add(inicio, 'minute').format('YYYY-MM-DDTHH:mm:ss'),
+      });
+    }
+  }
+
+  return slots;
+}
+
+// ============================================================
+// CUALQUIER PROFESIONAL
+// ============================================================
+
+/**
+ * Unión de los slots libres de varios profesionales.
+ * Cada slot indica qué profesionales están libres a esa hora.
+ *
+ * @example
+ * calcularSlotsCualquierProfesional({ fecha, duracionMinutos: 30, agendas });
+ * // [{ hora: '09:00', fechaHora: '...', profesionalIds: [1, 3] }, ...]
+ */
+export function calcularSlotsCualquierProfesional({
+  agendas,
+  ...params
+}: CalcularSlotsMultiplesParams): SlotDisponible[] {
+  const porFechaHora = new Map<string, SlotDisponible>();
+
+  for (const agenda of agendas) {
+    const slots = calcularSlotsDisponibles({
+      ...params,
+      duracionMinutos: agenda.duracionMinutos ?? params.duracionMinutos,
+      horarios: agenda.horarios,
+      reservas: agenda.reservas,
+      excepciones: agenda.excepciones,
+      serviciosProfesional: agenda.serviciosProfesional,
+    });
+
+    for (const slot of slots) {
+      const existente = porFechaHora.get(slot.fechaHora);
+      if (existente) {
+        existente.profesionalIds?.push(agenda.profesionalId);
+      } else {
+        porFechaHora.set(slot.fechaHora, { ...slot, profesionalIds: [agenda.profesionalId] });
+      }
+    }
+  }
+
+  return Array.from(porFechaHora.values()).sort((a, b) => a.fechaHora.localeCompare(b.fechaHora));
+}
+
+/**
+ * Elige un profesional de forma equitativa: el que tiene MENOS reservas
+ * activas ese día. En caso de empate, el de menor ID (resultado estable).
+ *
+ * @param profesionalIds - Profesionales libres a la hora elegida
+ * @param reservasDelDia - Todas las reservas del día (de todos los profesionales)
+ * @returns ID del profesional asignado o null si no hay candidatos
+ */
+export function asignarProfesional(profesionalIds: number[], reservasDelDia: Reserva[]): number | null {
+  if (profesionalIds.length === 0) return null;
+
+  const cantidad = (id: number) =>
+    reservasDelDia.filter((r) => r.profesional.id === id && ocupaHorario(r)).length;
+
+  return [...profesionalIds].sort((a, b) => cantidad(a) - cantidad(b) || a - b)[0];
+}
@@ -0,0 +1,131 @@
+/**
+ * ============================================================
+ * UTILIDADES - MÁQUINA DE ESTADOS DE LA RESERVA
+ * ============================================================
+ * Único lugar donde se define a qué estado puede pasar una reserva,
+ * qué permiso hace falta y cuándo se exige un motivo.
+ * Lo usan reservaService.cambiarEstado, los botones del dashboard
+ * y las verificaciones de permisos.
+ *
+ *   PENDIENTE ──→ CONFIRMADA ──→ EN_PROGRESO ──→ COMPLETADA
+ *       │              │
+ *       ├──────────────┴──→ CANCELADA   (requiere motivo)
+ *       └──────────────┴──→ NO_ASISTIO  (requiere motivo)
+ *
+ * COMPLETADA, CANCELADA y NO_ASISTIO son finales.
+ */
+
+import { ESTADO_RESERVA_LABELS } from '@/lib/types';
+import type { ApiError, EstadoReserva, Permission } from '@/lib/types';
+
+// ============================================================
+// DEFINICIÓN
+// ============================================================
+
+/** Estados a los que se puede pasar desde cada estado */
+export const TRANSICIONES_RESERVA: Record<EstadoReserva, readonly EstadoReserva[]> = {
+  PENDIENTE: ['CONFIRMADA', 'CANCELADA', 'NO_ASISTIO'],
+  CONFIRMADA: ['EN_PROGRESO', 'CANCELADA', 'NO_ASISTIO'],
+  EN_PROGRESO: ['COMPLETADA'],
+  COMPLETADA: [],
+  CANCELADA: [],
+  NO_ASISTIO: [],
+};
+
+/** Permiso necesario para pasar una reserva a cada estado */
+export const PERMISO_TRANSICION: Record<EstadoReserva, Permission> = {
+  PENDIENTE: 'UPDATE_BOOKING',
+  CONFIRMADA: 'CONFIRM_BOOKING',
+  EN_PROGRESO: 'UPDATE_BOOKING',
+  COMPLETADA: 'UPDATE_BOOKING',
+  CANCELADA: 'CANCEL_BOOKING',
+  NO_ASISTIO: 'UPDATE_BOOKING',
+};
+
+/** Texto del botón que lleva a cada estado */
+export const ACCION_TRANSICION_LABELS: Record<EstadoReserva, string> = {
+  PENDIENTE: 'Volver a pendiente',
+  CONFIRMADA: 'Confirmar',
+  EN_PROGRESO: 'Iniciar atención',
+  COMPLETADA: 'Completar',
+  CANCELADA: 'Cancelar',
+  NO_ASISTIO: 'No asistió',
+};
+
+/** Estados que exigen indicar el motivo */
+export const ESTADOS_CON_MOTIVO: readonly EstadoReserva[] = ['CANCELADA', 'NO_ASISTIO'];
+
+// ============================================================
+// CONSULTAS
+// ============================================================
+
+/**
+ * Estados a los que puede pasar una reserva
+ */
+export function getTransiciones(estado: EstadoReserva): readonly EstadoReserva[] {
+  return TRANSICIONES_RESERVA[estado];
+}
+
+/**
+ * Indica si el cambio desde → hacia está permitido
+ */
+export function puedeTransicionar(desde: EstadoReserva, hacia: EstadoReserva): boolean {
+  return TRANSICIONES_RESERVA[desde].includes(hacia);
+}
+
+/**
+ * Indica si pasar a este estado exige un motivo
+ */
+export function requiereMotivo(estado: EstadoReserva): boolean {
+  return ESTADOS_CON_MOTIVO.includes(estado);
+}
+
+/**
+ * Transiciones disponibles para el usuario según sus permisos
+ *
+ * @example
+ * const { hasPermission } = useAuth();
+ * getTransicionesPermitidas(reserva.estado, hasPermission);
+ * // ['CONFIRMADA', 'CANCELADA'] si no tiene UPDATE_BOOKING
+ */
+export function getTransicionesPermitidas(
+  estado: EstadoReserva,
+  hasPermission: (permiso: Permission) => boolean
+): EstadoReserva[] {
+  return getTransiciones(estado).filter((hacia) => hasPermission(PERMISO_TRANSICION[hacia]));
+}
+
+// ============================================================
+// VALIDACIÓN
+// ============================================================
+
+/**
+ * Valida un cambio de estado antes de enviarlo al backend.
+ * Retorna un ApiError (mismo formato que el http-client) o null si es válido:
+ * - 409 si la transición no está permitida
+ * - 422 con errors.motivo si falta el motivo
+ */
+export function validarTransicion(
+  desde: EstadoReserva,
+  hacia: EstadoReserva,
+  motivo?: string
+): ApiError | null {
+  if (!puedeTransicionar(desde, hacia)) {
+    return {
+      message: `Una reserva "${ESTADO_RESERVA_LABELS[desde]}" no puede pasar a "${ESTADO_RESERVA_LABELS[hacia]}"`,
+      code: 'TRANSICION_INVALIDA',
+      status: 409,
+    };
+  }
+
+  if (requiereMotivo(hacia) && !motivo?.trim()) {
+    return {
+      message: 'Indica el motivo',
+      error: 'Error de validación',
+      status: 422,
+      errors: { motivo: 'El motivo es obligatorio' },
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+/**
+ * ============================================================
+ * UTILIDADES - EXCEPCIONES DE HORARIO
+ * ============================================================
+ * Días libres, horas libres y feriados. Cómo recortan la
+ * disponibilidad está en disponibilidad.ts (getRangosDelDia);
+ * aquí van los filtros y textos para mostrarlas.
+ */
+
+import { formatFecha } from './dates';
+import { excepcionAplicaEnFecha } from './disponibilidad';
+import type { EstadoExcepcion, ExcepcionHorario, TipoExcepcion } from '@/lib/types';
+
+export const NOMBRES_TIPO_EXCEPCION: Record<TipoExcepcion, string> = {
+  DIA_LIBRE: 'Día libre',
+  HORAS_LIBRES: 'Horas libres',
+  FERIADO: 'Feriado',
+};
+
+export const NOMBRES_ESTADO_EXCEPCION: Record<EstadoExcepcion, string> = {
+  PENDIENTE: 'Pendiente',
+  APROBADA: 'Aprobada',
+  RECHAZADA: 'Rechazada',
+};
+
+/**
+ * Excepciones que afectan a un profesional: las suyas y las del negocio
+ */
+export function getExcepcionesProfesional(
+  excepciones: ExcepcionHorario[],
+  profesionalId: number
+): ExcepcionHorario[] {
+  return excepciones.filter((e) => e.profesionalId == null || e.profesionalId === profesionalId);
+}
+
+/**
+ * Excepciones (ya filtradas por profesional) que caen en la fecha
+ */
+export function getExcepcionesDelDia(
+  excepciones: ExcepcionHorario[],
+  fecha: string | Date
+): ExcepcionHorario[] {
+  return excepciones.filter((e) => excepcionAplicaEnFecha(e, fecha));
+}
+
+/**
+ * Fechas legibles: "28/07/2024" o "01/08/2024 al 15/08/2024"
+ */
+export function formatFechasExcepcion(excepcion: Pick<ExcepcionHorario, 'fechaInicio' | 'fechaFin'>): string {
+  return excepcion.fechaInicio === excepcion.fechaFin
+    ? formatFecha(excepcion.fechaInicio)
+    : `${formatFecha(excepcion.fechaInicio)} al ${formatFecha(excepcion.fechaFin)}`;
+}
+
+/**
+ * Horario legible: "15:00 – 17:00" en horas libres, si no "Todo el día"
+ */
+export function formatHorasExcepcion(excepcion: ExcepcionHorario): string {
+  return excepcion.tipo === 'HORAS_LIBRES' && excepcion.horaInicio && excepcion.horaFin
+    ? `${excepcion.horaInicio.slice(0, 5)} – ${excepcion.horaFin.slice(0, 5)}`
+    : 'Todo el día';
+}
+
+/**
+ * Etiqueta corta para la agenda: "Vacaciones", "Feriado", "Horas libres 15:00–17:00"
+ */
+export function getEtiquetaExcepcion(excepcion: ExcepcionHorario): string {
+  const horas = excepcion.tipo === 'HORAS_LIBRES' && excepcion.horaInicio && excepcion.horaFin
+    ? ` ${excepcion.horaInicio.slice(0, 5)}–${excepcion.horaFin.slice(0, 5)}`
+    : '';
+  return `${excepcion.motivo || NOMBRES_TIPO_EXCEPCION[excepcion.tipo]}${horas}`;
+}
@@ -0,0 +1,242 @@
+/**
+ * ============================================================
+ * UTILIDADES - HORARIO SEMANAL (editor)
+ * ============================================================
+ * Funciones puras del editor de horarios (de un profesional o del negocio):
+ * - Orden y nombres de los días (lunes primero)
+ * - Validación de turnos: fin posterior al inicio, sin cruces y con el
+ *   descanso (opcional) dentro del turno
+ * - Copiar un día al resto de la semana
+ * - Qué crear, actualizar y eliminar al guardar la semana
+ *
+ * Solo se editan los turnos activos: los inactivos que tenga el
+ * backend no se muestran ni se tocan.
+ */
+
+import { horaAMinutos, minutosAHora } from './disponibilidad';
+import type { DiaSemana, HorarioDto, HorarioProfesional } from '@/lib/types';
+
+/** Días en el orden del editor (lunes primero) */
+export const DIAS_SEMANA: DiaSemana[] = [
+  'LUNES',
+  'MARTES',
+  'MIERCOLES',
+  'JUEVES',
+  'VIERNES',
+  'SABADO',
+  'DOMINGO',
+];
+
+export const NOMBRES_DIA_SEMANA: Record<DiaSemana, string> = {
+  LUNES: 'Lunes',
+  MARTES: 'Martes',
+  MIERCOLES: 'Miércoles',
+  JUEVES: 'Jueves',
+  VIERNES: 'Viernes',
+  SABADO: 'Sábado',
+  DOMINGO: 'Domingo',
+};
+
+/**
+ * Turno en edición (sin horarioId = aún no existe en el backend)
+ */
+export interface TurnoHorario {
+  horarioId?: number;
+  diaSemana: DiaSemana;
+  horaInicio: string; // "09:00"
+  horaFin: string;    // "18:00"
+  /** Descanso dentro del turno ("" o sin valor = sin descanso) */
+  descansoInicio?: string; // "13:00"
+  descansoFin?: string;    // "14:00"
+}
+
+/**
+ * Error de un turno (índice dentro de la lista)
+ */
+export interface ErrorTurno {
+  indice: number;
+  /** Campo donde se muestra el error (default: horaFin) */
+  campo?: 'horaFin' | 'descansoFin';
+  mensaje: string;
+}
+
+export interface CambiosHorario {
+  crear: HorarioDto[];
+  actualizar: { horarioId: number; data: HorarioDto }[];
+  eliminar: number[];
+}
+
+/** "09:00:00" → "09:00" (el backend puede enviar segundos) */
+function normalizarHora(hora: string): string {
+  return hora.slice(0, 5);
+}
+
+function ordenarTurnos<T extends Pick<TurnoHorario, 'diaSemana' | 'horaInicio'>>(turnos: T[]): T[] {
+  return [...turnos].sort(
+    (a, b) =>
+      DIAS_SEMANA.indexOf(a.diaSemana) - DIAS_SEMANA.indexOf(b.diaSemana) ||
+      horaAMinutos(a.horaInicio) - horaAMinutos(b.horaInicio)
+  );
+}
+
+/**
+ * Turnos activos del backend, listos para el editor (por día y hora).
+ * El horario del negocio no trae id: todos sus turnos quedan como nuevos.
+ */
+export function turnosDesdeHorarios(horarios: (HorarioDto & { id?: number })[]): TurnoHorario[] {
+  return ordenarTurnos(
+    horarios
+      .filter((h) => h.activo !== false)
+      .map((h) => ({
+        horarioId: h.id,
+        diaSemana: h.diaSemana,
+        horaInicio: normalizarHora(h.horaInicio),
+        horaFin: normalizarHora(h.horaFin),
+        descansoInicio: h.descansoInicio ? normalizarHora(h.descansoInicio) : '',
+        descansoFin: h.descansoFin ? normalizarHora(h.descansoFin) : '',
+      }))
+  );
+}
+
+/**
+ * Indica si el turno tiene descanso (al menos una de sus horas)
+ */
+export function tieneDescanso(turno: TurnoHorario): boolean {
+  return !!turno.descansoInicio || !!turno.descansoFin;
+}
+
+/**
+ * Descanso sugerido al agregarlo: 1 hora a mitad del turno
+ */
+export function getDescansoSugerido(turno: TurnoHorario): Pick<TurnoHorario, 'descansoInicio' | 'descansoFin'> {
+  const inicio = horaAMinutos(turno.horaInicio);
+  const fin = horaAMinutos(turno.horaFin);
+  const mitad = Math.round((inicio + fin) / 2 / 15) * 15;
+  const descansoInicio = Math.max(inicio, mitad - 30);
+  return {
+    descansoInicio: minutosAHora(descansoInicio),
+    descansoFin: minutosAHora(Math.min(fin, descansoInicio + 60)),
+  };
+}
+
+/**
+ * Errores de la semana: horaFin <= horaInicio, turnos del mismo día
+ * que se cruzan (el error se marca en el que empieza después), o un
+ * descanso incompleto o fuera del turno
+ */
+export function validarTurnos(turnos: TurnoHorario[]): ErrorTurno[] {
+  const errores: ErrorTurno[] = [];
+
+  turnos.forEach((turno, indice) => {
+    const inicio = horaAMinutos(turno.horaInicio);
+    const fin = horaAMinutos(turno.horaFin);
+
+    if (fin <= inicio) {
+      errores.push({ indice, mensaje: 'La hora de fin debe ser posterior a la de inicio' });
+      return;
+    }
+
+    const cruce = turnos.find((otro, j) => {
+      if (j === indice || otro.diaSemana !== turno.diaSemana) return false;
+      const otroInicio = horaAMinutos(otro.horaInicio);
+      const otroFin = horaAMinutos(otro.horaFin);
+      if (otroFin <= otroInicio) return false;
+      // Solo se reporta en uno de los dos turnos
+      const empiezaAntes = otroInicio < inicio || (otroInicio === inicio && j < indice);
+      return empiezaAntes && inicio < otroFin && otroInicio < fin;
+    });
+
+    if (cruce) {
+      errores.push({
+        indice,
+        mensaje: `Se cruza con el turno de ${cruce.horaInicio} a ${cruce.horaFin}`,
+      });
+    }
+
+    if (!tieneDescanso(turno)) return;
+
+    if (!turno.descansoInicio || !turno.descansoFin) {
+      errores.push({ indice, campo: 'descansoFin', mensaje: 'Completa el inicio y fin del descanso' });
+      return;
+    }
+
+    const descansoInicio = horaAMinutos(turno.descansoInicio);
+    const descansoFin = horaAMinutos(turno.descansoFin);
+
+    if (descansoFin <= descansoInicio) {
+      errores.push({ indice, campo: 'descansoFin', mensaje: 'El descanso debe terminar después de empezar' });
+    } else if (descansoInicio <= inicio || descansoFin >= fin) {
+      errores.push({ indice, campo: 'descansoFin', mensaje: 'El descanso debe quedar dentro del turno' });
+    }
+  });
+
+  return errores;
+}
+
+/**
+ * Copia los turnos de un día a todos los demás (reemplaza los suyos).
+ * Reutiliza los horarioId existentes de cada día para que al guardar
+ * se actualicen en lugar de borrarse y crearse de nuevo.
+ */
+export function copiarDiaASemana(turnos: TurnoHorario[], dia: DiaSemana): TurnoHorario[] {
+  const origen = ordenarTurnos(turnos.filter((t) => t.diaSemana === dia));
+
+  return DIAS_SEMANA.flatMap((diaSemana) => {
+    if (diaSemana === dia) return origen;
+    const existentes = ordenarTurnos(turnos.filter((t) => t.diaSemana === diaSemana));
+    return origen.map((turno, i) => ({
+      horarioId: existentes[i]?.horarioId,
+      diaSemana,
+      horaInicio: turno.horaInicio,
+      horaFin: turno.horaFin,
+      descansoInicio: turno.descansoInicio,
+      descansoFin: turno.descansoFin,
+    }));
+  });
+}
+
+/**
+ * Turno del editor → HorarioDto para el backend
+ */
+export function horarioDesdeTurno(turno: TurnoHorario): HorarioDto {
+  return {
+    diaSemana: turno.diaSemana,
+    horaInicio: turno.horaInicio,
+    horaFin: turno.horaFin,
+    descansoInicio: turno.descansoInicio || null,
+    descansoFin: turno.descansoFin || null,
+    activo: true,
+  };
+}
+
+/**
+ * Compara los horarios guardados con los turnos editados y devuelve
+ * las operaciones necesarias para dejar el backend igual al editor
+ */
+export function calcularCambiosHorario(
+  horarios: HorarioProfesional[],
+  turnos: TurnoHorario[]
+): CambiosHorario {
+  const originales = turnosDesdeHorarios(horarios);
+  const idsEditados = turnos.map((t) => t.horarioId).filter((id): id is number => id != null);
+
+  return {
+    crear: turnos.filter((t) => t.horarioId == null).map(horarioDesdeTurno),
+    actualizar: turnos
+      .filter((t) => {
+        const original = originales.find((o) => o.horarioId === t.horarioId);
+        return (
+          original &&
+          (original.diaSemana !== t.diaSemana ||
+            original.horaInicio !== t.horaInicio ||
+            original.horaFin !== t.horaFin ||
+            (original.descansoInicio || '') !== (t.descansoInicio || '') ||
+            (original.descansoFin || '') !== (t.descansoFin || ''))
+        );
+      })
+      .map((t) => ({ horarioId: t.horarioId as number, data: horarioDesdeTurno(t) })),
+    eliminar: originales
+      .map((o) => o.horarioId as number)
+      .filter((id) => !idsEditados.includes(id)),
+  };
+}
@@ -0,0 +1,245 @@
+/**
+ * ============================================================
+ * UTILIDADES - CALENDARIO (iCalendar / .ics)
+ * ============================================================
+ * Genera archivos .ics (RFC 5545) para que clientes y profesionales
+ * agreguen sus citas al calendario del celular (Google, Apple, Outlook).
+ *
+ * CÓMO USAR:
+ * import { descargarReservaIcs } from '@/lib/utils';
+ *
+ * descargarReservaIcs(reserva, getNegocioIcs(negocio));
+ *
+ * La ubicación (LOCATION) es Negocio.direccion; si el negocio no la
+ * cargó, la de negocioConfig (NEXT_PUBLIC_NEGOCIO_DIRECCION).
+ *
+ * El feed por profesional (suscripción) se sirve en:
+ * GET /api/public/calendario/[profesionalId]?token=...
+ * con el token de solo lectura del profesional (ver getUrlCalendario).
+ */
+
+import { negocioConfig } from '@/lib/config/negocio.config';
+import { dayjs } from './dates';
+import { getDuracionReserva, getNombreServicios, getServiciosReserva } from './reservas';
+import type { Negocio, Reserva, ServicioProfesional, ServiciosPorProfesional } from '@/lib/types';
+
+// ============================================================
+// TIPOS
+// ============================================================
+
+/** Datos del negocio que se muestran en el evento */
+export type NegocioIcs = Pick<Negocio, 'nombre' | 'direccion'>;
+
+export interface CalendarioIcsOptions {
+  /** Nombre del calendario (se ve al suscribirse) */
+  nombre: string;
+  negocio?: NegocioIcs;
+  /** Duraciones propias de cada profesional (overrides) para DTEND */
+  serviciosPorProfesional?: ServiciosPorProfesional;
+}
+
+/**
+ * Datos del negocio para los eventos: los de su registro (Negocio) y,
+ * mientras no carguen o si faltan, los de negocioConfig
+ */
+export function getNegocioIcs(negocio?: Partial<NegocioIcs> | null): NegocioIcs {
+  return {
+    nombre: negocio?.nombre || negocioConfig.datosNegocio.nombre,
+    direccion: negocio?.direccion || negocioConfig.datosNegocio.direccion,
+  };
+}
+
+// ============================================================
+// HELPERS DE FORMATO
+// ============================================================
+
+const SALTO = '\r\n';
+
+/**
+ * Escapa texto según RFC 5545 (\, ; , y saltos de línea)
+ */
+function escaparTexto(texto: string): string {
+  return texto
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// El límite de 75 es en octetos UTF-8, no en caracteres
+const encoder = new TextEncoder();
+const MAX_OCTETOS_LINEA = 75;
+
+/**
+ * Corta líneas de más de 75 octetos (las siguientes empiezan con espacio,
+ * que cuenta en su límite). Nunca parte un carácter multibyte (tildes, ñ, emojis).
+ */
+function plegarLinea(linea: string): string {
+  if (encoder.encode(linea).length <= MAX_OCTETOS_LINEA) return linea;
+
+  const partes: string[] = [];
+  let actual = '';
+  let octetos = 0;
+  let limite = MAX_OCTETOS_LINEA;
+
+  // for...of recorre por punto de código (no parte pares sustitutos)
+  for (const caracter of linea) {
+    const largo = encoder.encode(caracter).length;
+    if (octetos + largo > limite) {
+      partes.push(actual);
+      actual = '';
+      octetos = 0;
+      limite = MAX_OCTETOS_LINEA - 1;
+    }
+    actual += caracter;
+    octetos += largo;
+  }
+  partes.push(actual);
+
+  return partes.join(SALTO + ' ');
+}
+
+/**
+ * Fecha local sin zona horaria: "20240120T103000"
+ * (Reserva.fechaHora es hora local del negocio)
+ */
+function formatFechaLocal(fecha: string | Date): string {
+  return dayjs(fecha).format('YYYYMMDD[T]HHmmss');
+}
+
+/**
+ * Fecha en UTC: "20240120T153000Z" (para DTSTAMP)
+ */
+function formatFechaUtc(fecha: Date): string {
+  return fecha.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ============================================================
+// GENERADORES
+// ============================================================
+
+/**
+ * Líneas VEVENT de una reserva
+ *
+ * @param serviciosProfesional - Overrides del profesional (DTEND con SU duración)
+ */
+function generarEvento(
+  reserva: Reserva,
+  negocio?: NegocioIcs,
+  serviciosProfesional?: ServicioProfesional[]
+): string[] {
+  const inicio = dayjs(reserva.fechaHora);
+  const fin = inicio.add(getDuracionReserva(reserva, serviciosProfesional), 'minute');
+
+  const servicios = getNombreServicios(getServiciosReserva(reserva));
+  const titulo = negocio?.nombre ? `${servicios} - ${negocio.nombre}` : servicios;
+
+  const descripcion = [
+    `Profesional: ${reserva.profesional.nombreCompleto}`,
+    `Cliente: ${reserva.clienteNombre}`,
+    reserva.codigo ? `Código: ${reserva.codigo}` : null,
+    reserva.notas ? `Notas: ${reserva.notas}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const lineas = [
+    'BEGIN:VEVENT',
+    `UID:reserva-${reserva.id}@barberia`,
+    `DTSTAMP:${formatFechaUtc(new Date())}`,
+    `DTSTART:${formatFechaLocal(inicio.toDate())}`,
+    `DTEND:${formatFechaLocal(fin.toDate())}`,
+    `SUMMARY:${escaparTexto(titulo)}`,
+    `DESCRIPTION:${escaparTexto(descripcion)}`,
+  ];
+
+  if (negocio?.direccion) {
+    lineas.push(`LOCATION:${escaparTexto(negocio.direccion)}`);
+  }
+
+  lineas.push(
+    `STATUS:${reserva.estado === 'CANCELADA' ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT'
+  );
+
+  return lineas;
+}
+
+/**
+ * Arma el documento VCALENDAR completo
+ */
+function generarDocumento(eventos: string[][], nombre?: string): string {
+  const lineas = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Barberia//Reservas//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(nombre ? [`X-WR-CALNAME:${escaparTexto(nombre)}`] : []),
+    ...eventos.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lineas.map(plegarLinea).join(SALTO) + SALTO;
+}
+
+/**
+ * Genera el .ics de UNA reserva (botón "Agregar al calendario")
+ */
+export function generarReservaIcs(
+  reserva: Reserva,
+  negocio?: NegocioIcs,
+  serviciosProfesional?: ServicioProfesional[]
+): string {
+  return generarDocumento([generarEvento(reserva, negocio, serviciosProfesional)]);
+}
+
+/**
+ * Genera un calendario con varias reservas (feed de suscripción)
+ */
+export function generarCalendarioIcs(
+  reservas: Reserva[],
+  { nombre, negocio, serviciosPorProfesional = {} }: CalendarioIcsOptions
+): string {
+  return generarDocumento(
+    reservas.map((r) => generarEvento(r, negocio, serviciosPorProfesional[r.profesional.id])),
+    nombre
+  );
+}
+
+/**
+ * URL para "Suscribirse por URL" en Google/Apple/Outlook
+ *
+ * @param origen - Origen de esta app (ej: window.location.origin)
+ * @param token - profesionalService.getTokenCalendario(id).token
+ */
+export function getUrlCalendario(origen: string, profesionalId: number, token: string): string {
+  return `${origen}/api/public/calendario/${profesionalId}?token=${encodeURIComponent(token)}`;
+}
+
+// ============================================================
+// DESCARGA (solo navegador)
+// ============================================================
+
+/**
+ * Descarga el .ics de una reserva
+ */
+export function descargarReservaIcs(
+  reserva: Reserva,
+  negocio?: NegocioIcs,
+  serviciosProfesional?: ServicioProfesional[]
+): void {
+  const blob = new Blob([generarReservaIcs(reserva, negocio, serviciosProfesional)], {
+    type: 'text/calendar;charset=utf-8',
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `reserva-${reserva.codigo ?? reserva.id}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================
+ * UTILIDADES - IMÁGENES (subida)
+ * ============================================================
+ * - Validación de tipo y tamaño antes de subir
+ * - Redimensión y compresión en el navegador (canvas), para no
+ *   subir fotos de varios MB tomadas con el celular
+ *
+ * NOTA: comprimirImagen solo funciona en el navegador. Las
+ * constantes también las usa el reemplazo local de /api/uploads.
+ */
+
+/** Formatos aceptados */
+export const TIPOS_IMAGEN_PERMITIDOS = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Tamaño máximo del archivo original (antes de comprimir) */
+export const MAX_MB_IMAGEN_ORIGINAL = 15;
+
+/** Tamaño máximo que acepta el servidor (ya comprimida) */
+export const MAX_MB_IMAGEN_SUBIDA = 5;
+
+export interface OpcionesCompresion {
+  /** Lado mayor máximo en px (se mantiene la proporción) */
+  maxLado?: number;
+  /** Calidad 0-1 para webp/jpeg */
+  calidad?: number;
+}
+
+/**
+ * Mensaje de error si el archivo no se puede subir (null si es válido)
+ */
+export function validarImagen(archivo: File): string | null {
+  if (!TIPOS_IMAGEN_PERMITIDOS.includes(archivo.type)) {
+    return 'Formato no permitido. Usa JPG, PNG o WEBP';
+  }
+  if (archivo.size > MAX_MB_IMAGEN_ORIGINAL * 1024 * 1024) {
+    return `La imagen no puede pesar más de ${MAX_MB_IMAGEN_ORIGINAL} MB`;
+  }
+  return null;
+}
+
+/**
+ * Cambia la extensión del nombre según el formato final: foto.png -> foto.webp
+ */
+export function nombreConExtension(nombre: string, tipo: string): string {
+  const extension = tipo.split('/')[1] === 'jpeg' ? 'jpg' : tipo.split('/')[1];
+  const base = nombre.replace(/\.[^.]+$/, '') || 'imagen';
+  return `${base}.${extension}`;
+}
+
+/**
+ * Redimensiona (sin agrandar) y comprime a WEBP.
+ * Si el navegador no codifica WEBP, toBlob devuelve PNG: también vale.
+ */
+export async function comprimirImagen(
+  archivo: File,
+  { maxLado = 1200, calidad = 0.82 }: OpcionesCompresion = {}
+): Promise<Blob> {
+  const bitmap = await createImageBitmap(archivo);
+  const escala = Math.min(1, maxLado / Math.max(bitmap.width, bitmap.height));
+  const ancho = Math.round(bitmap.width * escala);
+  const alto = Math.round(bitmap.height * escala);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = ancho;
+  canvas.height = alto;
+  const contexto = canvas.getContext('2d');
+  if (!contexto) {
+    bitmap.close();
+    return archivo;
+  }
+  contexto.drawImage(bitmap, 0, 0, ancho, alto);
+  bitmap.close();
+
+  const comprimida = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/webp', calidad)
+  );
+
+  // Si no se pudo, o "comprimida" pesa más (ej: PNG pequeño), sube el original
+  if (!comprimida || comprimida.size >= archivo.size) return archivo;
+  return comprimida;
+}
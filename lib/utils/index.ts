@@ -13,4 +13,17 @@ export * from './export';
 export * from './toast.utils';
 export * from './api-error.utils';
 export * from './jwt.utils';
+export * from './disponibilidad';
+export * from './horarios';
+export * from './excepciones';
 
+export * from './reservas';
+export * from './servicios';
+export * from './paquetes';
+export * from './estado-reserva';
+export * from './ics';
+export * from './agenda';
+export * from './cola';
+export * from './pantalla';
+export * from './comisiones';
+export * from './imagenes';
@@ -0,0 +1,108 @@
+/**
+ * ============================================================
+ * UTILIDADES - PANTALLA DE SALA DE ESPERA (TV)
+ * ============================================================
+ * Arma lo que muestra la TV a partir de los datos del backend:
+ * - Por profesional: la reserva EN_PROGRESO y la siguiente de hoy
+ * - La cola de clientes sin reserva, en orden de llegada
+ *
+ * La pantalla es pública, por eso los nombres se abrevian y no se
+ * copian teléfonos ni emails.
+ *
+ * "Ahora" es la hora del LOCAL (zonaHoraria), no la del servidor.
+ *
+ * Funciones puras: no llaman al API (se usan en /api/public/pantalla).
+ */
+
+import { dayjs, formatHora, toLocalDateTime, toLocalDateTimeEnZona } from './dates';
+import { ocupaHorario } from './disponibilidad';
+import { getNombreServicios, getServiciosReserva } from './reservas';
+import type {
+  EntradaCola,
+  PantallaSnapshot,
+  Profesional,
+  Reserva,
+  TurnoPantalla,
+} from '@/lib/types';
+
+export interface ArmarPantallaParams {
+  negocio: string;
+  profesionales: Profesional[];
+  /** Reservas de HOY */
+  reservas: Reserva[];
+  /** Clientes esperando */
+  cola: EntradaCola[];
+  ahora?: Date;
+  /** Zona del local (negocioConfig.zonaHoraria); sin ella, la del servidor */
+  zonaHoraria?: string;
+}
+
+/**
+ * "Juan Carlos Pérez" → "Juan P."
+ */
+export function abreviarNombre(nombre: string): string {
+  const [primero, ...resto] = nombre.trim().split(/\s+/);
+  const apellido = resto[resto.length - 1];
+  return apellido ? `${primero} ${apellido[0].toUpperCase()}.` : primero;
+}
+
+function toTurnoPantalla(reserva: Reserva): TurnoPantalla {
+  return {
+    clienteNombre: abreviarNombre(reserva.clienteNombre),
+    servicios: getNombreServicios(getServiciosReserva(reserva)),
+    hora: formatHora(reserva.fechaHora),
+  };
+}
+
+/**
+ * Arma la respuesta de la pantalla
+ *
+ * @example
+ * armarPantalla({ negocio: 'Barbería', profesionales, reservas, cola });
+ * // { profesionales: [{ nombreCompleto: 'Carlos', actual: { clienteNombre: 'Juan P.', ... }, siguiente: ... }], cola: [...] }
+ */
+export function armarPantalla({
+  negocio,
+  profesionales,
+  reservas,
+  cola,
+  ahora = new Date(),
+  zonaHoraria,
+}: ArmarPantallaParams): PantallaSnapshot {
+  // Hora de pared del local: se compara con Reserva.fechaHora (sin zona)
+  const momento = dayjs(zonaHoraria ? toLocalDateTimeEnZona(ahora, zonaHoraria) : toLocalDateTime(ahora));
+  const activas = reservas
+    .filter(ocupaHorario)
+    .sort((a, b) => a.fechaHora.localeCompare(b.fechaHora));
+
+  return {
+    negocio,
+    profesionales: profesionales.map((prof) => {
+      const delProfesional = activas.filter((r) => r.profesional.id === prof.id);
+      const actual = delProfesional.find((r) => r.estado === 'EN_PROGRESO');
+      // La siguiente: pendiente/confirmada que aún no pasó hace rato
+      // (un cliente con 15 min de retraso sigue apareciendo)
+      const siguiente = delProfesional.find(
+        (r) =>
+          (r.estado === 'PENDIENTE' || r.estado === 'CONFIRMADA') &&
+          dayjs(r.fechaHora).isAfter(momento.subtract(15, 'minute'))
+      );
+
+      return {
+        id: prof.id,
+        nombreCompleto: prof.nombreCompleto,
+        actual: actual ? toTurnoPantalla(actual) : null,
+        siguiente: siguiente ? toTurnoPantalla(siguiente) : null,
+      };
+    }),
+    cola: [...cola]
+      .sort((a, b) => a.horaLlegada.localeCompare(b.horaLlegada))
+      .map((entrada) => ({
+        id: entrada.id,
+        clienteNombre: abreviarNombre(entrada.clienteNombre),
+        horaLlegada: formatHora(entrada.horaLlegada),
+        profesionalPreferido: entrada.profesionalPreferido?.nombreCompleto,
+      })),
+    actualizadoEn: ahora.toISOString(),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * ============================================================
+ * UTILIDADES - PAQUETES (combos de servicios)
+ * ============================================================
+ * - Duración y ahorro de un paquete (suma de sus servicios)
+ * - Enlaces del catálogo a /reservar con el paquete ya elegido
+ */
+
+import { sumarDuracion, sumarPrecio } from './reservas';
+import type { Paquete } from '@/lib/types';
+
+/** Query param de /reservar con el paquete preseleccionado */
+export const PARAM_PAQUETE_RESERVA = 'paquete';
+
+/**
+ * Minutos del paquete: sus servicios se atienden seguidos
+ */
+export function getDuracionPaquete(paquete: Pick<Paquete, 'servicios'>): number {
+  return sumarDuracion(paquete.servicios);
+}
+
+/**
+ * Cuánto se ahorra frente a reservar los servicios por separado (0 si nada)
+ */
+export function getAhorroPaquete(paquete: Pick<Paquete, 'servicios' | 'precio'>): number {
+  return Math.max(0, sumarPrecio(paquete.servicios) - paquete.precio);
+}
+
+/**
+ * URL para reservar directamente un paquete: /reservar?paquete=2
+ */
+export function getUrlReservarPaquete(paqueteId: number): string {
+  return `/reservar?${PARAM_PAQUETE_RESERVA}=${paqueteId}`;
+}
+
+/**
+ * Lee ?paquete=2 (null si falta o no es un ID válido)
+ */
+export function parsePaqueteParam(valor: string | null): number | null {
+  const id = Number(valor);
+  return valor && Number.isInteger(id) && id > 0 ? id : null;
+}
@@ -0,0 +1,183 @@
+/**
+ * ============================================================
+ * UTILIDADES - GESTIÓN DE RESERVAS
+ * ============================================================
+ * - Servicios de una reserva (una cita puede tener varios servicios)
+ * - Reglas para que el cliente gestione su propia reserva desde
+ *   la web pública (/reservar/[codigo]): cancelar o reprogramar.
+ */
+
+import { dayjs } from './dates';
+import type { EstadoReserva, Reserva, ServicioProfesional, ServicioResumen } from '@/lib/types';
+
+// ============================================================
+// SERVICIOS DE LA RESERVA
+// ============================================================
+
+/**
+ * Servicios de una reserva. Las reservas de un solo servicio
+ * pueden no traer `servicios`, solo `servicio`.
+ */
+export function getServiciosReserva(reserva: Reserva): ServicioResumen[] {
+  return reserva.servicios?.length ? reserva.servicios : [reserva.servicio];
+}
+
+/**
+ * Indica si el profesional ofrece TODOS los servicios (una cita con
+ * varios servicios la atiende una sola persona)
+ *
+ * @param serviciosProfesional - profesionalService.getServicios(id)
+ */
+export function ofreceServicios(
+  serviciosProfesional: Pick<ServicioResumen, 'id'>[],
+  servicioIds: number[]
+): boolean {
+  return servicioIds.every((id) => serviciosProfesional.some((s) => s.id === id));
+}
+
+/**
+ * Servicios con el precio y la duración del profesional que los atiende
+ * (precioPersonalizado / duracionMinutosPersonalizada). Sin personalización,
+ * o si no se conocen sus servicios, quedan los del servicio.
+ *
+ * @param serviciosProfesional - profesionalService.getServicios(id)
+ */
+export function personalizarServicios<T extends Pick<ServicioResumen, 'id' | 'precio' | 'duracionMinutos'>>(
+  servicios: T[],
+  serviciosProfesional: ServicioProfesional[] = []
+): T[] {
+  return servicios.map((servicio) => {
+    const propio = serviciosProfesional.find((s) => s.id === servicio.id);
+    return {
+      ...servicio,
+      precio: propio?.precioPersonalizado ?? servicio.precio,
+      duracionMinutos: propio?.duracionMinutosPersonalizada ?? servicio.duracionMinutos,
+    };
+  });
+}
+
+/**
+ * Suma la duración de varios servicios (se atienden seguidos)
+ */
+export function sumarDuracion(servicios: Pick<ServicioResumen, 'duracionMinutos'>[]): number {
+  return servicios.reduce((total, s) => total + s.duracionMinutos, 0);
+}
+
+/**
+ * Suma el precio de varios servicios
+ */
+export function sumarPrecio(servicios: Pick<ServicioResumen, 'precio'>[]): number {
+  return servicios.reduce((total, s) => total + s.precio, 0);
+}
+
+/**
+ * Duración total del bloque que ocupa la reserva
+ *
+ * @param serviciosProfesional - Servicios de su profesional (duraciones personalizadas)
+ */
+export function getDuracionReserva(reserva: Reserva, serviciosProfesional?: ServicioProfesional[]): number {
+  return sumarDuracion(personalizarServicios(getServiciosReserva(reserva), serviciosProfesional));
+}
+
+/**
+ * Minutos de limpieza/preparación después de atender varios servicios
+ * seguidos: se limpia una sola vez, lo que pida el servicio más exigente
+ */
+export function getMinutosLimpieza(servicios: Pick<ServicioResumen, 'minutosLimpieza'>[]): number {
+  return Math.max(0, ...servicios.map((s) => s.minutosLimpieza ?? 0));
+}
+
+/**
+ * Minutos de limpieza después de la reserva
+ */
+export function getMinutosLimpiezaReserva(reserva: Reserva): number {
+  return getMinutosLimpieza(getServiciosReserva(reserva));
+}
+
+/**
+ * ¿La reserva trae el precio que se cobró por cada servicio (precioReserva)?
+ * Si no, sus importes se calculan con los precios actuales.
+ */
+export function tienePrecioReserva(reserva: Reserva): boolean {
+  return getServiciosReserva(reserva).every((s) => s.precioReserva != null);
+}
+
+/**
+ * Servicios de la reserva con el precio que se cobró: la foto al
+ * reservar (precioReserva) o, si no la trae, el precio actual del profesional
+ */
+function getServiciosConPrecio(reserva: Reserva, serviciosProfesional?: ServicioProfesional[]): ServicioResumen[] {
+  return personalizarServicios(getServiciosReserva(reserva), serviciosProfesional).map((servicio) => ({
+    ...servicio,
+    precio: servicio.precioReserva ?? servicio.precio,
+  }));
+}
+
+/**
+ * Precio total de la reserva (el del paquete si se reservó como paquete)
+ *
+ * @param serviciosProfesional - Servicios de su profesional (precios personalizados)
+ */
+export function getPrecioReserva(reserva: Reserva, serviciosProfesional?: ServicioProfesional[]): number {
+  return reserva.paquete?.precio ?? sumarPrecio(getServiciosConPrecio(reserva, serviciosProfesional));
+}
+
+/**
+ * Lo cobrado por cada servicio de la reserva (ver getServiciosConPrecio).
+ * En un paquete, su precio se reparte en proporción al precio normal
+ * de cada servicio.
+ */
+export function getPreciosServiciosReserva(
+  reserva: Reserva,
+  serviciosProfesional?: ServicioProfesional[]
+): { servicio: ServicioResumen; precio: number }[] {
+  const servicios = getServiciosConPrecio(reserva, serviciosProfesional);
+  const suma = sumarPrecio(servicios);
+  const factor = reserva.paquete && suma > 0 ? reserva.paquete.precio / suma : 1;
+  return servicios.map((servicio) => ({ servicio, precio: servicio.precio * factor }));
+}
+
+/**
+ * Nombres de los servicios: "Corte + Barba + Cejas"
+ */
+export function getNombreServicios(servicios: Pick<ServicioResumen, 'nombre'>[]): string {
+  return servicios.map((s) => s.nombre).join(' + ');
+}
+
+// ============================================================
+// GESTIÓN POR EL CLIENTE
+// ============================================================
+
+/** Estados en los que el cliente todavía puede cancelar o reprogramar */
+export const ESTADOS_GESTIONABLES: EstadoReserva[] = ['PENDIENTE', 'CONFIRMADA'];
+
+/**
+ * Momento límite para cancelar o reprogramar una reserva
+ *
+ * @example
+ * // Cita 20/01 10:30 con 24 horas de anticipación → 19/01 10:30
+ * getLimiteCancelacion(reserva, 24);
+ */
+export function getLimiteCancelacion(reserva: Reserva, horasLimite: number): Date {
+  return dayjs(reserva.fechaHora).subtract(horasLimite, 'hour').toDate();
+}
+
+/**
+ * Indica por qué el cliente NO puede gestionar la reserva.
+ * Retorna null si puede cancelarla o reprogramarla.
+ */
+export function getMotivoNoGestionable(
+  reserva: Reserva,
+  horasLimite: number,
+  ahora: Date = new Date()
+): string | null {
+  if (!ESTADOS_GESTIONABLES.includes(reserva.estado)) {
+    return 'Esta reserva ya no se puede modificar.';
+  }
+
+  if (dayjs(ahora).isAfter(getLimiteCancelacion(reserva, horasLimite))) {
+    return `Solo puedes cancelar o reprogramar hasta ${horasLimite} horas antes de tu cita. Comunícate con el negocio.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,82 @@
+/**
+ * ============================================================
+ * UTILIDADES - SERVICIOS Y CATEGORÍAS
+ * ============================================================
+ * Cada Servicio trae su categoría resumida (o null). Con eso se
+ * agrupa el catálogo público y se cuenta cuántos servicios tiene
+ * cada categoría, sin pedir las categorías aparte.
+ *
+ * También arma los enlaces del catálogo a /reservar con el servicio
+ * ya elegido (?servicio=3).
+ */
+
+import type { CategoriaResumen, Servicio } from '@/lib/types';
+
+/** Título del grupo de servicios sin categoría */
+export const NOMBRE_SIN_CATEGORIA = 'Otros servicios';
+
+export interface GrupoServicios {
+  /** null = servicios sin categoría */
+  categoria: CategoriaResumen | null;
+  servicios: Servicio[];
+}
+
+/**
+ * Agrupa los servicios por categoría (orden alfabético; los sin
+ * categoría al final). Las categorías sin servicios no aparecen.
+ */
+export function agruparPorCategoria(servicios: Servicio[]): GrupoServicios[] {
+  const grupos = new Map<number | null, GrupoServicios>();
+
+  for (const servicio of servicios) {
+    const categoria = servicio.categoria ?? null;
+    const clave = categoria?.id ?? null;
+    const grupo = grupos.get(clave) ?? { categoria, servicios: [] };
+    grupo.servicios.push(servicio);
+    grupos.set(clave, grupo);
+  }
+
+  return [...grupos.values()].sort((a, b) => {
+    if (!a.categoria) return 1;
+    if (!b.categoria) return -1;
+    return a.categoria.nombre.localeCompare(b.categoria.nombre, 'es');
+  });
+}
+
+/**
+ * Cantidad de servicios por id de categoría
+ */
+export function contarServiciosPorCategoria(servicios: Servicio[]): Record<number, number> {
+  return servicios.reduce<Record<number, number>>((conteo, servicio) => {
+    if (servicio.categoria) {
+      conteo[servicio.categoria.id] = (conteo[servicio.categoria.id] ?? 0) + 1;
+    }
+    return conteo;
+  }, {});
+}
+
+// ============================================================
+// ENLACES A /reservar
+// ============================================================
+
+/** Query param de /reservar con los servicios preseleccionados */
+export const PARAM_SERVICIO_RESERVA = 'servicio';
+
+/**
+ * URL para reservar directamente un servicio: /reservar?servicio=3
+ */
+export function getUrlReservarServicio(servicioId: number): string {
+  return `/reservar?${PARAM_SERVICIO_RESERVA}=${servicioId}`;
+}
+
+/**
+ * Ids del query param (acepta "3" o "3,5"); ignora valores inválidos
+ */
+export function parseServiciosParam(valor: string | null): number[] {
+  if (!valor) return [];
+  const ids = valor
+    .split(',')
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+  return [...new Set(ids)];
+}
@@ -39,10 +39,12 @@ const PUBLIC_ROUTES = [
   '/reservar',   // Página pública para reservar
   '/nosotros',   // Página nosotros
   '/servicios',  // Página servicios públicos
+  '/pantalla',   // TV de la sala de espera (usa su propia clave)
 ];
 
 // Rutas que empiezan con estas rutas también son públicas
 const PUBLIC_PREFIXES = [
+  '/reservar/',  // Gestión de reserva por código (/reservar/[codigo])
   '/api/public', // APIs públicas
   '/_next',      // Archivos de Next.js
   '/favicon',    // Favicon
@@ -61,9 +63,15 @@ const PUBLIC_PREFIXES = [
 const ROUTE_PERMISSIONS: Record<string, string[]> = {
   '/dashboard/clientes': ['READ_CLIENTS'],
   '/dashboard/profesionales': ['READ_PROFESSIONALS'],
+  '/dashboard/excepciones': ['READ_PROFESSIONALS'],
   '/dashboard/categorias': ['READ_CATEGORIES'],
   '/dashboard/servicios': ['READ_SERVICES'],
+  '/dashboard/paquetes': ['READ_SERVICES'],
+  '/dashboard/agenda': ['READ_BOOKING'],
+  '/dashboard/cola': ['READ_BOOKING'],
   '/dashboard/reservas': ['READ_BOOKING'],
+  '/dashboard/mi-agenda': ['READ_OWN_BOOKING'],
+  '/dashboard/comisiones': ['READ_COMMISSIONS'],
   '/dashboard/configuracion': ['MANAGE_SETTINGS'],
 };
 